@@ -0,0 +1,83 @@
+import type { Actor, ActorConfig, Scene } from '../types';
+import type { ActorState } from '../timeline/interpolate';
+import { getActorMatrix } from '../geometry/actorBounds';
+import { multiplyMatrix, parseTransform, matrixToString } from '../transform/matrix';
+import { createActor } from './createActor';
+
+// ─── Clip and mask actors ───────────────────────────────────────────────────
+//
+// An actor clips or masks another through `Actor.clipPath` / `Actor.mask`.
+// The clipping actor animates like any other — position, scale, rotation
+// and `pathD` move the reveal — but renderers draw it only as the clip or
+// mask content of the actors that reference it.
+//
+
+/** One shape of a clip or mask, in viewBox space */
+export interface ClipShape {
+  d: string;
+  /** The actor transform composed with the path's own transform */
+  transform: string;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity: number;
+}
+
+/**
+ * Create an actor from a `<clipPath>` or `<mask>` definition in
+ * `scene.clips`, ready to be referenced from another actor's `clipPath` or
+ * `mask`. The id defaults to the definition id.
+ *
+ * @example
+ * ```ts
+ * const wipe = createClipActor(scene, 'reveal', { origin: 'left' });
+ * const photo = createActor({ id: 'photo', paths, origin: 'center', clipPath: wipe.id });
+ * ```
+ */
+export function createClipActor(
+  scene: Scene,
+  clipId: string,
+  config: Partial<Pick<ActorConfig, 'id' | 'origin' | 'z'>> = {},
+): Actor {
+  const clip = scene.clips?.find((c) => c.id === clipId);
+  if (!clip) {
+    throw new Error(`motion-svg: Unknown clip "${clipId}".`);
+  }
+  if (clip.units === 'objectBoundingBox') {
+    throw new Error(`motion-svg: Clip "${clipId}" uses objectBoundingBox units, which clip actors do not support.`);
+  }
+  return createActor({
+    id: config.id ?? clip.id,
+    paths: clip.paths,
+    origin: config.origin ?? 'center',
+    z: config.z,
+  });
+}
+
+/** Ids of the actors used as a clip or mask by another actor — renderers don't draw these directly. */
+export function getClipSourceIds(actors: Actor[]): Set<string> {
+  const ids = new Set<string>();
+  for (const a of actors) {
+    if (a.clipPath) ids.add(a.clipPath);
+    if (a.mask) ids.add(a.mask);
+  }
+  return ids;
+}
+
+/**
+ * The shapes of a clip or mask actor as drawn at `state`. `<clipPath>`
+ * content can't be grouped, so the actor transform is folded into each
+ * shape's `transform`; fill and opacity matter for masks only.
+ */
+export function getClipShapes(actor: Actor, state?: ActorState): ClipShape[] {
+  const m = getActorMatrix(actor, state);
+  const opacity = state?.opacity ?? actor.opacity;
+  return actor.paths.map((p) => ({
+    d: state?.pathD ?? p.d,
+    transform: matrixToString(p.transform ? multiplyMatrix(m, parseTransform(p.transform)) : m),
+    fill: state?.fill ?? p.fill,
+    stroke: state?.stroke ?? p.stroke,
+    strokeWidth: state?.strokeWidth ?? p.strokeWidth,
+    opacity: opacity * (p.opacity ?? 1),
+  }));
+}
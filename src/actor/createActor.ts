@@ -1,33 +1,42 @@
 import type { Actor, ActorConfig } from '../types';
+import { resolveOrigin } from './origin';
 
 let actorCounter = 0;
 
 /**
- * Create an Actor — a controllable wrapper around one or more SVG paths.
+ * Create an Actor — a controllable wrapper around one or more SVG paths
+ * and text elements.
  *
  * An Actor has its own position, scale, rotation and opacity and can be
- * animated independently via the timeline system.
+ * animated independently via the timeline system. A named `origin` anchor
+ * (`'center'`, `'top-left'`, `{ fx, fy }`, …) is resolved to a point here,
+ * so the actor — and any bundle exported from it — always holds a point.
  */
 export function createActor(config: ActorConfig): Actor {
-  const { id, paths, origin, z } = config;
+  const { id, paths, texts, origin, z, clipPath, mask, maskType, filters } = config;
 
-  if (!paths || paths.length === 0) {
-    throw new Error(`motion-svg: createActor("${id}") requires at least one path.`);
+  if ((!paths || paths.length === 0) && (!texts || texts.length === 0)) {
+    throw new Error(`motion-svg: createActor("${id}") requires at least one path or text.`);
   }
 
   actorCounter++;
+  const resolved = resolveOrigin(origin, paths ?? [], texts);
 
   return {
     id: id || `actor-${actorCounter}`,
-    pathIds: paths.map((p) => p.id),
-    paths: [...paths],
-    origin: { ...origin },
-    position: { ...origin },
+    pathIds: (paths ?? []).map((p) => p.id),
+    paths: [...(paths ?? [])],
+    ...(texts?.length ? { textIds: texts.map((t) => t.id), texts: [...texts] } : {}),
+    origin: resolved,
+    position: { ...resolved },
     scale: 1,
     rotation: 0,
     opacity: 1,
     blurRadius: 0,
     backdropBlur: 0,
     z: z ?? 0,
+    ...(clipPath ? { clipPath } : {}),
+    ...(mask ? { mask, ...(maskType ? { maskType } : {}) } : {}),
+    ...(filters?.length ? { filters: filters.map((f) => ({ ...f })) } : {}),
   };
 }
@@ -1,3 +1,6 @@
 export { createActor } from './createActor';
+export { resolveOrigin } from './origin';
+export { createClipActor, getClipSourceIds, getClipShapes } from './clip';
+export type { ClipShape } from './clip';
 export { generateShapePath } from './shapes';
 export type { ShapeOptions } from './shapes';
@@ -0,0 +1,90 @@
+import type { ActorOrigin, OriginAnchor, Point, SvgPath, SvgText, Bounds } from '../types';
+import { getPathBounds, getPathArea, getPathCentroid, unionBounds, transformBounds } from '../geometry/pathGeometry';
+import { estimateTextBounds } from '../text/textLayout';
+import { parseTransform } from '../transform/matrix';
+import { transformPathD } from '../transform/bakeTransforms';
+
+// ─── Origin anchors ─────────────────────────────────────────────────────────
+
+/** Bounding-box fractions for each named anchor */
+const ANCHORS: Record<Exclude<OriginAnchor, 'centroid'>, [number, number]> = {
+  'center': [0.5, 0.5],
+  'top-left': [0, 0],
+  'top': [0.5, 0],
+  'top-right': [1, 0],
+  'left': [0, 0.5],
+  'right': [1, 0.5],
+  'bottom-left': [0, 1],
+  'bottom': [0.5, 1],
+  'bottom-right': [1, 1],
+};
+
+/**
+ * Resolve an actor origin to a point in viewBox space. Anchors and fractions
+ * refer to the union of the paths' bounds (with each path's own `transform`
+ * applied); `centroid` is the area-weighted centroid of the paths. Texts
+ * count with their estimated box. Actors without geometry resolve to (0, 0).
+ *
+ * @example
+ * ```ts
+ * resolveOrigin('center', paths);          // middle of the bounding box
+ * resolveOrigin({ fx: 0.5, fy: 1 }, paths); // bottom center
+ * ```
+ */
+export function resolveOrigin(origin: ActorOrigin, paths: SvgPath[], texts: SvgText[] = []): Point {
+  if (typeof origin === 'object') {
+    if ('x' in origin) return { x: origin.x, y: origin.y };
+    return atFraction(contentBounds(paths, texts), origin.fx, origin.fy);
+  }
+
+  if (origin === 'centroid') return centroid(paths, texts);
+
+  const fractions = ANCHORS[origin];
+  if (!Array.isArray(fractions)) {
+    throw new Error(`motion-svg: Unknown origin anchor "${origin}".`);
+  }
+  return atFraction(contentBounds(paths, texts), fractions[0], fractions[1]);
+}
+
+function viewBoxD(p: SvgPath): string {
+  return p.transform ? transformPathD(p.d, parseTransform(p.transform)) : p.d;
+}
+
+function textBounds(t: SvgText): Bounds {
+  const b = estimateTextBounds(t);
+  return t.transform ? transformBounds(b, parseTransform(t.transform)) : b;
+}
+
+function contentBounds(paths: SvgPath[], texts: SvgText[]): Bounds | null {
+  return unionBounds([...paths.map((p) => getPathBounds(viewBoxD(p))), ...texts.map(textBounds)]);
+}
+
+function atFraction(b: Bounds | null, fx: number, fy: number): Point {
+  if (!b) return { x: 0, y: 0 };
+  return { x: b.x + b.w * fx, y: b.y + b.h * fy };
+}
+
+function centroid(paths: SvgPath[], texts: SvgText[]): Point {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (const p of paths) {
+    const d = viewBoxD(p);
+    const a = getPathArea(d);
+    const c = getPathCentroid(d);
+    area += a;
+    x += c.x * a;
+    y += c.y * a;
+  }
+  // Text has no outline to integrate — weigh its box instead
+  for (const t of texts) {
+    const b = textBounds(t);
+    const a = b.w * b.h;
+    area += a;
+    x += (b.x + b.w / 2) * a;
+    y += (b.y + b.h / 2) * a;
+  }
+  // Nothing encloses area (e.g. only strokes) — use the bounding box center
+  if (area <= 1e-9) return atFraction(contentBounds(paths, texts), 0.5, 0.5);
+  return { x: x / area, y: y / area };
+}
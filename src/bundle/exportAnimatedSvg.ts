@@ -0,0 +1,721 @@
+import type {
+  Actor,
+  EasingCurve,
+  GradientDef,
+  SvgPath,
+  Timeline,
+} from '../types';
+import type { ImportedBundle } from './importBundle';
+import { getActorStateAtTime, type ActorState } from '../timeline/interpolate';
+import { parsePathD, normalizeToCubic, balancePaths, type NormalizedPath } from '../timeline/pathMorph';
+import { toCubicBezier } from '../easing/curves';
+import { resolveLoop, type LoopSettings } from '../trigger/playback';
+import { resolveSceneLoops } from '../trigger/scenePlayback';
+import { isDrivenTrigger } from '../trigger/drivers';
+import { getClipSourceIds } from '../actor/clip';
+import { pathFrame } from '../render/actorFrame';
+import { attrs, escapeAttr, gradientMarkup, num, pathMarkup, textMarkup } from '../render/markup';
+
+// ─── Animated SVG export ────────────────────────────────────────────────────
+//
+// Compiles a scene into a standalone SVG that animates without JavaScript —
+// for email, CMS and other targets that only accept markup. Every animated
+// channel of a timeline becomes one track of (time, value) stops with a
+// per-segment easing, which is then written out either as SMIL
+// <animate>/<animateTransform> elements or as CSS @keyframes.
+//
+// Easings with a cubic-bezier equivalent are emitted as such. Anything else
+// (elastic, bounce, overshooting curves in SMIL, gradient blends) is baked
+// into sampled keyframes and listed in the result.
+//
+
+export type AnimatedSvgMode = 'css' | 'smil';
+
+/** Channels the exporter compiles */
+export type AnimatedSvgProperty =
+  | 'position'
+  | 'scale'
+  | 'rotation'
+  | 'opacity'
+  | 'fill'
+  | 'stroke'
+  | 'strokeWidth'
+  | 'pathD';
+
+export interface AnimatedSvgOptions {
+  /** Output flavour: CSS @keyframes in a <style> block, or SMIL animation elements */
+  mode: AnimatedSvgMode;
+  /** Samples per second for baked segments (default: 30) */
+  fps?: number;
+}
+
+/** A channel that could not be expressed natively and was sampled instead. */
+export interface BakedFeature {
+  actorId: string;
+  property: AnimatedSvgProperty;
+  /** What forced the bake: an easing that has no cubic-bezier form, a gradient blend, a motion path or a non-sRGB color blend */
+  feature: 'easing' | 'gradient' | 'motionPath' | 'colorSpace';
+  /** Easing name (or `cubicBezier`) for easing bakes, the color space for color bakes, the gradient reference or path `d` otherwise */
+  detail: string;
+}
+
+export interface AnimatedSvgResult {
+  /** Standalone SVG markup */
+  svg: string;
+  /** Channels that were baked into sampled keyframes */
+  baked: BakedFeature[];
+  /** Things the static output cannot reproduce (interactive triggers, unsupported channels) */
+  warnings: string[];
+}
+
+export type AnimatedSvgSource = Pick<ImportedBundle, 'scene' | 'actors' | 'timelines' | 'triggers' | 'composition'>;
+
+/**
+ * Compile a scene into a standalone animated SVG.
+ *
+ * Timelines play when the SVG loads as on the scene clock of
+ * `createScenePlayback`: together, or at their offsets when the source has a
+ * composition, and a `loop` trigger repeats only its own timeline with its
+ * iterations, direction and delay. Hover, click, scroll and appear triggers need
+ * JavaScript — their timelines play on load and are listed in `warnings`.
+ *
+ * Position, scale and rotation are applied around `Actor.origin`, exactly as
+ * the runtime renderers do.
+ *
+ * @example
+ * ```ts
+ * const { svg, baked } = exportAnimatedSvg(importBundle(json), { mode: 'smil' });
+ * ```
+ */
+export function exportAnimatedSvg(source: AnimatedSvgSource, options: AnimatedSvgOptions): AnimatedSvgResult {
+  if (options.mode !== 'css' && options.mode !== 'smil') {
+    throw new Error(`motion-svg: Unknown animated SVG mode "${String(options.mode)}".`);
+  }
+
+  const { scene, actors, timelines, triggers } = source;
+  const ctx: CompileContext = {
+    mode: options.mode,
+    fps: Math.max(1, options.fps ?? 30),
+    gradients: scene.gradients ?? [],
+    bakedGradients: [],
+    baked: [],
+    warnings: [],
+  };
+
+  const timelineIds = new Set(timelines.map((tl) => tl.id));
+  for (const binding of triggers) {
+    if (timelineIds.has(binding.timelineId) && isDrivenTrigger(binding)) {
+      ctx.warnings.push(
+        `Timeline "${binding.timelineId}" has a ${binding.config.type} trigger — it plays on load in the exported SVG.`,
+      );
+    }
+  }
+
+  const offsets = source.composition?.offsets ?? {};
+  const offsetOf = (id: string) => offsets[id] ?? 0;
+  const duration = Math.max(0, ...timelines.map((tl) => offsetOf(tl.id) + tl.duration));
+  const loops = resolveSceneLoops(timelines, triggers, offsetOf);
+
+  /** Where a timeline's keys sit: on the scene cycle, or on passes of its own loop */
+  const placement = (tl: Timeline): { shift: number; clock: TrackClock } => {
+    const loop = loops.timelines.get(tl.id);
+    if (loops.clock || !loop || loop.iterations <= 1 || tl.duration <= 0) {
+      return { shift: offsetOf(tl.id), clock: { lead: 0, span: duration, loop: loops.clock ?? resolveLoop() } };
+    }
+    return { shift: 0, clock: { lead: offsetOf(tl.id), span: tl.duration, loop } };
+  };
+
+  // Build every track first — baking may add gradient defs
+  const tracksByActor = new Map<string, Track[]>();
+  if (duration > 0) {
+    for (const tl of timelines) {
+      const actor = actors.find((a) => a.id === tl.actorId);
+      if (!actor) continue;
+      warnUnsupported(tl, ctx);
+      const tracks = tracksByActor.get(actor.id) ?? [];
+      const { shift, clock } = placement(tl);
+      for (const property of PROPERTIES) {
+        const keys = buildKeys(tl, actor, property, ctx);
+        if (!keys) continue;
+        // Composed timelines hold their first frame until their offset
+        tracks.push({ actorId: actor.id, property, keys: shiftKeys(keys, shift), clock });
+      }
+      tracksByActor.set(actor.id, tracks);
+    }
+  }
+
+  const vb = scene.viewBox;
+  let out = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vb.x} ${vb.y} ${vb.w} ${vb.h}"`;
+  if (scene.metadata?.width) out += ` width="${scene.metadata.width}"`;
+  if (scene.metadata?.height) out += ` height="${scene.metadata.height}"`;
+  out += '>';
+
+  if (ctx.mode === 'css') {
+    const css = renderCss(actors, tracksByActor);
+    if (css) out += `<style>${css}</style>`;
+  }
+
+  const defs = [...ctx.gradients, ...ctx.bakedGradients];
+  if (defs.length > 0) {
+    out += `<defs>${defs.map(gradientMarkup).join('')}</defs>`;
+  }
+
+  // Static paths (not part of any actor)
+  const actorPathIds = new Set(actors.flatMap((a) => a.pathIds));
+  for (const p of scene.paths) {
+    if (!actorPathIds.has(p.id)) out += pathMarkup(p);
+  }
+  const actorTextIds = new Set(actors.flatMap((a) => a.textIds ?? []));
+  for (const t of scene.texts ?? []) {
+    if (!actorTextIds.has(t.id)) out += textMarkup(t);
+  }
+
+  // Clip and mask sources only shape other actors — they are never drawn
+  const clipSources = getClipSourceIds(actors);
+  for (const actor of actors) {
+    if (clipSources.has(actor.id)) continue;
+    if (actor.clipPath || actor.mask) {
+      ctx.warnings.push(`Actor "${actor.id}" is clipped or masked by another actor, which is not exported.`);
+    }
+    if (actor.filters?.length) {
+      ctx.warnings.push(`Actor "${actor.id}" has a filter stack, which is not exported.`);
+    }
+    const tracks = tracksByActor.get(actor.id) ?? [];
+    const aligned = actor.paths.find((p) => p.strokeAlign && p.strokeAlign !== 'center' && p.strokeWidth);
+    if (aligned && tracks.some((t) => PATH_PROPERTIES.has(t.property))) {
+      ctx.warnings.push(
+        `Actor "${actor.id}" animates paths with an ${aligned.strokeAlign} stroke, which is exported centered.`,
+      );
+    }
+    out += ctx.mode === 'smil'
+      ? renderSmilActor(actor, tracks)
+      : renderCssActor(actor, tracks);
+  }
+
+  out += '</svg>';
+  return { svg: out, baked: ctx.baked, warnings: ctx.warnings };
+}
+
+// ─── Tracks ─────────────────────────────────────────────────────────────────
+
+const PROPERTIES: AnimatedSvgProperty[] = [
+  'position', 'rotation', 'scale', 'opacity', 'fill', 'stroke', 'strokeWidth', 'pathD',
+];
+
+/** Properties rendered on the actor's paths rather than on its group */
+const PATH_PROPERTIES = new Set<AnimatedSvgProperty>(['fill', 'stroke', 'strokeWidth', 'pathD']);
+
+type TrackValue = number[] | string;
+
+/** Easing of the segment that ends at a stop */
+type SegmentEasing =
+  | { kind: 'linear' }
+  | { kind: 'bezier'; x1: number; y1: number; x2: number; y2: number }
+  | { kind: 'step' };
+
+interface TrackKey {
+  /** Time in the track's first pass (ms) */
+  at: number;
+  value: TrackValue;
+  /** Easing from the previous key to this one (ignored on the first key) */
+  easing: SegmentEasing;
+}
+
+interface TrackStop {
+  /** Fraction of the animation's duration, 0..1 */
+  t: number;
+  value: TrackValue;
+  easing: SegmentEasing;
+}
+
+interface Track {
+  actorId: string;
+  property: AnimatedSvgProperty;
+  keys: TrackKey[];
+  clock: TrackClock;
+}
+
+/** When and how often a track plays */
+interface TrackClock {
+  /** Wait before the first pass, holding its first frame (ms) */
+  lead: number;
+  /** One pass without the loop delay (ms) */
+  span: number;
+  loop: LoopSettings;
+}
+
+/** One animation element or CSS animation of a track */
+interface TrackPlay {
+  stops: TrackStop[];
+  /** Start on the scene clock (ms) */
+  begin: number;
+  dur: number;
+  repeat: number;
+  /** CSS only: play every other repeat backward natively */
+  alternate?: boolean;
+}
+
+interface CompileContext {
+  mode: AnimatedSvgMode;
+  fps: number;
+  gradients: GradientDef[];
+  bakedGradients: GradientDef[];
+  baked: BakedFeature[];
+  warnings: string[];
+}
+
+const LINEAR: SegmentEasing = { kind: 'linear' };
+const STEP: SegmentEasing = { kind: 'step' };
+
+function hasProperty(property: AnimatedSvgProperty, kf: Timeline['keyframes'][number]): boolean {
+  if (property === 'position' && kf.motionPath) return true;
+  if (property === 'fill' && kf.fillGradient) return true;
+  if (property === 'stroke' && kf.strokeGradient) return true;
+  if (property === 'rotation' && kf.motionPath?.autoRotate) return true;
+  return kf[property] !== undefined;
+}
+
+/** Whether a segment ending on `kf` follows a motion path for this channel */
+function followsPath(property: AnimatedSvgProperty, kf: Timeline['keyframes'][number]): boolean {
+  return property === 'position' ? !!kf.motionPath : property === 'rotation' && !!kf.motionPath?.autoRotate;
+}
+
+/** Compile one channel of a timeline to keys. Returns null when the timeline doesn't animate it. */
+function buildKeys(tl: Timeline, actor: Actor, property: AnimatedSvgProperty, ctx: CompileContext): TrackKey[] | null {
+  const kfs = tl.keyframes.filter((kf) => hasProperty(property, kf));
+  if (kfs.length === 0) return null;
+
+  const gradients = ctx.gradients;
+  const sample = (at: number) => getActorStateAtTime(tl, at, { gradients });
+  const keys: TrackKey[] = [];
+
+  const isPaint = property === 'fill' || property === 'stroke';
+  const gradientChannel = property === 'fill' ? 'fillGradient' : 'strokeGradient';
+  const animatesGradient = isPaint && kfs.some((kf) => kf[gradientChannel]);
+  if (isPaint && (animatesGradient || kfs.some((kf) => String(kf[property]).startsWith('url(')))) {
+    // Gradient references can't be interpolated by SMIL or CSS — sample the
+    // blend into discrete gradient defs and step through them.
+    const start = kfs[0].at;
+    const end = kfs[kfs.length - 1].at;
+    const steps = sampleCount(end - start, ctx.fps);
+    let prev: string | undefined;
+    for (let i = 0; i <= steps; i++) {
+      const at = steps > 0 ? start + ((end - start) * i) / steps : start;
+      const value = bakePaint(sample(at), property, actor.id, ctx);
+      if (value !== undefined && value !== prev) keys.push({ at, value, easing: STEP });
+      prev = value;
+    }
+    if (animatesGradient || kfs.some((kf, i) => i > 0 && kf[property] !== kfs[i - 1][property])) {
+      const ref = kfs.map((kf) => kf[gradientChannel]?.ref).find(Boolean);
+      const detail = kfs.map((kf) => kf[property]).find((v) => String(v).startsWith('url(')) ?? `url(#${ref})`;
+      recordBake(ctx, { actorId: actor.id, property, feature: 'gradient', detail });
+    }
+  } else {
+    keys.push({ at: kfs[0].at, value: readValue(sample(kfs[0].at), property, actor)!, easing: LINEAR });
+    for (let i = 1; i < kfs.length; i++) {
+      const prev = kfs[i - 1];
+      const next = kfs[i];
+      const alongPath = followsPath(property, next);
+      // SMIL and CSS blend colors in sRGB only
+      const otherSpace = isPaint && next.colorSpace !== undefined && next.colorSpace !== 'srgb';
+      const easing = alongPath || otherSpace ? null : compileEasing(next.curve, ctx.mode);
+      if (!easing) {
+        // No native form — sample the segment and join the samples linearly
+        const steps = sampleCount(next.at - prev.at, ctx.fps);
+        for (let s = 1; s < steps; s++) {
+          const at = prev.at + ((next.at - prev.at) * s) / steps;
+          keys.push({ at, value: readValue(sample(at), property, actor)!, easing: LINEAR });
+        }
+        recordBake(ctx, {
+          actorId: actor.id,
+          property,
+          ...(alongPath
+            ? { feature: 'motionPath' as const, detail: next.motionPath!.d }
+            : otherSpace
+              ? { feature: 'colorSpace' as const, detail: next.colorSpace! }
+              : { feature: 'easing' as const, detail: typeof next.curve === 'string' ? next.curve : 'cubicBezier' }),
+        });
+      }
+      keys.push({ at: next.at, value: readValue(sample(next.at), property, actor)!, easing: easing ?? LINEAR });
+    }
+  }
+
+  if (property === 'pathD') alignPaths(keys);
+
+  return keys.length > 0 ? keys : null;
+}
+
+function shiftKeys(keys: TrackKey[], shift: number): TrackKey[] {
+  return shift > 0 ? keys.map((k) => ({ ...k, at: k.at + shift })) : keys;
+}
+
+function sampleCount(spanMs: number, fps: number): number {
+  return Math.max(2, Math.ceil((spanMs / 1000) * fps));
+}
+
+function recordBake(ctx: CompileContext, entry: BakedFeature) {
+  const exists = ctx.baked.some((b) =>
+    b.actorId === entry.actorId && b.property === entry.property &&
+    b.feature === entry.feature && b.detail === entry.detail,
+  );
+  if (!exists) ctx.baked.push(entry);
+}
+
+function warnUnsupported(tl: Timeline, ctx: CompileContext) {
+  const unsupported = [
+    'blurRadius', 'backdropBlur', 'width', 'height', 'trimStart', 'trimEnd', 'trimOffset',
+    'fontSize', 'letterSpacing', 'textReveal', 'filters',
+  ] as const;
+  for (const key of unsupported) {
+    if (tl.keyframes.some((kf) => kf[key] !== undefined)) {
+      ctx.warnings.push(`Timeline "${tl.id}" animates ${key}, which is not exported.`);
+    }
+  }
+}
+
+/** Read a channel from an interpolated state; transforms are made relative to the actor origin. */
+function readValue(state: ActorState, property: AnimatedSvgProperty, actor: Actor): TrackValue | undefined {
+  switch (property) {
+    case 'position':
+      return [state.position.x - actor.origin.x, state.position.y - actor.origin.y];
+    case 'scale':
+      return typeof state.scale === 'number'
+        ? [state.scale, state.scale]
+        : [state.scale.x, state.scale.y];
+    case 'rotation':
+      return [state.rotation + (state.motionRotation ?? 0)];
+    case 'opacity':
+      return [state.opacity];
+    case 'strokeWidth':
+      return state.strokeWidth !== undefined ? [state.strokeWidth] : undefined;
+    case 'fill':
+      return state.fill;
+    case 'stroke':
+      return state.stroke;
+    case 'pathD':
+      return state.pathD;
+  }
+}
+
+/** Resolve a sampled paint, registering interpolated gradients under stable IDs. */
+function bakePaint(
+  state: ActorState,
+  property: 'fill' | 'stroke',
+  actorId: string,
+  ctx: CompileContext,
+): string | undefined {
+  const gradient = property === 'fill' ? state.fillGradient : state.strokeGradient;
+  if (!gradient) return property === 'fill' ? state.fill : state.stroke;
+  const id = `ms-${actorId}-${property}-${ctx.bakedGradients.length}`;
+  ctx.bakedGradients.push({ ...gradient, id });
+  return `url(#${id})`;
+}
+
+/** Give every path of a morph track the same cubic structure so it can be interpolated natively. */
+function alignPaths(keys: TrackKey[]) {
+  const normalized = keys.map((k) => normalizeToCubic(parsePathD(k.value as string)));
+  const closed = normalized.every((n) => n.closed);
+  balancePaths(normalized).forEach((balanced, i) => {
+    keys[i].value = serializePath(balanced, closed);
+  });
+}
+
+function serializePath(path: NormalizedPath, closed: boolean): string {
+  let d = `M${num(path.startX)},${num(path.startY)}`;
+  for (const s of path.segments) {
+    d += ` C${num(s.cx1)},${num(s.cy1)} ${num(s.cx2)},${num(s.cy2)} ${num(s.x)},${num(s.y)}`;
+  }
+  return closed ? `${d} Z` : d;
+}
+
+// ─── Easing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Native easing for a segment, or null when it has to be baked. SMIL
+ * keySplines must stay inside the unit square, so overshooting curves are
+ * only native in CSS.
+ */
+function compileEasing(curve: EasingCurve | undefined, mode: AnimatedSvgMode): SegmentEasing | null {
+  if (!curve || curve === 'linear') return LINEAR;
+
+  const bezier = toCubicBezier(curve);
+  if (!bezier) return null;
+
+  const { x1, y1, x2, y2 } = bezier;
+  const inUnit = (v: number) => v >= 0 && v <= 1;
+  if (!inUnit(x1) || !inUnit(x2)) return null;
+  if (mode === 'smil' && (!inUnit(y1) || !inUnit(y2))) return null;
+  return { kind: 'bezier', x1, y1, x2, y2 };
+}
+
+// ─── Loop handling ──────────────────────────────────────────────────────────
+
+/**
+ * The animations that play a track like the scene clock does. Each pass
+ * runs the keys and holds its end through the loop delay; the first pass
+ * runs forward after the lead-in, later passes of a `'reverse'` loop
+ * backward and those of an `'alternate'` loop backward and forward in turn.
+ * SMIL and CSS directions would reverse the first pass too, so directions
+ * are baked into the stops — only CSS alternates natively, when there is no
+ * lead-in or delay to misplace.
+ */
+function trackPlays(track: Track, mode: AnimatedSvgMode): TrackPlay[] {
+  const { lead, span, loop } = track.clock;
+  const { iterations, direction } = loop;
+  const period = span + (iterations > 1 ? loop.delay : 0);
+  const ahead = passStops(track.keys, period);
+
+  if (lead === 0 && (direction === 'normal' || iterations <= 1)) {
+    return [{ stops: ahead, begin: 0, dur: period, repeat: iterations }];
+  }
+  if (lead === 0 && direction === 'alternate') {
+    if (mode === 'css' && loop.delay === 0) {
+      return [{ stops: ahead, begin: 0, dur: period, repeat: iterations, alternate: true }];
+    }
+    return [{ stops: joinPasses(ahead, passStops(reverseKeys(track.keys, span), period)), begin: 0, dur: period * 2, repeat: iterations / 2 }];
+  }
+
+  const plays: TrackPlay[] = [
+    { stops: passStops(shiftKeys(track.keys, lead), lead + period), begin: 0, dur: lead + period, repeat: 1 },
+  ];
+  if (iterations <= 1) return plays;
+  const back = passStops(reverseKeys(track.keys, span), period);
+  const begin = lead + period;
+  if (direction === 'normal') plays.push({ stops: ahead, begin, dur: period, repeat: iterations - 1 });
+  else if (direction === 'reverse') plays.push({ stops: back, begin, dur: period, repeat: iterations - 1 });
+  else plays.push({ stops: joinPasses(back, ahead), begin, dur: period * 2, repeat: (iterations - 1) / 2 });
+  return plays;
+}
+
+/** Keys as fractions of one pass, holding the first and last values out to both ends. */
+function passStops(keys: TrackKey[], dur: number): TrackStop[] {
+  const stops: TrackStop[] = keys.map((k) => ({
+    t: dur > 0 ? Math.min(1, Math.max(0, k.at / dur)) : 1,
+    value: k.value,
+    easing: k.easing,
+  }));
+  if (stops[0].t > 0) stops.unshift({ t: 0, value: stops[0].value, easing: STEP });
+  const last = stops[stops.length - 1];
+  if (last.t < 1) stops.push({ t: 1, value: last.value, easing: STEP });
+  return stops;
+}
+
+/** Play keys backwards over `span` — segment easings are mirrored onto the reversed segments. */
+function reverseKeys(keys: TrackKey[], span: number): TrackKey[] {
+  const reversed: TrackKey[] = [];
+  for (let i = keys.length - 1; i >= 0; i--) {
+    const following = keys[i + 1];
+    reversed.push({
+      at: span - keys[i].at,
+      value: keys[i].value,
+      easing: following ? mirrorEasing(following.easing) : LINEAR,
+    });
+  }
+  return reversed;
+}
+
+function mirrorEasing(easing: SegmentEasing): SegmentEasing {
+  if (easing.kind !== 'bezier') return easing;
+  return { kind: 'bezier', x1: 1 - easing.x2, y1: 1 - easing.y2, x2: 1 - easing.x1, y2: 1 - easing.y1 };
+}
+
+/** Two passes packed into one animation of twice the length */
+function joinPasses(first: TrackStop[], second: TrackStop[]): TrackStop[] {
+  return [
+    ...first.map((s) => ({ ...s, t: s.t / 2 })),
+    ...second.slice(1).map((s) => ({ ...s, t: 0.5 + s.t / 2 })),
+  ];
+}
+
+// ─── SMIL output ────────────────────────────────────────────────────────────
+
+function renderSmilActor(actor: Actor, tracks: Track[]): string {
+  const find = (p: AnimatedSvgProperty) => tracks.filter((t) => t.property === p);
+  const { x: ox, y: oy } = actor.origin;
+
+  let inner = '';
+  const pathTracks = tracks.filter((t) => PATH_PROPERTIES.has(t.property));
+  for (const p of actor.paths) {
+    inner += pathTracks.length > 0
+      ? animatedPath(p, pathTracks.map((t) => smilAnimate(t, actor)).join(''))
+      : pathMarkup(p, undefined, `${actor.id}-${p.id}`);
+  }
+  for (const t of actor.texts ?? []) inner += textMarkup(t);
+
+  const scale = find('scale');
+  if (scale.length > 0) {
+    const anims = scale.map((t) => smilAnimate(t, actor)).join('');
+    inner = `<g transform="translate(${num(ox)},${num(oy)})">${anims}`
+      + `<g transform="translate(${num(-ox)},${num(-oy)})">${inner}</g></g>`;
+  }
+
+  const rotation = find('rotation');
+  if (rotation.length > 0) {
+    inner = `<g>${rotation.map((t) => smilAnimate(t, actor)).join('')}${inner}</g>`;
+  }
+
+  const groupAnims = [...find('position'), ...find('opacity')]
+    .map((t) => smilAnimate(t, actor))
+    .join('');
+  return `<g data-actor-id="${escapeAttr(actor.id)}">${groupAnims}${inner}</g>`;
+}
+
+function smilAnimate(track: Track, actor: Actor): string {
+  return trackPlays(track, 'smil').map((play) => smilElement(track, play, actor)).join('');
+}
+
+function smilElement(track: Track, { stops, begin, dur, repeat }: TrackPlay, actor: Actor): string {
+  const values = stops.map((s) => smilValue(track.property, s.value, actor)).join(';');
+  const keyTimes = stops.map((s) => num(s.t)).join(';');
+
+  const segments = stops.slice(1).map((s) => s.easing);
+  const splines = segments.some((e) => e.kind === 'bezier');
+  const stepped = segments.every((e) => e.kind === 'step');
+
+  const start = begin > 0 ? `${num(begin)}ms` : '0s';
+  let timing = `dur="${num(dur)}ms" begin="${start}" fill="freeze" repeatCount="${repeat === Infinity ? 'indefinite' : num(repeat)}"`;
+  timing += ` keyTimes="${keyTimes}"`;
+  if (stepped) {
+    timing += ' calcMode="discrete"';
+  } else if (splines) {
+    const keySplines = segments.map((e) =>
+      e.kind === 'bezier' ? `${num(e.x1)} ${num(e.y1)} ${num(e.x2)} ${num(e.y2)}` : '0 0 1 1',
+    );
+    timing += ` calcMode="spline" keySplines="${keySplines.join(';')}"`;
+  }
+
+  const valuesAttr = `values="${escapeAttr(values)}"`;
+  switch (track.property) {
+    case 'position':
+      return `<animateTransform attributeName="transform" type="translate" ${valuesAttr} ${timing}/>`;
+    case 'rotation':
+      return `<animateTransform attributeName="transform" type="rotate" ${valuesAttr} ${timing}/>`;
+    case 'scale':
+      return `<animateTransform attributeName="transform" type="scale" additive="sum" ${valuesAttr} ${timing}/>`;
+    default:
+      return `<animate attributeName="${ATTRIBUTE_NAMES[track.property]}" ${valuesAttr} ${timing}/>`;
+  }
+}
+
+function smilValue(property: AnimatedSvgProperty, value: TrackValue, actor: Actor): string {
+  if (typeof value === 'string') return value;
+  if (property === 'rotation') return `${num(value[0])} ${num(actor.origin.x)} ${num(actor.origin.y)}`;
+  return value.map(num).join(' ');
+}
+
+const ATTRIBUTE_NAMES: Record<AnimatedSvgProperty, string> = {
+  position: 'transform',
+  scale: 'transform',
+  rotation: 'transform',
+  opacity: 'opacity',
+  fill: 'fill',
+  stroke: 'stroke',
+  strokeWidth: 'stroke-width',
+  pathD: 'd',
+};
+
+// ─── CSS output ─────────────────────────────────────────────────────────────
+
+function renderCssActor(actor: Actor, tracks: Track[]): string {
+  const animated = tracks.some((t) => PATH_PROPERTIES.has(t.property));
+  let out = `<g data-actor-id="${escapeAttr(actor.id)}">`;
+  for (const p of actor.paths) out += animated ? animatedPath(p, '') : pathMarkup(p, undefined, `${actor.id}-${p.id}`);
+  for (const t of actor.texts ?? []) out += textMarkup(t);
+  return `${out}</g>`;
+}
+
+/**
+ * One @keyframes rule per track. Group channels use the individual
+ * `translate` / `rotate` / `scale` properties with `transform-origin` at the
+ * actor origin, which composes exactly like the runtime transform.
+ */
+function renderCss(actors: Actor[], tracksByActor: Map<string, Track[]>): string {
+  let css = '';
+  let index = 0;
+
+  for (const actor of actors) {
+    const tracks = tracksByActor.get(actor.id) ?? [];
+    if (tracks.length === 0) continue;
+    const selector = `[data-actor-id="${cssString(actor.id)}"]`;
+    const groupAnims: string[] = [];
+    const pathAnims: string[] = [];
+
+    for (const track of tracks) {
+      trackPlays(track, 'css').forEach(({ stops, begin, dur, repeat, alternate }, i) => {
+        const name = `ms-${index++}-${track.property}`;
+        css += `@keyframes ${name}{`;
+        stops.forEach((s, j) => {
+          const next = stops[j + 1];
+          css += `${num(s.t * 100)}%{${cssDeclaration(track.property, s.value)}`;
+          if (next) css += `;animation-timing-function:${cssEasing(next.easing)}`;
+          css += '}';
+        });
+        css += '}';
+        // Later passes must not fill backwards over the first one
+        const count = repeat === Infinity ? 'infinite' : num(repeat);
+        const anim = `${name} ${num(dur)}ms linear ${num(begin)}ms ${count} ${alternate ? 'alternate' : 'normal'} ${i === 0 ? 'both' : 'forwards'}`;
+        (PATH_PROPERTIES.has(track.property) ? pathAnims : groupAnims).push(anim);
+      });
+    }
+
+    if (groupAnims.length > 0) {
+      css += `${selector}{transform-box:view-box;transform-origin:${num(actor.origin.x)}px ${num(actor.origin.y)}px;`
+        + `animation:${groupAnims.join(',')}}`;
+    }
+    if (pathAnims.length > 0) {
+      css += `${selector} path{animation:${pathAnims.join(',')}}`;
+    }
+  }
+  return css;
+}
+
+function cssDeclaration(property: AnimatedSvgProperty, value: TrackValue): string {
+  if (typeof value === 'string') {
+    return property === 'pathD' ? `d:path("${value}")` : `${ATTRIBUTE_NAMES[property]}:${value}`;
+  }
+  switch (property) {
+    case 'position':
+      return `translate:${num(value[0])}px ${num(value[1])}px`;
+    case 'scale':
+      return `scale:${num(value[0])} ${num(value[1])}`;
+    case 'rotation':
+      return `rotate:${num(value[0])}deg`;
+    default:
+      return `${ATTRIBUTE_NAMES[property]}:${num(value[0])}`;
+  }
+}
+
+function cssEasing(easing: SegmentEasing): string {
+  if (easing.kind === 'step') return 'step-end';
+  if (easing.kind === 'bezier') {
+    return `cubic-bezier(${num(easing.x1)},${num(easing.y1)},${num(easing.x2)},${num(easing.y2)})`;
+  }
+  return 'linear';
+}
+
+// ─── Markup helpers ─────────────────────────────────────────────────────────
+
+/**
+ * A path whose paint or shape animates. The animations drive one element,
+ * so its stroke is drawn centered whatever its alignment.
+ */
+function animatedPath(p: SvgPath, children: string): string {
+  const f = pathFrame(p);
+  const a = attrs({
+    d: f.d,
+    fill: f.fill,
+    'fill-rule': f.fillRule,
+    stroke: f.stroke,
+    'stroke-width': f.strokeWidth,
+    'stroke-linejoin': f.strokeLinejoin,
+    'stroke-linecap': f.strokeLinecap,
+    'stroke-miterlimit': f.strokeMiterlimit,
+    opacity: f.opacity,
+    transform: f.transform,
+  });
+  return children ? `<path${a}>${children}</path>` : `<path${a}/>`;
+}
+
+function cssString(s: string): string {
+  return s.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
@@ -6,6 +6,11 @@ import type {
   BundleTimeline,
   BundleTrigger,
   BundleVariant,
+  BundleComposition,
+  Composition,
+  Timeline,
+  ActorFilter,
+  GradientKeyframe,
 } from '../types';
 
 /**
@@ -16,7 +21,7 @@ import type {
  * No external files are needed to render the animation.
  */
 export function exportBundle(config: ExportConfig): string {
-  const { scene, actors, timelines, triggers, variants } = config;
+  const { scene, actors, timelines, triggers, variants, composition } = config;
 
   const bundleScene: BundleScene = {
     viewBox: { ...scene.viewBox },
@@ -24,11 +29,14 @@ export function exportBundle(config: ExportConfig): string {
     paths: scene.paths.map((p) => ({ ...p })),
     colors: { ...scene.colors },
     gradients: scene.gradients?.length ? scene.gradients.map((g) => ({ ...g })) : undefined,
+    ...(scene.texts?.length ? { texts: scene.texts.map((t) => ({ ...t })) } : {}),
+    ...(scene.clips?.length ? { clips: scene.clips.map((c) => ({ ...c, paths: c.paths.map((p) => ({ ...p })) })) } : {}),
   };
 
   const bundleActors: BundleActor[] = actors.map((a) => ({
     id: a.id,
     pathIds: [...a.pathIds],
+    ...(a.textIds?.length ? { textIds: [...a.textIds] } : {}),
     origin: { ...a.origin },
     z: a.z,
     ...(a.shapeType ? { shapeType: a.shapeType } : {}),
@@ -36,6 +44,10 @@ export function exportBundle(config: ExportConfig): string {
     ...(a.height !== undefined ? { height: a.height } : {}),
     ...(a.childIds ? { childIds: [...a.childIds] } : {}),
     ...(a.parentId ? { parentId: a.parentId } : {}),
+    ...(a.clipPath ? { clipPath: a.clipPath } : {}),
+    ...(a.mask ? { mask: a.mask } : {}),
+    ...(a.maskType ? { maskType: a.maskType } : {}),
+    ...(a.filters?.length ? { filters: a.filters.map(copyFilter) } : {}),
   }));
 
   const bundleTimelines: BundleTimeline[] = timelines.map((tl) => ({
@@ -54,8 +66,21 @@ export function exportBundle(config: ExportConfig): string {
       ...(kf.backdropBlur !== undefined ? { backdropBlur: kf.backdropBlur } : {}),
       ...(kf.width !== undefined ? { width: kf.width } : {}),
       ...(kf.height !== undefined ? { height: kf.height } : {}),
+      ...(kf.pathD ? { pathD: kf.pathD } : {}),
+      ...(kf.trimStart !== undefined ? { trimStart: kf.trimStart } : {}),
+      ...(kf.trimEnd !== undefined ? { trimEnd: kf.trimEnd } : {}),
+      ...(kf.trimOffset !== undefined ? { trimOffset: kf.trimOffset } : {}),
+      ...(kf.motionPath ? { motionPath: { ...kf.motionPath } } : {}),
+      ...(kf.fontSize !== undefined ? { fontSize: kf.fontSize } : {}),
+      ...(kf.letterSpacing !== undefined ? { letterSpacing: kf.letterSpacing } : {}),
+      ...(kf.textReveal !== undefined ? { textReveal: kf.textReveal } : {}),
+      ...(kf.filters ? { filters: kf.filters.map(copyFilter) } : {}),
+      ...(kf.fillGradient ? { fillGradient: copyGradientKeyframe(kf.fillGradient) } : {}),
+      ...(kf.strokeGradient ? { strokeGradient: copyGradientKeyframe(kf.strokeGradient) } : {}),
+      ...(kf.colorSpace ? { colorSpace: kf.colorSpace } : {}),
       ...(kf.curve ? { curve: kf.curve } : {}),
     })),
+    ...(tl.markers?.length ? { markers: tl.markers.map((m) => ({ label: m.label, at: m.at })) } : {}),
   }));
 
   const bundleTriggers: BundleTrigger[] = (triggers ?? []).map((tb) => {
@@ -98,14 +123,75 @@ export function exportBundle(config: ExportConfig): string {
         }))
       : undefined;
 
+  const bundleComposition = composition ? copyComposition(composition, timelines) : undefined;
+
+  // The version is the oldest format that can hold the bundle:
+  // 1.1 added variants, 1.2 added motion path keyframes, 1.3 added trim keyframes,
+  // 1.4 added text, 1.5 added clip and mask actors, 1.6 added filter stacks,
+  // 1.7 added keyframe color spaces, 1.8 added gradient keyframes, 1.9 added markers,
+  // 1.10 added compositions
+  const usesMarkers = bundleTimelines.some((tl) => tl.markers);
+  const usesGradientKeyframes = bundleTimelines.some((tl) => tl.keyframes.some((kf) =>
+    kf.fillGradient || kf.strokeGradient,
+  ));
+  const usesColorSpaces = bundleTimelines.some((tl) => tl.keyframes.some((kf) => kf.colorSpace));
+  const usesFilters = bundleActors.some((a) => a.filters)
+    || bundleTimelines.some((tl) => tl.keyframes.some((kf) => kf.filters));
+  const usesClips = !!bundleScene.clips || bundleActors.some((a) => a.clipPath || a.mask);
+  const usesText = !!bundleScene.texts || bundleTimelines.some((tl) => tl.keyframes.some((kf) =>
+    kf.fontSize !== undefined || kf.letterSpacing !== undefined || kf.textReveal !== undefined,
+  ));
+  const usesTrim = bundleTimelines.some((tl) => tl.keyframes.some((kf) =>
+    kf.trimStart !== undefined || kf.trimEnd !== undefined || kf.trimOffset !== undefined,
+  ));
+  const usesMotionPaths = bundleTimelines.some((tl) => tl.keyframes.some((kf) => kf.motionPath));
+
   const bundle: Bundle = {
-    version: bundleVariants ? '1.1' : '1.0',
+    version: bundleComposition ? '1.10'
+      : usesMarkers ? '1.9'
+      : usesGradientKeyframes ? '1.8'
+      : usesColorSpaces ? '1.7'
+      : usesFilters ? '1.6'
+      : usesClips ? '1.5'
+      : usesText ? '1.4'
+      : usesTrim ? '1.3'
+      : usesMotionPaths ? '1.2'
+      : bundleVariants ? '1.1'
+      : '1.0',
     scene: bundleScene,
     actors: bundleActors,
     timelines: bundleTimelines,
     triggers: bundleTriggers,
     ...(bundleVariants ? { variants: bundleVariants } : {}),
+    ...(bundleComposition ? { composition: bundleComposition } : {}),
   };
 
   return JSON.stringify(bundle, null, 2);
 }
+
+/** Composition items as authored, with timelines as indices into the exported timelines */
+function copyComposition(c: Composition, timelines: Timeline[]): BundleComposition {
+  return {
+    items: c.items.map((item) => {
+      const id = item.timeline?.id;
+      const timelineIdx = id !== undefined ? timelines.findIndex((tl) => tl.id === id) : undefined;
+      if (timelineIdx === -1) {
+        throw new Error(`motion-svg: composition timeline "${id}" is not among the exported timelines.`);
+      }
+      return {
+        ...(timelineIdx !== undefined ? { timelineIdx } : {}),
+        ...(item.composition ? { composition: copyComposition(item.composition, timelines) } : {}),
+        ...(item.at !== undefined ? { at: item.at } : {}),
+        ...(item.label ? { label: item.label } : {}),
+      };
+    }),
+  };
+}
+
+function copyFilter(f: ActorFilter): ActorFilter {
+  return f.type === 'colorMatrix' ? { ...f, values: [...f.values] } : { ...f };
+}
+
+function copyGradientKeyframe(g: GradientKeyframe): GradientKeyframe {
+  return g.stops ? { ...g, stops: g.stops.map((s) => ({ ...s })) } : { ...g };
+}
@@ -1,6 +1,8 @@
 import type {
   Bundle,
   BundleVariant,
+  BundleComposition,
+  Composition,
   Scene,
   Actor,
   Timeline,
@@ -11,6 +13,7 @@ import type {
 import { parseSvg } from '../parser/parseSvg';
 import { createActor } from '../actor/createActor';
 import { timeline as createTimeline } from '../timeline/timeline';
+import { composition as createComposition } from '../timeline/composition';
 import { trigger as createTrigger } from '../trigger/trigger';
 
 export interface ImportedBundle {
@@ -19,6 +22,8 @@ export interface ImportedBundle {
   timelines: Timeline[];
   triggers: TriggerBinding[];
   variants: BundleVariant[];
+  /** Start offsets of the timelines on the scene clock, when the bundle has a composition */
+  composition?: Composition;
   bundle: Bundle;
 }
 
@@ -34,6 +39,9 @@ export function importBundle(jsonString: string): ImportedBundle {
   if (!raw.version) {
     throw new Error('motion-svg: Invalid bundle — missing "version" field.');
   }
+  if (parseInt(String(raw.version), 10) > 1) {
+    throw new Error(`motion-svg: Unsupported bundle version "${raw.version}" — this build reads 1.x bundles.`);
+  }
 
   // 1. Reconstruct Scene
   const scene: Scene = raw.scene.svg
@@ -59,27 +67,42 @@ export function importBundle(jsonString: string): ImportedBundle {
   if (raw.scene.gradients?.length) {
     scene.gradients = raw.scene.gradients;
   }
+  if (raw.scene.texts?.length) {
+    scene.texts = raw.scene.texts;
+  }
+  if (raw.scene.clips?.length) {
+    scene.clips = raw.scene.clips;
+  }
+  // Clip and mask actors are built from the paths of clip definitions
+  const allPaths = [...scene.paths, ...(scene.clips ?? []).flatMap((c) => c.paths)];
   scene.viewBox = raw.scene.viewBox;
 
   // 2. Reconstruct Actors
   const actors: Actor[] = raw.actors.map((ba) => {
     const paths = ba.pathIds
-      .map((pid) => scene.paths.find((p) => p.id === pid))
+      .map((pid) => allPaths.find((p) => p.id === pid))
       .filter(Boolean) as typeof scene.paths;
+    const texts = (ba.textIds ?? [])
+      .map((tid) => scene.texts?.find((t) => t.id === tid))
+      .filter((t): t is NonNullable<typeof t> => !!t);
 
-    // Group actors may have no paths — create a minimal placeholder if needed
+    // Group actors may have no paths — create a minimal placeholder if needed.
+    // Text-only actors need no paths at all.
     const isGroupActor = ba.childIds && ba.childIds.length > 0;
-    const actorPaths = paths.length > 0 ? paths : (isGroupActor ? [{ id: `${ba.id}_empty`, d: 'M0,0' }] : scene.paths.slice(0, 1));
+    const actorPaths = paths.length > 0 || texts.length > 0
+      ? paths
+      : (isGroupActor ? [{ id: `${ba.id}_empty`, d: 'M0,0' }] : scene.paths.slice(0, 1));
 
     const base = createActor({
       id: ba.id,
       paths: actorPaths,
+      texts,
       origin: ba.origin,
       z: ba.z,
     });
 
     // For group actors, clear the placeholder paths
-    if (isGroupActor && paths.length === 0) {
+    if (isGroupActor && paths.length === 0 && texts.length === 0) {
       base.paths = [];
       base.pathIds = [];
     }
@@ -91,6 +114,11 @@ export function importBundle(jsonString: string): ImportedBundle {
     // Restore group fields
     if (ba.childIds) base.childIds = ba.childIds;
     if (ba.parentId) base.parentId = ba.parentId;
+    // Restore clipping
+    if (ba.clipPath) base.clipPath = ba.clipPath;
+    if (ba.mask) base.mask = ba.mask;
+    if (ba.maskType) base.maskType = ba.maskType;
+    if (ba.filters?.length) base.filters = ba.filters;
 
     return base;
   });
@@ -98,7 +126,7 @@ export function importBundle(jsonString: string): ImportedBundle {
   // 3. Reconstruct Timelines
   const timelines: Timeline[] = raw.timelines.map((bt) => {
     const actor = actors.find((a) => a.id === bt.actorId) ?? actors[0];
-    return createTimeline(actor, { keyframes: bt.keyframes });
+    return createTimeline(actor, { keyframes: bt.keyframes, markers: bt.markers });
   });
 
   // 4. Reconstruct Triggers
@@ -143,7 +171,21 @@ export function importBundle(jsonString: string): ImportedBundle {
     triggerIndices: [...v.triggerIndices],
   }));
 
-  return { scene, actors, timelines, triggers, variants, bundle: raw };
+  // 6. Resolve the composition against the rebuilt timelines
+  const composition = raw.composition ? buildComposition(raw.composition, timelines) : undefined;
+
+  return { scene, actors, timelines, triggers, variants, ...(composition ? { composition } : {}), bundle: raw };
+}
+
+function buildComposition(bc: BundleComposition, timelines: Timeline[]): Composition {
+  return createComposition({
+    items: bc.items.map((item) => ({
+      ...(item.timelineIdx !== undefined ? { timeline: timelines[item.timelineIdx] } : {}),
+      ...(item.composition ? { composition: buildComposition(item.composition, timelines) } : {}),
+      ...(item.at !== undefined ? { at: item.at } : {}),
+      ...(item.label ? { label: item.label } : {}),
+    })),
+  });
 }
 
 /**
@@ -151,7 +193,7 @@ export function importBundle(jsonString: string): ImportedBundle {
  * Returns `null` if the variant is not found.
  */
 export function getVariant(
-  imported: ImportedBundle,
+  imported: Pick<ImportedBundle, 'actors' | 'timelines' | 'triggers' | 'variants'>,
   variantName: string,
 ): { actors: Actor[]; timelines: Timeline[]; triggers: TriggerBinding[] } | null {
   const variant = imported.variants.find((v) => v.name === variantName);
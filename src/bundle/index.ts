@@ -1,3 +1,4 @@
 export { exportBundle } from './exportBundle';
 export { importBundle } from './importBundle';
 export { validateBundle } from './validate';
+export { exportAnimatedSvg } from './exportAnimatedSvg';
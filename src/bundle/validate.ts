@@ -1,4 +1,6 @@
-import type { Bundle } from '../types';
+import type { ActorFilter, Bundle, BundleComposition, GradientKeyframe, Keyframe, TimelineMarker } from '../types';
+import { COLOR_SPACES, parseColor } from '../color/color';
+import { parsePosition } from '../timeline/composition';
 
 export interface ValidationResult {
   valid: boolean;
@@ -26,6 +28,8 @@ export function validateBundle(input: string | Bundle): ValidationResult {
   // Version
   if (!bundle.version) {
     errors.push('Missing "version" field.');
+  } else if (parseInt(String(bundle.version), 10) > 1) {
+    errors.push(`Unsupported version "${bundle.version}" — expected 1.x.`);
   }
 
   // Scene
@@ -44,8 +48,24 @@ export function validateBundle(input: string | Bundle): ValidationResult {
   } else {
     bundle.actors.forEach((a, i) => {
       if (!a.id) errors.push(`Actor[${i}] missing "id".`);
-      if (!a.pathIds || a.pathIds.length === 0) errors.push(`Actor[${i}] has no pathIds.`);
-      if (!a.origin) errors.push(`Actor[${i}] missing "origin".`);
+      // Text-only actors hold no paths
+      if ((!a.pathIds || a.pathIds.length === 0) && !a.textIds?.length) errors.push(`Actor[${i}] has no pathIds.`);
+      if (!a.origin) {
+        errors.push(`Actor[${i}] missing "origin".`);
+      } else if (typeof a.origin.x !== 'number' || typeof a.origin.y !== 'number') {
+        // Anchors are resolved when the actor is created — bundles store the point
+        errors.push(`Actor[${i}] "origin" must be a point { x, y }.`);
+      }
+      for (const key of ['clipPath', 'mask'] as const) {
+        const ref = a[key];
+        if (ref !== undefined && (ref === a.id || !bundle.actors.some((other) => other.id === ref))) {
+          errors.push(`Actor[${i}] "${key}" must reference another actor.`);
+        }
+      }
+      if (a.maskType !== undefined && a.maskType !== 'luminance' && a.maskType !== 'alpha') {
+        errors.push(`Actor[${i}] "maskType" must be "luminance" or "alpha".`);
+      }
+      if (a.filters !== undefined) validateFilters(a.filters, `Actor[${i}].filters`, errors);
     });
   }
 
@@ -62,8 +82,38 @@ export function validateBundle(input: string | Bundle): ValidationResult {
           if (kf.at === undefined || kf.at === null) {
             errors.push(`Timeline[${i}].keyframes[${j}] missing "at".`);
           }
+          for (const key of ['trimStart', 'trimEnd', 'textReveal'] as const) {
+            const v = kf[key];
+            if (v !== undefined && (typeof v !== 'number' || v < 0 || v > 1)) {
+              errors.push(`Timeline[${i}].keyframes[${j}].${key} must be between 0 and 1.`);
+            }
+          }
+          if (kf.colorSpace !== undefined && !COLOR_SPACES.includes(kf.colorSpace)) {
+            errors.push(`Timeline[${i}].keyframes[${j}].colorSpace must be one of ${COLOR_SPACES.map((c) => `"${c}"`).join(', ')}.`);
+          }
+          for (const key of ['fillGradient', 'strokeGradient'] as const) {
+            const g = kf[key];
+            if (g !== undefined) validateGradientKeyframe(g, `Timeline[${i}].keyframes[${j}].${key}`, errors);
+          }
+          if (kf.filters !== undefined) validateFilters(kf.filters, `Timeline[${i}].keyframes[${j}].filters`, errors);
+          if (kf.trimOffset !== undefined && typeof kf.trimOffset !== 'number') {
+            errors.push(`Timeline[${i}].keyframes[${j}].trimOffset must be a number.`);
+          }
+          if (kf.motionPath !== undefined) {
+            const mp = kf.motionPath;
+            if (!mp || typeof mp.d !== 'string' || !/^\s*[Mm]/.test(mp.d)) {
+              errors.push(`Timeline[${i}].keyframes[${j}].motionPath needs a "d" starting with a moveto.`);
+            }
+            for (const key of ['start', 'end'] as const) {
+              const v = mp?.[key];
+              if (v !== undefined && (typeof v !== 'number' || v < 0 || v > 1)) {
+                errors.push(`Timeline[${i}].keyframes[${j}].motionPath.${key} must be between 0 and 1.`);
+              }
+            }
+          }
         });
       }
+      if (t.markers !== undefined) validateMarkers(t.markers, t.keyframes ?? [], `Timeline[${i}].markers`, errors);
     });
   }
 
@@ -125,5 +175,176 @@ export function validateBundle(input: string | Bundle): ValidationResult {
     }
   }
 
+  // Composition (optional)
+  if (bundle.composition !== undefined) {
+    const timelineCount = (bundle.timelines ?? []).length;
+    validateComposition(bundle.composition, timelineCount, 'Composition', errors, new Set());
+  }
+
   return { valid: errors.length === 0, errors };
 }
+
+// ─── Composition ───
+
+/** Returns the labels the composition defines, nested ones included */
+function validateComposition(
+  c: BundleComposition,
+  timelineCount: number,
+  path: string,
+  errors: string[],
+  usedTimelines: Set<number>,
+): Set<string> {
+  const labels = new Set<string>();
+  if (!c || !Array.isArray(c.items)) {
+    errors.push(`${path}.items must be an array.`);
+    return labels;
+  }
+  const own = new Set<string>();
+  c.items.forEach((item, i) => {
+    const at = `${path}.items[${i}]`;
+    const hasTimeline = item?.timelineIdx !== undefined;
+    if (hasTimeline && item.composition !== undefined) {
+      errors.push(`${at} has both "timelineIdx" and "composition".`);
+    } else if (!hasTimeline && item?.composition === undefined && !item?.label) {
+      errors.push(`${at} needs a "timelineIdx", a "composition" or a "label".`);
+    }
+
+    const pos = parsePosition(item?.at);
+    if (!pos) {
+      errors.push(`${at}.at is not a valid position.`);
+    } else if (pos.anchor === 'label' && !labels.has(pos.label!)) {
+      errors.push(`${at}.at refers to unknown label "${pos.label}".`);
+    }
+
+    if (item?.label !== undefined) {
+      if (typeof item.label !== 'string' || !item.label) {
+        errors.push(`${at} has an invalid "label".`);
+      } else if (own.has(item.label)) {
+        errors.push(`${at} duplicate label "${item.label}".`);
+      } else {
+        own.add(item.label);
+        labels.add(item.label);
+      }
+    }
+
+    if (hasTimeline) {
+      const idx = item.timelineIdx!;
+      if (!Number.isInteger(idx) || idx < 0 || idx >= timelineCount) {
+        errors.push(`${at}.timelineIdx ${idx} out of range (0..${timelineCount - 1}).`);
+      } else if (usedTimelines.has(idx)) {
+        errors.push(`${at}.timelineIdx ${idx} is placed twice.`);
+      } else {
+        usedTimelines.add(idx);
+      }
+    } else if (item?.composition !== undefined) {
+      const nested = validateComposition(item.composition, timelineCount, `${at}.composition`, errors, usedTimelines);
+      nested.forEach((label) => labels.add(label));
+    }
+  });
+  return labels;
+}
+
+// ─── Markers ───
+
+function validateMarkers(markers: TimelineMarker[], keyframes: Keyframe[], path: string, errors: string[]) {
+  if (!Array.isArray(markers)) {
+    errors.push(`${path} must be an array.`);
+    return;
+  }
+  const duration = Math.max(0, ...keyframes.map((kf) => kf.at).filter((at) => typeof at === 'number'));
+  const labels = new Set<string>();
+  markers.forEach((m, i) => {
+    if (!m?.label || typeof m.label !== 'string') {
+      errors.push(`${path}[${i}] missing or invalid "label".`);
+    } else if (labels.has(m.label)) {
+      errors.push(`${path}[${i}] duplicate label "${m.label}".`);
+    } else {
+      labels.add(m.label);
+    }
+    if (typeof m?.at !== 'number' || m.at < 0 || m.at > duration) {
+      errors.push(`${path}[${i}].at must be between 0 and the timeline duration (${duration}ms).`);
+    }
+  });
+}
+
+// ─── Filters ───
+
+function validateFilters(filters: ActorFilter[], path: string, errors: string[]) {
+  if (!Array.isArray(filters)) {
+    errors.push(`${path} must be an array.`);
+    return;
+  }
+  filters.forEach((f, k) => {
+    const at = `${path}[${k}]`;
+    const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+    const atLeastZero = (key: string, v: unknown) => {
+      if (!isNumber(v) || v < 0) errors.push(`${at}.${key} must be a number >= 0.`);
+    };
+    const unit = (key: string, v: unknown) => {
+      if (v !== undefined && (!isNumber(v) || v < 0 || v > 1)) errors.push(`${at}.${key} must be between 0 and 1.`);
+    };
+
+    switch (f?.type) {
+      case 'dropShadow':
+      case 'glow':
+        if (f.type === 'dropShadow') {
+          if (!isNumber(f.dx)) errors.push(`${at}.dx must be a number.`);
+          if (!isNumber(f.dy)) errors.push(`${at}.dy must be a number.`);
+        }
+        atLeastZero('blur', f.blur);
+        if (typeof f.color !== 'string' || !f.color) errors.push(`${at}.color must be a color string.`);
+        unit('opacity', f.opacity);
+        break;
+      case 'brightness':
+      case 'saturate':
+        atLeastZero('amount', f.amount);
+        break;
+      case 'hueRotate':
+        if (!isNumber(f.angle)) errors.push(`${at}.angle must be a number.`);
+        break;
+      case 'colorMatrix':
+        if (!Array.isArray(f.values) || f.values.length !== 20 || !f.values.every(isNumber)) {
+          errors.push(`${at}.values must be 20 numbers.`);
+        }
+        break;
+      default:
+        errors.push(`${at} has unknown filter type "${String((f as { type?: unknown })?.type)}".`);
+    }
+  });
+}
+
+// ─── Gradient keyframes ───
+
+function validateGradientKeyframe(g: GradientKeyframe, path: string, errors: string[]) {
+  if (!g || typeof g !== 'object') {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  if (g.ref !== undefined && typeof g.ref !== 'string') errors.push(`${path}.ref must be a gradient id.`);
+  for (const key of ['angle', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'fx', 'fy'] as const) {
+    const v = g[key];
+    if (v !== undefined && (typeof v !== 'number' || !Number.isFinite(v))) errors.push(`${path}.${key} must be a number.`);
+  }
+  if (g.r !== undefined && (typeof g.r !== 'number' || !(g.r >= 0))) errors.push(`${path}.r must be a number >= 0.`);
+  if (g.gradientTransform !== undefined && typeof g.gradientTransform !== 'string') {
+    errors.push(`${path}.gradientTransform must be a string.`);
+  }
+  if (g.stops === undefined) return;
+  if (!Array.isArray(g.stops)) {
+    errors.push(`${path}.stops must be an array.`);
+    return;
+  }
+  g.stops.forEach((stop, k) => {
+    // Sparse entries leave a stop as it is
+    if (stop === null || stop === undefined) return;
+    for (const key of ['offset', 'opacity'] as const) {
+      const v = stop[key];
+      if (v !== undefined && (typeof v !== 'number' || v < 0 || v > 1)) {
+        errors.push(`${path}.stops[${k}].${key} must be between 0 and 1.`);
+      }
+    }
+    if (stop.color !== undefined && (typeof stop.color !== 'string' || !parseColor(stop.color))) {
+      errors.push(`${path}.stops[${k}].color must be a CSS color.`);
+    }
+  });
+}
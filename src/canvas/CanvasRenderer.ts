@@ -0,0 +1,465 @@
+import type { Actor, GradientDef, Scene, SvgText, SvgTextSpan, ViewBox } from '../types';
+import type { ActorState } from '../timeline/interpolate';
+import { getClipSourceIds, getClipShapes } from '../actor/clip';
+import { getActorMatrix } from '../geometry/actorBounds';
+import { getPathBounds } from '../geometry/pathGeometry';
+import {
+  type Matrix2D, IDENTITY_MATRIX, applyMatrix, fitViewBox, invertMatrix, isIdentityMatrix, multiplyMatrix, parseTransform,
+} from '../transform/matrix';
+import { formatColor, parseColor } from '../color/color';
+import { cssFilter } from '../filter/filterStack';
+import { estimateTextBounds } from '../text/textLayout';
+import { actorFrame, pathFrame, textFrame, type PathFrame } from '../render/actorFrame';
+
+// ─── Canvas renderer ────────────────────────────────────────────────────────
+//
+// Draws a scene onto a 2D canvas context instead of building SVG elements,
+// for scenes with more actors than the DOM handles per frame. Actors are
+// read through the same frame helpers as the SVG renderers; each frame is
+// redrawn from scratch from the current states.
+//
+// Canvas has no group compositing, so actor and path opacity multiply into
+// every fill and stroke, filters apply to each path, and masks clip to the
+// outline of their shapes.
+//
+
+/** The parts of a 2D context the renderer draws with — any CanvasRenderingContext2D-compatible target */
+export type CanvasTarget = Pick<
+  CanvasRenderingContext2D,
+  | 'save' | 'restore' | 'setTransform' | 'clearRect' | 'fillRect' | 'fill' | 'stroke' | 'clip'
+  | 'isPointInPath' | 'isPointInStroke' | 'createLinearGradient' | 'createRadialGradient'
+  | 'setLineDash' | 'fillText' | 'strokeText' | 'measureText'
+  | 'globalAlpha' | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'lineJoin' | 'lineCap' | 'miterLimit'
+  | 'lineDashOffset' | 'filter' | 'font' | 'textAlign' | 'textBaseline'
+>;
+
+export interface CanvasRendererOptions {
+  /** Drawing size in canvas pixels (default: the size of the context's canvas) */
+  width?: number;
+  height?: number;
+  /** Color drawn behind the scene's viewBox */
+  background?: string;
+  /** Color used for `currentColor` paint (default: black) — e.g. the host element's CSS `color` */
+  currentColor?: string;
+  /** Build a Path2D from path data (default: `new Path2D(d)`) — for canvas implementations outside the browser */
+  createPath?: (d?: string) => Path2D;
+}
+
+/** What a canvas renderer draws: the scene and the actors resolved for the active variant */
+export interface CanvasSource {
+  scene: Scene;
+  actors: Actor[];
+}
+
+/** Path2D objects kept for reuse; morphing paths produce new data every frame, so the cache is bounded */
+const PATH_CACHE_SIZE = 512;
+
+/**
+ * Draws scene frames onto a canvas and finds the actor under a point.
+ *
+ * The viewBox is scaled to fit the drawing size and centered. Call
+ * `render` with the current actor states (e.g. from
+ * `createScenePlayback`'s `onUpdate`) — actors without a state draw at
+ * rest.
+ *
+ * @example
+ * ```ts
+ * const renderer = new CanvasRenderer(canvas.getContext('2d')!, importBundle(json));
+ * createScenePlayback(bundle, { onUpdate: (states) => renderer.render(states) }).play();
+ * ```
+ */
+export class CanvasRenderer {
+  private _ctx: CanvasTarget;
+  private _scene: Scene;
+  private _actors: Actor[];
+  private _clipSources: Set<string>;
+  private _background: string | undefined;
+  private _currentColor: string;
+  private _createPath: (d?: string) => Path2D;
+  private _paths = new Map<string, Path2D>();
+  private _states: Record<string, ActorState> = {};
+  private _width: number;
+  private _height: number;
+  private _view: Matrix2D;
+
+  constructor(ctx: CanvasTarget, source: CanvasSource, options?: CanvasRendererOptions) {
+    const canvas = (ctx as { canvas?: { width: number; height: number } }).canvas;
+    const width = options?.width ?? canvas?.width;
+    const height = options?.height ?? canvas?.height;
+    if (!width || !height) {
+      throw new Error('motion-svg: CanvasRenderer needs a width and height, or a context with a canvas.');
+    }
+    this._ctx = ctx;
+    this._scene = source.scene;
+    this._actors = source.actors;
+    this._clipSources = getClipSourceIds(source.actors);
+    this._background = options?.background;
+    this._currentColor = options?.currentColor ?? '#000';
+    this._createPath = options?.createPath ?? ((d) => new Path2D(d));
+    this._width = width;
+    this._height = height;
+    this._view = fitViewBox(source.scene.viewBox, width, height);
+  }
+
+  get width(): number {
+    return this._width;
+  }
+
+  get height(): number {
+    return this._height;
+  }
+
+  /** Change the drawing size (after resizing the canvas) and redraw the last states */
+  resize(width: number, height: number): void {
+    this._width = width;
+    this._height = height;
+    this._view = fitViewBox(this._scene.viewBox, width, height);
+    this.render(this._states);
+  }
+
+  /** Clear the canvas and draw the scene with `states`, keyed by actor ID */
+  render(states: Record<string, ActorState> = {}): void {
+    const ctx = this._ctx;
+    const view = this._view;
+    this._states = states;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, this._width, this._height);
+    if (this._background) {
+      const vb = this._scene.viewBox;
+      setMatrix(ctx, view);
+      ctx.fillStyle = this._background;
+      ctx.fillRect(vb.x, vb.y, vb.w, vb.h);
+    }
+
+    // Static paths and text (not part of any actor)
+    const gradients = this._scene.gradients ?? [];
+    const actorPathIds = new Set(this._actors.flatMap((a) => a.pathIds));
+    for (const p of this._scene.paths) {
+      if (!actorPathIds.has(p.id)) this._drawPath(pathFrame(p), view, gradients);
+    }
+    const actorTextIds = new Set(this._actors.flatMap((a) => a.textIds ?? []));
+    for (const t of this._scene.texts ?? []) {
+      if (!actorTextIds.has(t.id)) this._drawText(t, undefined, view);
+    }
+
+    for (const actor of this._actors) {
+      if (!this._clipSources.has(actor.id)) this._drawActor(actor, states[actor.id]);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * The topmost actor whose painted fill, stroke or text box contains the
+   * point (in canvas pixels) in the last rendered frame, or null. Clip and
+   * mask sources are never hit; clipped actors only inside their clip.
+   */
+  hitTest(x: number, y: number): string | null {
+    const ctx = this._ctx;
+    ctx.save();
+    try {
+      for (let i = this._actors.length - 1; i >= 0; i--) {
+        const actor = this._actors[i];
+        if (this._clipSources.has(actor.id)) continue;
+        if (!this._insideClips(actor, x, y)) continue;
+        if (this._hitsActor(actor, this._states[actor.id], x, y)) return actor.id;
+      }
+      return null;
+    } finally {
+      ctx.restore();
+    }
+  }
+
+  // ── Drawing ──
+
+  private _drawActor(actor: Actor, state: ActorState | undefined): void {
+    const ctx = this._ctx;
+    const frame = actorFrame(actor, state);
+    ctx.save();
+
+    this._applyClips(actor);
+    ctx.globalAlpha = frame.opacity;
+    const scale = Math.sqrt(Math.abs(this._view.a * this._view.d));
+    const filter = [
+      cssFilter(frame.filters, scale),
+      frame.blurRadius > 0 ? `blur(${frame.blurRadius * scale}px)` : '',
+    ].filter(Boolean).join(' ');
+    if (filter) ctx.filter = filter;
+
+    const m = multiplyMatrix(this._view, getActorMatrix(actor, state));
+    // Blended and animated gradients live on the state, ahead of the scene's
+    const gradients = [state?.fillGradient, state?.strokeGradient, ...(this._scene.gradients ?? [])]
+      .filter((g): g is GradientDef => g !== undefined);
+    for (const p of actor.paths) this._drawPath(pathFrame(p, state), m, gradients);
+    for (const t of actor.texts ?? []) this._drawText(t, state, m);
+    ctx.restore();
+  }
+
+  /** Clip to the union of the shapes of the actor's clip and mask sources, each narrowing in turn */
+  private _applyClips(actor: Actor): void {
+    for (const id of [actor.clipPath, actor.mask]) {
+      const source = id ? this._actors.find((a) => a.id === id) : undefined;
+      if (!source) continue;
+      const region = this._createPath();
+      for (const s of getClipShapes(source, this._states[source.id])) {
+        region.addPath(this._path(s.d), parseTransform(s.transform));
+      }
+      setMatrix(this._ctx, this._view);
+      this._ctx.clip(region);
+    }
+  }
+
+  /**
+   * Draw one path frame: fill and stroke, with inside strokes clipped to
+   * the fill and outside strokes painted under it, as in `renderFrame`.
+   */
+  private _drawPath(f: PathFrame, m: Matrix2D, gradients: GradientDef[]): void {
+    const ctx = this._ctx;
+    const matrix = f.transform ? multiplyMatrix(m, parseTransform(f.transform)) : m;
+    const path = this._path(f.d);
+    const sw = f.strokeWidth ?? 1;
+    const stroked = !!f.stroke && f.stroke !== 'none' && sw > 0;
+    const aligned = stroked && f.strokeAlign !== 'center';
+
+    ctx.save();
+    if (f.opacity !== undefined) ctx.globalAlpha *= f.opacity;
+    const paint = (mode: 'fill' | 'stroke') =>
+      this._paint(mode, mode === 'fill' ? f.fill : f.stroke!, path, matrix, gradients, f, aligned ? sw * 2 : sw);
+
+    if (aligned && f.strokeAlign === 'outside') {
+      paint('stroke');
+      paint('fill');
+    } else if (aligned) {
+      paint('fill');
+      ctx.save();
+      setMatrix(ctx, matrix);
+      ctx.clip(path, f.fillRule ?? 'nonzero');
+      paint('stroke');
+      ctx.restore();
+    } else {
+      paint('fill');
+      if (stroked) paint('stroke');
+    }
+    ctx.restore();
+  }
+
+  /** Fill or stroke `path` with a color or gradient value */
+  private _paint(
+    mode: 'fill' | 'stroke',
+    value: string,
+    path: Path2D,
+    matrix: Matrix2D,
+    gradients: GradientDef[],
+    f: PathFrame,
+    lineWidth: number,
+  ): void {
+    const ctx = this._ctx;
+    const v = value.trim();
+    if (v === 'none') return;
+
+    let style: string | CanvasGradient = this._color(v);
+    let target = path;
+    let m = matrix;
+    // Stroke lengths are divided by the extra scale of a gradient's space
+    let scale = 1;
+    if (v.startsWith('url(')) {
+      const id = v.match(/url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/)?.[1];
+      const grad = id ? gradients.find((g) => g.id === id) : undefined;
+      const space = grad ? gradientSpace(grad, f.d) : null;
+      if (!grad || !space) return;
+      const inv = invertMatrix(space);
+      if (!inv) return;
+
+      if (grad.type === 'linear') {
+        // An affine image of a linear gradient is still linear: find its axis in user space
+        const nx = grad.x2 - grad.x1;
+        const ny = grad.y2 - grad.y1;
+        const len2 = nx * nx + ny * ny;
+        if (len2 === 0) {
+          style = stopColor(grad.stops[grad.stops.length - 1]);
+        } else {
+          const wx = (inv.a * nx + inv.b * ny) / len2;
+          const wy = (inv.c * nx + inv.d * ny) / len2;
+          const w2 = wx * wx + wy * wy;
+          const a = applyMatrix(space, { x: grad.x1, y: grad.y1 });
+          style = ctx.createLinearGradient(a.x, a.y, a.x + wx / w2, a.y + wy / w2);
+        }
+      } else if (isIdentityMatrix(space)) {
+        style = ctx.createRadialGradient(grad.fx ?? grad.cx, grad.fy ?? grad.cy, 0, grad.cx, grad.cy, grad.r);
+      } else {
+        // Radial gradients can't be mapped into user space — draw in gradient space instead
+        style = ctx.createRadialGradient(grad.fx ?? grad.cx, grad.fy ?? grad.cy, 0, grad.cx, grad.cy, grad.r);
+        target = this._createPath();
+        target.addPath(path, inv);
+        m = multiplyMatrix(matrix, space);
+        scale = Math.sqrt(Math.abs(space.a * space.d - space.b * space.c)) || 1;
+      }
+      if (typeof style !== 'string') addStops(style, grad);
+    }
+
+    setMatrix(ctx, m);
+    if (mode === 'fill') {
+      ctx.fillStyle = style;
+      ctx.fill(target, f.fillRule ?? 'nonzero');
+      return;
+    }
+    ctx.strokeStyle = style;
+    ctx.lineWidth = lineWidth / scale;
+    ctx.lineJoin = f.strokeLinejoin ?? 'miter';
+    ctx.lineCap = f.strokeLinecap ?? 'butt';
+    ctx.miterLimit = f.strokeMiterlimit ?? 4;
+    const dashes = f.dasharray?.split(/[\s,]+/).filter(Boolean).map((n) => Number(n) / scale) ?? [];
+    ctx.setLineDash(dashes.every(Number.isFinite) ? dashes : []);
+    ctx.lineDashOffset = (f.dashoffset ?? 0) / scale;
+    ctx.stroke(target);
+  }
+
+  private _drawText(t: SvgText, state: ActorState | undefined, m: Matrix2D): void {
+    const ctx = this._ctx;
+    const frame = textFrame(t, state);
+    ctx.save();
+    setMatrix(ctx, t.transform ? multiplyMatrix(m, parseTransform(t.transform)) : m);
+    if (t.opacity !== undefined) ctx.globalAlpha *= t.opacity;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    if (frame.letterSpacing !== undefined && 'letterSpacing' in ctx) {
+      (ctx as { letterSpacing: string }).letterSpacing = `${frame.letterSpacing}px`;
+    }
+
+    const fontOf = (run: SvgTextSpan) =>
+      `${run.fontWeight ?? t.fontWeight ?? 'normal'} ${run.fontSize ?? frame.fontSize ?? 16}px ${run.fontFamily ?? t.fontFamily ?? 'sans-serif'}`;
+
+    // The anchor applies to the whole line, so measure it first
+    let width = 0;
+    for (const run of frame.runs) {
+      ctx.font = fontOf(run);
+      width += ctx.measureText(run.text).width;
+    }
+    const anchor = t.textAnchor ?? 'start';
+    let x = t.x - (anchor === 'middle' ? width / 2 : anchor === 'end' ? width : 0);
+    let y = t.y;
+
+    for (const run of frame.runs) {
+      if (run.x !== undefined) x = run.x;
+      if (run.y !== undefined) y = run.y;
+      x += run.dx ?? 0;
+      y += run.dy ?? 0;
+      ctx.font = fontOf(run);
+      const fill = run.fill ?? frame.fill;
+      if (fill !== 'none') {
+        ctx.fillStyle = this._color(fill);
+        ctx.fillText(run.text, x, y);
+      }
+      if (frame.stroke && frame.stroke !== 'none' && frame.strokeWidth) {
+        ctx.strokeStyle = this._color(frame.stroke);
+        ctx.lineWidth = frame.strokeWidth;
+        ctx.strokeText(run.text, x, y);
+      }
+      x += ctx.measureText(run.text).width;
+    }
+    ctx.restore();
+  }
+
+  /** A color as a canvas style — `currentColor` resolved, anything unparseable painted black */
+  private _color(value: string): string {
+    if (value === 'currentColor') return this._currentColor;
+    return parseColor(value) ? value : '#000';
+  }
+
+  private _path(d: string): Path2D {
+    let path = this._paths.get(d);
+    if (!path) {
+      if (this._paths.size >= PATH_CACHE_SIZE) this._paths.clear();
+      path = this._createPath(d);
+      this._paths.set(d, path);
+    }
+    return path;
+  }
+
+  // ── Hit testing ──
+
+  private _insideClips(actor: Actor, x: number, y: number): boolean {
+    for (const id of [actor.clipPath, actor.mask]) {
+      const source = id ? this._actors.find((a) => a.id === id) : undefined;
+      if (!source) continue;
+      const inside = getClipShapes(source, this._states[source.id]).some((s) => {
+        setMatrix(this._ctx, multiplyMatrix(this._view, parseTransform(s.transform)));
+        return this._ctx.isPointInPath(this._path(s.d), x, y);
+      });
+      if (!inside) return false;
+    }
+    return true;
+  }
+
+  private _hitsActor(actor: Actor, state: ActorState | undefined, x: number, y: number): boolean {
+    const ctx = this._ctx;
+    const m = multiplyMatrix(this._view, getActorMatrix(actor, state));
+    for (const p of actor.paths) {
+      const f = pathFrame(p, state);
+      const path = this._path(f.d);
+      setMatrix(ctx, f.transform ? multiplyMatrix(m, parseTransform(f.transform)) : m);
+      if (f.fill !== 'none' && ctx.isPointInPath(path, x, y, f.fillRule ?? 'nonzero')) return true;
+      const sw = f.strokeWidth ?? 1;
+      if (f.stroke && f.stroke !== 'none' && sw > 0) {
+        ctx.lineWidth = f.strokeAlign === 'center' ? sw : sw * 2;
+        ctx.lineJoin = f.strokeLinejoin ?? 'miter';
+        ctx.lineCap = f.strokeLinecap ?? 'butt';
+        if (ctx.isPointInStroke(path, x, y)) return true;
+      }
+    }
+    for (const t of actor.texts ?? []) {
+      const inv = invertMatrix(t.transform ? multiplyMatrix(m, parseTransform(t.transform)) : m);
+      if (!inv) continue;
+      const p = applyMatrix(inv, { x, y });
+      const b = estimateTextBounds(t, { fontSize: state?.fontSize, letterSpacing: state?.letterSpacing });
+      if (p.x >= b.x && p.x <= b.x + b.w && p.y >= b.y && p.y <= b.y + b.h) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Size a canvas's backing store to its laid-out CSS size times the device
+ * pixel ratio, falling back to the viewBox size before layout. Returns the
+ * new size.
+ */
+export function fitCanvas(canvas: HTMLCanvasElement, viewBox: ViewBox): { width: number; height: number } {
+  const rect = canvas.getBoundingClientRect();
+  const ratio = (typeof window !== 'undefined' && window.devicePixelRatio) || 1;
+  const width = Math.max(1, Math.round(rect.width * ratio) || Math.round(viewBox.w));
+  const height = Math.max(1, Math.round(rect.height * ratio) || Math.round(viewBox.h));
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  return { width, height };
+}
+
+function setMatrix(ctx: CanvasTarget, m: Matrix2D): void {
+  ctx.setTransform(m.a, m.b, m.c, m.d, m.e, m.f);
+}
+
+/** Gradient space → path user space: bounding box units, then the gradient transform */
+function gradientSpace(grad: GradientDef, d: string): Matrix2D | null {
+  let m: Matrix2D = { ...IDENTITY_MATRIX };
+  if (grad.gradientUnits !== 'userSpaceOnUse') {
+    const b = getPathBounds(d);
+    if (!b || b.w <= 0 || b.h <= 0) return null;
+    m = { a: b.w, b: 0, c: 0, d: b.h, e: b.x, f: b.y };
+  }
+  return grad.gradientTransform ? multiplyMatrix(m, parseTransform(grad.gradientTransform)) : m;
+}
+
+/** Stops with offsets clamped and made non-decreasing, as in SVG */
+function addStops(gradient: CanvasGradient, grad: GradientDef): void {
+  let last = 0;
+  for (const stop of grad.stops) {
+    last = Math.max(last, Math.max(0, Math.min(1, stop.offset)));
+    gradient.addColorStop(last, stopColor(stop));
+  }
+}
+
+function stopColor(stop: GradientDef['stops'][number] | undefined): string {
+  if (!stop) return 'rgba(0, 0, 0, 0)';
+  const c = parseColor(stop.color) ?? { r: 0, g: 0, b: 0, a: 1 };
+  return formatColor({ ...c, a: c.a * (stop.opacity ?? 1) });
+}
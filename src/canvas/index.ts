@@ -0,0 +1,2 @@
+export { CanvasRenderer, fitCanvas } from './CanvasRenderer';
+export type { CanvasTarget, CanvasRendererOptions, CanvasSource } from './CanvasRenderer';
@@ -0,0 +1,348 @@
+import type { ColorSpace } from '../types';
+import { NAMED_COLORS } from './namedColors';
+
+// ─── Color model ────────────────────────────────────────────────────────────
+//
+// Parses the CSS Color 4 syntaxes SVG paint can carry — hex, rgb(), hsl(),
+// hwb(), lab(), lch(), oklab(), oklch(), color(srgb | srgb-linear |
+// display-p3), named colors and `transparent` — into sRGB with alpha,
+// interpolates in a chosen space and serializes back to `#rrggbb` or
+// `rgba()`. `currentColor`, `none` and paint servers are not colors here.
+//
+
+/** A color as sRGB channels (0..1, may leave the gamut mid-conversion) and alpha (0..1) */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/** Every supported interpolation space */
+export const COLOR_SPACES: readonly ColorSpace[] = ['srgb', 'linear-rgb', 'hsl', 'oklab', 'oklch'];
+
+/**
+ * Parse a CSS color. Returns `null` for anything that isn't a concrete
+ * color (`currentColor`, `none`, `url(#…)`, unknown names, bad syntax).
+ *
+ * @example
+ * ```ts
+ * parseColor('hsl(120 100% 50% / 0.5)'); // → { r: 0, g: 1, b: 0, a: 0.5 }
+ * ```
+ */
+export function parseColor(value: string): RgbaColor | null {
+  const v = value.trim().toLowerCase();
+  if (v === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, v)) return fromHexNumber(NAMED_COLORS[v]);
+  if (v.startsWith('#')) return parseHex(v.slice(1));
+
+  const m = v.match(/^([a-z-]+)\(\s*(.*?)\s*\)$/);
+  if (!m) return null;
+  const [, fn, body] = m;
+
+  // Modern `a b c / alpha` and legacy `a, b, c, alpha` both end up here
+  const [main, alphaPart, extra] = body.split('/');
+  if (extra !== undefined) return null;
+  const tokens = main.split(/[\s,]+/).filter(Boolean);
+  let alphaToken = alphaPart?.trim();
+  if (alphaToken === undefined && tokens.length === 4 && fn !== 'color') alphaToken = tokens.pop()!;
+
+  const alpha = alphaToken === undefined ? 1 : component(alphaToken, 1);
+  if (alpha === null) return null;
+  const a = clamp01(alpha);
+
+  if (fn === 'color') {
+    const [space, ...rest] = tokens;
+    const c = components(rest, [1, 1, 1]);
+    if (!c) return null;
+    if (space === 'srgb') return { r: c[0], g: c[1], b: c[2], a };
+    if (space === 'srgb-linear') return { ...linearToRgb(c), a };
+    if (space === 'display-p3') return { ...linearToRgb(p3ToLinearSrgb(c.map(toLinear) as Vec3)), a };
+    return null;
+  }
+
+  if (tokens.length !== 3) return null;
+  switch (fn) {
+    case 'rgb':
+    case 'rgba': {
+      const c = components(tokens, [255, 255, 255]);
+      return c && { r: c[0] / 255, g: c[1] / 255, b: c[2] / 255, a };
+    }
+    case 'hsl':
+    case 'hsla':
+    case 'hwb': {
+      const h = hue(tokens[0]);
+      const c = components(tokens.slice(1), [100, 100]);
+      if (h === null || !c) return null;
+      const rgb = fn === 'hwb' ? hwbToRgb(h, c[0] / 100, c[1] / 100) : hslToRgb(h, c[0] / 100, c[1] / 100);
+      return { ...rgb, a };
+    }
+    case 'lab': {
+      const c = components(tokens, [100, 125, 125]);
+      return c && { ...labToRgb(c), a };
+    }
+    case 'lch': {
+      const c = components(tokens.slice(0, 2), [100, 150]);
+      const h = hue(tokens[2]);
+      return c && h !== null ? { ...labToRgb(polarToLab(c[0], c[1], h)), a } : null;
+    }
+    case 'oklab': {
+      const c = components(tokens, [1, 0.4, 0.4]);
+      return c && { ...oklabToRgb(c), a };
+    }
+    case 'oklch': {
+      const c = components(tokens.slice(0, 2), [1, 0.4]);
+      const h = hue(tokens[2]);
+      return c && h !== null ? { ...oklabToRgb(polarToLab(c[0], c[1], h)), a } : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Serialize a color canonically: `#rrggbb` when opaque, `rgba(r, g, b, a)`
+ * otherwise. Channels are clamped to the sRGB gamut.
+ */
+export function formatColor(color: RgbaColor): string {
+  const byte = (v: number) => Math.round(clamp01(v) * 255);
+  const a = Math.round(clamp01(color.a) * 1000) / 1000;
+  if (a >= 1) {
+    return `#${[color.r, color.g, color.b].map((v) => byte(v).toString(16).padStart(2, '0')).join('')}`;
+  }
+  return `rgba(${byte(color.r)}, ${byte(color.g)}, ${byte(color.b)}, ${a})`;
+}
+
+/**
+ * Interpolate between two CSS colors in `space` (default `'srgb'`), with
+ * premultiplied alpha and hues taking the shorter arc. Colors that can't be
+ * parsed snap at the midpoint.
+ *
+ * @example
+ * ```ts
+ * lerpColor('red', 'rgb(0 0 255 / 0)', 0.5);    // → 'rgba(255, 0, 0, 0.5)'
+ * lerpColor('#ff0000', '#0000ff', 0.5, 'oklch'); // → a saturated purple, not sRGB's dull mix
+ * ```
+ */
+export function lerpColor(a: string, b: string, t: number, space: ColorSpace = 'srgb'): string {
+  if (a === b) return a;
+  const ca = parseColor(a);
+  const cb = parseColor(b);
+  if (!ca || !cb) return t < 0.5 ? a : b;
+
+  const hueIndex: number = space === 'hsl' ? 0 : space === 'oklch' ? 2 : -1;
+  const pa = toSpace(ca, space);
+  const pb = toSpace(cb, space);
+
+  // A powerless hue (gray) takes the other color's hue
+  if (hueIndex >= 0) {
+    if (Number.isNaN(pa[hueIndex])) pa[hueIndex] = Number.isNaN(pb[hueIndex]) ? 0 : pb[hueIndex];
+    if (Number.isNaN(pb[hueIndex])) pb[hueIndex] = pa[hueIndex];
+    let delta = pb[hueIndex] - pa[hueIndex];
+    if (delta > 180) delta -= 360;
+    else if (delta < -180) delta += 360;
+    pb[hueIndex] = pa[hueIndex] + delta;
+  }
+
+  const alpha = lerp(ca.a, cb.a, t);
+  const out = pa.map((va, i) => {
+    if (i === hueIndex) return lerp(va, pb[i], t);
+    const mixed = lerp(va * ca.a, pb[i] * cb.a, t);
+    return alpha > 0 ? mixed / alpha : 0;
+  }) as Vec3;
+
+  return formatColor({ ...fromSpace(out, space), a: alpha });
+}
+
+// ─── Spaces ─────────────────────────────────────────────────────────────────
+
+type Vec3 = [number, number, number];
+
+function toSpace(c: RgbaColor, space: ColorSpace): Vec3 {
+  switch (space) {
+    case 'srgb':
+      return [c.r, c.g, c.b];
+    case 'linear-rgb':
+      return [toLinear(c.r), toLinear(c.g), toLinear(c.b)];
+    case 'hsl':
+      return rgbToHsl(c);
+    case 'oklab':
+      return rgbToOklab(c);
+    case 'oklch': {
+      const [l, a, b] = rgbToOklab(c);
+      const chroma = Math.hypot(a, b);
+      return [l, chroma, chroma < 1e-4 ? NaN : (Math.atan2(b, a) * 180) / Math.PI];
+    }
+  }
+}
+
+function fromSpace(v: Vec3, space: ColorSpace): Omit<RgbaColor, 'a'> {
+  switch (space) {
+    case 'srgb':
+      return { r: v[0], g: v[1], b: v[2] };
+    case 'linear-rgb':
+      return linearToRgb(v);
+    case 'hsl':
+      return hslToRgb(v[0], v[1], v[2]);
+    case 'oklab':
+      return oklabToRgb(v);
+    case 'oklch':
+      return oklabToRgb(polarToLab(v[0], v[1], v[2]));
+  }
+}
+
+// ─── Conversions ────────────────────────────────────────────────────────────
+
+function toLinear(c: number): number {
+  const abs = Math.abs(c);
+  return abs <= 0.04045 ? c / 12.92 : Math.sign(c) * ((abs + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(c: number): number {
+  const abs = Math.abs(c);
+  return abs <= 0.0031308 ? c * 12.92 : Math.sign(c) * (1.055 * abs ** (1 / 2.4) - 0.055);
+}
+
+function linearToRgb([r, g, b]: Vec3): Omit<RgbaColor, 'a'> {
+  return { r: fromLinear(r), g: fromLinear(g), b: fromLinear(b) };
+}
+
+function hslToRgb(h: number, s: number, l: number): Omit<RgbaColor, 'a'> {
+  const f = (n: number) => {
+    const k = (((n + h / 30) % 12) + 12) % 12;
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return { r: f(0), g: f(8), b: f(4) };
+}
+
+function rgbToHsl({ r, g, b }: RgbaColor): Vec3 {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d < 1e-6) return [NaN, 0, l];
+  const s = l <= 0 || l >= 1 ? 0 : (max - l) / Math.min(l, 1 - l);
+  let h: number;
+  if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return [h * 60, s, l];
+}
+
+function hwbToRgb(h: number, white: number, black: number): Omit<RgbaColor, 'a'> {
+  if (white + black >= 1) {
+    const gray = white / (white + black);
+    return { r: gray, g: gray, b: gray };
+  }
+  const { r, g, b } = hslToRgb(h, 1, 0.5);
+  const scale = 1 - white - black;
+  return { r: r * scale + white, g: g * scale + white, b: b * scale + white };
+}
+
+function rgbToOklab(c: RgbaColor): Vec3 {
+  const r = toLinear(c.r);
+  const g = toLinear(c.g);
+  const b = toLinear(c.b);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+}
+
+function oklabToRgb([L, a, b]: Vec3): Omit<RgbaColor, 'a'> {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+  return linearToRgb([
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ]);
+}
+
+/** CIE Lab (D50 white, as CSS defines it) → sRGB */
+function labToRgb([L, a, b]: Vec3): Omit<RgbaColor, 'a'> {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const x = (fx ** 3 > epsilon ? fx ** 3 : (116 * fx - 16) / kappa) * 0.96422;
+  const y = L > kappa * epsilon ? fy ** 3 : L / kappa;
+  const z = (fz ** 3 > epsilon ? fz ** 3 : (116 * fz - 16) / kappa) * 0.82521;
+  // XYZ (D50) → linear sRGB, with Bradford adaptation to D65
+  return linearToRgb([
+    3.1341359569958707 * x - 1.6173863321612538 * y - 0.4906619460083532 * z,
+    -0.978795502912089 * x + 1.916254567259524 * y + 0.03344273116131949 * z,
+    0.07195537988411677 * x - 0.2289768264158322 * y + 1.405386058324125 * z,
+  ]);
+}
+
+function p3ToLinearSrgb([r, g, b]: Vec3): Vec3 {
+  return [
+    1.2249401 * r - 0.2249404 * g,
+    -0.0420569 * r + 1.0420571 * g,
+    -0.0196376 * r - 0.0786361 * g + 1.0982735 * b,
+  ];
+}
+
+function polarToLab(l: number, chroma: number, h: number): Vec3 {
+  const rad = (h * Math.PI) / 180;
+  return [l, chroma * Math.cos(rad), chroma * Math.sin(rad)];
+}
+
+// ─── Tokens ─────────────────────────────────────────────────────────────────
+
+function parseHex(h: string): RgbaColor | null {
+  if (!/^[0-9a-f]+$/.test(h)) return null;
+  if (h.length === 3 || h.length === 4) h = h.split('').map((c) => c + c).join('');
+  if (h.length !== 6 && h.length !== 8) return null;
+  const color = fromHexNumber(parseInt(h.slice(0, 6), 16));
+  if (h.length === 8) color.a = parseInt(h.slice(6), 16) / 255;
+  return color;
+}
+
+function fromHexNumber(n: number): RgbaColor {
+  return { r: ((n >> 16) & 255) / 255, g: ((n >> 8) & 255) / 255, b: (n & 255) / 255, a: 1 };
+}
+
+/** A number, or a percentage of `full`; `none` is 0 */
+function component(token: string, full: number): number | null {
+  if (token === 'none') return 0;
+  const pct = token.endsWith('%');
+  const n = Number(pct ? token.slice(0, -1) : token);
+  if (!Number.isFinite(n)) return null;
+  return pct ? (n / 100) * full : n;
+}
+
+function components(tokens: string[], fulls: number[]): Vec3 | null {
+  if (tokens.length !== fulls.length) return null;
+  const out = tokens.map((t, i) => component(t, fulls[i]));
+  return out.every((v) => v !== null) ? ([...out, 0].slice(0, 3) as Vec3) : null;
+}
+
+/** An angle in degrees from a bare number or a deg/rad/grad/turn dimension */
+function hue(token: string): number | null {
+  if (token === 'none') return 0;
+  const m = token.match(/^(-?[\d.]+(?:e-?\d+)?)(deg|rad|grad|turn)?$/);
+  if (!m) return null;
+  const n = Number(m[1]);
+  if (!Number.isFinite(n)) return null;
+  switch (m[2]) {
+    case 'rad': return (n * 180) / Math.PI;
+    case 'grad': return n * 0.9;
+    case 'turn': return n * 360;
+    default: return n;
+  }
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
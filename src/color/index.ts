@@ -0,0 +1,2 @@
+export { parseColor, formatColor, lerpColor, COLOR_SPACES } from './color';
+export type { RgbaColor } from './color';
@@ -146,3 +146,42 @@ export function getEasingFunction(curve: EasingCurve | undefined): EasingFunctio
   // CubicBezierCurve object
   return cubicBezier(curve.x1, curve.y1, curve.x2, curve.y2);
 }
+
+// ─── Cubic-bezier equivalents ───────────────────────────────────────────────
+
+/**
+ * Cubic-bezier control points `[x1, y1, x2, y2]` matching the built-in
+ * easings. Elastic and bounce curves have no bezier form.
+ */
+export const bezierEasings: Partial<Record<EasingName, [number, number, number, number]>> = {
+  linear: [0, 0, 1, 1],
+  easeIn: [0.12, 0, 0.39, 0],
+  easeOut: [0.61, 1, 0.88, 1],
+  easeInOut: [0.37, 0, 0.63, 1],
+  easeInQuad: [0.11, 0, 0.5, 0],
+  easeOutQuad: [0.5, 1, 0.89, 1],
+  easeInOutQuad: [0.45, 0, 0.55, 1],
+  easeInCubic: [0.32, 0, 0.67, 0],
+  easeOutCubic: [0.33, 1, 0.68, 1],
+  easeInOutCubic: [0.65, 0, 0.35, 1],
+  easeInQuart: [0.5, 0, 0.75, 0],
+  easeOutQuart: [0.25, 1, 0.5, 1],
+  easeInOutQuart: [0.76, 0, 0.24, 1],
+  easeInBack: [0.36, 0, 0.66, -0.56],
+  easeOutBack: [0.34, 1.56, 0.64, 1],
+  easeInOutBack: [0.68, -0.6, 0.32, 1.6],
+};
+
+/**
+ * Express an EasingCurve as a cubic bezier — for exporters targeting formats
+ * that only understand bezier timing. Returns null for easings without a
+ * bezier form (elastic, bounce), which have to be sampled instead.
+ */
+export function toCubicBezier(curve: EasingCurve | undefined): CubicBezierCurve | null {
+  if (!curve) return { type: 'cubicBezier', x1: 0, y1: 0, x2: 1, y2: 1 };
+  if (typeof curve !== 'string') return curve;
+  const points = bezierEasings[curve];
+  if (!points) return null;
+  const [x1, y1, x2, y2] = points;
+  return { type: 'cubicBezier', x1, y1, x2, y2 };
+}
@@ -1 +1 @@
-export { easingFunctions, getEasingFunction, cubicBezier } from './curves';
+export { easingFunctions, getEasingFunction, cubicBezier, bezierEasings, toCubicBezier } from './curves';
@@ -0,0 +1,133 @@
+import type { ActorFilter } from '../types';
+import { formatColor, parseColor } from '../color/color';
+
+// ─── Filter stack → SVG filter primitives ───────────────────────────────────
+//
+// Renderer-neutral description of the `<filter>` content for an actor's
+// filter stack. Each effect reads the result of the previous one, so the
+// stack applies in list order. The React and Web Component renderers turn
+// the same primitives into elements.
+//
+
+/** An SVG filter primitive element, with SVG attribute names */
+export interface FilterPrimitive {
+  tag: string;
+  attrs: Record<string, string | number>;
+  children?: FilterPrimitive[];
+}
+
+/** Filter region — room for shadows and glows around the content */
+export const FILTER_REGION = { x: '-50%', y: '-50%', width: '200%', height: '200%' } as const;
+
+/**
+ * Build the primitives of a filter stack. Returns an empty list for an
+ * empty stack, so callers can skip the `<filter>` element.
+ *
+ * @example
+ * ```ts
+ * filterPrimitives([{ type: 'saturate', amount: 0 }]);
+ * // → [{ tag: 'feColorMatrix', attrs: { in: 'SourceGraphic', type: 'saturate', values: 0, result: 'fx0' } }]
+ * ```
+ */
+export function filterPrimitives(filters: ActorFilter[]): FilterPrimitive[] {
+  const out: FilterPrimitive[] = [];
+  let input = 'SourceGraphic';
+
+  filters.forEach((f, i) => {
+    const result = `fx${i}`;
+    switch (f.type) {
+      case 'dropShadow':
+        out.push({
+          tag: 'feDropShadow',
+          attrs: {
+            in: input, dx: f.dx, dy: f.dy, stdDeviation: f.blur,
+            'flood-color': f.color, 'flood-opacity': f.opacity ?? 1, result,
+          },
+        });
+        break;
+      case 'glow':
+        out.push(
+          { tag: 'feGaussianBlur', attrs: { in: input, stdDeviation: f.blur, result: `${result}-blur` } },
+          { tag: 'feFlood', attrs: { 'flood-color': f.color, 'flood-opacity': f.opacity ?? 1, result: `${result}-color` } },
+          { tag: 'feComposite', attrs: { in: `${result}-color`, in2: `${result}-blur`, operator: 'in', result: `${result}-halo` } },
+          {
+            tag: 'feMerge',
+            attrs: { result },
+            children: [
+              { tag: 'feMergeNode', attrs: { in: `${result}-halo` } },
+              { tag: 'feMergeNode', attrs: { in: input } },
+            ],
+          },
+        );
+        break;
+      case 'brightness': {
+        const channel = (tag: string): FilterPrimitive => ({ tag, attrs: { type: 'linear', slope: f.amount } });
+        out.push({
+          tag: 'feComponentTransfer',
+          attrs: { in: input, result },
+          children: [channel('feFuncR'), channel('feFuncG'), channel('feFuncB')],
+        });
+        break;
+      }
+      case 'saturate':
+        out.push({ tag: 'feColorMatrix', attrs: { in: input, type: 'saturate', values: f.amount, result } });
+        break;
+      case 'hueRotate':
+        out.push({ tag: 'feColorMatrix', attrs: { in: input, type: 'hueRotate', values: f.angle, result } });
+        break;
+      case 'colorMatrix':
+        out.push({ tag: 'feColorMatrix', attrs: { in: input, type: 'matrix', values: f.values.join(' '), result } });
+        break;
+    }
+    input = result;
+  });
+
+  return out;
+}
+
+// ─── Filter stack → CSS filter functions ────────────────────────────────────
+
+/**
+ * The filter stack as a CSS `filter` value, for renderers without SVG
+ * filters (the canvas `filter` property). Lengths are multiplied by
+ * `scale` — CSS filters work in output pixels. `colorMatrix` has no CSS
+ * form and is left out.
+ *
+ * @example
+ * ```ts
+ * cssFilter([{ type: 'glow', blur: 4, color: '#fff' }], 2); // → 'drop-shadow(0px 0px 16px #fff)'
+ * ```
+ */
+export function cssFilter(filters: ActorFilter[], scale = 1): string {
+  // A CSS shadow's blur radius is twice the Gaussian standard deviation
+  const shadow = (dx: number, dy: number, blur: number, color: string, opacity = 1) =>
+    `drop-shadow(${dx * scale}px ${dy * scale}px ${2 * blur * scale}px ${withOpacity(color, opacity)})`;
+
+  const parts: string[] = [];
+  for (const f of filters) {
+    switch (f.type) {
+      case 'dropShadow':
+        parts.push(shadow(f.dx, f.dy, f.blur, f.color, f.opacity));
+        break;
+      case 'glow':
+        parts.push(shadow(0, 0, f.blur, f.color, f.opacity));
+        break;
+      case 'brightness':
+        parts.push(`brightness(${f.amount})`);
+        break;
+      case 'saturate':
+        parts.push(`saturate(${f.amount})`);
+        break;
+      case 'hueRotate':
+        parts.push(`hue-rotate(${f.angle}deg)`);
+        break;
+    }
+  }
+  return parts.join(' ');
+}
+
+function withOpacity(color: string, opacity: number): string {
+  if (opacity >= 1) return color;
+  const c = parseColor(color);
+  return c ? formatColor({ ...c, a: c.a * opacity }) : color;
+}
@@ -0,0 +1,2 @@
+export { filterPrimitives, cssFilter, FILTER_REGION } from './filterStack';
+export type { FilterPrimitive } from './filterStack';
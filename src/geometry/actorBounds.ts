@@ -0,0 +1,45 @@
+import type { Actor, Bounds } from '../types';
+import type { ActorState } from '../timeline/interpolate';
+import { type Matrix2D, multiplyMatrix, parseTransform, isIdentityMatrix } from '../transform/matrix';
+import { transformPathD } from '../transform/bakeTransforms';
+import { getPathBounds, unionBounds, transformBounds } from './pathGeometry';
+import { estimateTextBounds } from '../text/textLayout';
+
+// ─── Actor geometry ─────────────────────────────────────────────────────────
+
+/**
+ * The matrix renderers apply to an actor's group: translate to position,
+ * rotate and scale around the origin. Reads `state` when given (including
+ * an auto-rotating motion path's tangent), otherwise the actor's own values.
+ */
+export function getActorMatrix(actor: Actor, state?: ActorState): Matrix2D {
+  const pos = state?.position ?? actor.position;
+  const scale = state?.scale ?? actor.scale;
+  const rotation = (state?.rotation ?? actor.rotation) + (state?.motionRotation ?? 0);
+  const sx = typeof scale === 'number' ? scale : scale.x;
+  const sy = typeof scale === 'number' ? scale : scale.y;
+  const { x: ox, y: oy } = actor.origin;
+
+  return parseTransform(`translate(${pos.x},${pos.y}) rotate(${rotation}) scale(${sx},${sy}) translate(${-ox},${-oy})`);
+}
+
+/**
+ * Tight bounding box of an actor in viewBox space, as drawn at `state` —
+ * position, scale, rotation, morphed `pathD` and each path's own `transform`
+ * are applied to the geometry before measuring. Texts contribute their
+ * estimated box at the animated font size and letter spacing. Strokes are
+ * not included. Returns null when the actor has no geometry.
+ */
+export function getActorBounds(actor: Actor, state?: ActorState): Bounds | null {
+  const m = getActorMatrix(actor, state);
+  const paths = actor.paths.map((p) => {
+    const d = state?.pathD ?? p.d;
+    const full = p.transform ? multiplyMatrix(m, parseTransform(p.transform)) : m;
+    return getPathBounds(isIdentityMatrix(full) ? d : transformPathD(d, full));
+  });
+  const texts = (actor.texts ?? []).map((t) => {
+    const box = estimateTextBounds(t, { fontSize: state?.fontSize, letterSpacing: state?.letterSpacing });
+    return transformBounds(box, t.transform ? multiplyMatrix(m, parseTransform(t.transform)) : m);
+  });
+  return unionBounds([...paths, ...texts]);
+}
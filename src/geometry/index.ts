@@ -0,0 +1,2 @@
+export { getPathBounds, getPathArea, getPathCentroid, getPointAtLength, getTangentAtLength, unionBounds, transformBounds } from './pathGeometry';
+export { getActorBounds, getActorMatrix } from './actorBounds';
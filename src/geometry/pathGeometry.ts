@@ -0,0 +1,345 @@
+import type { Bounds, Point } from '../types';
+import { parsePathD, arcToCenter, type ArcCenter, type CubicSegment } from '../timeline/pathMorph';
+import { cachedPathSampler } from '../timeline/motionPath';
+import { applyMatrix, type Matrix2D } from '../transform/matrix';
+
+// ─── DOM-free path geometry ─────────────────────────────────────────────────
+//
+// Bounds are exact: lines, quadratics and cubics contribute their derivative
+// roots, arcs their axis extrema. Area and centroid integrate the path with
+// Gauss–Legendre quadrature — exact for beziers, and arcs are integrated on
+// the true ellipse rather than a cubic approximation.
+// Lengths and points along the path come from the arc-length sampler shared
+// with motion paths.
+//
+
+/**
+ * Tight bounding box of a path's geometry (stroke not included), or null for
+ * a path without any points.
+ */
+export function getPathBounds(d: string): Bounds | null {
+  const box = new BoxBuilder();
+  for (const seg of walkSegments(d)) {
+    if (seg.kind === 'move') box.add(seg.x, seg.y);
+    else if (seg.kind === 'cubic') box.addCubic(seg.x0, seg.y0, seg.curve);
+    else box.addArc(seg.arc, seg.x1, seg.y1);
+  }
+  return box.bounds();
+}
+
+/**
+ * Enclosed area of a path. Every subpath is treated as closed, as for fills;
+ * subpaths wound in opposite directions subtract (holes).
+ */
+export function getPathArea(d: string): number {
+  return Math.abs(moments(d).area);
+}
+
+/**
+ * Area centroid of a path. Paths that enclose no area (open lines) fall back
+ * to the center of their bounds.
+ */
+export function getPathCentroid(d: string): Point {
+  const m = moments(d);
+  if (Math.abs(m.area) > 1e-9) {
+    return { x: m.mx / m.area, y: m.my / m.area };
+  }
+  const b = getPathBounds(d);
+  return b ? { x: b.x + b.w / 2, y: b.y + b.h / 2 } : { x: 0, y: 0 };
+}
+
+/** Point at `length` along the path, clamped to its ends. */
+export function getPointAtLength(d: string, length: number): Point {
+  const sampler = cachedPathSampler(d);
+  const { x, y } = sampler.at(sampler.length > 0 ? length / sampler.length : 0);
+  return { x, y };
+}
+
+/** Tangent angle in degrees (0 = pointing along +x) at `length` along the path. */
+export function getTangentAtLength(d: string, length: number): number {
+  const sampler = cachedPathSampler(d);
+  return sampler.at(sampler.length > 0 ? length / sampler.length : 0).angle;
+}
+
+/** Union of several bounding boxes, or null when there are none. */
+export function unionBounds(boxes: (Bounds | null | undefined)[]): Bounds | null {
+  const box = new BoxBuilder();
+  for (const b of boxes) {
+    if (!b) continue;
+    box.add(b.x, b.y);
+    box.add(b.x + b.w, b.y + b.h);
+  }
+  return box.bounds();
+}
+
+/** Axis-aligned bounds of a box after transforming its corners by `m`. */
+export function transformBounds(b: Bounds, m: Matrix2D): Bounds {
+  const box = new BoxBuilder();
+  for (const [x, y] of [[b.x, b.y], [b.x + b.w, b.y], [b.x, b.y + b.h], [b.x + b.w, b.y + b.h]]) {
+    const p = applyMatrix(m, { x, y });
+    box.add(p.x, p.y);
+  }
+  return box.bounds()!;
+}
+
+// ─── Internals ──────────────────────────────────────────────────────────────
+
+class BoxBuilder {
+  private minX = Infinity;
+  private minY = Infinity;
+  private maxX = -Infinity;
+  private maxY = -Infinity;
+
+  add(x: number, y: number): void {
+    if (x < this.minX) this.minX = x;
+    if (y < this.minY) this.minY = y;
+    if (x > this.maxX) this.maxX = x;
+    if (y > this.maxY) this.maxY = y;
+  }
+
+  addCubic(x0: number, y0: number, s: CubicSegment): void {
+    this.add(s.x, s.y);
+    for (const t of [...cubicRoots(x0, s.cx1, s.cx2, s.x), ...cubicRoots(y0, s.cy1, s.cy2, s.y)]) {
+      this.add(cubicAt(x0, s.cx1, s.cx2, s.x, t), cubicAt(y0, s.cy1, s.cy2, s.y, t));
+    }
+  }
+
+  addArc(arc: ArcCenter, x1: number, y1: number): void {
+    this.add(x1, y1);
+    const cos = Math.cos(arc.phi);
+    const sin = Math.sin(arc.phi);
+    // Angles where dx/dθ = 0 and dy/dθ = 0
+    const ax = Math.atan2(-arc.ry * sin, arc.rx * cos);
+    const ay = Math.atan2(arc.ry * cos, arc.rx * sin);
+    const lo = Math.min(arc.theta1, arc.theta1 + arc.dtheta);
+    const hi = Math.max(arc.theta1, arc.theta1 + arc.dtheta);
+
+    for (const base of [ax, ax + Math.PI, ay, ay + Math.PI]) {
+      // Move the candidate into [lo, lo + 2π) and keep it if it lies on the arc
+      const theta = lo + ((((base - lo) % TAU) + TAU) % TAU);
+      if (theta > hi) continue;
+      const p = arcPoint(arc, theta);
+      this.add(p.x, p.y);
+    }
+  }
+
+  bounds(): Bounds | null {
+    if (this.minX > this.maxX) return null;
+    return { x: this.minX, y: this.minY, w: this.maxX - this.minX, h: this.maxY - this.minY };
+  }
+}
+
+const TAU = Math.PI * 2;
+
+function cubicAt(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const mt = 1 - t;
+  return mt * mt * mt * p0 + 3 * mt * mt * t * p1 + 3 * mt * t * t * p2 + t * t * t * p3;
+}
+
+/** Parameters in (0, 1) where the derivative of a 1D cubic bezier is zero */
+function cubicRoots(p0: number, p1: number, p2: number, p3: number): number[] {
+  // B'(t)/3 = a t² + b t + c
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  const roots: number[] = [];
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12) roots.push(-c / b);
+  } else {
+    const disc = b * b - 4 * a * c;
+    if (disc >= 0) {
+      const sq = Math.sqrt(disc);
+      roots.push((-b + sq) / (2 * a), (-b - sq) / (2 * a));
+    }
+  }
+  return roots.filter((t) => t > 0 && t < 1);
+}
+
+// 5-point Gauss–Legendre on [0, 1] — exact for polynomials up to degree 9,
+// which covers x²·y' on a cubic (degree 8)
+const GAUSS_T = [0.04691007703066802, 0.23076534494715845, 0.5, 0.7692346550528415, 0.9530899229693319];
+const GAUSS_W = [0.11846344252809454, 0.23931433524968324, 0.28444444444444444, 0.23931433524968324, 0.11846344252809454];
+
+/** Signed area and first moments, via Green's theorem over the closed subpaths */
+function moments(d: string): { area: number; mx: number; my: number } {
+  let area = 0;
+  let mx = 0;
+  let my = 0;
+  // ∮ with the integrand evaluated at (x, y) moving by (dx, dy), weighted
+  const accumulate = (x: number, y: number, dx: number, dy: number, w: number) => {
+    area += w * (x * dy - y * dx) / 2;
+    mx += w * (x * x * dy) / 2;
+    my += w * (-y * y * dx) / 2;
+  };
+  const line = (x0: number, y0: number, x1: number, y1: number) => {
+    for (let i = 0; i < GAUSS_T.length; i++) {
+      const t = GAUSS_T[i];
+      accumulate(x0 + (x1 - x0) * t, y0 + (y1 - y0) * t, x1 - x0, y1 - y0, GAUSS_W[i]);
+    }
+  };
+
+  let startX = 0;
+  let startY = 0;
+  let x = 0;
+  let y = 0;
+  const close = () => {
+    if (x !== startX || y !== startY) line(x, y, startX, startY);
+  };
+
+  for (const seg of walkSegments(d)) {
+    if (seg.kind === 'move') {
+      close();
+      x = startX = seg.x;
+      y = startY = seg.y;
+      continue;
+    }
+    if (seg.kind === 'cubic') {
+      const c = seg.curve;
+      for (let i = 0; i < GAUSS_T.length; i++) {
+        const t = GAUSS_T[i];
+        accumulate(
+          cubicAt(seg.x0, c.cx1, c.cx2, c.x, t),
+          cubicAt(seg.y0, c.cy1, c.cy2, c.y, t),
+          cubicDerivative(seg.x0, c.cx1, c.cx2, c.x, t),
+          cubicDerivative(seg.y0, c.cy1, c.cy2, c.y, t),
+          GAUSS_W[i],
+        );
+      }
+      x = c.x;
+      y = c.y;
+    } else {
+      // Integrate the true ellipse in short pieces — quadrature is near-exact on each
+      const { arc } = seg;
+      const pieces = Math.max(1, Math.ceil(Math.abs(arc.dtheta) / (Math.PI / 8)));
+      const step = arc.dtheta / pieces;
+      const cos = Math.cos(arc.phi);
+      const sin = Math.sin(arc.phi);
+      for (let k = 0; k < pieces; k++) {
+        for (let i = 0; i < GAUSS_T.length; i++) {
+          const theta = arc.theta1 + (k + GAUSS_T[i]) * step;
+          const p = arcPoint(arc, theta);
+          const ex = -arc.rx * Math.sin(theta) * step;
+          const ey = arc.ry * Math.cos(theta) * step;
+          accumulate(p.x, p.y, cos * ex - sin * ey, sin * ex + cos * ey, GAUSS_W[i]);
+        }
+      }
+      x = seg.x1;
+      y = seg.y1;
+    }
+  }
+  close();
+  return { area, mx, my };
+}
+
+type Segment =
+  | { kind: 'move'; x: number; y: number }
+  | { kind: 'cubic'; x0: number; y0: number; curve: CubicSegment }
+  | { kind: 'arc'; arc: ArcCenter; x1: number; y1: number };
+
+/**
+ * Absolute segments of a path: lines and quadratics as cubics, smooth
+ * commands with their reflected control points, arcs in center form.
+ * `Z` yields the closing line followed by a move back to the subpath start.
+ */
+function* walkSegments(d: string): Generator<Segment> {
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let lastCx = 0;
+  let lastCy = 0;
+  let lastQx = 0;
+  let lastQy = 0;
+  let lastType = 'M';
+
+  const lineTo = (x1: number, y1: number): Segment => ({
+    kind: 'cubic', x0: x, y0: y, curve: { cx1: x, cy1: y, cx2: x1, cy2: y1, x: x1, y: y1 },
+  });
+
+  for (const cmd of parsePathD(d)) {
+    const p = cmd.params;
+    switch (cmd.type) {
+      case 'M':
+        x = startX = p[0];
+        y = startY = p[1];
+        yield { kind: 'move', x, y };
+        break;
+      case 'L':
+      case 'H':
+      case 'V': {
+        const x1 = cmd.type === 'V' ? x : p[0];
+        const y1 = cmd.type === 'H' ? y : cmd.type === 'V' ? p[0] : p[1];
+        yield lineTo(x1, y1);
+        x = x1;
+        y = y1;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const smooth = cmd.type === 'S';
+        const reflect = lastType === 'C' || lastType === 'S';
+        const c1x = smooth ? (reflect ? 2 * x - lastCx : x) : p[0];
+        const c1y = smooth ? (reflect ? 2 * y - lastCy : y) : p[1];
+        const rest = smooth ? p : p.slice(2);
+        yield { kind: 'cubic', x0: x, y0: y, curve: { cx1: c1x, cy1: c1y, cx2: rest[0], cy2: rest[1], x: rest[2], y: rest[3] } };
+        lastCx = rest[0];
+        lastCy = rest[1];
+        x = rest[2];
+        y = rest[3];
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const smooth = cmd.type === 'T';
+        const reflect = lastType === 'Q' || lastType === 'T';
+        const qx = smooth ? (reflect ? 2 * x - lastQx : x) : p[0];
+        const qy = smooth ? (reflect ? 2 * y - lastQy : y) : p[1];
+        const ex = smooth ? p[0] : p[2];
+        const ey = smooth ? p[1] : p[3];
+        yield {
+          kind: 'cubic', x0: x, y0: y,
+          curve: {
+            cx1: x + (2 / 3) * (qx - x), cy1: y + (2 / 3) * (qy - y),
+            cx2: ex + (2 / 3) * (qx - ex), cy2: ey + (2 / 3) * (qy - ey),
+            x: ex, y: ey,
+          },
+        };
+        lastQx = qx;
+        lastQy = qy;
+        x = ex;
+        y = ey;
+        break;
+      }
+      case 'A': {
+        // Arcs with equal endpoints are omitted; zero radii draw a line
+        if (x !== p[5] || y !== p[6]) {
+          const arc = arcToCenter(x, y, p[0], p[1], p[2], p[3], p[4], p[5], p[6]);
+          yield arc ? { kind: 'arc', arc, x1: p[5], y1: p[6] } : lineTo(p[5], p[6]);
+        }
+        x = p[5];
+        y = p[6];
+        break;
+      }
+      case 'Z':
+        if (x !== startX || y !== startY) yield lineTo(startX, startY);
+        x = startX;
+        y = startY;
+        yield { kind: 'move', x, y };
+        break;
+    }
+    lastType = cmd.type;
+  }
+}
+
+function arcPoint(arc: ArcCenter, theta: number): Point {
+  const cos = Math.cos(arc.phi);
+  const sin = Math.sin(arc.phi);
+  const ex = arc.rx * Math.cos(theta);
+  const ey = arc.ry * Math.sin(theta);
+  return { x: arc.cx + cos * ex - sin * ey, y: arc.cy + sin * ex + cos * ey };
+}
+
+function cubicDerivative(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const mt = 1 - t;
+  return 3 * mt * mt * (p1 - p0) + 6 * mt * t * (p2 - p1) + 3 * t * t * (p3 - p2);
+}
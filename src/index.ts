@@ -4,26 +4,54 @@
 export type {
   Point,
   ViewBox,
+  Bounds,
   StrokeAlign,
+  StrokeLinejoin,
+  StrokeLinecap,
+  FillRule,
   SvgPath,
   SvgGroup,
+  SvgInstance,
+  SvgClip,
+  MaskType,
+  SvgText,
+  SvgTextSpan,
+  TextAnchor,
   SvgMetadata,
   ColorMap,
   ColorEntry,
+  ColorSpace,
   GradientStop,
   LinearGradientDef,
   RadialGradientDef,
   GradientDef,
+  GradientStopKeyframe,
+  GradientKeyframe,
   Scene,
   ActorConfig,
+  ActorOrigin,
+  OriginAnchor,
   ShapeType,
   Actor,
+  ActorFilter,
+  DropShadowFilter,
+  GlowFilter,
+  BrightnessFilter,
+  SaturateFilter,
+  HueRotateFilter,
+  ColorMatrixFilter,
   EasingName,
   CubicBezierCurve,
   EasingCurve,
+  MotionPath,
   Keyframe,
   TimelineConfig,
   Timeline,
+  TimelineMarker,
+  CompositionPosition,
+  CompositionItem,
+  CompositionConfig,
+  Composition,
   TriggerType,
   LoopDirection,
   TriggerConfig,
@@ -40,42 +68,113 @@ export type {
   BundleTimeline,
   BundleTrigger,
   BundleVariant,
+  BundleComposition,
+  BundleCompositionItem,
   ExportConfig,
   PlaybackState,
   PlaybackController,
+  ScenePlaybackController,
+  TriggeredPlayback,
   PlaybackEventType,
   PlaybackEvent,
   PlaybackEventHandler,
 } from './types';
 
 // Parser
-export { parseSvg } from './parser';
+export { parseSvg, getInstancePaths } from './parser';
+
+// Transform
+export { parseTransform, multiplyMatrix, invertMatrix, applyMatrix, isIdentityMatrix, matrixToString, fitViewBox, IDENTITY_MATRIX } from './transform';
+export { getPathMatrix, transformPathD, bakeTransforms } from './transform';
+export type { Matrix2D } from './transform';
+
+// Geometry
+export { getPathBounds, getPathArea, getPathCentroid, getPointAtLength, getTangentAtLength, unionBounds, transformBounds } from './geometry';
+export { getActorBounds, getActorMatrix } from './geometry';
 
 // Actor
-export { createActor } from './actor';
+export { createActor, resolveOrigin } from './actor';
+export { createClipActor, getClipSourceIds, getClipShapes } from './actor';
+export type { ClipShape } from './actor';
 export { generateShapePath } from './actor';
 export type { ShapeOptions } from './actor';
 
+// Text
+export { textRuns, revealRuns, estimateTextBounds, estimateTextWidth, splitText } from './text';
+export type { SplitTextBy, SplitTextOptions, SplitTextResult } from './text';
+
+// Color
+export { parseColor, formatColor, lerpColor, COLOR_SPACES } from './color';
+export type { RgbaColor } from './color';
+
+// Filters
+export { filterPrimitives, cssFilter, FILTER_REGION } from './filter';
+export type { FilterPrimitive } from './filter';
+
 // Easing
-export { easingFunctions, getEasingFunction, cubicBezier } from './easing';
+export { easingFunctions, getEasingFunction, cubicBezier, bezierEasings, toCubicBezier } from './easing';
 
 // Timeline
 export { timeline } from './timeline';
-export { interpolateKeyframes, getActorStateAtTime, lerpGradientDef } from './timeline';
+export { interpolateKeyframes, getActorStateAtTime, lerpGradientDef, lerpFilters } from './timeline';
 export { sequence, stagger, parallelDuration } from './timeline';
 export type { SequenceConfig, SequenceItem, StaggerConfig, StaggerFrom } from './timeline/sequence';
-export { lerpPath, parsePathD, normalizeToCubic, balanceCommands } from './timeline/pathMorph';
+export { composition } from './timeline';
+export { lerpPath, parsePathD, normalizeToCubic, balanceCommands, balancePaths } from './timeline/pathMorph';
 export type { PathCommand, CubicSegment, NormalizedPath } from './timeline/pathMorph';
+export { createPathSampler, getPathLength } from './timeline/motionPath';
+export type { PathSample, PathSampler } from './timeline/motionPath';
+export { trimToDash } from './timeline/trimPath';
+export type { TrimValues, TrimDash } from './timeline/trimPath';
 
 // Trigger
 export { trigger } from './trigger';
 export { createPlayback } from './trigger';
+export { createScenePlayback } from './trigger';
+export { bindTriggeredPlayback, bindCanvasTriggeredPlayback, resolveTriggerTargets, attachTriggerDriver } from './trigger';
+export { hoverDriver, clickDriver, appearDriver, scrollDriver, scrollProgress } from './trigger';
+export { createTriggeredPlaybacks, sceneTimelines, isDrivenTrigger } from './trigger';
+export type { ScenePlaybackSource, ScenePlaybackOptions } from './trigger/scenePlayback';
+export type { TriggerRoot, CanvasTriggerRoot } from './trigger/drivers';
 
 // Bundle
 export { exportBundle } from './bundle';
 export { importBundle } from './bundle';
 export { getVariant } from './bundle/importBundle';
 export { validateBundle } from './bundle';
+export { exportAnimatedSvg } from './bundle';
+export type {
+  AnimatedSvgMode,
+  AnimatedSvgOptions,
+  AnimatedSvgProperty,
+  AnimatedSvgResult,
+  AnimatedSvgSource,
+  BakedFeature,
+} from './bundle/exportAnimatedSvg';
+
+// Render
+export { renderFrame, getFrameStates } from './render';
+export { actorFrame, pathFrame, textFrame } from './render';
+export type { FrameSource, RenderFrameOptions, ActorFrame, PathFrame, TextFrame } from './render';
+
+// Canvas
+export { CanvasRenderer, fitCanvas } from './canvas';
+export type { CanvasTarget, CanvasRendererOptions, CanvasSource } from './canvas';
+
+// Raster
+export { rasterizeFrame, rasterizeFrames, getRasterSize } from './raster';
+export { exportPngSequence, exportApng, exportGif } from './raster';
+export { encodePng, encodeApng, encodeGif } from './raster';
+export type {
+  RasterImage, RasterOptions, RasterAnimationOptions, PngSequenceResult, RasterAnimationResult,
+  ApngOptions, GifOptions,
+} from './raster';
+
+// Lottie
+export { importLottie, exportLottie } from './lottie';
+export type { ImportedLottie, LottieUnsupported } from './lottie/importLottie';
+export type { LottieExportOptions } from './lottie/exportLottie';
+export type { LottieAnimation, LottieLayer, LottieShape } from './lottie/lottieTypes';
 
 // Core
 export { AnimationStore } from './core/AnimationStore';
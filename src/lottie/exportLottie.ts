@@ -0,0 +1,422 @@
+import type {
+  Actor,
+  GradientDef,
+  Keyframe,
+  Point,
+  SvgPath,
+  Timeline,
+} from '../types';
+import type { AnimatedSvgSource } from '../bundle/exportAnimatedSvg';
+import { getActorStateAtTime, type ActorState } from '../timeline/interpolate';
+import { parsePathD, normalizeToCubic, balancePaths, type NormalizedPath, type PathCommand } from '../timeline/pathMorph';
+import { toCubicBezier } from '../easing/curves';
+import { parseColor } from '../color/color';
+import { parseTransform, type Matrix2D } from '../transform/matrix';
+import { transformPathD } from '../transform/bakeTransforms';
+import type {
+  LottieAnimation,
+  LottieBezier,
+  LottieKeyframe,
+  LottieLayer,
+  LottieProperty,
+  LottieShape,
+} from './lottieTypes';
+
+// ─── Lottie export ──────────────────────────────────────────────────────────
+//
+// The inverse of importLottie: every actor becomes a shape layer anchored at
+// its origin, each of its paths a shape group carrying the path's own
+// transform, and each animated channel of its timeline a Lottie property.
+// Easings are written as bezier handles; elastic and bounce have no bezier
+// form and, like motion paths, are sampled once per frame.
+//
+
+export interface LottieExportOptions {
+  /** Frame rate of the composition (default: 60) */
+  fr?: number;
+  /** Composition name */
+  name?: string;
+}
+
+/**
+ * Export a scene as a Lottie (bodymovin) JSON string.
+ *
+ * All timelines start at frame 0, or at their offsets when the source has a
+ * composition; the Lottie composition lasts until the last timeline ends.
+ * When an actor has several timelines the last one wins, as in
+ * `createScenePlayback`. Animated `pathD` keyframes are normalized to cubic
+ * segments with matching vertex counts so players can interpolate them.
+ *
+ * @example
+ * ```ts
+ * const lottieJson = exportLottie(importBundle(json), { fr: 30 });
+ * ```
+ */
+export function exportLottie(source: AnimatedSvgSource, options?: LottieExportOptions): string {
+  const { scene, actors, timelines } = source;
+  const offsets = source.composition?.offsets ?? {};
+  const fr = options?.fr ?? 60;
+  if (!(fr > 0)) {
+    throw new Error(`motion-svg: exportLottie frame rate must be positive, got ${fr}.`);
+  }
+
+  const duration = Math.max(0, ...timelines.map((tl) => (offsets[tl.id] ?? 0) + tl.duration));
+  const ctx: ExportContext = {
+    fr,
+    gradients: scene.gradients ?? [],
+    offset: { x: scene.viewBox.x, y: scene.viewBox.y },
+    start: 0,
+  };
+  const op = Math.max(1, Math.ceil((duration / 1000) * fr));
+
+  // Lottie lists layers top-first
+  const layers: LottieLayer[] = [];
+  [...actors].reverse().forEach((actor) => {
+    if (actor.paths.length === 0) return;
+    const tl = [...timelines].reverse().find((t) => t.actorId === actor.id);
+    const start = tl ? offsets[tl.id] ?? 0 : 0;
+    layers.push(actorLayer(actor, tl, layers.length + 1, op, { ...ctx, start }));
+  });
+
+  const animation: LottieAnimation = {
+    v: '5.7.0',
+    fr,
+    ip: 0,
+    op,
+    w: scene.viewBox.w,
+    h: scene.viewBox.h,
+    nm: options?.name ?? 'motion-svg',
+    ddd: 0,
+    assets: [],
+    layers,
+  };
+  return JSON.stringify(animation);
+}
+
+// ─── Layers ─────────────────────────────────────────────────────────────────
+
+interface ExportContext {
+  fr: number;
+  gradients: GradientDef[];
+  /** viewBox origin — Lottie compositions always start at 0,0 */
+  offset: Point;
+  /** Start of the layer's timeline on the composition clock (ms) */
+  start: number;
+}
+
+function actorLayer(actor: Actor, tl: Timeline | undefined, ind: number, op: number, ctx: ExportContext): LottieLayer {
+  const { x: ox, y: oy } = actor.origin;
+  const channel = <T>(property: ChannelName, fallback: T, read: (state: ActorState) => T): LottieProperty<T> =>
+    tl ? channelProperty(tl, property, fallback, read, ctx) : { a: 0, k: fallback };
+
+  const position = (p: Point) => [round(p.x - ctx.offset.x), round(p.y - ctx.offset.y)];
+  const scale = (s: number | Point) =>
+    typeof s === 'number' ? [round(s * 100), round(s * 100)] : [round(s.x * 100), round(s.y * 100)];
+
+  const paint: AnimatedPaint = {
+    fill: tl && hasChannel(tl, 'fill') ? channel('fill', [0, 0, 0, 1], (s) => colorToLottie(s.fill)) : undefined,
+    fillAlpha: tl && hasChannel(tl, 'fill') ? channel('fill', 1, (s) => colorAlpha(s.fill)) : undefined,
+    stroke: tl && hasChannel(tl, 'stroke') ? channel('stroke', [0, 0, 0, 1], (s) => colorToLottie(s.stroke)) : undefined,
+    strokeAlpha: tl && hasChannel(tl, 'stroke') ? channel('stroke', 1, (s) => colorAlpha(s.stroke)) : undefined,
+    strokeWidth: tl && hasChannel(tl, 'strokeWidth') ? channel('strokeWidth', 1, (s) => round(s.strokeWidth ?? 1)) : undefined,
+    pathD: tl && hasChannel(tl, 'pathD') ? (m) => pathChannel(tl, m, ctx) : undefined,
+  };
+
+  return {
+    ddd: 0,
+    ind,
+    ty: 4,
+    nm: actor.id,
+    ks: {
+      a: { a: 0, k: [round(ox), round(oy)] },
+      p: channel('position', position(actor.position), (s) => position(s.position)),
+      s: channel('scale', scale(actor.scale), (s) => scale(s.scale)),
+      r: channel('rotation', actor.rotation, (s) => round(s.rotation + (s.motionRotation ?? 0))),
+      o: channel('opacity', round(actor.opacity * 100), (s) => round(s.opacity * 100)),
+    },
+    shapes: actor.paths.map((p) => pathGroup(p, paint, ctx)),
+    ip: 0,
+    op,
+    st: 0,
+    bm: 0,
+  };
+}
+
+interface AnimatedPaint {
+  fill?: LottieProperty<number[]>;
+  /** Alpha of the animated fill color, 0..1 */
+  fillAlpha?: LottieProperty<number>;
+  stroke?: LottieProperty<number[]>;
+  strokeAlpha?: LottieProperty<number>;
+  strokeWidth?: LottieProperty<number>;
+  /** Animated path, with a transform to bake into its vertices */
+  pathD?: (bake: Matrix2D | undefined) => LottieProperty<LottieBezier[]>;
+}
+
+/**
+ * One shape group per path: geometry, fill, stroke and the path's own
+ * transform. Color alpha is multiplied into the paint opacity.
+ */
+function pathGroup(p: SvgPath, paint: AnimatedPaint, ctx: ExportContext): LottieShape {
+  const items: LottieShape[] = [];
+  const m = parseTransform(p.transform);
+  const frame = groupTransform(m);
+  // Lottie group transforms can't skew — bake skewed transforms into the vertices
+  const bake = frame ? undefined : m;
+  const widthScale = bake ? Math.sqrt(Math.abs(m.a * m.d - m.b * m.c)) : 1;
+  const opacity = (alpha: LottieProperty<number> | undefined, color: string | undefined) =>
+    settle(mapProperty(alpha ?? { a: 0, k: colorAlpha(color) }, (a) => round(a * (p.opacity ?? 1) * 100)));
+
+  if (paint.pathD) {
+    items.push({ ty: 'sh', ks: paint.pathD(bake) });
+  } else {
+    const d = bake ? transformPathD(p.d, bake) : p.d;
+    for (const sub of subpaths(d)) items.push({ ty: 'sh', ks: { a: 0, k: sub } });
+  }
+
+  // Like the runtime renderers, animated paint applies to every path of the actor
+  const stroke = paint.stroke ?? staticPaint(p.stroke);
+  if (stroke) {
+    const w = mapProperty(paint.strokeWidth ?? { a: 0, k: p.strokeWidth ?? 1 }, (v) => round(v * widthScale));
+    items.push(paintItem('st', stroke, p.stroke, opacity(paint.strokeAlpha, p.stroke), w, ctx));
+  }
+  // SVG paints an unset fill black
+  const fill = paint.fill ?? staticPaint(p.fill ?? '#000000');
+  if (fill) items.push(paintItem('fl', fill, p.fill, opacity(paint.fillAlpha, p.fill), undefined, ctx));
+
+  items.push({
+    ty: 'tr',
+    a: { a: 0, k: [0, 0] },
+    p: { a: 0, k: frame?.p ?? [0, 0] },
+    s: { a: 0, k: frame?.s ?? [100, 100] },
+    r: { a: 0, k: frame?.r ?? 0 },
+    o: { a: 0, k: 100 },
+  });
+  return { ty: 'gr', nm: p.id, it: items };
+}
+
+/** A matrix as position, rotation and scale — null when it skews, which Lottie groups can't */
+function groupTransform(m: Matrix2D): { p: number[]; r: number; s: number[] } | null {
+  const sx = Math.hypot(m.a, m.b);
+  if (sx === 0 || Math.abs(m.a * m.c + m.b * m.d) > 1e-9) return null;
+  const sy = (m.a * m.d - m.b * m.c) / sx;
+  return {
+    p: [round(m.e), round(m.f)],
+    r: round((Math.atan2(m.b, m.a) * 180) / Math.PI),
+    s: [round(sx * 100), round(sy * 100)],
+  };
+}
+
+function staticPaint(value: string | undefined): LottieProperty<number[]> | 'gradient' | undefined {
+  if (!value || value === 'none') return undefined;
+  if (value.startsWith('url(')) return 'gradient';
+  return { a: 0, k: colorToLottie(value) };
+}
+
+/** A solid or gradient fill / stroke item. */
+function paintItem(
+  ty: 'fl' | 'st',
+  color: LottieProperty<number[]> | 'gradient',
+  raw: string | undefined,
+  o: LottieProperty<number>,
+  w: LottieProperty<number> | undefined,
+  ctx: ExportContext,
+): LottieShape {
+  const gradient = color === 'gradient' ? findGradient(raw, ctx) : undefined;
+  if (gradient) {
+    return { ty: ty === 'fl' ? 'gf' : 'gs', ...gradientItem(gradient), o, ...(w ? { w } : {}) } as LottieShape;
+  }
+  const c = color === 'gradient' ? { a: 0 as const, k: [0, 0, 0, 1] } : color;
+  return ty === 'fl'
+    ? { ty: 'fl', c, o }
+    : { ty: 'st', c, o, w: w ?? { a: 0, k: 1 } };
+}
+
+function findGradient(ref: string | undefined, ctx: ExportContext): GradientDef | undefined {
+  const id = ref?.match(/url\(#(.+)\)/)?.[1];
+  return id ? ctx.gradients.find((g) => g.id === id) : undefined;
+}
+
+function gradientItem(g: GradientDef) {
+  const colors = g.stops.flatMap((s) => [s.offset, ...colorToLottie(s.color).slice(0, 3)]);
+  const alpha = (s: GradientDef['stops'][number]) => round((s.opacity ?? 1) * colorAlpha(s.color));
+  const alphas = g.stops.some((s) => alpha(s) !== 1)
+    ? g.stops.flatMap((s) => [s.offset, alpha(s)])
+    : [];
+  const [s, e] = g.type === 'linear'
+    ? [[g.x1, g.y1], [g.x2, g.y2]]
+    : [[g.cx, g.cy], [g.cx + g.r, g.cy]];
+  return {
+    t: g.type === 'linear' ? 1 : 2,
+    s: { a: 0, k: s },
+    e: { a: 0, k: e },
+    g: { p: g.stops.length, k: { a: 0, k: [...colors, ...alphas] } },
+  };
+}
+
+// ─── Channels ───────────────────────────────────────────────────────────────
+
+type ChannelName = 'position' | 'scale' | 'rotation' | 'opacity' | 'fill' | 'stroke' | 'strokeWidth' | 'pathD';
+
+function hasChannel(tl: Timeline, property: ChannelName): boolean {
+  return tl.keyframes.some((kf) => definesChannel(kf, property));
+}
+
+function definesChannel(kf: Keyframe, property: ChannelName): boolean {
+  return kf[property] !== undefined || followsPath(kf, property);
+}
+
+/** Motion paths drive position, and rotation when auto-rotating */
+function followsPath(kf: Keyframe, property: ChannelName): boolean {
+  return property === 'position' ? !!kf.motionPath : property === 'rotation' && !!kf.motionPath?.autoRotate;
+}
+
+interface ChannelKey<T> {
+  at: number;
+  value: T;
+  /** Easing into this key from the previous one */
+  ease: { x1: number; y1: number; x2: number; y2: number };
+}
+
+const LINEAR_EASE = { x1: 0, y1: 0, x2: 1, y2: 1 };
+
+/**
+ * Keys for one channel of a timeline. Segments whose easing has a bezier
+ * form keep it; others are sampled every frame and joined linearly.
+ */
+function channelKeys<T>(
+  tl: Timeline,
+  property: ChannelName,
+  read: (state: ActorState) => T,
+  ctx: ExportContext,
+): ChannelKey<T>[] {
+  const kfs = tl.keyframes.filter((kf) => definesChannel(kf, property));
+  const sample = (time: number) => read(getActorStateAtTime(tl, time, { gradients: ctx.gradients }));
+  if (kfs.length === 0) return [];
+
+  const keys: ChannelKey<T>[] = [{ at: kfs[0].at, value: sample(kfs[0].at), ease: LINEAR_EASE }];
+  for (let i = 1; i < kfs.length; i++) {
+    const prev: Keyframe = kfs[i - 1];
+    const next: Keyframe = kfs[i];
+    const bezier = followsPath(next, property) ? null : toCubicBezier(next.curve);
+    if (!bezier) {
+      const frames = Math.max(2, Math.ceil(((next.at - prev.at) / 1000) * ctx.fr));
+      for (let f = 1; f < frames; f++) {
+        const time = prev.at + ((next.at - prev.at) * f) / frames;
+        keys.push({ at: time, value: sample(time), ease: LINEAR_EASE });
+      }
+    }
+    const { x1, y1, x2, y2 } = bezier ?? LINEAR_EASE;
+    keys.push({ at: next.at, value: sample(next.at), ease: { x1, y1, x2, y2 } });
+  }
+  return keys;
+}
+
+function channelProperty<T>(
+  tl: Timeline,
+  property: ChannelName,
+  fallback: T,
+  read: (state: ActorState) => T,
+  ctx: ExportContext,
+): LottieProperty<T> {
+  return toProperty(channelKeys(tl, property, read, ctx), fallback, ctx);
+}
+
+/** Keys → Lottie property; a single key (or none) gives a static value. */
+function toProperty<T>(keys: ChannelKey<T>[], fallback: T, ctx: ExportContext): LottieProperty<T> {
+  if (keys.length === 0) return { a: 0, k: fallback };
+  if (keys.length === 1) return { a: 0, k: keys[0].value };
+
+  const k: LottieKeyframe<T>[] = keys.map((key, i) => {
+    const next = keys[i + 1];
+    const kf: LottieKeyframe<T> = { t: round(((ctx.start + key.at) / 1000) * ctx.fr), s: key.value };
+    if (next) {
+      kf.o = { x: round(next.ease.x1), y: round(next.ease.y1) };
+      kf.i = { x: round(next.ease.x2), y: round(next.ease.y2) };
+    }
+    return kf;
+  });
+  return { a: 1, k };
+}
+
+/** Animated path: every key normalized to cubics with the same vertex count. */
+function pathChannel(tl: Timeline, bake: Matrix2D | undefined, ctx: ExportContext): LottieProperty<LottieBezier[]> {
+  const read = (s: ActorState) => (bake ? transformPathD(s.pathD ?? 'M0,0', bake) : s.pathD ?? 'M0,0');
+  const keys = channelKeys(tl, 'pathD', read, ctx);
+  const normalized = keys.map((k) => normalizeToCubic(parsePathD(k.value)));
+  const closed = normalized.every((n) => n.closed);
+  const balanced = balancePaths(normalized);
+  const shapes = keys.map((k, i) => ({ ...k, value: [toBezier(balanced[i], closed)] }));
+  return toProperty(shapes, [toBezier(balanced[0], closed)], ctx);
+}
+
+// ─── Geometry ───────────────────────────────────────────────────────────────
+
+/** Split a path into one Lottie bezier per subpath. */
+function subpaths(d: string): LottieBezier[] {
+  const groups: PathCommand[][] = [];
+  for (const cmd of parsePathD(d)) {
+    if (cmd.type === 'M' || groups.length === 0) groups.push([]);
+    groups[groups.length - 1].push(cmd);
+  }
+  return groups
+    .map((cmds) => normalizeToCubic(cmds))
+    .map((n) => toBezier(n, n.closed));
+}
+
+/** NormalizedPath → Lottie bezier with tangents relative to their vertex. */
+function toBezier(path: NormalizedPath, closed: boolean): LottieBezier {
+  const v: number[][] = [[round(path.startX), round(path.startY)]];
+  const i: number[][] = [[0, 0]];
+  const o: number[][] = [];
+
+  let x = path.startX;
+  let y = path.startY;
+  for (const s of path.segments) {
+    o.push([round(s.cx1 - x), round(s.cy1 - y)]);
+    v.push([round(s.x), round(s.y)]);
+    i.push([round(s.cx2 - s.x), round(s.cy2 - s.y)]);
+    x = s.x;
+    y = s.y;
+  }
+  o.push([0, 0]);
+
+  // A closed path that ends on its start point: fold the last vertex into the first
+  const last = v[v.length - 1];
+  if (closed && v.length > 1 && last[0] === v[0][0] && last[1] === v[0][1]) {
+    v.pop();
+    o.pop();
+    i[0] = i.pop()!;
+  }
+  return { c: closed, v, i, o };
+}
+
+// ─── Values ─────────────────────────────────────────────────────────────────
+
+/** CSS color → Lottie [r, g, b, 1] in 0..1, clamped to sRGB. Anything else is black. */
+function colorToLottie(color: string | undefined): number[] {
+  const c = color ? parseColor(color) : null;
+  if (!c) return [0, 0, 0, 1];
+  return [c.r, c.g, c.b].map((v) => round(Math.max(0, Math.min(1, v)))).concat(1);
+}
+
+/** Alpha of a CSS color, 0..1 — 1 for gradient references and anything unparsed */
+function colorAlpha(color: string | undefined): number {
+  return (color ? parseColor(color)?.a : undefined) ?? 1;
+}
+
+function mapProperty<T>(prop: LottieProperty<T>, fn: (value: T) => T): LottieProperty<T> {
+  if (prop.a !== 1) return { a: 0, k: fn(prop.k as T) };
+  return { a: 1, k: (prop.k as LottieKeyframe<T>[]).map((kf) => (kf.s === undefined ? kf : { ...kf, s: fn(kf.s) })) };
+}
+
+/** An animated property whose keys all hold the same value, as a static one */
+function settle<T>(prop: LottieProperty<T>): LottieProperty<T> {
+  if (prop.a !== 1) return prop;
+  const keys = prop.k as LottieKeyframe<T>[];
+  return keys.every((kf) => kf.s === keys[0].s) ? { a: 0, k: keys[0].s as T } : prop;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
@@ -0,0 +1,700 @@
+import type {
+  Actor,
+  CubicBezierCurve,
+  EasingCurve,
+  GradientDef,
+  GradientStop,
+  Keyframe,
+  Point,
+  Scene,
+  SvgPath,
+  Timeline,
+} from '../types';
+import type { ImportedBundle } from '../bundle/importBundle';
+import { exportBundle } from '../bundle/exportBundle';
+import { createActor } from '../actor/createActor';
+import { timeline as createTimeline } from '../timeline/timeline';
+import type {
+  LottieAnimation,
+  LottieBezier,
+  LottieGradientShape,
+  LottieKeyframe,
+  LottieLayer,
+  LottieProperty,
+  LottieShape,
+  LottieSplitPosition,
+  LottieTransform,
+} from './lottieTypes';
+
+// ─── Lottie import ──────────────────────────────────────────────────────────
+//
+// Converts a bodymovin JSON composition into motion-svg objects:
+//
+//   shape / solid layer  → Actor (anchor point → origin)
+//   shape items          → SvgPath (static group transforms baked in)
+//   layer transform      → position / scale / rotation / opacity keyframes
+//   animated shape path  → pathD morph keyframes
+//   keyframe i/o handles → CubicBezierCurve on the following keyframe
+//
+// Anything that can't be represented is skipped (or its first frame used) and
+// reported in `unsupported`.
+//
+
+/** A Lottie feature that was skipped or flattened during import. */
+export interface LottieUnsupported {
+  /** Human-readable feature name, e.g. "masks" or "star shapes" */
+  feature: string;
+  /** Name of the layer it was found on */
+  layer?: string;
+}
+
+export interface ImportedLottie extends ImportedBundle {
+  /** Lottie features encountered that motion-svg can't represent */
+  unsupported: LottieUnsupported[];
+}
+
+/**
+ * Import a Lottie (bodymovin) animation.
+ *
+ * Returns the same shape as `importBundle`, so the result can be played with
+ * `createScenePlayback`, rendered by the React / Web Component players or
+ * re-exported with `exportBundle`. Layers are stacked bottom-first with
+ * ascending `z`; every layer gets one timeline spanning the composition.
+ *
+ * @example
+ * ```ts
+ * const { actors, timelines, unsupported } = importLottie(lottieJson);
+ * if (unsupported.length) console.warn('Skipped:', unsupported);
+ * ```
+ */
+export function importLottie(json: string | LottieAnimation): ImportedLottie {
+  const anim: LottieAnimation = typeof json === 'string' ? JSON.parse(json) : json;
+
+  if (!anim || !Array.isArray(anim.layers)) {
+    throw new Error('motion-svg: Invalid Lottie file — missing "layers".');
+  }
+  if (!(anim.fr > 0)) {
+    throw new Error('motion-svg: Invalid Lottie file — missing frame rate "fr".');
+  }
+
+  const ctx: ImportContext = {
+    fr: anim.fr,
+    ip: anim.ip ?? 0,
+    layer: '',
+    gradients: [],
+    unsupported: [],
+  };
+  if (anim.assets?.length) report(ctx, 'assets', undefined);
+
+  const compDuration = frameToMs(ctx, anim.op ?? anim.ip ?? 0);
+  const actors: Actor[] = [];
+  const timelines: Timeline[] = [];
+  const paths: SvgPath[] = [];
+  const usedIds = new Set<string>();
+
+  // Lottie lists layers top-first; the renderers paint in array order
+  const layers = [...anim.layers].reverse();
+  layers.forEach((layer, i) => {
+    const result = importLayer(layer, anim, uniqueId(layer, anim.layers.length - i, usedIds), ctx);
+    if (!result) return;
+
+    const actor = createActor({ id: result.id, paths: result.paths, origin: result.origin, z: actors.length });
+    const keyframes = result.keyframes;
+    if (keyframes[keyframes.length - 1].at < compDuration) keyframes.push({ at: compDuration });
+
+    actors.push(actor);
+    paths.push(...result.paths);
+    timelines.push(createTimeline(actor, { keyframes }));
+  });
+
+  const colors: Record<string, string> = {};
+  for (const p of paths) {
+    if (p.fill && p.fill !== 'none') colors[p.id] = p.fill;
+    else if (p.stroke && p.stroke !== 'none') colors[p.id] = p.stroke;
+  }
+
+  const scene: Scene = {
+    viewBox: { x: 0, y: 0, w: anim.w, h: anim.h },
+    paths,
+    groups: [],
+    colors,
+    gradients: ctx.gradients,
+    metadata: {
+      xmlns: 'http://www.w3.org/2000/svg',
+      width: anim.w,
+      height: anim.h,
+      originalSvg: '',
+    },
+  };
+
+  const bundle = JSON.parse(exportBundle({ scene, actors, timelines, triggers: [] }));
+
+  return {
+    scene,
+    actors,
+    timelines,
+    triggers: [],
+    variants: [],
+    bundle,
+    unsupported: ctx.unsupported,
+  };
+}
+
+// ─── Context ────────────────────────────────────────────────────────────────
+
+interface ImportContext {
+  fr: number;
+  /** Composition in-point (frames) — time 0 of the imported timelines */
+  ip: number;
+  /** Name of the layer being imported, for reports */
+  layer: string;
+  gradients: GradientDef[];
+  unsupported: LottieUnsupported[];
+}
+
+function report(ctx: ImportContext, feature: string, layer: string | undefined = ctx.layer) {
+  if (!ctx.unsupported.some((u) => u.feature === feature && u.layer === layer)) {
+    ctx.unsupported.push(layer !== undefined ? { feature, layer } : { feature });
+  }
+}
+
+function frameToMs(ctx: ImportContext, frame: number): number {
+  return round(Math.max(0, ((frame - ctx.ip) / ctx.fr) * 1000));
+}
+
+function uniqueId(layer: LottieLayer, fallback: number, used: Set<string>): string {
+  const base = (layer.nm ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || `layer-${layer.ind ?? fallback}`;
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+  used.add(id);
+  return id;
+}
+
+// ─── Animated properties ────────────────────────────────────────────────────
+
+/** A property value at a point in time, eased in with `curve` */
+interface PropKey<T> {
+  at: number;
+  value: T;
+  curve?: EasingCurve;
+}
+
+/** Hold keyframes become a jump this long before the next keyframe (ms) */
+const HOLD_MS = 1;
+
+function isAnimated<T>(prop: LottieProperty<T>): boolean {
+  const k = prop.k as unknown;
+  return Array.isArray(k) && k.length > 0 && typeof k[0] === 'object' && k[0] !== null && 't' in k[0];
+}
+
+/** Resolve a property into keys in ms. Static properties yield a single key at 0. */
+function propKeys<T>(prop: LottieProperty<T> | undefined, ctx: ImportContext): PropKey<T>[] {
+  if (!prop || prop.k === undefined) return [];
+  if (prop.x) report(ctx, 'expressions');
+  if (!isAnimated(prop)) return [{ at: 0, value: prop.k as T }];
+
+  const keys: PropKey<T>[] = [];
+  let prevKf: LottieKeyframe<T> | undefined;
+  let prevValue: T | undefined;
+
+  for (const kf of prop.k as LottieKeyframe<T>[]) {
+    const value = kf.s ?? prevKf?.e;
+    if (value === undefined) continue;
+    const at = frameToMs(ctx, kf.t);
+
+    if (prevKf === undefined || prevValue === undefined) {
+      keys.push({ at, value });
+    } else if (prevKf.h === 1) {
+      const last = keys[keys.length - 1].at;
+      if (at - HOLD_MS > last) keys.push({ at: at - HOLD_MS, value: prevValue, curve: 'linear' });
+      keys.push({ at, value, curve: 'linear' });
+    } else {
+      keys.push({ at, value, curve: easingFrom(prevKf) });
+    }
+
+    if (hasSpatialTangents(kf)) report(ctx, 'curved motion paths');
+    prevKf = kf;
+    prevValue = value;
+  }
+  return keys;
+}
+
+/** First value of a property (for features that can only be imported statically). */
+function firstValue<T>(prop: LottieProperty<T> | undefined, ctx: ImportContext, feature: string): T | undefined {
+  const keys = propKeys(prop, ctx);
+  if (keys.length > 1) report(ctx, feature);
+  return keys[0]?.value;
+}
+
+/** The easing out of `kf` into the next keyframe. */
+function easingFrom(kf: LottieKeyframe<unknown>): EasingCurve {
+  if (!kf.o || !kf.i) return 'linear';
+  const curve: CubicBezierCurve = {
+    type: 'cubicBezier',
+    x1: scalar(kf.o.x),
+    y1: scalar(kf.o.y),
+    x2: scalar(kf.i.x),
+    y2: scalar(kf.i.y),
+  };
+  if (curve.x1 === curve.y1 && curve.x2 === curve.y2) return 'linear';
+  return curve;
+}
+
+function hasSpatialTangents(kf: LottieKeyframe<unknown>): boolean {
+  return [kf.to, kf.ti].some((t) => t?.some((v) => v !== 0));
+}
+
+function scalar(v: number | number[]): number {
+  return Array.isArray(v) ? v[0] ?? 0 : v;
+}
+
+function mapKeys<T, U>(keys: PropKey<T>[], fn: (v: T) => U): PropKey<U>[] {
+  return keys.map((k) => ({ ...k, value: fn(k.value) }));
+}
+
+// ─── Layers ─────────────────────────────────────────────────────────────────
+
+interface LayerResult {
+  id: string;
+  origin: Point;
+  paths: SvgPath[];
+  keyframes: Keyframe[];
+}
+
+function importLayer(layer: LottieLayer, anim: LottieAnimation, id: string, ctx: ImportContext): LayerResult | null {
+  ctx.layer = layer.nm ?? id;
+  if (layer.hd) return null;
+
+  switch (layer.ty) {
+    case 0: report(ctx, 'precomp layers'); return null;
+    case 2: report(ctx, 'image layers'); return null;
+    case 3: return null; // null layers only matter as parents
+    case 5: report(ctx, 'text layers'); return null;
+  }
+
+  if (layer.parent !== undefined) report(ctx, 'layer parenting');
+  if (layer.masksProperties?.length) report(ctx, 'masks');
+  if (layer.ef?.length) report(ctx, 'effects');
+  if (layer.tt) report(ctx, 'track mattes');
+  if (layer.ddd) report(ctx, '3D layers');
+  if (layer.tm) report(ctx, 'time remapping');
+  if (layer.bm) report(ctx, 'blend modes');
+  if (layer.ao) report(ctx, 'auto-orient');
+  if (layer.ip > (anim.ip ?? 0) || layer.op < anim.op) report(ctx, 'layer in/out points');
+
+  const shapes: ShapeOut[] = [];
+  if (layer.ty === 1) {
+    const w = layer.sw ?? 0;
+    const h = layer.sh ?? 0;
+    shapes.push({
+      d: [{ at: 0, value: `M0,0 L${w},0 L${w},${h} L0,${h} Z` }],
+      style: { fill: [{ at: 0, value: layer.sc ?? '#000000' }] },
+      opacity: 1,
+    });
+  } else {
+    collectGroup(layer.shapes ?? [], IDENTITY, {}, 1, ctx, shapes);
+  }
+  if (shapes.length === 0) return null;
+
+  const single = shapes.length === 1;
+  if (!single && shapes.some((s) => s.d.length > 1 || hasAnimatedStyle(s.style))) {
+    report(ctx, 'per-path animation in multi-path layers');
+  }
+
+  const paths: SvgPath[] = shapes.map((s, n) => {
+    const opacity = s.opacity * ((s.style.fill ? s.style.fillOpacity : s.style.strokeOpacity) ?? 1);
+    return {
+      id: `${id}-${n}`,
+      d: s.d[0].value,
+      fill: s.style.fill?.[0].value ?? 'none',
+      ...(s.style.stroke ? { stroke: s.style.stroke[0].value } : {}),
+      ...(s.style.strokeWidth ? { strokeWidth: s.style.strokeWidth[0].value } : {}),
+      ...(opacity < 1 ? { opacity: round(opacity) } : {}),
+    };
+  });
+
+  const channels = transformChannels(layer.ks, ctx);
+  if (single) {
+    const { style, d } = shapes[0];
+    if (d.length > 1) channels.pathD = d;
+    if (style.fill && style.fill.length > 1) channels.fill = style.fill;
+    if (style.stroke && style.stroke.length > 1) channels.stroke = style.stroke;
+    if (style.strokeWidth && style.strokeWidth.length > 1) channels.strokeWidth = style.strokeWidth;
+  }
+
+  const anchor = firstValue(layer.ks.a, ctx, 'animated anchor points') ?? [0, 0];
+  return {
+    id,
+    origin: { x: anchor[0] ?? 0, y: anchor[1] ?? 0 },
+    paths,
+    keyframes: buildKeyframes(channels),
+  };
+}
+
+type Channels = {
+  [K in 'position' | 'scale' | 'rotation' | 'opacity' | 'fill' | 'stroke' | 'strokeWidth' | 'pathD']?:
+    PropKey<NonNullable<Keyframe[K]>>[];
+};
+
+function transformChannels(ks: LottieTransform, ctx: ImportContext): Channels {
+  if (propKeys(ks.sk, ctx).some((k) => scalar(k.value) !== 0)) report(ctx, 'skew');
+
+  return {
+    position: positionKeys(ks.p, ctx),
+    scale: mapKeys(propKeys(ks.s, ctx), (v): number | Point => {
+      const x = (v[0] ?? 100) / 100;
+      const y = (v[1] ?? v[0] ?? 100) / 100;
+      return x === y ? x : { x, y };
+    }),
+    rotation: mapKeys(propKeys(ks.r, ctx), scalar),
+    opacity: mapKeys(propKeys(ks.o, ctx), (v) => scalar(v) / 100),
+  };
+}
+
+function positionKeys(
+  p: LottieProperty<number[]> | LottieSplitPosition | undefined,
+  ctx: ImportContext,
+): PropKey<Point>[] {
+  if (!p) return [];
+  if ('s' in p && p.s === true) {
+    const xs = propKeys(p.x, ctx);
+    const ys = propKeys(p.y, ctx);
+    const aligned = xs.length === ys.length && xs.every((k, i) => k.at === ys[i].at);
+    if (!aligned) {
+      report(ctx, 'separately keyed position dimensions');
+      return [{ at: 0, value: { x: scalar(xs[0]?.value ?? 0), y: scalar(ys[0]?.value ?? 0) } }];
+    }
+    return xs.map((k, i) => ({ ...k, value: { x: scalar(k.value), y: scalar(ys[i].value) } }));
+  }
+  return mapKeys(propKeys(p as LottieProperty<number[]>, ctx), (v) => ({ x: v[0] ?? 0, y: v[1] ?? 0 }));
+}
+
+/**
+ * Merge per-channel keys into keyframes. Keys sharing a time and an easing
+ * share a keyframe; the first keyframe carries every channel's starting value
+ * so values before a channel's first key hold, as in Lottie.
+ */
+function buildKeyframes(channels: Channels): Keyframe[] {
+  const first: Keyframe = { at: 0 };
+  const byKey = new Map<string, Keyframe>();
+
+  for (const [name, keys] of Object.entries(channels) as [keyof Channels, PropKey<unknown>[]][]) {
+    if (!keys || keys.length === 0) continue;
+    setChannel(first, name, keys[0].value);
+
+    for (const key of keys) {
+      if (key.at === 0) {
+        setChannel(first, name, key.value);
+        continue;
+      }
+      const mapKey = `${key.at}|${JSON.stringify(key.curve ?? null)}`;
+      let kf = byKey.get(mapKey);
+      if (!kf) {
+        kf = { at: key.at, ...(key.curve ? { curve: key.curve } : {}) };
+        byKey.set(mapKey, kf);
+      }
+      setChannel(kf, name, key.value);
+    }
+  }
+
+  return [first, ...[...byKey.values()].sort((a, b) => a.at - b.at)];
+}
+
+function setChannel(kf: Keyframe, name: keyof Channels, value: unknown) {
+  Object.assign(kf, { [name]: value });
+}
+
+// ─── Shapes ─────────────────────────────────────────────────────────────────
+
+interface ShapeStyle {
+  fill?: PropKey<string>[];
+  stroke?: PropKey<string>[];
+  strokeWidth?: PropKey<number>[];
+  /** Static fill / stroke opacity 0..1 — SvgPath has one opacity, the fill's wins */
+  fillOpacity?: number;
+  strokeOpacity?: number;
+}
+
+interface ShapeOut {
+  d: PropKey<string>[];
+  style: ShapeStyle;
+  opacity: number;
+}
+
+const SHAPE_FEATURES: Record<string, string> = {
+  sr: 'star shapes',
+  tm: 'trim paths',
+  rd: 'rounded corners',
+  mm: 'merge paths',
+  rp: 'repeaters',
+  op: 'offset paths',
+  pb: 'pucker & bloat',
+  tw: 'twist',
+  zz: 'zig zag',
+};
+
+function hasAnimatedStyle(style: ShapeStyle): boolean {
+  return [style.fill, style.stroke, style.strokeWidth].some((keys) => keys !== undefined && keys.length > 1);
+}
+
+/**
+ * Flatten a shape group. Styles apply to every shape in the group and its
+ * sub-groups (unless overridden there); items listed first paint on top.
+ */
+function collectGroup(
+  items: LottieShape[],
+  parentMatrix: Matrix,
+  inherited: ShapeStyle,
+  inheritedOpacity: number,
+  ctx: ImportContext,
+  out: ShapeOut[],
+) {
+  const visible = items.filter((it) => !it.hd);
+  const tr = visible.find((it) => it.ty === 'tr') as (LottieTransform & { ty: 'tr' }) | undefined;
+
+  let matrix = parentMatrix;
+  let opacity = inheritedOpacity;
+  if (tr) {
+    matrix = multiply(parentMatrix, staticTransform(tr, ctx));
+    opacity *= (scalar(firstValue(tr.o, ctx, 'animated group transforms') ?? 100)) / 100;
+  }
+
+  const style: ShapeStyle = { ...inherited, ...ownStyle(visible, matrix, ctx) };
+
+  for (const item of [...visible].reverse()) {
+    switch (item.ty) {
+      case 'gr':
+        collectGroup(item.it ?? [], matrix, style, opacity, ctx, out);
+        break;
+      case 'sh':
+        out.push({
+          d: mapKeys(propKeys(item.ks, ctx), (v) => bezierToD(Array.isArray(v) ? v[0] : v, matrix)),
+          style,
+          opacity,
+        });
+        break;
+      case 'rc': {
+        const p = firstValue(item.p, ctx, 'animated rectangles') ?? [0, 0];
+        const s = firstValue(item.s, ctx, 'animated rectangles') ?? [0, 0];
+        const r = scalar(firstValue(item.r, ctx, 'animated rectangles') ?? 0);
+        out.push({ d: [{ at: 0, value: bezierToD(rectBezier(p, s, r), matrix) }], style, opacity });
+        break;
+      }
+      case 'el': {
+        const p = firstValue(item.p, ctx, 'animated ellipses') ?? [0, 0];
+        const s = firstValue(item.s, ctx, 'animated ellipses') ?? [0, 0];
+        out.push({ d: [{ at: 0, value: bezierToD(ellipseBezier(p, s), matrix) }], style, opacity });
+        break;
+      }
+      case 'fl':
+      case 'st':
+      case 'gf':
+      case 'gs':
+      case 'tr':
+        break;
+      default:
+        report(ctx, SHAPE_FEATURES[item.ty] ?? `"${item.ty}" shape items`);
+    }
+  }
+}
+
+/** The first fill and first stroke declared directly in a group. */
+function ownStyle(items: LottieShape[], matrix: Matrix, ctx: ImportContext): ShapeStyle {
+  const style: ShapeStyle = {};
+  const widthScale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+
+  for (const item of items) {
+    if (item.ty === 'fl' && !style.fill) {
+      style.fill = mapKeys(propKeys(item.c, ctx), colorToHex);
+      style.fillOpacity = scalar(firstValue(item.o, ctx, 'animated fill opacity') ?? 100) / 100;
+    } else if (item.ty === 'st' && !style.stroke) {
+      style.stroke = mapKeys(propKeys(item.c, ctx), colorToHex);
+      style.strokeWidth = mapKeys(propKeys(item.w, ctx), (w) => round(scalar(w) * widthScale));
+      style.strokeOpacity = scalar(firstValue(item.o, ctx, 'animated stroke opacity') ?? 100) / 100;
+    } else if (item.ty === 'gf' && !style.fill) {
+      style.fill = [{ at: 0, value: `url(#${gradientDef(item, matrix, ctx).id})` }];
+      style.fillOpacity = scalar(firstValue(item.o, ctx, 'animated fill opacity') ?? 100) / 100;
+    } else if (item.ty === 'gs' && !style.stroke) {
+      style.stroke = [{ at: 0, value: `url(#${gradientDef(item, matrix, ctx).id})` }];
+      style.strokeOpacity = scalar(firstValue(item.o, ctx, 'animated stroke opacity') ?? 100) / 100;
+      style.strokeWidth = mapKeys(propKeys(item.w, ctx), (w) => round(scalar(w) * widthScale));
+    }
+  }
+  return style;
+}
+
+function gradientDef(item: LottieGradientShape, matrix: Matrix, ctx: ImportContext): GradientDef {
+  const feature = 'animated gradients';
+  const s = firstValue(item.s, ctx, feature) ?? [0, 0];
+  const e = firstValue(item.e, ctx, feature) ?? [0, 0];
+  const raw = firstValue(item.g.k, ctx, feature) ?? [];
+  const count = item.g.p;
+
+  const stops: GradientStop[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = raw[i * 4] ?? 0;
+    const stop: GradientStop = { offset, color: colorToHex(raw.slice(i * 4 + 1, i * 4 + 4)) };
+    const alpha = gradientAlpha(raw.slice(count * 4), offset);
+    if (alpha !== undefined && alpha < 1) stop.opacity = round(alpha);
+    stops.push(stop);
+  }
+
+  const id = `lottie-gradient-${ctx.gradients.length}`;
+  const gradientTransform = isIdentity(matrix) ? undefined : `matrix(${matrix.map(round).join(',')})`;
+  const def: GradientDef = item.t === 2
+    ? {
+        type: 'radial',
+        id,
+        cx: s[0] ?? 0,
+        cy: s[1] ?? 0,
+        r: round(Math.hypot((e[0] ?? 0) - (s[0] ?? 0), (e[1] ?? 0) - (s[1] ?? 0))),
+        stops,
+        gradientUnits: 'userSpaceOnUse',
+        ...(gradientTransform ? { gradientTransform } : {}),
+      }
+    : {
+        type: 'linear',
+        id,
+        x1: s[0] ?? 0,
+        y1: s[1] ?? 0,
+        x2: e[0] ?? 0,
+        y2: e[1] ?? 0,
+        stops,
+        gradientUnits: 'userSpaceOnUse',
+        ...(gradientTransform ? { gradientTransform } : {}),
+      };
+  ctx.gradients.push(def);
+  return def;
+}
+
+/** Alpha at `offset` from the trailing [offset, alpha] pairs of a gradient, if any. */
+function gradientAlpha(pairs: number[], offset: number): number | undefined {
+  if (pairs.length < 2) return undefined;
+  let best = 0;
+  for (let i = 0; i + 1 < pairs.length; i += 2) {
+    if (Math.abs(pairs[i] - offset) < Math.abs(pairs[best] - offset)) best = i;
+  }
+  return pairs[best + 1];
+}
+
+// ─── Geometry ───────────────────────────────────────────────────────────────
+
+/** Affine matrix [a, b, c, d, e, f] as in SVG `matrix()` */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** m · n — applies n first */
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function isIdentity(m: Matrix): boolean {
+  return m.every((v, i) => v === IDENTITY[i]);
+}
+
+function applyMatrix(m: Matrix, x: number, y: number): Point {
+  return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+/** translate(p) · rotate(r) · scale(s) · translate(-a), from a group's first frame */
+function staticTransform(tr: LottieTransform, ctx: ImportContext): Matrix {
+  const feature = 'animated group transforms';
+  const a = firstValue(tr.a, ctx, feature) ?? [0, 0];
+  const p = tr.p && 's' in tr.p && tr.p.s === true
+    ? [scalar(firstValue(tr.p.x, ctx, feature) ?? 0), scalar(firstValue(tr.p.y, ctx, feature) ?? 0)]
+    : firstValue(tr.p as LottieProperty<number[]> | undefined, ctx, feature) ?? [0, 0];
+  const s = firstValue(tr.s, ctx, feature) ?? [100, 100];
+  const r = (scalar(firstValue(tr.r, ctx, feature) ?? 0) * Math.PI) / 180;
+  if (scalar(firstValue(tr.sk, ctx, feature) ?? 0) !== 0) report(ctx, 'skew');
+
+  const sx = (s[0] ?? 100) / 100;
+  const sy = (s[1] ?? s[0] ?? 100) / 100;
+  const cos = Math.cos(r);
+  const sin = Math.sin(r);
+  const rotateScale: Matrix = [cos * sx, sin * sx, -sin * sy, cos * sy, 0, 0];
+  const withAnchor = multiply(rotateScale, [1, 0, 0, 1, -(a[0] ?? 0), -(a[1] ?? 0)]);
+  return multiply([1, 0, 0, 1, p[0] ?? 0, p[1] ?? 0], withAnchor);
+}
+
+/** Bezier approximation constant for a quarter arc */
+const KAPPA = 0.5522847498;
+
+function rectBezier(p: number[], s: number[], roundness: number): LottieBezier {
+  const [cx = 0, cy = 0] = p;
+  const [w = 0, h = 0] = s;
+  const l = cx - w / 2, r = cx + w / 2, t = cy - h / 2, b = cy + h / 2;
+  const rr = Math.min(Math.max(0, roundness), w / 2, h / 2);
+
+  if (rr === 0) {
+    const zero = [[0, 0], [0, 0], [0, 0], [0, 0]];
+    return { c: true, v: [[r, t], [r, b], [l, b], [l, t]], i: zero, o: zero };
+  }
+  const k = rr * KAPPA;
+  return {
+    c: true,
+    v: [[r, t + rr], [r, b - rr], [r - rr, b], [l + rr, b], [l, b - rr], [l, t + rr], [l + rr, t], [r - rr, t]],
+    i: [[0, -k], [0, 0], [k, 0], [0, 0], [0, k], [0, 0], [-k, 0], [0, 0]],
+    o: [[0, 0], [0, k], [0, 0], [-k, 0], [0, 0], [0, -k], [0, 0], [k, 0]],
+  };
+}
+
+function ellipseBezier(p: number[], s: number[]): LottieBezier {
+  const [cx = 0, cy = 0] = p;
+  const rx = (s[0] ?? 0) / 2;
+  const ry = (s[1] ?? 0) / 2;
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return {
+    c: true,
+    v: [[cx, cy - ry], [cx + rx, cy], [cx, cy + ry], [cx - rx, cy]],
+    i: [[-kx, 0], [0, -ky], [kx, 0], [0, ky]],
+    o: [[kx, 0], [0, ky], [-kx, 0], [0, -ky]],
+  };
+}
+
+/** Serialize a Lottie bezier (tangents relative to vertices) as an SVG path through `m`. */
+function bezierToD(bez: LottieBezier, m: Matrix): string {
+  const v = bez?.v ?? [];
+  if (v.length === 0) return 'M0,0';
+
+  const at = (j: number, rel?: number[]) =>
+    applyMatrix(m, v[j][0] + (rel?.[0] ?? 0), v[j][1] + (rel?.[1] ?? 0));
+  const pt = (q: Point) => `${round(q.x)},${round(q.y)}`;
+  const segment = (from: number, to: number) => {
+    const out = bez.o[from];
+    const inn = bez.i[to];
+    const straight = (!out || (out[0] === 0 && out[1] === 0)) && (!inn || (inn[0] === 0 && inn[1] === 0));
+    return straight
+      ? ` L${pt(at(to))}`
+      : ` C${pt(at(from, out))} ${pt(at(to, inn))} ${pt(at(to))}`;
+  };
+
+  let d = `M${pt(at(0))}`;
+  for (let j = 1; j < v.length; j++) d += segment(j - 1, j);
+  if (bez.c) d += `${segment(v.length - 1, 0)} Z`;
+  return d;
+}
+
+// ─── Values ─────────────────────────────────────────────────────────────────
+
+/** Lottie color ([r, g, b] in 0..1, or 0..255 in old files) → #rrggbb */
+function colorToHex(c: number[]): string {
+  const scale = c.slice(0, 3).some((v) => v > 1) ? 1 : 255;
+  const hex = (v = 0) => Math.max(0, Math.min(255, Math.round(v * scale))).toString(16).padStart(2, '0');
+  return `#${hex(c[0])}${hex(c[1])}${hex(c[2])}`;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
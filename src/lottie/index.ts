@@ -0,0 +1,2 @@
+export { importLottie } from './importLottie';
+export { exportLottie } from './exportLottie';
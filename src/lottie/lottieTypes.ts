@@ -0,0 +1,205 @@
+// ─── Lottie (bodymovin) JSON ────────────────────────────────────────────────
+//
+// The subset of the Lottie schema read and written by motion-svg. Property
+// names follow the bodymovin exporter; see https://lottiefiles.github.io/lottie-docs/
+//
+
+/** Bezier easing handle — one value per dimension, or a single shared value */
+export interface LottieEasingHandle {
+  x: number | number[];
+  y: number | number[];
+}
+
+export interface LottieKeyframe<T> {
+  /** Time in frames */
+  t: number;
+  /** Value at this keyframe */
+  s?: T;
+  /** End value (legacy exporters put the next value here instead of on the next keyframe) */
+  e?: T;
+  /** In-handle of the easing into the next keyframe */
+  i?: LottieEasingHandle;
+  /** Out-handle of the easing from this keyframe */
+  o?: LottieEasingHandle;
+  /** 1 = hold this value until the next keyframe */
+  h?: 0 | 1;
+  /** Spatial out-tangent (position only) */
+  to?: number[];
+  /** Spatial in-tangent (position only) */
+  ti?: number[];
+}
+
+/** A possibly animated property: static when `a` is 0 */
+export interface LottieProperty<T> {
+  a?: 0 | 1;
+  k: T | LottieKeyframe<T>[];
+  /** After Effects expression — not evaluated */
+  x?: string;
+}
+
+export interface LottieSplitPosition {
+  /** true when x and y are animated separately */
+  s: true;
+  x: LottieProperty<number | number[]>;
+  y: LottieProperty<number | number[]>;
+}
+
+export interface LottieTransform {
+  /** Anchor point */
+  a?: LottieProperty<number[]>;
+  /** Position */
+  p?: LottieProperty<number[]> | LottieSplitPosition;
+  /** Scale in percent */
+  s?: LottieProperty<number[]>;
+  /** Rotation in degrees */
+  r?: LottieProperty<number | number[]>;
+  /** Opacity 0..100 */
+  o?: LottieProperty<number | number[]>;
+  /** Skew */
+  sk?: LottieProperty<number | number[]>;
+  /** Skew axis */
+  sa?: LottieProperty<number | number[]>;
+}
+
+/** Bezier shape: vertices plus in/out tangents relative to each vertex */
+export interface LottieBezier {
+  c: boolean;
+  v: number[][];
+  i: number[][];
+  o: number[][];
+}
+
+export interface LottieShapeBase {
+  ty: string;
+  nm?: string;
+  /** Hidden */
+  hd?: boolean;
+}
+
+export interface LottieGroupShape extends LottieShapeBase {
+  ty: 'gr';
+  it: LottieShape[];
+}
+
+export interface LottiePathShape extends LottieShapeBase {
+  ty: 'sh';
+  ks: LottieProperty<LottieBezier | LottieBezier[]>;
+}
+
+export interface LottieRectShape extends LottieShapeBase {
+  ty: 'rc';
+  /** Center */
+  p: LottieProperty<number[]>;
+  /** Size */
+  s: LottieProperty<number[]>;
+  /** Corner roundness */
+  r: LottieProperty<number | number[]>;
+}
+
+export interface LottieEllipseShape extends LottieShapeBase {
+  ty: 'el';
+  p: LottieProperty<number[]>;
+  s: LottieProperty<number[]>;
+}
+
+export interface LottieFillShape extends LottieShapeBase {
+  ty: 'fl';
+  /** Color as [r, g, b, a?] in 0..1 */
+  c: LottieProperty<number[]>;
+  o: LottieProperty<number | number[]>;
+}
+
+export interface LottieStrokeShape extends LottieShapeBase {
+  ty: 'st';
+  c: LottieProperty<number[]>;
+  o: LottieProperty<number | number[]>;
+  w: LottieProperty<number | number[]>;
+}
+
+export interface LottieGradientShape extends LottieShapeBase {
+  ty: 'gf' | 'gs';
+  /** 1 = linear, 2 = radial */
+  t: 1 | 2;
+  /** Start point */
+  s: LottieProperty<number[]>;
+  /** End point */
+  e: LottieProperty<number[]>;
+  /** `p` color stops as [offset, r, g, b] quadruples, optionally followed by [offset, alpha] pairs */
+  g: { p: number; k: LottieProperty<number[]> };
+  o: LottieProperty<number | number[]>;
+  /** Stroke width (gradient strokes only) */
+  w?: LottieProperty<number | number[]>;
+}
+
+export interface LottieTransformShape extends LottieShapeBase, LottieTransform {
+  ty: 'tr';
+}
+
+/** Shape items motion-svg doesn't read (stars, trims, repeaters, …) */
+export interface LottieOtherShape extends LottieShapeBase {
+  ty: 'sr' | 'tm' | 'rd' | 'mm' | 'rp' | 'op' | 'pb' | 'tw' | 'zz';
+}
+
+export type LottieShape =
+  | LottieGroupShape
+  | LottiePathShape
+  | LottieRectShape
+  | LottieEllipseShape
+  | LottieFillShape
+  | LottieStrokeShape
+  | LottieGradientShape
+  | LottieTransformShape
+  | LottieOtherShape;
+
+/** Layer types: 0 precomp, 1 solid, 2 image, 3 null, 4 shape, 5 text */
+export type LottieLayerType = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface LottieLayer {
+  ty: LottieLayerType;
+  nm?: string;
+  /** Layer index, referenced by `parent` */
+  ind?: number;
+  parent?: number;
+  /** In / out point (frames) */
+  ip: number;
+  op: number;
+  /** Start time (frames) */
+  st?: number;
+  ks: LottieTransform;
+  /** 3D layer */
+  ddd?: 0 | 1;
+  /** Hidden */
+  hd?: boolean;
+  /** Blend mode (0 = normal) */
+  bm?: number;
+  /** Auto-orient along the motion path */
+  ao?: 0 | 1;
+  /** Track matte type */
+  tt?: number;
+  /** Time remap */
+  tm?: LottieProperty<number | number[]>;
+  masksProperties?: unknown[];
+  ef?: unknown[];
+  /** Shape layers */
+  shapes?: LottieShape[];
+  /** Solid layers */
+  sc?: string;
+  sw?: number;
+  sh?: number;
+}
+
+export interface LottieAnimation {
+  /** Bodymovin version */
+  v: string;
+  /** Frame rate */
+  fr: number;
+  /** In / out point of the composition (frames) */
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm?: string;
+  ddd?: 0 | 1;
+  layers: LottieLayer[];
+  assets?: unknown[];
+}
@@ -0,0 +1,198 @@
+import { localName, type XmlElement } from './xml';
+
+// ─── Minimal CSS for SVG styling ────────────────────────────────────────────
+//
+// Enough of CSS to compute what design-tool exports paint: `<style>` rules
+// with type, class, id and universal selectors (compound, descendant and
+// child combinators), `style="…"` attributes, `!important`, and presentation
+// attributes as the lowest-priority author styles. At-rules, pseudo-classes
+// and attribute selectors are ignored.
+//
+
+export interface CssDeclaration {
+  value: string;
+  important: boolean;
+}
+
+export interface CssRule {
+  selector: CssSelector;
+  declarations: Record<string, CssDeclaration>;
+  /** Position in the stylesheet — later rules win ties */
+  order: number;
+}
+
+/** Compound selectors from left to right, each with the combinator that joins it to the previous one */
+export interface CssSelector {
+  parts: { compound: CssCompound; combinator: ' ' | '>' }[];
+  /** [ids, classes, types] */
+  specificity: [number, number, number];
+}
+
+interface CssCompound {
+  tag?: string;
+  id?: string;
+  classes: string[];
+}
+
+/** Parse a stylesheet into rules — one per selector of each selector list. */
+export function parseStylesheet(css: string, startOrder = 0): CssRule[] {
+  const rules: CssRule[] = [];
+  const src = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let i = 0;
+  let order = startOrder;
+
+  while (i < src.length) {
+    const open = src.indexOf('{', i);
+    if (open === -1) break;
+    const prelude = src.slice(i, open).trim();
+    const close = matchingBrace(src, open);
+    const body = src.slice(open + 1, close);
+    i = close + 1;
+
+    // At-rules (@media, @font-face, …) don't apply to a static parse
+    if (prelude.startsWith('@')) continue;
+
+    const declarations = parseDeclarations(body);
+    for (const text of prelude.split(',')) {
+      const selector = parseSelector(text.trim());
+      if (selector) rules.push({ selector, declarations, order: order++ });
+    }
+  }
+  return rules;
+}
+
+/** Parse a declaration block or `style` attribute: `fill: red; stroke: blue !important` */
+export function parseDeclarations(block: string): Record<string, CssDeclaration> {
+  const out: Record<string, CssDeclaration> = {};
+  for (const decl of block.split(';')) {
+    const colon = decl.indexOf(':');
+    if (colon === -1) continue;
+    const name = decl.slice(0, colon).trim().toLowerCase();
+    let value = decl.slice(colon + 1).trim();
+    if (!name || !value) continue;
+    const important = /!\s*important$/i.test(value);
+    if (important) value = value.replace(/!\s*important$/i, '').trim();
+    out[name] = { value, important };
+  }
+  return out;
+}
+
+/** Whether `el` (with `ancestors`, nearest last) matches `selector` */
+export function matchesSelector(selector: CssSelector, el: XmlElement, ancestors: XmlElement[]): boolean {
+  const { parts } = selector;
+  if (!matchesCompound(parts[parts.length - 1].compound, el)) return false;
+
+  // Walk the remaining compounds right-to-left through the ancestor chain
+  let a = ancestors.length - 1;
+  for (let p = parts.length - 2; p >= 0; p--) {
+    const combinator = parts[p + 1].combinator;
+    const compound = parts[p].compound;
+    if (combinator === '>') {
+      if (a < 0 || !matchesCompound(compound, ancestors[a])) return false;
+      a--;
+    } else {
+      while (a >= 0 && !matchesCompound(compound, ancestors[a])) a--;
+      if (a < 0) return false;
+      a--;
+    }
+  }
+  return true;
+}
+
+/**
+ * Cascaded (not inherited) value of `property` on an element: important
+ * inline, important rules, inline style, rules by specificity, then the
+ * presentation attribute.
+ */
+export function cascadedValue(
+  property: string,
+  el: XmlElement,
+  matched: CssRule[],
+  inline: Record<string, CssDeclaration>,
+): string | undefined {
+  const own = inline[property];
+  if (own?.important) return own.value;
+
+  let best: { decl: CssDeclaration; rule: CssRule } | undefined;
+  let bestImportant: { decl: CssDeclaration; rule: CssRule } | undefined;
+  for (const rule of matched) {
+    const decl = rule.declarations[property];
+    if (!decl) continue;
+    if (decl.important) {
+      if (!bestImportant || outranks(rule, bestImportant.rule)) bestImportant = { decl, rule };
+    } else if (!best || outranks(rule, best.rule)) {
+      best = { decl, rule };
+    }
+  }
+
+  if (bestImportant) return bestImportant.decl.value;
+  if (own) return own.value;
+  if (best) return best.decl.value;
+  return el.attributes[property];
+}
+
+// ─── Internals ──────────────────────────────────────────────────────────────
+
+function outranks(a: CssRule, b: CssRule): boolean {
+  for (let k = 0; k < 3; k++) {
+    if (a.selector.specificity[k] !== b.selector.specificity[k]) {
+      return a.selector.specificity[k] > b.selector.specificity[k];
+    }
+  }
+  return a.order > b.order;
+}
+
+function matchesCompound(c: CssCompound, el: XmlElement): boolean {
+  if (c.tag && c.tag !== '*' && c.tag !== localName(el.name)) return false;
+  if (c.id && el.attributes.id !== c.id) return false;
+  if (c.classes.length > 0) {
+    const classes = (el.attributes.class ?? '').split(/\s+/);
+    if (!c.classes.every((cls) => classes.includes(cls))) return false;
+  }
+  return true;
+}
+
+const COMPOUND_RE = /^([a-zA-Z][\w-]*|\*)?((?:[#.][\w-]+)*)$/;
+
+/** Parse one selector; returns null for anything outside the supported subset. */
+function parseSelector(text: string): CssSelector | null {
+  if (!text) return null;
+  const tokens = text.replace(/\s*>\s*/g, ' > ').split(/\s+/);
+  const parts: CssSelector['parts'] = [];
+  const specificity: [number, number, number] = [0, 0, 0];
+  let combinator: ' ' | '>' = ' ';
+
+  for (const token of tokens) {
+    if (token === '>') {
+      if (parts.length === 0) return null;
+      combinator = '>';
+      continue;
+    }
+    const m = token.match(COMPOUND_RE);
+    if (!m || (!m[1] && !m[2])) return null;
+
+    const compound: CssCompound = { tag: m[1], classes: [] };
+    if (m[1] && m[1] !== '*') specificity[2]++;
+    for (const piece of m[2].match(/[#.][\w-]+/g) ?? []) {
+      if (piece[0] === '#') {
+        compound.id = piece.slice(1);
+        specificity[0]++;
+      } else {
+        compound.classes.push(piece.slice(1));
+        specificity[1]++;
+      }
+    }
+    parts.push({ compound, combinator });
+    combinator = ' ';
+  }
+  return parts.length > 0 ? { parts, specificity } : null;
+}
+
+function matchingBrace(src: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === '{') depth++;
+    else if (src[i] === '}' && --depth === 0) return i;
+  }
+  return src.length;
+}
@@ -1 +1 @@
-export { parseSvg } from './parseSvg';
+export { parseSvg, getInstancePaths } from './parseSvg';
@@ -1,9 +1,12 @@
-import type { Scene, SvgPath, SvgGroup, ViewBox, ColorMap, SvgMetadata, GradientDef, GradientStop, LinearGradientDef, RadialGradientDef } from '../types';
+import type { Scene, SvgPath, SvgGroup, SvgInstance, SvgClip, SvgText, SvgTextSpan, TextAnchor, ViewBox, StrokeLinejoin, StrokeLinecap, FillRule, ColorMap, SvgMetadata, GradientDef, GradientStop, LinearGradientDef, RadialGradientDef } from '../types';
 import { plugins } from '../core/PluginSystem';
+import { parseXml, localName, childElements, textContent, type XmlElement } from './xml';
+import { getPathBounds } from '../geometry/pathGeometry';
+import { parseStylesheet, parseDeclarations, matchesSelector, cascadedValue, type CssRule } from './css';
 
 // ─── Lightweight DOM-free SVG parser ────────────────────────────────────────
-// Works in both Node.js and browsers by using regex-based extraction.
-// For browser environments a DOMParser fast-path is used when available.
+// Works in both Node.js and browsers: the SVG is tokenized into an element
+// tree by a small XML parser, and the scene is derived by walking that tree.
 
 /** Parse an SVG string and return a structured Scene object. */
 export function parseSvg(svgString: string): Scene {
@@ -12,14 +15,19 @@ export function parseSvg(svgString: string): Scene {
     throw new Error('motion-svg: Input does not look like an SVG string.');
   }
 
-  const viewBox = extractViewBox(trimmed);
-  const paths = extractPaths(trimmed);
-  const groups = extractGroups(trimmed, paths);
+  const root = parseXml(trimmed);
+  if (localName(root.name) !== 'svg') {
+    throw new Error('motion-svg: Input does not look like an SVG string.');
+  }
+
+  const viewBox = extractViewBox(root);
+  const rules = collectStylesheets(root);
+  const { paths, groups, instances, texts, clips } = extractContent(root, rules);
   const colors = buildColorMap(paths);
-  const gradients = extractGradients(trimmed);
-  const metadata = extractMetadata(trimmed);
+  const gradients = extractGradients(root, rules);
+  const metadata = extractMetadata(root, trimmed);
 
-  let scene: Scene = { viewBox, paths, groups, colors, gradients, metadata };
+  let scene: Scene = { viewBox, paths, groups, colors, gradients, metadata, instances, texts, clips };
 
   // Plugin hook: afterParse
   if (plugins.has('afterParse')) {
@@ -29,188 +37,558 @@ export function parseSvg(svgString: string): Scene {
   return scene;
 }
 
+/**
+ * Paths expanded from a `<use>` instance, in paint order — ready to pass to
+ * `createActor` so the whole instance animates as one actor.
+ */
+export function getInstancePaths(scene: Scene, instanceId: string): SvgPath[] {
+  const instance = scene.instances?.find((i) => i.id === instanceId);
+  if (!instance) {
+    throw new Error(`motion-svg: Unknown instance "${instanceId}".`);
+  }
+  return instance.pathIds
+    .map((id) => scene.paths.find((p) => p.id === id))
+    .filter((p): p is SvgPath => p !== undefined);
+}
+
 // ─── ViewBox ────────────────────────────────────────────────────────────────
 
-function extractViewBox(svg: string): ViewBox {
-  const match = svg.match(/viewBox=["']([^"']+)["']/);
-  if (match) {
-    const parts = match[1].trim().split(/[\s,]+/).map(Number);
-    if (parts.length >= 4) {
+function extractViewBox(svg: XmlElement): ViewBox {
+  const viewBox = svg.attributes.viewBox;
+  if (viewBox) {
+    const parts = viewBox.trim().split(/[\s,]+/).map(Number);
+    if (parts.length >= 4 && parts.every(Number.isFinite)) {
       return { x: parts[0], y: parts[1], w: parts[2], h: parts[3] };
     }
   }
   // Fallback to width/height attributes
-  const w = extractNumericAttr(svg, 'width') ?? 300;
-  const h = extractNumericAttr(svg, 'height') ?? 150;
+  const w = numericAttr(svg, 'width') ?? 300;
+  const h = numericAttr(svg, 'height') ?? 150;
   return { x: 0, y: 0, w, h };
 }
 
-function extractNumericAttr(tag: string, name: string): number | undefined {
-  const re = new RegExp(`${name}=["']([\\d.]+)`, 'i');
-  const m = tag.match(re);
-  return m ? parseFloat(m[1]) : undefined;
+// ─── Paths & groups ─────────────────────────────────────────────────────────
+
+/** Elements whose content is never rendered directly */
+const NON_RENDERED = new Set([
+  'defs', 'symbol', 'clipPath', 'mask', 'pattern', 'marker',
+  'linearGradient', 'radialGradient', 'filter',
+  'style', 'script', 'title', 'desc', 'metadata',
+]);
+
+/** Where the walk is: document level, or inside an expanded `<use>` instance */
+interface WalkContext {
+  /** Prefix for derived ids — `''` at document level, `'<instance>/'` inside an instance */
+  prefix: string;
+  /** Ids referenced by the enclosing instances, to break reference cycles */
+  refs: string[];
+  counters: { path: number; group: number; use: number; text: number };
+  /** Where shapes and texts go — the scene, or the content of a clip or mask */
+  paths: SvgPath[];
+  texts: SvgText[];
 }
 
-// ─── Paths ──────────────────────────────────────────────────────────────────
-
-let pathCounter = 0;
+interface IdEntry {
+  el: XmlElement;
+  /** Ancestors in the original tree, root-first — selectors match against these */
+  ancestors: XmlElement[];
+}
 
-function extractPaths(svg: string): SvgPath[] {
-  pathCounter = 0;
+/**
+ * Walk the rendered tree in document order. Every shape becomes an entry in
+ * `paths` (the paint order); `<g>` elements become nested groups, and only
+ * top-level groups are returned in `groups`. Paint is resolved through the
+ * CSS cascade, so each path carries what the browser would draw. `<text>`
+ * elements are collected separately, in document order.
+ *
+ * The content of each `<clipPath>` and `<mask>` is walked the same way into
+ * its own definition, with group transforms folded into the paths.
+ *
+ * `<use>` elements are expanded in place: the referenced content becomes
+ * concrete paths with ids derived from the instance id, inheriting paint
+ * from the `<use>`. The instance is recorded as a group whose `transform`
+ * places the referenced content (use `bakeTransforms` to flatten it).
+ */
+function extractContent(svg: XmlElement, rules: CssRule[]): {
+  paths: SvgPath[];
+  groups: SvgGroup[];
+  instances: SvgInstance[];
+  texts: SvgText[];
+  clips: SvgClip[];
+} {
   const paths: SvgPath[] = [];
+  const instances: SvgInstance[] = [];
+  const texts: SvgText[] = [];
+  const ids = indexIds(svg);
+
+  const walk = (
+    el: XmlElement,
+    ancestors: XmlElement[],
+    inherited: PaintStyle,
+    into: (SvgPath | SvgGroup)[],
+    ctx: WalkContext,
+  ) => {
+    const chain = [...ancestors, el];
+    for (const child of childElements(el)) render(child, chain, inherited, into, ctx);
+  };
+
+  const render = (
+    el: XmlElement,
+    ancestors: XmlElement[],
+    inherited: PaintStyle,
+    into: (SvgPath | SvgGroup)[],
+    ctx: WalkContext,
+  ) => {
+    const name = localName(el.name);
+    if (NON_RENDERED.has(name)) return;
+
+    const style = computeStyle(el, ancestors, inherited, rules);
+    if (style.display === 'none') return;
+
+    if (name === 'g') {
+      const group: SvgGroup = {
+        id: ctx.prefix + (attr(el, 'id') || `group-${++ctx.counters.group}`),
+        children: [],
+        transform: attr(el, 'transform') || undefined,
+      };
+      into.push(group);
+      walk(el, ancestors, style, group.children, ctx);
+      return;
+    }
 
-  // Match <path .../> and <path ...>...</path>
-  const pathRegex = /<path\b([^>]*)\/?>/gi;
-  let m: RegExpExecArray | null;
-
-  while ((m = pathRegex.exec(svg)) !== null) {
-    const attrs = m[1];
-    const d = extractAttr(attrs, 'd');
-    if (!d) continue;
-
-    const id = extractAttr(attrs, 'id') || `path-${++pathCounter}`;
-    const fill = extractAttr(attrs, 'fill') || undefined;
-    const stroke = extractAttr(attrs, 'stroke') || undefined;
-    const strokeWidthStr = extractAttr(attrs, 'stroke-width');
-    const strokeWidth = strokeWidthStr ? parseFloat(strokeWidthStr) : undefined;
-    const opacityStr = extractAttr(attrs, 'opacity');
-    const opacity = opacityStr ? parseFloat(opacityStr) : undefined;
-    const transform = extractAttr(attrs, 'transform') || undefined;
+    if (name === 'use') {
+      expandUse(el, style, into, ctx);
+      return;
+    }
+
+    if (name === 'text') {
+      const text = textElement(el, ancestors, style, rules, ctx.prefix + (attr(el, 'id') || `text-${++ctx.counters.text}`));
+      if (text) ctx.texts.push(text);
+      return;
+    }
 
-    paths.push({ id, d, fill, stroke, strokeWidth, opacity, transform });
+    const path = shapeToPath(el, name, style, ctx);
+    if (path) {
+      ctx.paths.push(path);
+      into.push(path);
+    } else if (name !== 'path') {
+      // Unknown containers (e.g. <a>, <switch>) still render their children
+      walk(el, ancestors, style, into, ctx);
+    }
+  };
+
+  const expandUse = (use: XmlElement, style: PaintStyle, into: (SvgPath | SvgGroup)[], ctx: WalkContext) => {
+    const href = (attr(use, 'href') ?? attr(use, 'xlink:href') ?? '').trim();
+    const refId = href.startsWith('#') ? href.slice(1) : '';
+    const target = ids.get(refId);
+    if (!target || ctx.refs.includes(refId)) return;
+
+    const id = ctx.prefix + (attr(use, 'id') || `use-${++ctx.counters.use}`);
+    const x = parseFloat(attr(use, 'x') || '0') || 0;
+    const y = parseFloat(attr(use, 'y') || '0') || 0;
+    const placement = joinTransforms(
+      attr(use, 'transform') || undefined,
+      x !== 0 || y !== 0 ? `translate(${x},${y})` : undefined,
+    );
+
+    const inner: WalkContext = {
+      prefix: `${id}/`,
+      refs: [...ctx.refs, refId],
+      counters: { path: 0, group: 0, use: 0, text: 0 },
+      paths: ctx.paths,
+      texts: ctx.texts,
+    };
+    const isSymbol = localName(target.el.name) === 'symbol';
+    const viewport = isSymbol ? symbolViewport(target.el, use) : undefined;
+    const group: SvgGroup = { id, children: [], transform: joinTransforms(placement, viewport) || undefined };
+    const firstPath = ctx.paths.length;
+
+    if (isSymbol) {
+      const symbolStyle = computeStyle(target.el, target.ancestors, style, rules);
+      walk(target.el, target.ancestors, symbolStyle, group.children, inner);
+    } else {
+      render(target.el, target.ancestors, style, group.children, inner);
+    }
+
+    into.push(group);
+    instances.push({
+      id,
+      href: refId,
+      pathIds: ctx.paths.slice(firstPath).map((p) => p.id),
+      transform: placement || undefined,
+    });
+  };
+
+  const top: (SvgPath | SvgGroup)[] = [];
+  const root: WalkContext = { prefix: '', refs: [], counters: { path: 0, group: 0, use: 0, text: 0 }, paths, texts };
+  walk(svg, [], computeStyle(svg, [], {}, rules), top, root);
+  const groups = top.filter((c): c is SvgGroup => 'children' in c);
+
+  const clips: SvgClip[] = [];
+  for (const [id, { el, ancestors }] of ids) {
+    const type = localName(el.name);
+    if (type !== 'clipPath' && type !== 'mask') continue;
+
+    // Content paints as if it were a child of the definition, without its clip
+    const style = { ...computeStyle(el, ancestors, {}, rules), clipPath: undefined, mask: undefined };
+    const ctx: WalkContext = {
+      prefix: `${id}/`,
+      refs: [id],
+      counters: { path: 0, group: 0, use: 0, text: 0 },
+      paths: [],
+      texts: [],
+    };
+    const content: (SvgPath | SvgGroup)[] = [];
+    walk(el, ancestors, style, content, ctx);
+
+    const clip: SvgClip = { id, type, paths: flattenTransforms(content, attr(el, 'transform') || undefined) };
+    if (type === 'mask') {
+      clip.maskType = styleValue('mask-type', el, ancestors, rules) === 'alpha' ? 'alpha' : 'luminance';
+    }
+    const units = attr(el, type === 'mask' ? 'maskContentUnits' : 'clipPathUnits');
+    if (units === 'objectBoundingBox') clip.units = units;
+    clips.push(clip);
   }
 
-  // Also extract basic shapes and convert to pseudo-paths
-  extractCircles(svg, paths);
-  extractRects(svg, paths);
-  extractEllipses(svg, paths);
-  extractLines(svg, paths);
-  extractPolygons(svg, paths);
+  return { paths, groups, instances, texts, clips };
+}
 
-  return paths;
+/** Paths of a group tree with the enclosing group transforms prepended to their own */
+function flattenTransforms(children: (SvgPath | SvgGroup)[], outer: string | undefined): SvgPath[] {
+  return children.flatMap((c) => {
+    if ('children' in c) return flattenTransforms(c.children, joinTransforms(outer, c.transform) || undefined);
+    const transform = joinTransforms(outer, c.transform) || undefined;
+    return [{ ...c, transform }];
+  });
 }
 
-function extractCircles(svg: string, paths: SvgPath[]) {
-  const re = /<circle\b([^>]*)\/?>/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(svg)) !== null) {
-    const attrs = m[1];
-    const cx = parseFloat(extractAttr(attrs, 'cx') || '0');
-    const cy = parseFloat(extractAttr(attrs, 'cy') || '0');
-    const r = parseFloat(extractAttr(attrs, 'r') || '0');
-    if (r <= 0) continue;
-    const d = `M${cx - r},${cy} a${r},${r} 0 1,0 ${r * 2},0 a${r},${r} 0 1,0 -${r * 2},0`;
-    pushShapePath(attrs, d, 'circle', paths);
-  }
+/** Every element with an id, with its ancestor chain */
+function indexIds(svg: XmlElement): Map<string, IdEntry> {
+  const ids = new Map<string, IdEntry>();
+  const visit = (el: XmlElement, ancestors: XmlElement[]) => {
+    const chain = [...ancestors, el];
+    for (const child of childElements(el)) {
+      const id = attr(child, 'id');
+      if (id && !ids.has(id)) ids.set(id, { el: child, ancestors: chain });
+      visit(child, chain);
+    }
+  };
+  visit(svg, []);
+  return ids;
 }
 
-function extractRects(svg: string, paths: SvgPath[]) {
-  const re = /<rect\b([^>]*)\/?>/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(svg)) !== null) {
-    const attrs = m[1];
-    const x = parseFloat(extractAttr(attrs, 'x') || '0');
-    const y = parseFloat(extractAttr(attrs, 'y') || '0');
-    const w = parseFloat(extractAttr(attrs, 'width') || '0');
-    const h = parseFloat(extractAttr(attrs, 'height') || '0');
-    if (w <= 0 || h <= 0) continue;
-    const d = `M${x},${y} L${x + w},${y} L${x + w},${y + h} L${x},${y + h} Z`;
-    pushShapePath(attrs, d, 'rect', paths);
+/**
+ * Map a symbol's viewBox onto the viewport set by the `<use>` (or the
+ * symbol's own width/height), honouring `preserveAspectRatio`. Without a
+ * viewBox or a viewport size, symbol content is placed unscaled.
+ */
+function symbolViewport(symbol: XmlElement, use: XmlElement): string | undefined {
+  const vb = (attr(symbol, 'viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+  if (vb.length < 4 || !vb.every(Number.isFinite) || !(vb[2] > 0) || !(vb[3] > 0)) return undefined;
+
+  const w = numericAttr(use, 'width') ?? numericAttr(symbol, 'width');
+  const h = numericAttr(use, 'height') ?? numericAttr(symbol, 'height');
+  if (w === undefined || h === undefined) {
+    return vb[0] !== 0 || vb[1] !== 0 ? `translate(${-vb[0]},${-vb[1]})` : undefined;
   }
-}
 
-function extractEllipses(svg: string, paths: SvgPath[]) {
-  const re = /<ellipse\b([^>]*)\/?>/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(svg)) !== null) {
-    const attrs = m[1];
-    const cx = parseFloat(extractAttr(attrs, 'cx') || '0');
-    const cy = parseFloat(extractAttr(attrs, 'cy') || '0');
-    const rx = parseFloat(extractAttr(attrs, 'rx') || '0');
-    const ry = parseFloat(extractAttr(attrs, 'ry') || '0');
-    if (rx <= 0 || ry <= 0) continue;
-    const d = `M${cx - rx},${cy} a${rx},${ry} 0 1,0 ${rx * 2},0 a${rx},${ry} 0 1,0 -${rx * 2},0`;
-    pushShapePath(attrs, d, 'ellipse', paths);
+  let sx = w / vb[2];
+  let sy = h / vb[3];
+  let tx = 0;
+  let ty = 0;
+  const [align, meetOrSlice] = (attr(symbol, 'preserveAspectRatio') ?? 'xMidYMid meet').trim().split(/\s+/);
+  if (align !== 'none') {
+    const s = meetOrSlice === 'slice' ? Math.max(sx, sy) : Math.min(sx, sy);
+    sx = sy = s;
+    const fx = align?.includes('xMin') ? 0 : align?.includes('xMax') ? 1 : 0.5;
+    const fy = align?.includes('YMin') ? 0 : align?.includes('YMax') ? 1 : 0.5;
+    tx = (w - vb[2] * s) * fx;
+    ty = (h - vb[3] * s) * fy;
   }
+
+  return joinTransforms(
+    tx !== 0 || ty !== 0 ? `translate(${tx},${ty})` : undefined,
+    `scale(${sx},${sy})`,
+    vb[0] !== 0 || vb[1] !== 0 ? `translate(${-vb[0]},${-vb[1]})` : undefined,
+  );
+}
+
+/** Concatenate SVG transform lists — the result applies them left to right, outermost first */
+function joinTransforms(...parts: (string | undefined)[]): string {
+  return parts.filter((p) => p && p.trim()).map((p) => p!.trim()).join(' ');
 }
 
-function extractLines(svg: string, paths: SvgPath[]) {
-  const re = /<line\b([^>]*)\/?>/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(svg)) !== null) {
-    const attrs = m[1];
-    const x1 = extractAttr(attrs, 'x1') || '0';
-    const y1 = extractAttr(attrs, 'y1') || '0';
-    const x2 = extractAttr(attrs, 'x2') || '0';
-    const y2 = extractAttr(attrs, 'y2') || '0';
-    const d = `M${x1},${y1} L${x2},${y2}`;
-    pushShapePath(attrs, d, 'line', paths);
+const SHAPES = new Set(['path', 'circle', 'rect', 'ellipse', 'line', 'polygon', 'polyline']);
+
+/** Convert a shape element to a path. Returns null for non-shapes and degenerate shapes. */
+function shapeToPath(el: XmlElement, name: string, style: PaintStyle, ctx: WalkContext): SvgPath | null {
+  if (!SHAPES.has(name)) return null;
+  const d = shapeD(el, name);
+  if (!d) return null;
+
+  const strokeWidth = style.strokeWidth !== undefined ? parseFloat(style.strokeWidth) : NaN;
+  return {
+    id: ctx.prefix + (attr(el, 'id') || `${name}-${++ctx.counters.path}`),
+    d,
+    fill: style.fill,
+    stroke: style.stroke,
+    strokeWidth: Number.isFinite(strokeWidth) ? strokeWidth : undefined,
+    ...(style.strokeLinejoin ? { strokeLinejoin: style.strokeLinejoin } : {}),
+    ...(style.strokeLinecap ? { strokeLinecap: style.strokeLinecap } : {}),
+    ...(style.strokeMiterlimit !== undefined ? { strokeMiterlimit: style.strokeMiterlimit } : {}),
+    ...(style.fillRule ? { fillRule: style.fillRule } : {}),
+    opacity: style.opacity,
+    transform: attr(el, 'transform') || undefined,
+    bounds: getPathBounds(d) ?? undefined,
+    ...(style.clipPath ? { clipPath: style.clipPath } : {}),
+    ...(style.mask ? { mask: style.mask } : {}),
+  };
+}
+
+function shapeD(el: XmlElement, name: string): string | null {
+  const num = (n: string, def = '0') => parseFloat(attr(el, n) || def);
+
+  switch (name) {
+    case 'path':
+      return attr(el, 'd') || null;
+
+    case 'circle': {
+      const cx = num('cx');
+      const cy = num('cy');
+      const r = num('r');
+      if (!(r > 0)) return null;
+      return `M${cx - r},${cy} a${r},${r} 0 1,0 ${r * 2},0 a${r},${r} 0 1,0 -${r * 2},0`;
+    }
+
+    case 'rect': {
+      const x = num('x');
+      const y = num('y');
+      const w = num('width');
+      const h = num('height');
+      if (!(w > 0) || !(h > 0)) return null;
+      return `M${x},${y} L${x + w},${y} L${x + w},${y + h} L${x},${y + h} Z`;
+    }
+
+    case 'ellipse': {
+      const cx = num('cx');
+      const cy = num('cy');
+      const rx = num('rx');
+      const ry = num('ry');
+      if (!(rx > 0) || !(ry > 0)) return null;
+      return `M${cx - rx},${cy} a${rx},${ry} 0 1,0 ${rx * 2},0 a${rx},${ry} 0 1,0 -${rx * 2},0`;
+    }
+
+    case 'line': {
+      const x1 = attr(el, 'x1') || '0';
+      const y1 = attr(el, 'y1') || '0';
+      const x2 = attr(el, 'x2') || '0';
+      const y2 = attr(el, 'y2') || '0';
+      return `M${x1},${y1} L${x2},${y2}`;
+    }
+
+    case 'polygon':
+    case 'polyline': {
+      const points = attr(el, 'points');
+      if (!points) return null;
+      const parts = points.trim().split(/[\s,]+/);
+      if (parts.length < 4) return null;
+      let d = `M${parts[0]},${parts[1]}`;
+      for (let i = 2; i < parts.length - 1; i += 2) {
+        d += ` L${parts[i]},${parts[i + 1]}`;
+      }
+      if (name === 'polygon') d += ' Z';
+      return d;
+    }
   }
+  return null;
 }
 
-function extractPolygons(svg: string, paths: SvgPath[]) {
-  const re = /<(polygon|polyline)\b([^>]*)\/?>/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(svg)) !== null) {
-    const tag = m[1];
-    const attrs = m[2];
-    const points = extractAttr(attrs, 'points');
-    if (!points) continue;
-    const parts = points.trim().split(/[\s,]+/);
-    if (parts.length < 4) continue;
-    let d = `M${parts[0]},${parts[1]}`;
-    for (let i = 2; i < parts.length - 1; i += 2) {
-      d += ` L${parts[i]},${parts[i + 1]}`;
+// ─── Text ───────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a `<text>` element. Bare text nodes and `<tspan>`s become runs;
+ * whitespace is collapsed the way browsers render it. Returns null for text
+ * without any visible characters.
+ */
+function textElement(el: XmlElement, ancestors: XmlElement[], style: PaintStyle, rules: CssRule[], id: string): SvgText | null {
+  const chain = [...ancestors, el];
+  const runs: SvgTextSpan[] = [];
+
+  for (const child of el.children) {
+    if (child.type === 'text') {
+      runs.push({ text: child.value });
+      continue;
     }
-    if (tag === 'polygon') d += ' Z';
-    pushShapePath(attrs, d, tag, paths);
+    if (localName(child.name) !== 'tspan') continue;
+    const spanStyle = computeStyle(child, chain, style, rules);
+    if (spanStyle.display === 'none') continue;
+
+    const run: SvgTextSpan = { text: textContent(child) };
+    for (const key of ['x', 'y', 'dx', 'dy'] as const) {
+      const v = firstNumber(attr(child, key));
+      if (v !== undefined) run[key] = v;
+    }
+    if (spanStyle.fill !== style.fill) run.fill = spanStyle.fill;
+    if (spanStyle.fontFamily !== style.fontFamily) run.fontFamily = spanStyle.fontFamily;
+    if (spanStyle.fontSize !== style.fontSize) run.fontSize = spanStyle.fontSize;
+    if (spanStyle.fontWeight !== style.fontWeight) run.fontWeight = spanStyle.fontWeight;
+    runs.push(run);
+  }
+
+  // Collapse whitespace across run boundaries, then trim the ends of the text
+  let previous = '';
+  for (const run of runs) {
+    run.text = run.text.replace(/\s+/g, ' ');
+    if (previous.endsWith(' ') || previous === '') run.text = run.text.replace(/^ /, '');
+    if (run.text) previous = run.text;
   }
+  const last = [...runs].reverse().find((r) => r.text);
+  if (last) last.text = last.text.replace(/ $/, '');
+
+  const kept = runs.filter((r) => r.text || r.x !== undefined || r.y !== undefined || r.dx !== undefined || r.dy !== undefined);
+  const content = kept.map((r) => r.text).join('');
+  if (!content) return null;
+
+  const plain = kept.length === 1 && Object.keys(kept[0]).length === 1;
+  const strokeWidth = style.strokeWidth !== undefined ? parseFloat(style.strokeWidth) : NaN;
+  return {
+    id,
+    content,
+    x: firstNumber(attr(el, 'x')) ?? 0,
+    y: firstNumber(attr(el, 'y')) ?? 0,
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize,
+    fontWeight: style.fontWeight,
+    textAnchor: style.textAnchor,
+    letterSpacing: style.letterSpacing,
+    fill: style.fill,
+    stroke: style.stroke,
+    strokeWidth: Number.isFinite(strokeWidth) ? strokeWidth : undefined,
+    opacity: style.opacity,
+    transform: attr(el, 'transform') || undefined,
+    spans: plain ? undefined : kept,
+  };
+}
+
+/** First value of a coordinate list attribute such as `x="10 20 30"` */
+function firstNumber(value: string | null): number | undefined {
+  const v = parseFloat((value ?? '').trim().split(/[\s,]+/)[0]);
+  return Number.isFinite(v) ? v : undefined;
 }
 
-function pushShapePath(attrs: string, d: string, prefix: string, paths: SvgPath[]) {
-  const id = extractAttr(attrs, 'id') || `${prefix}-${++pathCounter}`;
-  const fill = extractAttr(attrs, 'fill') || undefined;
-  const stroke = extractAttr(attrs, 'stroke') || undefined;
-  const strokeWidthStr = extractAttr(attrs, 'stroke-width');
-  const strokeWidth = strokeWidthStr ? parseFloat(strokeWidthStr) : undefined;
-  const opacityStr = extractAttr(attrs, 'opacity');
-  const opacity = opacityStr ? parseFloat(opacityStr) : undefined;
-  const transform = extractAttr(attrs, 'transform') || undefined;
-  paths.push({ id, d, fill, stroke, strokeWidth, opacity, transform });
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+/** Resolved paint of an element. Opacity is the product along the ancestor chain. */
+interface PaintStyle {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: string;
+  strokeLinejoin?: StrokeLinejoin;
+  strokeLinecap?: StrokeLinecap;
+  strokeMiterlimit?: number;
+  fillRule?: FillRule;
+  color?: string;
+  opacity?: number;
+  display?: string;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: string;
+  textAnchor?: TextAnchor;
+  letterSpacing?: number;
+  /** Nearest `clip-path` / `mask` reference on the element or an ancestor — not inherited in CSS, but it clips the whole subtree */
+  clipPath?: string;
+  mask?: string;
 }
 
-// ─── Groups ─────────────────────────────────────────────────────────────────
-
-let groupCounter = 0;
-
-function extractGroups(svg: string, allPaths: SvgPath[]): SvgGroup[] {
-  groupCounter = 0;
-  const groups: SvgGroup[] = [];
-  const groupRegex = /<g\b([^>]*)>([\s\S]*?)<\/g>/gi;
-  let m: RegExpExecArray | null;
-
-  while ((m = groupRegex.exec(svg)) !== null) {
-    const attrs = m[1];
-    const inner = m[2];
-    const id = extractAttr(attrs, 'id') || `group-${++groupCounter}`;
-    const transform = extractAttr(attrs, 'transform') || undefined;
-
-    // Find which paths are inside this group
-    const children: SvgPath[] = [];
-    const innerPathRegex = /<path\b([^>]*)\/?>/gi;
-    let pm: RegExpExecArray | null;
-    while ((pm = innerPathRegex.exec(inner)) !== null) {
-      const pid = extractAttr(pm[1], 'id') || extractAttr(pm[1], 'd');
-      const found = allPaths.find(
-        (p) => p.id === pid || p.d === extractAttr(pm![1], 'd'),
-      );
-      if (found) children.push(found);
+/** Every `<style>` element in document order, as one rule list */
+function collectStylesheets(svg: XmlElement): CssRule[] {
+  const rules: CssRule[] = [];
+  const visit = (el: XmlElement) => {
+    for (const child of childElements(el)) {
+      if (localName(child.name) === 'style') {
+        rules.push(...parseStylesheet(textContent(child), rules.length));
+      } else {
+        visit(child);
+      }
     }
+  };
+  visit(svg);
+  return rules;
+}
 
-    groups.push({ id, children, transform });
-  }
+/** Cascaded value of one property, with `ancestors` ordered root-first */
+function styleValue(property: string, el: XmlElement, ancestors: XmlElement[], rules: CssRule[]): string | undefined {
+  const matched = rules.filter((r) => matchesSelector(r.selector, el, ancestors));
+  const inline = parseDeclarations(el.attributes.style ?? '');
+  return cascadedValue(property, el, matched, inline)?.trim();
+}
+
+function computeStyle(el: XmlElement, ancestors: XmlElement[], parent: PaintStyle, rules: CssRule[]): PaintStyle {
+  const matched = rules.filter((r) => matchesSelector(r.selector, el, ancestors));
+  const inline = parseDeclarations(el.attributes.style ?? '');
+  const get = (property: string) => {
+    const v = cascadedValue(property, el, matched, inline)?.trim();
+    return v === 'inherit' ? undefined : v;
+  };
+
+  const color = get('color') ?? parent.color;
+  const paint = (v: string | undefined, inherited: string | undefined) => {
+    if (v === undefined) return inherited;
+    if (v === 'currentColor' || v === 'currentcolor') return color ?? v;
+    return normalizeUrl(v);
+  };
+
+  const ownOpacity = parseFloat(get('opacity') ?? '');
+  const opacity = Number.isFinite(ownOpacity) ? (parent.opacity ?? 1) * ownOpacity : parent.opacity;
+
+  const anchor = get('text-anchor');
+  const spacing = get('letter-spacing');
+  const join = get('stroke-linejoin');
+  const cap = get('stroke-linecap');
+  const miter = parseFloat(get('stroke-miterlimit') ?? '');
+  const rule = get('fill-rule');
+
+  return {
+    fill: paint(get('fill'), parent.fill),
+    stroke: paint(get('stroke'), parent.stroke),
+    strokeWidth: get('stroke-width') ?? parent.strokeWidth,
+    strokeLinejoin: join === 'miter' || join === 'round' || join === 'bevel' ? join : parent.strokeLinejoin,
+    strokeLinecap: cap === 'butt' || cap === 'round' || cap === 'square' ? cap : parent.strokeLinecap,
+    strokeMiterlimit: miter >= 1 ? miter : parent.strokeMiterlimit,
+    fillRule: rule === 'nonzero' || rule === 'evenodd' ? rule : parent.fillRule,
+    color,
+    opacity,
+    display: get('display'),
+    fontFamily: get('font-family') ?? parent.fontFamily,
+    fontSize: fontSize(get('font-size'), parent.fontSize),
+    fontWeight: get('font-weight') ?? parent.fontWeight,
+    textAnchor: anchor === 'start' || anchor === 'middle' || anchor === 'end' ? anchor : parent.textAnchor,
+    letterSpacing: spacing === 'normal' ? undefined : spacing !== undefined ? parseFloat(spacing) || 0 : parent.letterSpacing,
+    clipPath: urlRef(get('clip-path'), parent.clipPath),
+    mask: urlRef(get('mask'), parent.mask),
+  };
+}
+
+/** Id in a `url(#id)` reference; `none` clears the inherited reference */
+function urlRef(value: string | undefined, inherited: string | undefined): string | undefined {
+  if (value === undefined) return inherited;
+  const m = normalizeUrl(value).match(/^url\(#([^)]+)\)$/);
+  return m ? m[1] : undefined;
+}
 
-  return groups;
+/** Resolve a font-size value; `em` and `%` are relative to the inherited size (16 by default) */
+function fontSize(value: string | undefined, inherited: number | undefined): number | undefined {
+  if (value === undefined) return inherited;
+  const n = parseFloat(value);
+  if (!Number.isFinite(n)) return inherited;
+  if (value.endsWith('em')) return n * (inherited ?? 16);
+  if (value.endsWith('%')) return (n / 100) * (inherited ?? 16);
+  return n;
+}
+
+/** `url('#id')` / `url("#id")` → `url(#id)`, the form gradient lookups expect */
+function normalizeUrl(value: string): string {
+  return value.replace(/url\(\s*['"]?([^'")]+?)['"]?\s*\)/g, 'url($1)');
 }
 
 // ─── Colors ─────────────────────────────────────────────────────────────────
@@ -226,93 +604,76 @@ function buildColorMap(paths: SvgPath[]): ColorMap {
 
 // ─── Metadata ───────────────────────────────────────────────────────────────
 
-function extractMetadata(svg: string): SvgMetadata {
-  const xmlns = extractAttr(svg, 'xmlns') || 'http://www.w3.org/2000/svg';
-  const width = extractNumericAttr(svg, 'width');
-  const height = extractNumericAttr(svg, 'height');
-  return { xmlns, width, height, originalSvg: svg };
+function extractMetadata(svg: XmlElement, source: string): SvgMetadata {
+  const xmlns = attr(svg, 'xmlns') || 'http://www.w3.org/2000/svg';
+  const width = numericAttr(svg, 'width');
+  const height = numericAttr(svg, 'height');
+  return { xmlns, width, height, originalSvg: source };
 }
 
 // ─── Gradients ───────────────────────────────────────────────────────────────
 
-function extractGradients(svg: string): GradientDef[] {
+function extractGradients(svg: XmlElement, rules: CssRule[]): GradientDef[] {
   const defs: GradientDef[] = [];
 
-  const linearRe = /<linearGradient\b([^>]*)>([\s\S]*?)<\/linearGradient>/gi;
-  let lm: RegExpExecArray | null;
-  while ((lm = linearRe.exec(svg)) !== null) {
-    const attrs = lm[1];
-    const inner = lm[2];
-    const id = extractAttr(attrs, 'id');
-    if (!id) continue;
-
-    const grad: LinearGradientDef = {
-      type: 'linear',
-      id,
-      x1: parseFloat(extractAttr(attrs, 'x1') || '0'),
-      y1: parseFloat(extractAttr(attrs, 'y1') || '0'),
-      x2: parseFloat(extractAttr(attrs, 'x2') || '1'),
-      y2: parseFloat(extractAttr(attrs, 'y2') || '0'),
-      stops: parseStops(inner),
-      gradientUnits: (extractAttr(attrs, 'gradientUnits') as 'userSpaceOnUse' | 'objectBoundingBox') || undefined,
-      gradientTransform: extractAttr(attrs, 'gradientTransform') || undefined,
-    };
-    defs.push(grad);
-  }
-
-  const radialRe = /<radialGradient\b([^>]*)>([\s\S]*?)<\/radialGradient>/gi;
-  let rm: RegExpExecArray | null;
-  while ((rm = radialRe.exec(svg)) !== null) {
-    const attrs = rm[1];
-    const inner = rm[2];
-    const id = extractAttr(attrs, 'id');
-    if (!id) continue;
-
-    const grad: RadialGradientDef = {
-      type: 'radial',
-      id,
-      cx: parseFloat(extractAttr(attrs, 'cx') || '0.5'),
-      cy: parseFloat(extractAttr(attrs, 'cy') || '0.5'),
-      r: parseFloat(extractAttr(attrs, 'r') || '0.5'),
-      fx: extractAttr(attrs, 'fx') ? parseFloat(extractAttr(attrs, 'fx')!) : undefined,
-      fy: extractAttr(attrs, 'fy') ? parseFloat(extractAttr(attrs, 'fy')!) : undefined,
-      stops: parseStops(inner),
-      gradientUnits: (extractAttr(attrs, 'gradientUnits') as 'userSpaceOnUse' | 'objectBoundingBox') || undefined,
-      gradientTransform: extractAttr(attrs, 'gradientTransform') || undefined,
-    };
-    defs.push(grad);
-  }
+  const visit = (el: XmlElement, ancestors: XmlElement[]) => {
+    const chain = [...ancestors, el];
+    for (const child of childElements(el)) {
+      const name = localName(child.name);
+      const id = attr(child, 'id');
+      const stops = () => parseStops(child, [...chain, child], rules);
+      if (name === 'linearGradient' && id) {
+        const grad: LinearGradientDef = {
+          type: 'linear',
+          id,
+          x1: parseFloat(attr(child, 'x1') || '0'),
+          y1: parseFloat(attr(child, 'y1') || '0'),
+          x2: parseFloat(attr(child, 'x2') || '1'),
+          y2: parseFloat(attr(child, 'y2') || '0'),
+          stops: stops(),
+          gradientUnits: (attr(child, 'gradientUnits') as 'userSpaceOnUse' | 'objectBoundingBox') || undefined,
+          gradientTransform: attr(child, 'gradientTransform') || undefined,
+        };
+        defs.push(grad);
+      } else if (name === 'radialGradient' && id) {
+        const fx = attr(child, 'fx');
+        const fy = attr(child, 'fy');
+        const grad: RadialGradientDef = {
+          type: 'radial',
+          id,
+          cx: parseFloat(attr(child, 'cx') || '0.5'),
+          cy: parseFloat(attr(child, 'cy') || '0.5'),
+          r: parseFloat(attr(child, 'r') || '0.5'),
+          fx: fx ? parseFloat(fx) : undefined,
+          fy: fy ? parseFloat(fy) : undefined,
+          stops: stops(),
+          gradientUnits: (attr(child, 'gradientUnits') as 'userSpaceOnUse' | 'objectBoundingBox') || undefined,
+          gradientTransform: attr(child, 'gradientTransform') || undefined,
+        };
+        defs.push(grad);
+      } else {
+        visit(child, chain);
+      }
+    }
+  };
 
+  visit(svg, []);
   return defs;
 }
 
-function parseStops(inner: string): GradientStop[] {
+function parseStops(gradient: XmlElement, ancestors: XmlElement[], rules: CssRule[]): GradientStop[] {
   const stops: GradientStop[] = [];
-  const stopRe = /<stop\b([^>]*)\/?>/gi;
-  let sm: RegExpExecArray | null;
-  while ((sm = stopRe.exec(inner)) !== null) {
-    const attrs = sm[1];
+  for (const stop of childElements(gradient, 'stop')) {
     let offset = 0;
-    const offsetStr = extractAttr(attrs, 'offset');
+    const offsetStr = attr(stop, 'offset');
     if (offsetStr) {
       offset = offsetStr.includes('%') ? parseFloat(offsetStr) / 100 : parseFloat(offsetStr);
     }
 
-    let color = extractAttr(attrs, 'stop-color') || '#000000';
-    const opacityStr = extractAttr(attrs, 'stop-opacity');
+    const color = styleValue('stop-color', stop, ancestors, rules) || '#000000';
+    const opacityStr = styleValue('stop-opacity', stop, ancestors, rules);
     const opacity = opacityStr ? parseFloat(opacityStr) : undefined;
 
-    const style = extractAttr(attrs, 'style');
-    if (style) {
-      const colorMatch = style.match(/stop-color:\s*([^;]+)/);
-      if (colorMatch) color = colorMatch[1].trim();
-      const opMatch = style.match(/stop-opacity:\s*([^;]+)/);
-      if (opMatch && opacity === undefined) {
-        stops.push({ offset, color, opacity: parseFloat(opMatch[1]) });
-        continue;
-      }
-    }
-
     stops.push({ offset, color, opacity });
   }
   return stops;
@@ -320,9 +681,11 @@ function parseStops(inner: string): GradientStop[] {
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
-function extractAttr(tag: string, name: string): string | null {
-  // Handle both single and double quotes
-  const re = new RegExp(`${name}=["']([^"']*)["']`, 'i');
-  const m = tag.match(re);
-  return m ? m[1] : null;
+function attr(el: XmlElement, name: string): string | null {
+  return el.attributes[name] ?? null;
+}
+
+function numericAttr(el: XmlElement, name: string): number | undefined {
+  const v = parseFloat(attr(el, name) ?? '');
+  return Number.isFinite(v) ? v : undefined;
 }
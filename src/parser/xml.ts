@@ -0,0 +1,212 @@
+// ─── Minimal XML tokenizer and tree builder ─────────────────────────────────
+//
+// Dependency-free and DOM-free, so parsing behaves the same in Node.js and
+// browsers. Covers what SVG files contain: elements, attributes, text,
+// CDATA, comments, processing instructions and a DOCTYPE (skipped).
+// Namespaces are not resolved — prefixed names such as `xlink:href` are kept
+// as written.
+//
+
+export type XmlToken =
+  | { type: 'open'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; value: string }
+  | { type: 'cdata'; value: string }
+  | { type: 'comment'; value: string };
+
+export interface XmlElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export interface XmlText {
+  type: 'text';
+  /** Decoded character data — CDATA sections become text too */
+  value: string;
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+/**
+ * Tokenize an XML string. Tokens are produced lazily, so callers can stop
+ * early without scanning the rest of the document.
+ */
+export function* tokenizeXml(xml: string): Generator<XmlToken> {
+  let i = 0;
+  const n = xml.length;
+
+  while (i < n) {
+    const lt = xml.indexOf('<', i);
+    if (lt === -1) {
+      yield { type: 'text', value: decodeEntities(xml.slice(i)) };
+      return;
+    }
+    if (lt > i) yield { type: 'text', value: decodeEntities(xml.slice(i, lt)) };
+
+    if (xml.startsWith('<!--', lt)) {
+      const end = requireIndex(xml, '-->', lt + 4, 'comment');
+      yield { type: 'comment', value: xml.slice(lt + 4, end) };
+      i = end + 3;
+    } else if (xml.startsWith('<![CDATA[', lt)) {
+      const end = requireIndex(xml, ']]>', lt + 9, 'CDATA section');
+      yield { type: 'cdata', value: xml.slice(lt + 9, end) };
+      i = end + 3;
+    } else if (xml.startsWith('<?', lt)) {
+      i = requireIndex(xml, '?>', lt + 2, 'processing instruction') + 2;
+    } else if (xml.startsWith('<!', lt)) {
+      i = skipDeclaration(xml, lt);
+    } else if (xml[lt + 1] === '/') {
+      const end = requireIndex(xml, '>', lt + 2, 'closing tag');
+      yield { type: 'close', name: xml.slice(lt + 2, end).trim() };
+      i = end + 1;
+    } else {
+      const tag = readTag(xml, lt);
+      yield tag.token;
+      i = tag.end;
+    }
+  }
+}
+
+/**
+ * Parse an XML string into an element tree and return the root element.
+ *
+ * Mismatched closing tags close back to the nearest open element of the
+ * same name, as browsers do for HTML; stray closing tags are ignored.
+ */
+export function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { type: 'element', name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+
+  for (const token of tokenizeXml(xml)) {
+    const parent = stack[stack.length - 1];
+    switch (token.type) {
+      case 'open': {
+        const el: XmlElement = { type: 'element', name: token.name, attributes: token.attributes, children: [] };
+        parent.children.push(el);
+        if (!token.selfClosing) stack.push(el);
+        break;
+      }
+      case 'close': {
+        const at = stack.map((e) => e.name).lastIndexOf(token.name);
+        if (at > 0) stack.length = at;
+        break;
+      }
+      case 'text':
+      case 'cdata':
+        if (parent !== document) parent.children.push({ type: 'text', value: token.value });
+        break;
+    }
+  }
+
+  const root = document.children.find((c): c is XmlElement => c.type === 'element');
+  if (!root) throw new Error('motion-svg: XML document has no root element.');
+  return root;
+}
+
+/** Local name of an element or attribute, without its namespace prefix */
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/** Child elements of a node, optionally filtered by local name */
+export function childElements(el: XmlElement, name?: string): XmlElement[] {
+  return el.children.filter((c): c is XmlElement =>
+    c.type === 'element' && (name === undefined || localName(c.name) === name),
+  );
+}
+
+/** Concatenated text content of an element and its descendants */
+export function textContent(el: XmlElement): string {
+  return el.children.map((c) => (c.type === 'text' ? c.value : textContent(c))).join('');
+}
+
+// ─── Tokenizer internals ────────────────────────────────────────────────────
+
+const NAME_END = /[\s/>=]/;
+
+function readTag(xml: string, lt: number): { token: XmlToken; end: number } {
+  let i = lt + 1;
+  const nameStart = i;
+  while (i < xml.length && !NAME_END.test(xml[i])) i++;
+  const name = xml.slice(nameStart, i);
+  if (!name) throw new Error(`motion-svg: Malformed XML — empty tag name at offset ${lt}.`);
+
+  const attributes: Record<string, string> = {};
+  for (;;) {
+    while (i < xml.length && /\s/.test(xml[i])) i++;
+    if (i >= xml.length) throw new Error(`motion-svg: Malformed XML — unterminated <${name}> tag.`);
+
+    if (xml[i] === '>') {
+      return { token: { type: 'open', name, attributes, selfClosing: false }, end: i + 1 };
+    }
+    if (xml.startsWith('/>', i)) {
+      return { token: { type: 'open', name, attributes, selfClosing: true }, end: i + 2 };
+    }
+
+    const attrStart = i;
+    while (i < xml.length && !NAME_END.test(xml[i])) i++;
+    const attrName = xml.slice(attrStart, i);
+    if (!attrName) {
+      // Stray character (e.g. a lone "/") — skip it
+      i++;
+      continue;
+    }
+
+    while (i < xml.length && /\s/.test(xml[i])) i++;
+    if (xml[i] !== '=') {
+      // Attribute without a value (HTML-style) — treat as empty
+      attributes[attrName] = '';
+      continue;
+    }
+    i++;
+    while (i < xml.length && /\s/.test(xml[i])) i++;
+
+    const quote = xml[i];
+    if (quote === '"' || quote === "'") {
+      const close = requireIndex(xml, quote, i + 1, `attribute "${attrName}"`);
+      attributes[attrName] = decodeEntities(xml.slice(i + 1, close));
+      i = close + 1;
+    } else {
+      // Unquoted value — read up to whitespace or the end of the tag
+      const valueStart = i;
+      while (i < xml.length && !/[\s>]/.test(xml[i]) && !xml.startsWith('/>', i)) i++;
+      attributes[attrName] = decodeEntities(xml.slice(valueStart, i));
+    }
+  }
+}
+
+/** Skip `<!DOCTYPE …>`, including an internal subset in brackets. */
+function skipDeclaration(xml: string, lt: number): number {
+  let depth = 0;
+  for (let i = lt + 2; i < xml.length; i++) {
+    const c = xml[i];
+    if (c === '[') depth++;
+    else if (c === ']') depth--;
+    else if (c === '>' && depth <= 0) return i + 1;
+  }
+  throw new Error('motion-svg: Malformed XML — unterminated declaration.');
+}
+
+function requireIndex(xml: string, search: string, from: number, what: string): number {
+  const at = xml.indexOf(search, from);
+  if (at === -1) throw new Error(`motion-svg: Malformed XML — unterminated ${what}.`);
+  return at;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: '\u00a0',
+};
+
+function decodeEntities(s: string): string {
+  if (!s.includes('&')) return s;
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref] ?? match;
+  });
+}
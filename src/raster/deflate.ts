@@ -0,0 +1,164 @@
+// ─── Deflate ────────────────────────────────────────────────────────────────
+//
+// A small zlib (RFC 1950/1951) compressor for PNG image data: LZ77 matches
+// from hash chains, written with the fixed Huffman codes. Flat vector art
+// compresses well this way without building dynamic tables.
+//
+
+const WINDOW = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+const HASH_SIZE = 1 << 15;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 (as used by PNG chunks and gzip) */
+export function crc32(bytes: Uint8Array, crc = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** Bits written least-significant first, as deflate requires */
+class BitWriter {
+  private buf = new Uint8Array(1024);
+  private len = 0;
+  private acc = 0;
+  private bits = 0;
+
+  write(value: number, count: number): void {
+    this.acc |= value << this.bits;
+    this.bits += count;
+    while (this.bits >= 8) {
+      this.byte(this.acc & 0xff);
+      this.acc >>>= 8;
+      this.bits -= 8;
+    }
+  }
+
+  /** Write a Huffman code, which deflate stores most-significant bit first */
+  code(code: number, length: number): void {
+    let rev = 0;
+    for (let i = 0; i < length; i++) rev = (rev << 1) | ((code >> i) & 1);
+    this.write(rev, length);
+  }
+
+  finish(): Uint8Array {
+    if (this.bits > 0) this.byte(this.acc & 0xff);
+    this.acc = 0;
+    this.bits = 0;
+    return this.buf.subarray(0, this.len);
+  }
+
+  private byte(b: number): void {
+    if (this.len === this.buf.length) {
+      const next = new Uint8Array(this.buf.length * 2);
+      next.set(this.buf);
+      this.buf = next;
+    }
+    this.buf[this.len++] = b;
+  }
+}
+
+/** Fixed Huffman code of a literal/length symbol */
+function writeLiteral(out: BitWriter, sym: number): void {
+  if (sym < 144) out.code(0x30 + sym, 8);
+  else if (sym < 256) out.code(0x190 + sym - 144, 9);
+  else if (sym < 280) out.code(sym - 256, 7);
+  else out.code(0xc0 + sym - 280, 8);
+}
+
+function writeMatch(out: BitWriter, length: number, distance: number): void {
+  let li = LENGTH_BASE.length - 1;
+  while (LENGTH_BASE[li] > length) li--;
+  writeLiteral(out, 257 + li);
+  if (LENGTH_EXTRA[li]) out.write(length - LENGTH_BASE[li], LENGTH_EXTRA[li]);
+
+  let di = DIST_BASE.length - 1;
+  while (DIST_BASE[di] > distance) di--;
+  out.code(di, 5);
+  if (DIST_EXTRA[di]) out.write(distance - DIST_BASE[di], DIST_EXTRA[di]);
+}
+
+/** Compress bytes into a zlib stream */
+export function zlibCompress(data: Uint8Array): Uint8Array {
+  const out = new BitWriter();
+  out.write(0x78, 8);
+  out.write(0x01, 8);
+  // One final block with fixed codes
+  out.write(1, 1);
+  out.write(1, 2);
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW);
+  const hash = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hash(i);
+    prev[i % WINDOW] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLen = 0;
+    let bestDist = 0;
+    if (i + MIN_MATCH <= data.length) {
+      let candidate = head[hash(i)];
+      const max = Math.min(MAX_MATCH, data.length - i);
+      for (let chain = 0; candidate >= 0 && i - candidate <= WINDOW && chain < MAX_CHAIN; chain++) {
+        let len = 0;
+        while (len < max && data[candidate + len] === data[i + len]) len++;
+        if (len > bestLen) {
+          bestLen = len;
+          bestDist = i - candidate;
+          if (len === max) break;
+        }
+        const next = prev[candidate % WINDOW];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLen >= MIN_MATCH) {
+      writeMatch(out, bestLen, bestDist);
+      for (let k = 0; k < bestLen; k++) insert(i + k);
+      i += bestLen;
+    } else {
+      writeLiteral(out, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+  writeLiteral(out, 256);
+
+  const body = out.finish();
+  const result = new Uint8Array(body.length + 4);
+  result.set(body);
+  new DataView(result.buffer).setUint32(body.length, adler32(data));
+  return result;
+}
@@ -0,0 +1,140 @@
+import type { Keyframe } from '../types';
+import { getVariant } from '../bundle/importBundle';
+import { getSceneLength, type FrameSource } from '../render/renderFrame';
+import { rasterizeFrame, type RasterImage, type RasterOptions } from './rasterizeFrame';
+import { encodeApng, encodePng } from './png';
+import { encodeGif } from './gif';
+
+// ─── Raster export ──────────────────────────────────────────────────────────
+//
+// Animations sampled at a fixed frame rate on the scene clock, from 0 to
+// the end of the last timeline that plays on load — the last pass of a
+// looping one, or the first pass of an endless one, which the file's own
+// `loop` then repeats. Frame i is the scene at i / fps seconds.
+//
+
+export interface RasterAnimationOptions extends RasterOptions {
+  /** Frames per second (default: 30) */
+  fps?: number;
+  /** Number of plays for APNG and GIF, 0 = forever (default: 0) */
+  loop?: number;
+}
+
+export interface PngSequenceResult {
+  /** One PNG file per frame */
+  frames: Uint8Array[];
+  /** Scene features the rasterizer does not draw */
+  warnings: string[];
+}
+
+export interface RasterAnimationResult {
+  /** The encoded file */
+  data: Uint8Array;
+  /** Number of frames in the file */
+  frames: number;
+  /** Scene features the rasterizer does not draw */
+  warnings: string[];
+}
+
+const UNRASTERIZED_CHANNELS: (keyof Keyframe)[] = ['blurRadius', 'backdropBlur', 'filters'];
+
+/**
+ * Every frame of the scene animation as RGBA pixels.
+ *
+ * Timelines bound to hover, click, scroll or appear triggers stay at their
+ * start, as in `renderFrame`. A composition moves timelines to its offsets,
+ * and `loop` triggers repeat them.
+ */
+export function rasterizeFrames(source: FrameSource, options?: RasterAnimationOptions): RasterImage[] {
+  const fps = options?.fps ?? 30;
+  if (!(fps > 0)) throw new Error(`motion-svg: Raster frame rate must be positive, got ${fps}.`);
+  const { timelines, triggers } = selectVariant(source, options?.variant);
+  const duration = getSceneLength({ scene: source.scene, timelines, triggers, composition: source.composition });
+
+  const count = Math.floor((duration * fps) / 1000 + 1e-9) + 1;
+  const frames: RasterImage[] = [];
+  for (let i = 0; i < count; i++) frames.push(rasterizeFrame(source, (i * 1000) / fps, options));
+  return frames;
+}
+
+/**
+ * Export the animation as one PNG per frame.
+ *
+ * @example
+ * ```ts
+ * const { frames } = exportPngSequence(importBundle(json), { fps: 24, width: 640 });
+ * frames.forEach((png, i) => writeFileSync(`frame-${i}.png`, png));
+ * ```
+ */
+export function exportPngSequence(source: FrameSource, options?: RasterAnimationOptions): PngSequenceResult {
+  return {
+    frames: rasterizeFrames(source, options).map(encodePng),
+    warnings: getRasterWarnings(source, options?.variant),
+  };
+}
+
+/**
+ * Export the animation as an animated PNG (full color and alpha).
+ *
+ * @example
+ * ```ts
+ * const { data } = exportApng(importBundle(json), { fps: 30, width: 320 });
+ * ```
+ */
+export function exportApng(source: FrameSource, options?: RasterAnimationOptions): RasterAnimationResult {
+  const frames = rasterizeFrames(source, options);
+  return {
+    data: encodeApng(frames, { fps: options?.fps, loop: options?.loop }),
+    frames: frames.length,
+    warnings: getRasterWarnings(source, options?.variant),
+  };
+}
+
+/**
+ * Export the animation as a GIF with a 255-color palette shared by all
+ * frames. Set a `background` for smooth edges — GIF transparency is on/off.
+ *
+ * @example
+ * ```ts
+ * const { data } = exportGif(importBundle(json), { fps: 25, width: 320, background: '#fff' });
+ * ```
+ */
+export function exportGif(source: FrameSource, options?: RasterAnimationOptions): RasterAnimationResult {
+  const frames = rasterizeFrames(source, options);
+  return {
+    data: encodeGif(frames, { fps: options?.fps, loop: options?.loop }),
+    frames: frames.length,
+    warnings: getRasterWarnings(source, options?.variant),
+  };
+}
+
+function selectVariant(source: FrameSource, variant: string | undefined): Pick<FrameSource, 'actors' | 'timelines' | 'triggers'> {
+  if (!variant) return source;
+  const v = getVariant(source, variant);
+  if (!v) throw new Error(`motion-svg: Unknown variant "${variant}".`);
+  return v;
+}
+
+/** What the scene uses that rasterized frames leave out */
+function getRasterWarnings(source: FrameSource, variant: string | undefined): string[] {
+  const { actors, timelines } = selectVariant(source, variant);
+  const warnings: string[] = [];
+
+  const actorTextIds = new Set(actors.flatMap((a) => a.textIds ?? []));
+  for (const t of source.scene.texts ?? []) {
+    if (!actorTextIds.has(t.id)) warnings.push(`Text "${t.id}" is not rasterized.`);
+  }
+  for (const actor of actors) {
+    for (const t of actor.texts ?? []) warnings.push(`Text "${t.id}" is not rasterized.`);
+    if (actor.filters?.length) warnings.push(`Actor "${actor.id}" has a filter stack, which is not rasterized.`);
+    if (actor.blurRadius > 0 || actor.backdropBlur > 0) warnings.push(`Actor "${actor.id}" is blurred, which is not rasterized.`);
+  }
+  for (const tl of timelines) {
+    for (const key of UNRASTERIZED_CHANNELS) {
+      if (tl.keyframes.some((kf) => kf[key] !== undefined)) {
+        warnings.push(`Timeline "${tl.id}" animates ${key}, which is not rasterized.`);
+      }
+    }
+  }
+  return warnings;
+}
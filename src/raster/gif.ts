@@ -0,0 +1,279 @@
+import type { RasterImage } from './rasterizeFrame';
+
+// ─── GIF ────────────────────────────────────────────────────────────────────
+//
+// GIF89a with one global palette for all frames, chosen by median cut over
+// a 15-bit color histogram of every frame. Pixels under half alpha map to
+// a reserved transparent index; GIF has no partial transparency, so edges
+// over a transparent background are hard.
+//
+
+export interface GifOptions {
+  /** Frames per second (default: 30) — GIF delays are rounded to centiseconds */
+  fps?: number;
+  /** Number of plays, 0 = forever (default: 0) */
+  loop?: number;
+}
+
+const TRANSPARENT = 255;
+
+interface ColorBox {
+  /** 15-bit colors */
+  colors: number[];
+  /** Channel with the widest range (0 = red) and that range */
+  channel: number;
+  range: number;
+}
+
+/**
+ * Encode equally sized frames as an animated GIF (a single frame gives a
+ * still image).
+ *
+ * @example
+ * ```ts
+ * const gif = encodeGif(frames, { fps: 25 });
+ * ```
+ */
+export function encodeGif(frames: RasterImage[], options?: GifOptions): Uint8Array {
+  if (frames.length === 0) throw new Error('motion-svg: encodeGif needs at least one frame.');
+  const fps = options?.fps ?? 30;
+  if (!(fps > 0)) throw new Error(`motion-svg: encodeGif frame rate must be positive, got ${fps}.`);
+  const { width, height } = frames[0];
+  if (frames.some((f) => f.width !== width || f.height !== height)) {
+    throw new Error('motion-svg: GIF frames must all have the same size.');
+  }
+  if (width > 65535 || height > 65535) {
+    throw new Error(`motion-svg: GIF size is limited to 65535×65535, got ${width}×${height}.`);
+  }
+
+  const palette = buildPalette(frames);
+  const lookup = new Map<number, number>();
+  const out = new ByteWriter();
+
+  out.ascii('GIF89a');
+  out.u16(width);
+  out.u16(height);
+  out.byte(0xf7); // global color table of 256 entries
+  out.byte(TRANSPARENT);
+  out.byte(0);
+  for (let i = 0; i < 256; i++) {
+    const c = palette[i] ?? 0;
+    out.byte((c >> 16) & 0xff);
+    out.byte((c >> 8) & 0xff);
+    out.byte(c & 0xff);
+  }
+
+  if (frames.length > 1) {
+    out.bytes([0x21, 0xff, 11]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([3, 1]);
+    out.u16(options?.loop ?? 0);
+    out.byte(0);
+  }
+
+  // Delays in centiseconds, rounded so they add up to the real duration
+  let elapsed = 0;
+  frames.forEach((frame, i) => {
+    const delay = Math.round(((i + 1) * 100) / fps) - elapsed;
+    elapsed += delay;
+    out.bytes([0x21, 0xf9, 4, (2 << 2) | 1]); // dispose to background, transparent index
+    out.u16(delay);
+    out.bytes([TRANSPARENT, 0]);
+
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(width);
+    out.u16(height);
+    out.byte(0);
+
+    const indices = new Uint8Array(width * height);
+    for (let p = 0; p < indices.length; p++) {
+      const k = p * 4;
+      if (frame.data[k + 3] < 128) {
+        indices[p] = TRANSPARENT;
+        continue;
+      }
+      const rgb = (frame.data[k] << 16) | (frame.data[k + 1] << 8) | frame.data[k + 2];
+      let index = lookup.get(rgb);
+      if (index === undefined) {
+        index = nearest(palette, rgb);
+        lookup.set(rgb, index);
+      }
+      indices[p] = index;
+    }
+    out.byte(8);
+    const lzw = lzwEncode(indices, 8);
+    for (let k = 0; k < lzw.length; k += 255) {
+      const block = lzw.subarray(k, k + 255);
+      out.byte(block.length);
+      out.bytes(block);
+    }
+    out.byte(0);
+  });
+
+  out.byte(0x3b);
+  return out.finish();
+}
+
+/** Up to 255 opaque colors (0xRRGGBB) — index 255 is transparent */
+function buildPalette(frames: RasterImage[]): number[] {
+  const counts = new Map<number, number>();
+  for (const frame of frames) {
+    for (let k = 0; k < frame.data.length; k += 4) {
+      if (frame.data[k + 3] < 128) continue;
+      const key = ((frame.data[k] >> 3) << 10) | ((frame.data[k + 1] >> 3) << 5) | (frame.data[k + 2] >> 3);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  const expand = (key: number) => {
+    const c5 = (v: number) => (v << 3) | (v >> 2);
+    return (c5((key >> 10) & 31) << 16) | (c5((key >> 5) & 31) << 8) | c5(key & 31);
+  };
+  if (counts.size <= TRANSPARENT) return [...counts.keys()].map(expand);
+
+  // Median cut: split the box with the widest channel range at its weighted median
+  const boxes: ColorBox[] = [colorBox([...counts.keys()])];
+  while (boxes.length < TRANSPARENT) {
+    let widest = -1;
+    boxes.forEach((box, i) => {
+      if (box.colors.length > 1 && box.range > 0 && (widest < 0 || box.range > boxes[widest].range)) widest = i;
+    });
+    if (widest < 0) break;
+    const shift = 10 - boxes[widest].channel * 5;
+    const colors = boxes[widest].colors.sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+    const total = colors.reduce((n, c) => n + counts.get(c)!, 0);
+    let cut = 1;
+    let acc = counts.get(colors[0])!;
+    while (cut < colors.length - 1 && acc < total / 2) acc += counts.get(colors[cut++])!;
+    boxes.splice(widest, 1, colorBox(colors.slice(0, cut)), colorBox(colors.slice(cut)));
+  }
+
+  // Each box becomes its count-weighted average color
+  return boxes.map((box) => {
+    let r = 0, g = 0, b = 0, n = 0;
+    for (const key of box.colors) {
+      const w = counts.get(key)!;
+      const c = expand(key);
+      r += ((c >> 16) & 0xff) * w;
+      g += ((c >> 8) & 0xff) * w;
+      b += (c & 0xff) * w;
+      n += w;
+    }
+    return (Math.round(r / n) << 16) | (Math.round(g / n) << 8) | Math.round(b / n);
+  });
+}
+
+function colorBox(colors: number[]): ColorBox {
+  let channel = 0;
+  let range = 0;
+  for (let ch = 0; ch < 3; ch++) {
+    const shift = 10 - ch * 5;
+    let min = 31;
+    let max = 0;
+    for (const c of colors) {
+      const v = (c >> shift) & 31;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    if (max - min > range) {
+      range = max - min;
+      channel = ch;
+    }
+  }
+  return { colors, channel, range };
+}
+
+function nearest(palette: number[], rgb: number): number {
+  const r = (rgb >> 16) & 0xff, g = (rgb >> 8) & 0xff, b = rgb & 0xff;
+  let best = 0;
+  let bestDist = Infinity;
+  palette.forEach((c, i) => {
+    const dr = ((c >> 16) & 0xff) - r, dg = ((c >> 8) & 0xff) - g, db = (c & 0xff) - b;
+    const dist = 2 * dr * dr + 4 * dg * dg + 3 * db * db;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  });
+  return best;
+}
+
+/** Variable-width LZW as GIF uses it, with a clear code whenever the 12-bit table fills */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const out: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  const emit = (code: number, size: number) => {
+    acc |= code << bits;
+    bits += size;
+    while (bits >= 8) {
+      out.push(acc & 0xff);
+      acc >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let next = end + 1;
+  let size = minCodeSize + 1;
+  emit(clear, size);
+  if (indices.length === 0) {
+    emit(end, size);
+    if (bits > 0) out.push(acc & 0xff);
+    return Uint8Array.from(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix, size);
+    if (next < 4096) {
+      table.set(key, next++);
+      if (next > 1 << size && size < 12) size++;
+    } else {
+      emit(clear, size);
+      table = new Map();
+      next = end + 1;
+      size = minCodeSize + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix, size);
+  emit(end, size);
+  if (bits > 0) out.push(acc & 0xff);
+  return Uint8Array.from(out);
+}
+
+class ByteWriter {
+  private chunks: number[] = [];
+
+  byte(b: number): void {
+    this.chunks.push(b & 0xff);
+  }
+
+  bytes(bs: ArrayLike<number>): void {
+    for (let i = 0; i < bs.length; i++) this.chunks.push(bs[i]);
+  }
+
+  u16(v: number): void {
+    this.byte(v & 0xff);
+    this.byte(v >> 8);
+  }
+
+  ascii(s: string): void {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
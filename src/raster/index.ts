@@ -0,0 +1,8 @@
+export { rasterizeFrame, getRasterSize } from './rasterizeFrame';
+export type { RasterImage, RasterOptions } from './rasterizeFrame';
+export { rasterizeFrames, exportPngSequence, exportApng, exportGif } from './exportRaster';
+export type { RasterAnimationOptions, PngSequenceResult, RasterAnimationResult } from './exportRaster';
+export { encodePng, encodeApng } from './png';
+export type { ApngOptions } from './png';
+export { encodeGif } from './gif';
+export type { GifOptions } from './gif';
@@ -0,0 +1,128 @@
+import type { Bounds, GradientDef } from '../types';
+import { parseColor } from '../color/color';
+import { type Matrix2D, invertMatrix, multiplyMatrix, parseTransform } from '../transform/matrix';
+import { GRADIENT_LUT_SIZE, type Paint } from './rasterizer';
+
+// ─── Paint servers ──────────────────────────────────────────────────────────
+//
+// Fill and stroke values as raster paints. Gradients are sampled through a
+// lookup table of premultiplied colors, indexed by the gradient position of
+// the pixel center; positions outside 0..1 are padded with the end stops.
+//
+
+/**
+ * The paint of a `fill` or `stroke` value on a path drawn with `toDevice`.
+ * `none` and references to unknown gradients paint nothing; other values
+ * that aren't colors (`currentColor`) paint black.
+ */
+export function resolvePaint(
+  value: string,
+  gradients: GradientDef[],
+  toDevice: Matrix2D,
+  bounds: Bounds | null,
+): Paint | null {
+  const v = value.trim();
+  if (v === 'none') return null;
+  if (v.startsWith('url(')) {
+    const id = v.match(/url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/)?.[1];
+    const grad = id ? gradients.find((g) => g.id === id) : undefined;
+    return grad ? gradientPaint(grad, toDevice, bounds) : null;
+  }
+  const c = parseColor(v) ?? { r: 0, g: 0, b: 0, a: 1 };
+  if (c.a <= 0) return null;
+  return { type: 'solid', color: premultiply(c.r, c.g, c.b, c.a) };
+}
+
+function gradientPaint(grad: GradientDef, toDevice: Matrix2D, bounds: Bounds | null): Paint | null {
+  let m = toDevice;
+  if (grad.gradientUnits !== 'userSpaceOnUse') {
+    // Bounding box units need an area to map onto
+    if (!bounds || bounds.w <= 0 || bounds.h <= 0) return null;
+    m = multiplyMatrix(m, { a: bounds.w, b: 0, c: 0, d: bounds.h, e: bounds.x, f: bounds.y });
+  }
+  if (grad.gradientTransform) m = multiplyMatrix(m, parseTransform(grad.gradientTransform));
+  const inv = invertMatrix(m);
+  if (!inv) return null;
+  const lut = gradientLut(grad);
+
+  if (grad.type === 'linear') {
+    const dx = grad.x2 - grad.x1;
+    const dy = grad.y2 - grad.y1;
+    const len2 = dx * dx + dy * dy;
+    // A zero-length gradient paints its last stop
+    if (len2 === 0) return { type: 'gradient', lut, at: () => 1 };
+    return {
+      type: 'gradient',
+      lut,
+      at: (x, y) => {
+        const gx = inv.a * x + inv.c * y + inv.e;
+        const gy = inv.b * x + inv.d * y + inv.f;
+        return ((gx - grad.x1) * dx + (gy - grad.y1) * dy) / len2;
+      },
+    };
+  }
+
+  const { cx, cy, r } = grad;
+  if (r <= 0) return { type: 'gradient', lut, at: () => 1 };
+  // A focal point outside the circle is moved onto it, as in SVG 1.1
+  let fx = grad.fx ?? cx;
+  let fy = grad.fy ?? cy;
+  const fd = Math.hypot(fx - cx, fy - cy);
+  if (fd > r * 0.999) {
+    fx = cx + ((fx - cx) * r * 0.999) / fd;
+    fy = cy + ((fy - cy) * r * 0.999) / fd;
+  }
+  const ex = fx - cx;
+  const ey = fy - cy;
+  const c0 = ex * ex + ey * ey - r * r;
+  return {
+    type: 'gradient',
+    lut,
+    at: (x, y) => {
+      // Where the ray from the focal point through the pixel meets the circle
+      const dx = inv.a * x + inv.c * y + inv.e - fx;
+      const dy = inv.b * x + inv.d * y + inv.f - fy;
+      const a = dx * dx + dy * dy;
+      if (a === 0) return 0;
+      const b = 2 * (dx * ex + dy * ey);
+      const s = (-b + Math.sqrt(Math.max(0, b * b - 4 * a * c0))) / (2 * a);
+      return s > 0 ? 1 / s : 1;
+    },
+  };
+}
+
+/** Premultiplied colors at GRADIENT_LUT_SIZE evenly spaced positions */
+function gradientLut(grad: GradientDef): Float32Array {
+  const lut = new Float32Array(GRADIENT_LUT_SIZE * 4);
+  // Offsets are clamped and made non-decreasing, as in SVG
+  let last = 0;
+  const stops = grad.stops.map((s) => {
+    last = Math.max(last, Math.max(0, Math.min(1, s.offset)));
+    const c = parseColor(s.color) ?? { r: 0, g: 0, b: 0, a: 1 };
+    return { offset: last, r: c.r, g: c.g, b: c.b, a: c.a * (s.opacity ?? 1) };
+  });
+  if (stops.length === 0) return lut;
+
+  for (let i = 0; i < GRADIENT_LUT_SIZE; i++) {
+    const t = i / (GRADIENT_LUT_SIZE - 1);
+    let k = 0;
+    while (k < stops.length - 1 && stops[k + 1].offset < t) k++;
+    const a = stops[k];
+    const b = stops[Math.min(k + 1, stops.length - 1)];
+    const span = b.offset - a.offset;
+    const u = t <= a.offset ? 0 : span > 0 ? Math.min(1, (t - a.offset) / span) : 1;
+    lut.set(premultiply(
+      a.r + (b.r - a.r) * u,
+      a.g + (b.g - a.g) * u,
+      a.b + (b.b - a.b) * u,
+      a.a + (b.a - a.a) * u,
+    ), i * 4);
+  }
+  return lut;
+}
+
+function premultiply(r: number, g: number, b: number, a: number): [number, number, number, number] {
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  const alpha = clamp(a);
+  return [clamp(r) * alpha, clamp(g) * alpha, clamp(b) * alpha, alpha];
+}
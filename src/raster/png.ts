@@ -0,0 +1,162 @@
+import type { RasterImage } from './rasterizeFrame';
+import { crc32, zlibCompress } from './deflate';
+
+// ─── PNG and APNG ───────────────────────────────────────────────────────────
+//
+// 8-bit RGBA PNG. Each row picks the filter with the smallest sum of
+// absolute differences, the usual heuristic. APNG frames are full-size
+// and replace the previous frame.
+//
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+export interface ApngOptions {
+  /** Frames per second (default: 30) */
+  fps?: number;
+  /** Number of plays, 0 = forever (default: 0) */
+  loop?: number;
+}
+
+/**
+ * Encode RGBA pixels as a PNG file.
+ *
+ * @example
+ * ```ts
+ * writeFileSync('poster.png', encodePng(rasterizeFrame(bundle, 0)));
+ * ```
+ */
+export function encodePng(image: RasterImage): Uint8Array {
+  return pngFile([header(image), chunk('IDAT', imageData(image))]);
+}
+
+/**
+ * Encode equally sized frames as an animated PNG. Players without APNG
+ * support show the first frame.
+ */
+export function encodeApng(frames: RasterImage[], options?: ApngOptions): Uint8Array {
+  if (frames.length === 0) throw new Error('motion-svg: encodeApng needs at least one frame.');
+  const fps = options?.fps ?? 30;
+  if (!(fps > 0)) throw new Error(`motion-svg: encodeApng frame rate must be positive, got ${fps}.`);
+  const { width, height } = frames[0];
+  if (frames.some((f) => f.width !== width || f.height !== height)) {
+    throw new Error('motion-svg: APNG frames must all have the same size.');
+  }
+
+  const chunks = [header(frames[0])];
+  const actl = new DataView(new ArrayBuffer(8));
+  actl.setUint32(0, frames.length);
+  actl.setUint32(4, options?.loop ?? 0);
+  chunks.push(chunk('acTL', new Uint8Array(actl.buffer)));
+
+  // Frame control and frame data chunks share one sequence
+  let sequence = 0;
+  frames.forEach((frame, i) => {
+    const fctl = new DataView(new ArrayBuffer(26));
+    fctl.setUint32(0, sequence++);
+    fctl.setUint32(4, width);
+    fctl.setUint32(8, height);
+    fctl.setUint32(12, 0);
+    fctl.setUint32(16, 0);
+    // Delay as a fraction of a second: 100 / (fps × 100)
+    fctl.setUint16(20, 100);
+    fctl.setUint16(22, Math.min(65535, Math.round(fps * 100)));
+    fctl.setUint8(24, 0); // dispose: none
+    fctl.setUint8(25, 0); // blend: source
+    chunks.push(chunk('fcTL', new Uint8Array(fctl.buffer)));
+
+    const data = imageData(frame);
+    if (i === 0) {
+      chunks.push(chunk('IDAT', data));
+    } else {
+      const fdat = new Uint8Array(data.length + 4);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(data, 4);
+      chunks.push(chunk('fdAT', fdat));
+    }
+  });
+  return pngFile(chunks);
+}
+
+function pngFile(chunks: Uint8Array[]): Uint8Array {
+  chunks.push(chunk('IEND', new Uint8Array(0)));
+  const out = new Uint8Array(SIGNATURE.length + chunks.reduce((n, c) => n + c.length, 0));
+  out.set(SIGNATURE);
+  let offset = SIGNATURE.length;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+function header(image: RasterImage): Uint8Array {
+  const ihdr = new DataView(new ArrayBuffer(13));
+  ihdr.setUint32(0, image.width);
+  ihdr.setUint32(4, image.height);
+  ihdr.setUint8(8, 8); // bit depth
+  ihdr.setUint8(9, 6); // RGBA
+  return chunk('IHDR', new Uint8Array(ihdr.buffer));
+}
+
+/** length, type, data, CRC of type + data */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+/** Filtered, compressed scanlines */
+function imageData(image: RasterImage): Uint8Array {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+  const best = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const x = data[row + i];
+        const a = i >= 4 ? data[row + i - 4] : 0;
+        const b = y > 0 ? data[row + i - stride] : 0;
+        const c = i >= 4 && y > 0 ? data[row + i - stride - 4] : 0;
+        const v = (x - predict(filter, a, b, c)) & 0xff;
+        candidate[i] = v;
+        score += v < 128 ? v : 256 - v;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+    raw[y * (stride + 1)] = bestFilter;
+    raw.set(best, y * (stride + 1) + 1);
+  }
+  return zlibCompress(raw);
+}
+
+function predict(filter: number, a: number, b: number, c: number): number {
+  switch (filter) {
+    case 1: return a;
+    case 2: return b;
+    case 3: return (a + b) >> 1;
+    case 4: {
+      // Paeth
+      const p = a + b - c;
+      const pa = Math.abs(p - a);
+      const pb = Math.abs(p - b);
+      const pc = Math.abs(p - c);
+      return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+    }
+    default: return 0;
+  }
+}
@@ -0,0 +1,265 @@
+import type { Point, StrokeLinecap, StrokeLinejoin } from '../types';
+import { parsePathD, normalizeToCubic, type PathCommand } from '../timeline/pathMorph';
+
+// ─── Path outlines ──────────────────────────────────────────────────────────
+//
+// The rasterizer only fills polygons. Curves are flattened to polylines and
+// strokes are outlined in user space, before the transform, so a
+// non-uniform scale or skew distorts the stroke exactly as it does in SVG.
+//
+// A stroke outline is a set of small polygons — one quad per segment plus
+// join and cap pieces — all wound the same way, so the nonzero fill of the
+// set is their union.
+//
+
+/** One flattened subpath */
+export interface Polyline {
+  points: Point[];
+  closed: boolean;
+}
+
+export interface StrokeStyle {
+  width: number;
+  join: StrokeLinejoin;
+  cap: StrokeLinecap;
+  /** Ratio of miter length to stroke width above which miters are beveled */
+  miterLimit: number;
+}
+
+/**
+ * Flatten path data into one polyline per subpath. `tolerance` is the
+ * largest distance allowed between a curve and its chords.
+ */
+export function flattenPath(d: string, tolerance: number): Polyline[] {
+  const lines: Polyline[] = [];
+  for (const commands of splitSubpaths(parsePathD(d))) {
+    const path = normalizeToCubic(commands);
+    const points: Point[] = [{ x: path.startX, y: path.startY }];
+    let x = path.startX;
+    let y = path.startY;
+    for (const s of path.segments) {
+      // Wang's bound on the chord count for a cubic
+      const ddx = Math.max(Math.abs(x - 2 * s.cx1 + s.cx2), Math.abs(s.cx1 - 2 * s.cx2 + s.x));
+      const ddy = Math.max(Math.abs(y - 2 * s.cy1 + s.cy2), Math.abs(s.cy1 - 2 * s.cy2 + s.y));
+      const n = Math.min(256, Math.max(1, Math.ceil(Math.sqrt((0.75 * Math.hypot(ddx, ddy)) / tolerance))));
+      for (let i = 1; i <= n; i++) {
+        const t = i / n;
+        const mt = 1 - t;
+        const a = mt * mt * mt, b = 3 * mt * mt * t, c = 3 * mt * t * t, e = t * t * t;
+        points.push({ x: a * x + b * s.cx1 + c * s.cx2 + e * s.x, y: a * y + b * s.cy1 + c * s.cy2 + e * s.y });
+      }
+      x = s.x;
+      y = s.y;
+    }
+    lines.push({ points: dedupe(points, path.closed), closed: path.closed });
+  }
+  return lines;
+}
+
+/** Commands grouped by subpath, each starting with an absolute `M` */
+function splitSubpaths(commands: PathCommand[]): PathCommand[][] {
+  const groups: PathCommand[][] = [];
+  let current: PathCommand[] | null = null;
+  let startX = 0;
+  let startY = 0;
+  for (const cmd of commands) {
+    if (cmd.type === 'M') {
+      current = [cmd];
+      groups.push(current);
+      [startX, startY] = cmd.params;
+      continue;
+    }
+    // Drawing after a close (or without any moveto) starts a subpath at the last start point
+    if (!current || current[current.length - 1].type === 'Z') {
+      current = [{ type: 'M', relative: false, params: [startX, startY] }];
+      groups.push(current);
+    }
+    current.push(cmd);
+  }
+  return groups;
+}
+
+function dedupe(points: Point[], closed: boolean): Point[] {
+  const out: Point[] = [];
+  for (const p of points) {
+    const last = out[out.length - 1];
+    if (!last || Math.abs(last.x - p.x) > 1e-9 || Math.abs(last.y - p.y) > 1e-9) out.push(p);
+  }
+  if (closed && out.length > 1) {
+    const first = out[0];
+    const last = out[out.length - 1];
+    if (Math.abs(last.x - first.x) <= 1e-9 && Math.abs(last.y - first.y) <= 1e-9) out.pop();
+  }
+  return out;
+}
+
+/**
+ * Cut polylines into dashes. `pattern` alternates dash and gap lengths (an
+ * odd-length pattern is repeated, as in SVG); the pattern restarts on each
+ * subpath, shifted by `offset`.
+ */
+export function dashPolylines(lines: Polyline[], pattern: number[], offset: number): Polyline[] {
+  const dashes = pattern.length % 2 === 1 ? [...pattern, ...pattern] : pattern;
+  const period = dashes.reduce((sum, v) => sum + v, 0);
+  if (period <= 0 || dashes.some((v) => v < 0)) return lines;
+
+  const out: Polyline[] = [];
+  for (const line of lines) {
+    const pts = line.closed && line.points.length > 1 ? [...line.points, line.points[0]] : line.points;
+    // Find where in the pattern the line starts
+    let index = 0;
+    let left = dashes[0];
+    let skip = ((offset % period) + period) % period;
+    while (skip > 0) {
+      if (skip >= left) {
+        skip -= left;
+        index = (index + 1) % dashes.length;
+        left = dashes[index];
+      } else {
+        left -= skip;
+        skip = 0;
+      }
+    }
+
+    let current: Point[] | null = index % 2 === 0 ? [pts[0]] : null;
+    for (let i = 1; i < pts.length; i++) {
+      let from = pts[i - 1];
+      const to = pts[i];
+      let segment = Math.hypot(to.x - from.x, to.y - from.y);
+      while (segment > left) {
+        const t = left / segment;
+        const cut = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+        if (current) {
+          current.push(cut);
+          out.push({ points: current, closed: false });
+          current = null;
+        } else {
+          current = [cut];
+        }
+        segment -= left;
+        from = cut;
+        index = (index + 1) % dashes.length;
+        left = dashes[index];
+      }
+      left -= segment;
+      current?.push(to);
+    }
+    if (current && current.length > 1) out.push({ points: current, closed: false });
+  }
+  return out;
+}
+
+/**
+ * Outline the stroke of polylines as polygons. `tolerance` sets how finely
+ * round joins and caps are divided.
+ */
+export function strokePolygons(lines: Polyline[], style: StrokeStyle, tolerance: number): Point[][] {
+  const out: Point[][] = [];
+  const hw = style.width / 2;
+  if (hw <= 0) return out;
+  const add = (poly: Point[]) => out.push(windPositive(poly));
+
+  for (const line of lines) {
+    const pts = line.points;
+    if (pts.length === 1) {
+      // A zero-length subpath shows only its caps
+      if (!line.closed && style.cap === 'round') add(circle(pts[0], hw, tolerance));
+      if (!line.closed && style.cap === 'square') add(square(pts[0], { x: 1, y: 0 }, hw));
+      continue;
+    }
+
+    const closed = line.closed && pts.length > 2;
+    const count = closed ? pts.length : pts.length - 1;
+    const dirs: Point[] = [];
+    for (let i = 0; i < count; i++) {
+      const a = pts[i];
+      const b = pts[(i + 1) % pts.length];
+      const len = Math.hypot(b.x - a.x, b.y - a.y);
+      const d = { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+      dirs.push(d);
+      const n = { x: -d.y * hw, y: d.x * hw };
+      add([
+        { x: a.x + n.x, y: a.y + n.y }, { x: b.x + n.x, y: b.y + n.y },
+        { x: b.x - n.x, y: b.y - n.y }, { x: a.x - n.x, y: a.y - n.y },
+      ]);
+    }
+
+    // Joins at every interior vertex, and where a closed subpath meets itself
+    for (let i = closed ? 0 : 1; i < (closed ? count : pts.length - 1); i++) {
+      const join = joinPolygon(pts[i], dirs[(i - 1 + count) % count], dirs[i], hw, style, tolerance);
+      if (join) add(join);
+    }
+
+    if (!closed && style.cap !== 'butt') {
+      const first = dirs[0];
+      const last = dirs[dirs.length - 1];
+      const start = pts[0];
+      const end = pts[pts.length - 1];
+      if (style.cap === 'round') {
+        add(circle(start, hw, tolerance));
+        add(circle(end, hw, tolerance));
+      } else {
+        add(square(start, first, hw));
+        add(square(end, last, hw));
+      }
+    }
+  }
+  return out;
+}
+
+function joinPolygon(
+  v: Point, d0: Point, d1: Point, hw: number, style: StrokeStyle, tolerance: number,
+): Point[] | null {
+  const cross = d0.x * d1.y - d0.y * d1.x;
+  const dot = d0.x * d1.x + d0.y * d1.y;
+  if (Math.abs(cross) < 1e-9 && dot > 0) return null;
+  if (style.join === 'round') return circle(v, hw, tolerance);
+
+  // The join fills the wedge on the outside of the turn
+  const side = cross > 0 ? -1 : 1;
+  const n0 = { x: -d0.y * side, y: d0.x * side };
+  const n1 = { x: -d1.y * side, y: d1.x * side };
+  const a = { x: v.x + n0.x * hw, y: v.y + n0.y * hw };
+  const b = { x: v.x + n1.x * hw, y: v.y + n1.y * hw };
+
+  if (style.join === 'miter') {
+    const sx = n0.x + n1.x;
+    const sy = n0.y + n1.y;
+    const len2 = sx * sx + sy * sy;
+    if (len2 > 1e-12 && 2 / Math.sqrt(len2) <= style.miterLimit) {
+      const tip = { x: v.x + (2 * hw * sx) / len2, y: v.y + (2 * hw * sy) / len2 };
+      return [v, a, tip, b];
+    }
+  }
+  return [v, a, b];
+}
+
+function circle(c: Point, r: number, tolerance: number): Point[] {
+  const steps = Math.max(8, Math.ceil(Math.PI / Math.acos(Math.max(-1, 1 - tolerance / r))));
+  const pts: Point[] = [];
+  for (let i = 0; i < steps; i++) {
+    const a = (i / steps) * Math.PI * 2;
+    pts.push({ x: c.x + Math.cos(a) * r, y: c.y + Math.sin(a) * r });
+  }
+  return pts;
+}
+
+/** A square cap: a half-width square centered on `p`, aligned with `d` */
+function square(p: Point, d: Point, hw: number): Point[] {
+  const ux = d.x * hw, uy = d.y * hw;
+  const nx = -uy, ny = ux;
+  return [
+    { x: p.x - ux + nx, y: p.y - uy + ny }, { x: p.x + ux + nx, y: p.y + uy + ny },
+    { x: p.x + ux - nx, y: p.y + uy - ny }, { x: p.x - ux - nx, y: p.y - uy - ny },
+  ];
+}
+
+function windPositive(poly: Point[]): Point[] {
+  let area = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area < 0 ? poly.reverse() : poly;
+}
@@ -0,0 +1,224 @@
+import type { FillRule, Point } from '../types';
+
+// ─── Scanline rasterizer ────────────────────────────────────────────────────
+//
+// Polygons in device pixels become a coverage mask: each pixel row is cut
+// into SUBSAMPLES sample lines, and the inside spans of every line are
+// added with their exact horizontal extent, so edges are anti-aliased in
+// both directions.
+//
+// Layers hold premultiplied RGBA floats (0..1). Paint is composited with
+// source-over; group opacity, clips and masks draw into a separate layer
+// that is composited as a whole.
+//
+
+const SUBSAMPLES = 4;
+
+/** Coverage (0..1) of the pixels inside a rectangle of the canvas */
+export interface Coverage {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/** Premultiplied RGBA pixels */
+export interface Layer {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/** A paint source: a solid premultiplied color, or a gradient lookup table and the gradient position of a pixel */
+export type Paint =
+  | { type: 'solid'; color: [number, number, number, number] }
+  | { type: 'gradient'; lut: Float32Array; at: (x: number, y: number) => number };
+
+/** Entries in a gradient lookup table */
+export const GRADIENT_LUT_SIZE = 256;
+
+interface Edge {
+  x: number;
+  top: number;
+  bottom: number;
+  dxdy: number;
+  dir: number;
+}
+
+/**
+ * Coverage of `polygons` (closed, in device pixels) on a `width` × `height`
+ * canvas under the fill rule. Returns null when nothing is covered.
+ */
+export function rasterizePolygons(
+  polygons: Point[][],
+  rule: FillRule,
+  width: number,
+  height: number,
+): Coverage | null {
+  const edges: Edge[] = [];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const poly of polygons) {
+    for (let i = 0; i < poly.length; i++) {
+      const a = poly[i];
+      const b = poly[(i + 1) % poly.length];
+      if (!Number.isFinite(a.x) || !Number.isFinite(a.y)) return null;
+      minX = Math.min(minX, a.x);
+      maxX = Math.max(maxX, a.x);
+      minY = Math.min(minY, a.y);
+      maxY = Math.max(maxY, a.y);
+      if (a.y === b.y) continue;
+      const [top, bottom, dir] = a.y < b.y ? [a, b, 1] : [b, a, -1];
+      edges.push({ x: top.x, top: top.y, bottom: bottom.y, dxdy: (bottom.x - top.x) / (bottom.y - top.y), dir });
+    }
+  }
+
+  const x0 = Math.max(0, Math.floor(minX));
+  const x1 = Math.min(width, Math.ceil(maxX));
+  const y0 = Math.max(0, Math.floor(minY));
+  const y1 = Math.min(height, Math.ceil(maxY));
+  if (edges.length === 0 || x1 <= x0 || y1 <= y0) return null;
+
+  edges.sort((a, b) => a.top - b.top);
+  const cw = x1 - x0;
+  const data = new Float32Array(cw * (y1 - y0));
+  const row = new Float32Array(cw + 1);
+  const weight = 1 / SUBSAMPLES;
+  let active: Edge[] = [];
+  let next = 0;
+  const crossings: { x: number; dir: number }[] = [];
+
+  for (let py = y0; py < y1; py++) {
+    row.fill(0);
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const y = py + (s + 0.5) / SUBSAMPLES;
+      while (next < edges.length && edges[next].top <= y) active.push(edges[next++]);
+      active = active.filter((e) => e.bottom > y);
+
+      crossings.length = 0;
+      for (const e of active) crossings.push({ x: e.x + (y - e.top) * e.dxdy, dir: e.dir });
+      crossings.sort((a, b) => a.x - b.x);
+
+      let winding = 0;
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += crossings[i].dir;
+        const inside = rule === 'evenodd' ? (i + 1) % 2 === 1 : winding !== 0;
+        if (inside) addSpan(row, crossings[i].x - x0, crossings[i + 1].x - x0, cw, weight);
+      }
+    }
+    const offset = (py - y0) * cw;
+    for (let i = 0; i < cw; i++) data[offset + i] = Math.min(1, row[i]);
+  }
+  return { x: x0, y: y0, width: cw, height: y1 - y0, data };
+}
+
+/** Add a span's coverage to a row, splitting its partial end pixels */
+function addSpan(row: Float32Array, a: number, b: number, width: number, weight: number): void {
+  a = Math.max(0, a);
+  b = Math.min(width, b);
+  if (b <= a) return;
+  const ia = Math.floor(a);
+  const ib = Math.floor(b);
+  if (ia === ib) {
+    row[ia] += (b - a) * weight;
+    return;
+  }
+  row[ia] += (ia + 1 - a) * weight;
+  for (let i = ia + 1; i < ib; i++) row[i] += weight;
+  row[ib] += (b - ib) * weight;
+}
+
+/** Coverage value at a canvas pixel (0 outside the mask) */
+export function coverageAt(cov: Coverage, x: number, y: number): number {
+  const cx = x - cov.x;
+  const cy = y - cov.y;
+  if (cx < 0 || cy < 0 || cx >= cov.width || cy >= cov.height) return 0;
+  return cov.data[cy * cov.width + cx];
+}
+
+/** Multiply a coverage by another, in place — an inside stroke limited to its fill */
+export function intersectCoverage(cov: Coverage, other: Coverage | null): Coverage {
+  for (let y = 0; y < cov.height; y++) {
+    for (let x = 0; x < cov.width; x++) {
+      cov.data[y * cov.width + x] *= other ? coverageAt(other, cov.x + x, cov.y + y) : 0;
+    }
+  }
+  return cov;
+}
+
+export function createLayer(width: number, height: number): Layer {
+  return { width, height, data: new Float32Array(width * height * 4) };
+}
+
+/** Fill every pixel with a color (premultiplied) */
+export function clearLayer(layer: Layer, color: [number, number, number, number]): void {
+  for (let i = 0; i < layer.data.length; i += 4) layer.data.set(color, i);
+}
+
+/** Composite `paint` through a coverage mask, scaled by `opacity` */
+export function fillCoverage(layer: Layer, cov: Coverage, paint: Paint, opacity: number): void {
+  const { data, width } = layer;
+  for (let cy = 0; cy < cov.height; cy++) {
+    const y = cov.y + cy;
+    for (let cx = 0; cx < cov.width; cx++) {
+      const c = cov.data[cy * cov.width + cx] * opacity;
+      if (c <= 0) continue;
+      const x = cov.x + cx;
+      let r: number, g: number, b: number, a: number;
+      if (paint.type === 'solid') {
+        [r, g, b, a] = paint.color;
+      } else {
+        const t = paint.at(x + 0.5, y + 0.5);
+        const k = Math.round(Math.max(0, Math.min(1, t)) * (GRADIENT_LUT_SIZE - 1)) * 4;
+        r = paint.lut[k]; g = paint.lut[k + 1]; b = paint.lut[k + 2]; a = paint.lut[k + 3];
+      }
+      const i = (y * width + x) * 4;
+      const keep = 1 - a * c;
+      data[i] = r * c + data[i] * keep;
+      data[i + 1] = g * c + data[i + 1] * keep;
+      data[i + 2] = b * c + data[i + 2] * keep;
+      data[i + 3] = a * c + data[i + 3] * keep;
+    }
+  }
+}
+
+/** Composite a whole layer over another, scaled by `opacity` and an optional per-pixel mask */
+export function compositeLayer(dst: Layer, src: Layer, opacity: number, mask?: Float32Array): void {
+  const pixels = dst.width * dst.height;
+  for (let p = 0; p < pixels; p++) {
+    const c = opacity * (mask ? mask[p] : 1);
+    const i = p * 4;
+    const a = src.data[i + 3] * c;
+    if (a <= 0) continue;
+    const keep = 1 - a;
+    dst.data[i] = src.data[i] * c + dst.data[i] * keep;
+    dst.data[i + 1] = src.data[i + 1] * c + dst.data[i + 1] * keep;
+    dst.data[i + 2] = src.data[i + 2] * c + dst.data[i + 2] * keep;
+    dst.data[i + 3] = a + dst.data[i + 3] * keep;
+  }
+}
+
+/** A per-pixel mask from a layer's alpha, or from its luminance times alpha */
+export function layerMask(layer: Layer, type: 'alpha' | 'luminance'): Float32Array {
+  const mask = new Float32Array(layer.width * layer.height);
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    // Premultiplied channels already carry the alpha factor
+    mask[p] = type === 'alpha'
+      ? layer.data[i + 3]
+      : 0.2125 * layer.data[i] + 0.7154 * layer.data[i + 1] + 0.0721 * layer.data[i + 2];
+  }
+  return mask;
+}
+
+/** Straight-alpha 8-bit RGBA pixels of a layer */
+export function layerToRgba(layer: Layer): Uint8Array {
+  const out = new Uint8Array(layer.width * layer.height * 4);
+  for (let i = 0; i < out.length; i += 4) {
+    const a = Math.min(1, layer.data[i + 3]);
+    if (a <= 0) continue;
+    for (let k = 0; k < 3; k++) out[i + k] = Math.round(Math.min(1, layer.data[i + k] / a) * 255);
+    out[i + 3] = Math.round(a * 255);
+  }
+  return out;
+}
@@ -1,6 +1,9 @@
 import React from 'react';
-import type { Actor, Point, GradientDef } from '../types';
+import type { Actor, GradientDef, SvgText } from '../types';
 import type { ActorState } from '../timeline/interpolate';
+import { getClipShapes } from '../actor/clip';
+import { filterPrimitives, FILTER_REGION, type FilterPrimitive } from '../filter/filterStack';
+import { actorFrame, pathFrame, textFrame } from '../render/actorFrame';
 
 export interface MotionSvgActorProps {
   actor: Actor;
@@ -10,6 +13,12 @@ export interface MotionSvgActorProps {
   onClick?: (actor: Actor) => void;
   onMouseEnter?: (actor: Actor) => void;
   onMouseLeave?: (actor: Actor) => void;
+  /** The actor named by `actor.clipPath`, and its current state */
+  clipActor?: Actor;
+  clipState?: ActorState;
+  /** The actor named by `actor.mask`, and its current state */
+  maskActor?: Actor;
+  maskState?: ActorState;
 }
 
 /**
@@ -19,7 +28,11 @@ export interface MotionSvgActorProps {
  * - Smooth fill/stroke color and gradient interpolation via ActorState
  * - Animated strokeWidth
  * - strokeAlign: center (default), inside (clip-path), outside (paint-order)
- * - Inline gradient definitions when interpolating between gradients
+ * - Trim channels as a stroke dash pattern (line-drawing reveals)
+ * - Text with animated fill, font size, letter spacing and typewriter reveal
+ * - Clipping and masking by another actor's animated geometry
+ * - Filter stacks (shadow, glow, color adjustments) with animated parameters
+ * - Inline gradient definitions when interpolating between or animating gradients
  */
 export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
   actor,
@@ -28,32 +41,17 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
   onClick,
   onMouseEnter,
   onMouseLeave,
+  clipActor,
+  clipState,
+  maskActor,
+  maskState,
 }) => {
-  const pos = state?.position ?? actor.position;
-  const scale = state?.scale ?? actor.scale;
-  const rotation = state?.rotation ?? actor.rotation;
-  const opacity = state?.opacity ?? actor.opacity;
-  const blurRadius = state?.blurRadius ?? actor.blurRadius ?? 0;
-  const backdropBlur = state?.backdropBlur ?? actor.backdropBlur ?? 0;
-
-  const sx = typeof scale === 'number' ? scale : scale.x;
-  const sy = typeof scale === 'number' ? scale : scale.y;
-
-  // Build transform: translate to position, rotate around origin, then scale
+  const { transform, opacity, blurRadius, backdropBlur, filters } = actorFrame(actor, state);
+  const effects = filterPrimitives(filters);
   const ox = actor.origin.x;
   const oy = actor.origin.y;
-  const dx = pos.x - ox;
-  const dy = pos.y - oy;
 
-  const transform = [
-    `translate(${dx}, ${dy})`,
-    `translate(${ox}, ${oy})`,
-    `rotate(${rotation})`,
-    `scale(${sx}, ${sy})`,
-    `translate(${-ox}, ${-oy})`,
-  ].join(' ');
-
-  return (
+  const group = (
     <g
       data-actor-id={actor.id}
       transform={transform}
@@ -63,8 +61,8 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
       onMouseEnter={onMouseEnter ? () => onMouseEnter(actor) : undefined}
       onMouseLeave={onMouseLeave ? () => onMouseLeave(actor) : undefined}
     >
-      {/* Inline gradient definitions + blur filters */}
-      {(state?.fillGradient || state?.strokeGradient || blurRadius > 0) && (
+      {/* Inline gradient definitions + blur and effect filters */}
+      {(state?.fillGradient || state?.strokeGradient || blurRadius > 0 || effects.length > 0) && (
         <defs>
           {state?.fillGradient && <InlineGradient grad={state.fillGradient} />}
           {state?.strokeGradient && <InlineGradient grad={state.strokeGradient} />}
@@ -73,6 +71,11 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
               <feGaussianBlur stdDeviation={blurRadius} />
             </filter>
           )}
+          {effects.length > 0 && (
+            <filter id={`fx-${actor.id}`} {...FILTER_REGION}>
+              {effects.map((p, i) => <FilterPrimitiveNode key={i} primitive={p} />)}
+            </filter>
+          )}
         </defs>
       )}
 
@@ -83,13 +86,15 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
         </g>
       )}
 
+      <g filter={effects.length > 0 ? `url(#fx-${actor.id})` : undefined}>
       <g filter={blurRadius > 0 ? `url(#blur-${actor.id})` : undefined}>
       {actor.paths.map((p) => {
-        const sw = state?.strokeWidth ?? p.strokeWidth;
-        const align = state?.strokeAlign ?? p.strokeAlign ?? 'center';
-        const fillVal = state?.fill ?? p.fill ?? 'currentColor';
-        const strokeVal = state?.stroke ?? p.stroke;
-        const effectiveD = state?.pathD ?? p.d;
+        const {
+          d: effectiveD, fill: fillVal, stroke: strokeVal, strokeWidth: sw, strokeAlign: align, dasharray, dashoffset,
+          strokeLinejoin, strokeLinecap, strokeMiterlimit, fillRule,
+        } = pathFrame(p, state);
+        const dash = dasharray ? { strokeDasharray: dasharray, strokeDashoffset: dashoffset } : {};
+        const line = { strokeLinejoin, strokeLinecap, strokeMiterlimit };
 
         if (align === 'inside' && sw && sw > 0) {
           const clipId = `clip-in-${actor.id}-${p.id}`;
@@ -100,13 +105,15 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
                   <path d={effectiveD} />
                 </clipPath>
               </defs>
-              <path d={effectiveD} fill={fillVal} stroke="none" />
+              <path d={effectiveD} fill={fillVal} fillRule={fillRule} stroke="none" />
               <path
                 d={effectiveD}
                 fill="none"
                 stroke={strokeVal}
                 strokeWidth={sw * 2}
                 clipPath={`url(#${clipId})`}
+                {...line}
+                {...dash}
               />
             </g>
           );
@@ -118,11 +125,14 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
               key={p.id}
               d={effectiveD}
               fill={fillVal}
+              fillRule={fillRule}
               stroke={strokeVal}
               strokeWidth={sw * 2}
               opacity={p.opacity}
               transform={p.transform}
               style={{ paintOrder: 'stroke fill markers' }}
+              {...line}
+              {...dash}
             />
           );
         }
@@ -132,13 +142,20 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
             key={p.id}
             d={effectiveD}
             fill={fillVal}
+            fillRule={fillRule}
             stroke={strokeVal}
             strokeWidth={sw}
             opacity={p.opacity}
             transform={p.transform}
+            {...line}
+            {...dash}
           />
         );
       })}
+      {actor.texts?.map((t) => (
+        <SvgTextNode key={t.id} text={t} state={state} />
+      ))}
+      </g>
       </g>
 
       {selected && (
@@ -156,6 +173,107 @@ export const MotionSvgActor: React.FC<MotionSvgActorProps> = ({
       )}
     </g>
   );
+
+  if (!clipActor && !maskActor) return group;
+
+  // Clip and mask content lives in viewBox space, outside the actor transform
+  const clipId = `clip-${actor.id}`;
+  const maskId = `mask-${actor.id}`;
+  return (
+    <g
+      clipPath={clipActor ? `url(#${clipId})` : undefined}
+      mask={maskActor ? `url(#${maskId})` : undefined}
+    >
+      <defs>
+        {clipActor && (
+          <clipPath id={clipId}>
+            {getClipShapes(clipActor, clipState).map((s, i) => (
+              <path key={i} d={s.d} transform={s.transform} />
+            ))}
+          </clipPath>
+        )}
+        {maskActor && (
+          <mask
+            id={maskId}
+            maskUnits="userSpaceOnUse"
+            x="-9999"
+            y="-9999"
+            width="99999"
+            height="99999"
+            style={{ maskType: actor.maskType ?? 'luminance' }}
+          >
+            {getClipShapes(maskActor, maskState).map((s, i) => (
+              <path
+                key={i}
+                d={s.d}
+                transform={s.transform}
+                fill={s.fill ?? 'black'}
+                stroke={s.stroke}
+                strokeWidth={s.strokeWidth}
+                opacity={s.opacity}
+              />
+            ))}
+          </mask>
+        )}
+      </defs>
+      {group}
+    </g>
+  );
+};
+
+/**
+ * Renders an SvgText as a `<text>` element, one `<tspan>` per run. Fill,
+ * font size and letter spacing come from `state` when animated; `textReveal`
+ * truncates the runs.
+ */
+export const SvgTextNode: React.FC<{ text: SvgText; state?: ActorState }> = ({ text, state }) => {
+  const { fill, stroke, strokeWidth, fontSize, letterSpacing, runs } = textFrame(text, state);
+  return (
+    <text
+      x={text.x}
+      y={text.y}
+      fontFamily={text.fontFamily}
+      fontSize={fontSize}
+      fontWeight={text.fontWeight}
+      textAnchor={text.textAnchor}
+      letterSpacing={letterSpacing}
+      fill={fill}
+      stroke={stroke}
+      strokeWidth={strokeWidth}
+      opacity={text.opacity}
+      transform={text.transform}
+      style={{ whiteSpace: 'pre' }}
+    >
+      {runs.map((r, i) => (
+        <tspan
+          key={i}
+          x={r.x}
+          y={r.y}
+          dx={r.dx}
+          dy={r.dy}
+          fill={r.fill}
+          fontFamily={r.fontFamily}
+          fontSize={r.fontSize}
+          fontWeight={r.fontWeight}
+        >
+          {r.text}
+        </tspan>
+      ))}
+    </text>
+  );
+};
+
+/** Renders a filter primitive, with SVG attribute names camelCased for React */
+const FilterPrimitiveNode: React.FC<{ primitive: FilterPrimitive }> = ({ primitive }) => {
+  const props: Record<string, string | number> = {};
+  for (const [name, value] of Object.entries(primitive.attrs)) {
+    props[name.replace(/-(\w)/g, (_, c: string) => c.toUpperCase())] = value;
+  }
+  return React.createElement(
+    primitive.tag,
+    props,
+    primitive.children?.map((c, i) => <FilterPrimitiveNode key={i} primitive={c} />),
+  );
 };
 
 /** Renders a GradientDef as an inline SVG gradient element */
@@ -178,6 +296,7 @@ const InlineGradient: React.FC<{ grad: GradientDef }> = ({ grad }) => {
         x2={grad.x2}
         y2={grad.y2}
         gradientUnits={grad.gradientUnits}
+        gradientTransform={grad.gradientTransform}
       >
         {stops}
       </linearGradient>
@@ -193,6 +312,7 @@ const InlineGradient: React.FC<{ grad: GradientDef }> = ({ grad }) => {
       fx={grad.fx}
       fy={grad.fy}
       gradientUnits={grad.gradientUnits}
+      gradientTransform={grad.gradientTransform}
     >
       {stops}
     </radialGradient>
@@ -1,4 +1,4 @@
-import React, { useRef, type CSSProperties, type ReactNode } from 'react';
+import React, { useRef, type CSSProperties, type ReactNode, type RefObject } from 'react';
 import type { ViewBox } from '../types';
 
 export interface MotionSvgCanvasProps {
@@ -10,6 +10,8 @@ export interface MotionSvgCanvasProps {
   children?: ReactNode;
   /** Background color */
   background?: string;
+  /** Ref to the underlying <svg> element (e.g. for trigger drivers) */
+  svgRef?: RefObject<SVGSVGElement>;
 }
 
 /**
@@ -23,8 +25,10 @@ export const MotionSvgCanvas: React.FC<MotionSvgCanvasProps> = ({
   style,
   children,
   background,
+  svgRef: externalRef,
 }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+  const internalRef = useRef<SVGSVGElement>(null);
+  const svgRef = externalRef ?? internalRef;
 
   return (
     <svg
@@ -1,8 +1,11 @@
-import React, { useEffect, useMemo, type CSSProperties } from 'react';
+import React, { useEffect, useMemo, useRef, type CSSProperties } from 'react';
 import type { Bundle } from '../types';
 import { useMotionSvg } from './useMotionSvg';
 import { MotionSvgCanvas } from './MotionSvgCanvas';
-import { MotionSvgActor } from './MotionSvgActor';
+import { MotionSvgActor, SvgTextNode } from './MotionSvgActor';
+import { bindTriggeredPlayback, bindCanvasTriggeredPlayback } from '../trigger/drivers';
+import { getClipSourceIds } from '../actor/clip';
+import { CanvasRenderer, fitCanvas } from '../canvas/CanvasRenderer';
 
 export interface MotionSvgPlayerProps {
   /** Bundle data (object or JSON string) */
@@ -17,6 +20,8 @@ export interface MotionSvgPlayerProps {
   background?: string;
   /** Named variant to play — filters actors, timelines, and triggers */
   variant?: string;
+  /** Draw with SVG elements (default) or onto a <canvas> — for scenes with many actors */
+  renderer?: 'svg' | 'canvas';
 }
 
 /**
@@ -24,6 +29,10 @@ export interface MotionSvgPlayerProps {
  *
  * Handles parsing, actor rendering, and trigger-based playback automatically.
  * Pass `variant` to render only a specific named variant's configuration.
+ * Hover/click timelines play on pointer events over their actor (or parent
+ * group), and scroll/appear timelines follow the player's position in the page.
+ * With `renderer="canvas"` the scene is drawn by a `CanvasRenderer` and
+ * pointer triggers hit-test the drawn actors.
  */
 export const MotionSvgPlayer: React.FC<MotionSvgPlayerProps> = ({
   data: bundleData,
@@ -34,9 +43,13 @@ export const MotionSvgPlayer: React.FC<MotionSvgPlayerProps> = ({
   autoPlay,
   background,
   variant,
+  renderer = 'svg',
 }) => {
   const options = useMemo(() => (variant ? { variant } : undefined), [variant]);
   const instance = useMotionSvg(bundleData, options);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasRendererRef = useRef<CanvasRenderer | null>(null);
 
   // Auto-play logic — use resolved triggers (variant-filtered)
   useEffect(() => {
@@ -51,24 +64,74 @@ export const MotionSvgPlayer: React.FC<MotionSvgPlayerProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [instance.data, instance.triggers, autoPlay]);
 
+  // Canvas renderer — rebuilt with the scene, kept at the canvas's laid-out size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (renderer !== 'canvas' || !instance.data || !canvas || !ctx) return;
+    const { scene } = instance.data;
+    const fit = () => {
+      const { width: w, height: h } = fitCanvas(canvas, scene.viewBox);
+      const current = canvasRendererRef.current;
+      if (current && (current.width !== w || current.height !== h)) current.resize(w, h);
+      return { width: w, height: h };
+    };
+    const currentColor = getComputedStyle(canvas).color;
+    const r = new CanvasRenderer(ctx, { scene, actors: instance.actors }, { ...fit(), background, currentColor });
+    canvasRendererRef.current = r;
+    r.render(instance.store.getSnapshot());
+
+    const observer = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(fit) : null;
+    observer?.observe(canvas);
+    return () => {
+      observer?.disconnect();
+      canvasRendererRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [renderer, instance.data, instance.actors, background]);
+
+  // Redraw the canvas on every state change (one per frame, see useMotionSvg)
+  useEffect(() => {
+    canvasRendererRef.current?.render(instance.actorStates);
+  }, [instance.actorStates]);
+
+  // Trigger drivers — bind to the rendered <svg> and its actor groups, or hit-test the canvas
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (renderer === 'canvas' && canvas) {
+      const root = {
+        host: canvas,
+        canvas,
+        actors: instance.actors,
+        hitTest: (x: number, y: number) => canvasRendererRef.current?.hitTest(x, y) ?? null,
+      };
+      const cleanups = instance.triggered.map((tp) => bindCanvasTriggeredPlayback(root, tp));
+      return () => cleanups.forEach((cleanup) => cleanup());
+    }
+    const svg = svgRef.current;
+    if (!svg) return;
+    const root = { host: svg, svg, actors: instance.actors };
+    const cleanups = instance.triggered.map((tp) => bindTriggeredPlayback(root, tp));
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [instance.triggered, instance.actors, renderer]);
+
   if (!instance.data) return null;
 
+  if (renderer === 'canvas') {
+    return (
+      <canvas
+        ref={canvasRef}
+        className={className}
+        style={{ display: 'block', width: width ?? '100%', height: height ?? '100%', ...style }}
+      />
+    );
+  }
+
   const { scene } = instance.data;
-  // Use resolved actors / timelines / triggers (filtered by variant)
+  // Use resolved actors (filtered by variant)
   const actors = instance.actors;
-  const resolvedTimelines = instance.timelines;
-  const resolvedTriggers = instance.triggers;
-
-  // Determine hover/click handlers based on resolved triggers
-  const hoverTriggerActors = new Set<string>();
-  const clickTriggerActors = new Set<string>();
-
-  resolvedTriggers.forEach((tb) => {
-    const tl = resolvedTimelines.find((t) => t.id === tb.timelineId);
-    if (!tl) return;
-    if (tb.config.type === 'hover') hoverTriggerActors.add(tl.actorId);
-    if (tb.config.type === 'click') clickTriggerActors.add(tl.actorId);
-  });
+  const clipSources = getClipSourceIds(actors);
+  const byId = (id: string | undefined) => (id ? actors.find((a) => a.id === id) : undefined);
 
   return (
     <MotionSvgCanvas
@@ -78,6 +141,7 @@ export const MotionSvgPlayer: React.FC<MotionSvgPlayerProps> = ({
       className={className}
       style={style}
       background={background}
+      svgRef={svgRef}
     >
       {/* Render non-actor paths (background/static) */}
       {scene.paths
@@ -89,30 +153,34 @@ export const MotionSvgPlayer: React.FC<MotionSvgPlayerProps> = ({
             fill={p.fill ?? 'currentColor'}
             stroke={p.stroke}
             strokeWidth={p.strokeWidth}
+            strokeLinejoin={p.strokeLinejoin}
+            strokeLinecap={p.strokeLinecap}
+            strokeMiterlimit={p.strokeMiterlimit}
+            fillRule={p.fillRule}
             opacity={p.opacity}
             transform={p.transform}
           />
         ))}
 
-      {/* Render actors */}
-      {actors.map((actor) => (
-        <MotionSvgActor
-          key={actor.id}
-          actor={actor}
-          state={instance.actorStates[actor.id]}
-          onMouseEnter={
-            hoverTriggerActors.has(actor.id) ? () => instance.play() : undefined
-          }
-          onMouseLeave={
-            hoverTriggerActors.has(actor.id) ? () => instance.stop() : undefined
-          }
-          onClick={
-            clickTriggerActors.has(actor.id)
-              ? () => (instance.playing ? instance.stop() : instance.play())
-              : undefined
-          }
-        />
-      ))}
+      {/* Render non-actor text */}
+      {scene.texts
+        ?.filter((t) => !actors.some((a) => a.textIds?.includes(t.id)))
+        .map((t) => <SvgTextNode key={t.id} text={t} />)}
+
+      {/* Render actors — clip and mask sources are drawn only through the actors they clip */}
+      {actors
+        .filter((actor) => !clipSources.has(actor.id))
+        .map((actor) => (
+          <MotionSvgActor
+            key={actor.id}
+            actor={actor}
+            state={instance.actorStates[actor.id]}
+            clipActor={byId(actor.clipPath)}
+            clipState={actor.clipPath ? instance.actorStates[actor.clipPath] : undefined}
+            maskActor={byId(actor.mask)}
+            maskState={actor.mask ? instance.actorStates[actor.mask] : undefined}
+          />
+        ))}
     </MotionSvgCanvas>
   );
 };
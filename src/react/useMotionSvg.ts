@@ -1,7 +1,8 @@
 import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
-import type { Bundle, PlaybackController } from '../types';
+import type { Bundle, PlaybackController, ScenePlaybackController, TriggeredPlayback } from '../types';
 import { importBundle, getVariant, type ImportedBundle } from '../bundle/importBundle';
-import { createPlayback } from '../trigger/playback';
+import { createScenePlayback } from '../trigger/scenePlayback';
+import { createTriggeredPlaybacks, sceneTimelines } from '../trigger/drivers';
 import type { ActorState } from '../timeline/interpolate';
 import type { Actor, Timeline, TriggerBinding } from '../types';
 import { AnimationStore } from '../core/AnimationStore';
@@ -17,18 +18,22 @@ export interface MotionSvgInstance {
   triggers: TriggerBinding[];
   /** Map of actorId → current interpolated state */
   actorStates: Record<string, ActorState>;
-  /** Playback controllers for each timeline */
+  /** The single scene clock driving every resolved timeline */
+  playback: ScenePlaybackController | null;
+  /** Timelines played by their own hover/click/scroll/appear trigger instead of the scene clock */
+  triggered: TriggeredPlayback[];
+  /** All active playback controllers (scene clock first) */
   controllers: PlaybackController[];
   /** The animation store instance (for use with useActorState) */
   store: AnimationStore;
-  /** Play all timelines */
+  /** Play the scene */
   play(): void;
-  /** Pause all timelines */
+  /** Pause the scene */
   pause(): void;
-  /** Stop all timelines (reset to start) */
+  /** Stop the scene (reset to start) */
   stop(): void;
-  /** Seek all timelines to a given time */
-  seek(timeMs: number): void;
+  /** Seek the scene clock to a time in ms or a marker label */
+  seek(time: number | string): void;
   /** Is currently playing */
   playing: boolean;
   /** List of available variant names from the bundle */
@@ -56,7 +61,8 @@ export function useMotionSvg(
   const variantName = options?.variant;
   const [data, setData] = useState<ImportedBundle | null>(null);
   const [playing, setPlaying] = useState(false);
-  const controllersRef = useRef<PlaybackController[]>([]);
+  const playbackRef = useRef<ScenePlaybackController | null>(null);
+  const [triggered, setTriggered] = useState<TriggeredPlayback[]>([]);
   const storeRef = useRef(new AnimationStore());
 
   // Subscribe to the external store with useSyncExternalStore
@@ -101,12 +107,13 @@ export function useMotionSvg(
 
   // Build playback controllers whenever the resolved set changes
   useEffect(() => {
-    // Stop any previous controllers
-    controllersRef.current.forEach((c) => c.stop());
-    controllersRef.current = [];
+    // Stop any previous scene clock
+    playbackRef.current?.stop();
+    playbackRef.current = null;
 
     if (!data || !resolved) {
       storeRef.current.reset({});
+      setTriggered([]);
       setPlaying(false);
       return;
     }
@@ -123,27 +130,32 @@ export function useMotionSvg(
     }
     storeRef.current.reset(initial);
 
-    // Create playback controllers — match triggers to timelines by timelineId
-    const controllers = resolved.timelines.map((tl) => {
-      const triggerBinding = resolved.triggers.find((t) => t.timelineId === tl.id);
-      return createPlayback({
-        timeline: tl,
-        trigger: triggerBinding,
-        gradients: data.scene.gradients,
-        onUpdate: (state, _time) => {
-          // Batched: store.set() accumulates updates, notifies once per frame via microtask
-          storeRef.current.set(tl.actorId, state);
-        },
-        onComplete: () => {
-          const allDone = controllersRef.current.every(
-            (c) => c.state === 'finished' || c.state === 'idle',
-          );
-          if (allDone) setPlaying(false);
-        },
-      });
+    const source = { scene: data.scene, timelines: resolved.timelines, triggers: resolved.triggers };
+
+    // Pointer- and page-driven triggers get their own controllers
+    const triggeredPlaybacks = createTriggeredPlaybacks(source, (actorId, state) => {
+      storeRef.current.set(actorId, state);
     });
-    controllersRef.current = controllers;
+    setTriggered(triggeredPlaybacks);
+
+    // One scene clock evaluates every remaining timeline per tick
+    playbackRef.current = createScenePlayback(
+      {
+        ...source,
+        timelines: sceneTimelines(resolved.timelines, triggeredPlaybacks),
+        composition: data.composition,
+      },
+      {
+        onUpdate: (states) => {
+          // Batched: one store update per frame, notifies via microtask
+          storeRef.current.setMany(states);
+        },
+        onComplete: () => setPlaying(false),
+      },
+    );
     setPlaying(false);
+
+    return () => triggeredPlaybacks.forEach((tp) => tp.controller.stop());
   }, [data, resolved]);
 
   // Variant names for enumeration
@@ -153,22 +165,22 @@ export function useMotionSvg(
   );
 
   const play = useCallback(() => {
-    controllersRef.current.forEach((c) => c.play());
+    playbackRef.current?.play();
     setPlaying(true);
   }, []);
 
   const pause = useCallback(() => {
-    controllersRef.current.forEach((c) => c.pause());
+    playbackRef.current?.pause();
     setPlaying(false);
   }, []);
 
   const stop = useCallback(() => {
-    controllersRef.current.forEach((c) => c.stop());
+    playbackRef.current?.stop();
     setPlaying(false);
   }, []);
 
-  const seek = useCallback((timeMs: number) => {
-    controllersRef.current.forEach((c) => c.seek(timeMs));
+  const seek = useCallback((time: number | string) => {
+    playbackRef.current?.seek(time);
   }, []);
 
   return {
@@ -177,7 +189,12 @@ export function useMotionSvg(
     timelines: resolved?.timelines ?? [],
     triggers: resolved?.triggers ?? [],
     actorStates,
-    controllers: controllersRef.current,
+    playback: playbackRef.current,
+    triggered,
+    controllers: [
+      ...(playbackRef.current ? [playbackRef.current] : []),
+      ...triggered.map((tp) => tp.controller),
+    ],
     store: storeRef.current,
     play,
     pause,
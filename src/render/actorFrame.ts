@@ -0,0 +1,111 @@
+import type {
+  Actor, ActorFilter, FillRule, StrokeAlign, StrokeLinecap, StrokeLinejoin, SvgPath, SvgText, SvgTextSpan,
+} from '../types';
+import type { ActorState } from '../timeline/interpolate';
+import { trimToDash } from '../timeline/trimPath';
+import { revealRuns } from '../text/textLayout';
+
+// ─── Actor frames ───────────────────────────────────────────────────────────
+//
+// What an actor looks like at one ActorState, before anything is drawn. The
+// React and Web Component renderers and the headless `renderFrame` all read
+// actors through these, so a channel means the same thing in every output.
+//
+
+/** Group-level values of an actor at a state */
+export interface ActorFrame {
+  /** Translate to the position, then rotate and scale around the origin */
+  transform: string;
+  opacity: number;
+  blurRadius: number;
+  backdropBlur: number;
+  filters: ActorFilter[];
+}
+
+/** One path of an actor at a state */
+export interface PathFrame {
+  d: string;
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+  strokeAlign: StrokeAlign;
+  strokeLinejoin?: StrokeLinejoin;
+  strokeLinecap?: StrokeLinecap;
+  strokeMiterlimit?: number;
+  fillRule?: FillRule;
+  /** Trim channels as a dash pattern sized to `d` */
+  dasharray?: string;
+  dashoffset?: number;
+  opacity?: number;
+  transform?: string;
+}
+
+/** One text element of an actor at a state */
+export interface TextFrame {
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+  fontSize?: number;
+  letterSpacing?: number;
+  /** Runs truncated by `textReveal` */
+  runs: SvgTextSpan[];
+}
+
+/** The group transform, opacity and effects of an actor; `state` undefined gives its rest pose. */
+export function actorFrame(actor: Actor, state?: ActorState): ActorFrame {
+  const pos = state?.position ?? actor.position;
+  const scale = state?.scale ?? actor.scale;
+  // Auto-rotating motion paths add the path tangent on top of the rotation channel
+  const rotation = (state?.rotation ?? actor.rotation) + (state?.motionRotation ?? 0);
+  const sx = typeof scale === 'number' ? scale : scale.x;
+  const sy = typeof scale === 'number' ? scale : scale.y;
+
+  const { x: ox, y: oy } = actor.origin;
+  const transform = [
+    `translate(${pos.x - ox}, ${pos.y - oy})`,
+    `translate(${ox}, ${oy})`,
+    `rotate(${rotation})`,
+    `scale(${sx}, ${sy})`,
+    `translate(${-ox}, ${-oy})`,
+  ].join(' ');
+
+  return {
+    transform,
+    opacity: state?.opacity ?? actor.opacity,
+    blurRadius: state?.blurRadius ?? actor.blurRadius ?? 0,
+    backdropBlur: state?.backdropBlur ?? actor.backdropBlur ?? 0,
+    filters: state?.filters ?? actor.filters ?? [],
+  };
+}
+
+/** Geometry and paint of a path at a state — static scene paths pass no state. */
+export function pathFrame(path: SvgPath, state?: ActorState): PathFrame {
+  const d = state?.pathD ?? path.d;
+  const dash = state ? trimToDash(d, state) : null;
+  return {
+    d,
+    fill: state?.fill ?? path.fill ?? 'currentColor',
+    stroke: state?.stroke ?? path.stroke,
+    strokeWidth: state?.strokeWidth ?? path.strokeWidth,
+    strokeAlign: state?.strokeAlign ?? path.strokeAlign ?? 'center',
+    strokeLinejoin: path.strokeLinejoin,
+    strokeLinecap: path.strokeLinecap,
+    strokeMiterlimit: path.strokeMiterlimit,
+    fillRule: path.fillRule,
+    ...(dash ? { dasharray: dash.dasharray, dashoffset: dash.dashoffset } : {}),
+    opacity: path.opacity,
+    transform: path.transform,
+  };
+}
+
+/** Paint, font channels and revealed runs of a text element at a state */
+export function textFrame(text: SvgText, state?: ActorState): TextFrame {
+  return {
+    fill: state?.fill ?? text.fill ?? 'currentColor',
+    stroke: state?.stroke ?? text.stroke,
+    strokeWidth: state?.strokeWidth ?? text.strokeWidth,
+    fontSize: state?.fontSize ?? text.fontSize,
+    letterSpacing: state?.letterSpacing ?? text.letterSpacing,
+    runs: revealRuns(text, state?.textReveal),
+  };
+}
@@ -0,0 +1,4 @@
+export { actorFrame, pathFrame, textFrame } from './actorFrame';
+export type { ActorFrame, PathFrame, TextFrame } from './actorFrame';
+export { renderFrame, getFrameStates } from './renderFrame';
+export type { FrameSource, RenderFrameOptions } from './renderFrame';
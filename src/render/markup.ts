@@ -0,0 +1,117 @@
+import type { GradientDef, SvgPath, SvgText } from '../types';
+import type { ActorState } from '../timeline/interpolate';
+import type { FilterPrimitive } from '../filter/filterStack';
+import { pathFrame, textFrame } from './actorFrame';
+
+// ─── SVG markup ─────────────────────────────────────────────────────────────
+//
+// String builders shared by the exporters that write SVG without a DOM.
+//
+
+/** Round to 3 decimals — enough for any viewBox, short in the output */
+export function num(n: number): string {
+  return (Math.round(n * 1000) / 1000).toString();
+}
+
+export function escapeAttr(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/** Attributes as ` name="value"` pairs, skipping undefined values and rounding numbers */
+export function attrs(values: Record<string, string | number | undefined>): string {
+  let out = '';
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    out += ` ${name}="${typeof value === 'number' ? num(value) : escapeAttr(value)}"`;
+  }
+  return out;
+}
+
+export function gradientMarkup(grad: GradientDef): string {
+  const stops = grad.stops.map((s) =>
+    `<stop offset="${s.offset}" stop-color="${escapeAttr(s.color)}"`
+    + (s.opacity !== undefined ? ` stop-opacity="${num(s.opacity)}"` : '') + '/>',
+  ).join('');
+  const units = grad.gradientUnits ? ` gradientUnits="${grad.gradientUnits}"` : '';
+  const transform = grad.gradientTransform ? ` gradientTransform="${escapeAttr(grad.gradientTransform)}"` : '';
+
+  if (grad.type === 'linear') {
+    return `<linearGradient id="${escapeAttr(grad.id)}" x1="${num(grad.x1)}" y1="${num(grad.y1)}" `
+      + `x2="${num(grad.x2)}" y2="${num(grad.y2)}"${units}${transform}>${stops}</linearGradient>`;
+  }
+  const focus = (grad.fx !== undefined ? ` fx="${num(grad.fx)}"` : '')
+    + (grad.fy !== undefined ? ` fy="${num(grad.fy)}"` : '');
+  return `<radialGradient id="${escapeAttr(grad.id)}" cx="${num(grad.cx)}" cy="${num(grad.cy)}" `
+    + `r="${num(grad.r)}"${focus}${units}${transform}>${stops}</radialGradient>`;
+}
+
+/**
+ * A path as drawn at `state`. Inside strokes are clipped to the path (the
+ * clip id is built from `key`), outside strokes paint under the fill.
+ */
+export function pathMarkup(p: SvgPath, state?: ActorState, key = p.id): string {
+  const f = pathFrame(p, state);
+  const dash = { 'stroke-dasharray': f.dasharray, 'stroke-dashoffset': f.dashoffset };
+  const line = {
+    'stroke-linejoin': f.strokeLinejoin,
+    'stroke-linecap': f.strokeLinecap,
+    'stroke-miterlimit': f.strokeMiterlimit,
+  };
+  const sw = f.strokeWidth;
+
+  if (f.strokeAlign === 'inside' && sw && sw > 0) {
+    const clipId = `clip-in-${key}`;
+    return `<g${attrs({ opacity: f.opacity, transform: f.transform })}>`
+      + `<defs><clipPath id="${escapeAttr(clipId)}"><path${attrs({ d: f.d })}/></clipPath></defs>`
+      + `<path${attrs({ d: f.d, fill: f.fill, 'fill-rule': f.fillRule, stroke: 'none' })}/>`
+      + `<path${attrs({ d: f.d, fill: 'none', stroke: f.stroke, 'stroke-width': sw * 2, ...line, 'clip-path': `url(#${clipId})`, ...dash })}/>`
+      + '</g>';
+  }
+
+  const outside = f.strokeAlign === 'outside' && sw && sw > 0;
+  return `<path${attrs({
+    d: f.d,
+    fill: f.fill,
+    'fill-rule': f.fillRule,
+    stroke: f.stroke,
+    'stroke-width': outside ? sw * 2 : sw,
+    ...line,
+    opacity: f.opacity,
+    transform: f.transform,
+    style: outside ? 'paint-order:stroke fill markers' : undefined,
+    ...dash,
+  })}/>`;
+}
+
+/** A `<text>` with one `<tspan>` per run; `state` supplies animated paint, font channels and reveal */
+export function textMarkup(t: SvgText, state?: ActorState): string {
+  const frame = textFrame(t, state);
+  let a = ` x="${num(t.x)}" y="${num(t.y)}" fill="${escapeAttr(frame.fill)}"`;
+  if (frame.stroke) a += ` stroke="${escapeAttr(frame.stroke)}"`;
+  if (frame.strokeWidth) a += ` stroke-width="${frame.strokeWidth}"`;
+  if (t.fontFamily) a += ` font-family="${escapeAttr(t.fontFamily)}"`;
+  if (frame.fontSize !== undefined) a += ` font-size="${num(frame.fontSize)}"`;
+  if (t.fontWeight) a += ` font-weight="${escapeAttr(t.fontWeight)}"`;
+  if (t.textAnchor) a += ` text-anchor="${t.textAnchor}"`;
+  if (frame.letterSpacing !== undefined) a += ` letter-spacing="${num(frame.letterSpacing)}"`;
+  if (t.opacity !== undefined) a += ` opacity="${t.opacity}"`;
+  if (t.transform) a += ` transform="${escapeAttr(t.transform)}"`;
+
+  const runs = frame.runs.map((r) => {
+    let span = '';
+    for (const key of ['x', 'y', 'dx', 'dy'] as const) {
+      if (r[key] !== undefined) span += ` ${key}="${num(r[key]!)}"`;
+    }
+    if (r.fill) span += ` fill="${escapeAttr(r.fill)}"`;
+    if (r.fontFamily) span += ` font-family="${escapeAttr(r.fontFamily)}"`;
+    if (r.fontSize !== undefined) span += ` font-size="${num(r.fontSize)}"`;
+    if (r.fontWeight) span += ` font-weight="${escapeAttr(r.fontWeight)}"`;
+    return `<tspan${span}>${escapeAttr(r.text)}</tspan>`;
+  }).join('');
+  return `<text${a} style="white-space:pre">${runs}</text>`;
+}
+
+export function filterPrimitiveMarkup(p: FilterPrimitive): string {
+  const children = p.children?.map(filterPrimitiveMarkup).join('') ?? '';
+  return children ? `<${p.tag}${attrs(p.attrs)}>${children}</${p.tag}>` : `<${p.tag}${attrs(p.attrs)}/>`;
+}
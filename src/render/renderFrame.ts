@@ -0,0 +1,221 @@
+import type { Actor, Timeline } from '../types';
+import { getVariant, type ImportedBundle } from '../bundle/importBundle';
+import { getActorStateAtTime, type ActorState } from '../timeline/interpolate';
+import { isDrivenTrigger } from '../trigger/drivers';
+import { getSceneStates, loopedTime, loopSpan, resolveSceneLoops, type SceneLoops } from '../trigger/scenePlayback';
+import type { LoopSettings } from '../trigger/playback';
+import { getClipSourceIds, getClipShapes } from '../actor/clip';
+import { filterPrimitives, FILTER_REGION } from '../filter/filterStack';
+import { actorFrame } from './actorFrame';
+import { attrs, escapeAttr, filterPrimitiveMarkup, gradientMarkup, num, pathMarkup, textMarkup } from './markup';
+
+// ─── Headless frames ────────────────────────────────────────────────────────
+//
+// One frame of a scene as a static SVG string — poster frames, email
+// fallbacks and server-rendered markup, without a DOM. The markup matches
+// what MotionSvgPlayer draws at the same time.
+//
+
+/** The parts of an imported bundle a frame is rendered from */
+export type FrameSource = Pick<ImportedBundle, 'scene' | 'actors' | 'timelines' | 'triggers' | 'variants' | 'composition'>;
+
+export interface RenderFrameOptions {
+  /** Named variant to render — filters actors, timelines and triggers */
+  variant?: string;
+  /** Background color, drawn behind the scene */
+  background?: string;
+}
+
+/** What a scene clock is built from */
+type SceneSource = Pick<FrameSource, 'scene' | 'timelines' | 'triggers' | 'composition'>;
+
+/** The timelines that play on load, placed and looped as `createScenePlayback` does */
+interface SceneRun {
+  timelines: Timeline[];
+  offsetOf: (timelineId: string) => number;
+  loops: SceneLoops;
+  /** One pass of the shared clock (ms) */
+  cycle: number;
+}
+
+function sceneRun(source: SceneSource, driven: Set<string>): SceneRun {
+  const offsets = source.composition?.offsets ?? {};
+  const offsetOf = (id: string) => offsets[id] ?? 0;
+  const timelines = source.timelines.filter((tl) => !driven.has(tl.id));
+  const cycle = Math.max(
+    0,
+    ...timelines.map((tl) => offsetOf(tl.id) + tl.duration),
+    ...(source.composition?.markers ?? []).map((m) => m.at),
+  );
+  return { timelines, offsetOf, loops: resolveSceneLoops(timelines, source.triggers, offsetOf), cycle };
+}
+
+function drivenTimelines(source: SceneSource): Set<string> {
+  return new Set(source.triggers.filter(isDrivenTrigger).map((t) => t.timelineId));
+}
+
+/**
+ * Every actor's state at `timeMs` on the scene clock, keyed by actor ID.
+ *
+ * Timelines are evaluated like `createScenePlayback` playing from the
+ * start, at the offsets of the source's composition if it has one and
+ * repeating as their `loop` triggers say. Timelines bound to hover, click,
+ * scroll or appear triggers haven't been triggered yet and stay at 0.
+ */
+export function getFrameStates(source: SceneSource, timeMs: number): Record<string, ActorState> {
+  const gradients = source.scene.gradients;
+  const driven = drivenTimelines(source);
+  const { timelines, offsetOf, loops, cycle } = sceneRun(source, driven);
+  const states = loops.clock
+    ? getSceneStates(timelines, loopedTime(cycle, loops.clock, timeMs), offsetOf, gradients)
+    : getSceneStates(timelines, timeMs, offsetOf, gradients, (id) => loops.timelines.get(id));
+  for (const tl of source.timelines) {
+    if (driven.has(tl.id) && !states[tl.actorId]) {
+      states[tl.actorId] = getActorStateAtTime(tl, 0, { gradients });
+    }
+  }
+  return states;
+}
+
+/**
+ * How long the scene plays on load (ms): until the last pass of its loops
+ * ends. Endless loops count their first pass and its delay.
+ */
+export function getSceneLength(source: SceneSource): number {
+  const { timelines, offsetOf, loops, cycle } = sceneRun(source, drivenTimelines(source));
+  const length = (duration: number, loop: LoopSettings | undefined) => {
+    const span = loopSpan(duration, loop);
+    return span === Infinity ? duration + loop!.delay : span;
+  };
+  if (loops.clock) return length(cycle, loops.clock);
+  return Math.max(0, ...timelines.map((tl) => offsetOf(tl.id) + length(tl.duration, loops.timelines.get(tl.id))));
+}
+
+/**
+ * Render the scene at `timeMs` to a complete, static SVG string.
+ *
+ * Every timeline is evaluated with `getActorStateAtTime` (see
+ * `getFrameStates`) and drawn with the same transform, opacity, paint,
+ * gradient, morph, trim, text, blur, filter, clip and mask handling as the
+ * React and Web Component renderers.
+ *
+ * @example
+ * ```ts
+ * const poster = renderFrame(importBundle(json), 1200, { variant: 'dark' });
+ * ```
+ */
+export function renderFrame(source: FrameSource, timeMs: number, options?: RenderFrameOptions): string {
+  let { actors, timelines, triggers } = source;
+  if (options?.variant) {
+    const v = getVariant(source, options.variant);
+    if (!v) throw new Error(`motion-svg: Unknown variant "${options.variant}".`);
+    ({ actors, timelines, triggers } = v);
+  }
+  const { scene } = source;
+  const states = getFrameStates({ scene, timelines, triggers, composition: source.composition }, timeMs);
+
+  const vb = scene.viewBox;
+  let out = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vb.x} ${vb.y} ${vb.w} ${vb.h}"`;
+  if (scene.metadata?.width) out += ` width="${scene.metadata.width}"`;
+  if (scene.metadata?.height) out += ` height="${scene.metadata.height}"`;
+  out += '>';
+
+  if (options?.background) {
+    out += `<rect${attrs({ x: vb.x, y: vb.y, width: vb.w, height: vb.h, fill: options.background })}/>`;
+  }
+  if (scene.gradients?.length) {
+    out += `<defs>${scene.gradients.map(gradientMarkup).join('')}</defs>`;
+  }
+
+  // Static paths and text (not part of any actor)
+  const actorPathIds = new Set(actors.flatMap((a) => a.pathIds));
+  for (const p of scene.paths) {
+    if (!actorPathIds.has(p.id)) out += pathMarkup(p);
+  }
+  const actorTextIds = new Set(actors.flatMap((a) => a.textIds ?? []));
+  for (const t of scene.texts ?? []) {
+    if (!actorTextIds.has(t.id)) out += textMarkup(t);
+  }
+
+  // Clip and mask sources are drawn only inside the defs of the actors they clip
+  const clipSources = getClipSourceIds(actors);
+  const byId = (id: string | undefined) => (id ? actors.find((a) => a.id === id) : undefined);
+  for (const actor of actors) {
+    if (clipSources.has(actor.id)) continue;
+    const group = actorMarkup(actor, states[actor.id]);
+    const clipActor = byId(actor.clipPath);
+    const maskActor = byId(actor.mask);
+    out += clipActor || maskActor
+      ? clippedMarkup(actor, group, clipActor, maskActor, states)
+      : group;
+  }
+
+  return `${out}</svg>`;
+}
+
+function actorMarkup(actor: Actor, state: ActorState | undefined): string {
+  const frame = actorFrame(actor, state);
+  const effects = filterPrimitives(frame.filters);
+  const id = escapeAttr(actor.id);
+
+  let defs = '';
+  if (state?.fillGradient) defs += gradientMarkup(state.fillGradient);
+  if (state?.strokeGradient) defs += gradientMarkup(state.strokeGradient);
+  if (frame.blurRadius > 0) {
+    defs += `<filter id="blur-${id}"${attrs(FILTER_REGION)}>`
+      + `<feGaussianBlur stdDeviation="${num(frame.blurRadius)}"/></filter>`;
+  }
+  if (effects.length > 0) {
+    defs += `<filter id="fx-${id}"${attrs(FILTER_REGION)}>${effects.map(filterPrimitiveMarkup).join('')}</filter>`;
+  }
+
+  let content = '';
+  for (const p of actor.paths) content += pathMarkup(p, state, `${actor.id}-${p.id}`);
+  for (const t of actor.texts ?? []) content += textMarkup(t, state);
+  if (frame.blurRadius > 0) content = `<g filter="url(#blur-${id})">${content}</g>`;
+  if (effects.length > 0) content = `<g filter="url(#fx-${id})">${content}</g>`;
+
+  let out = `<g data-actor-id="${id}"${attrs({ transform: frame.transform, opacity: frame.opacity })}>`;
+  if (defs) out += `<defs>${defs}</defs>`;
+  if (frame.backdropBlur > 0) {
+    const blur = `blur(${num(frame.backdropBlur)}px)`;
+    out += `<g style="backdrop-filter:${blur};-webkit-backdrop-filter:${blur}">`
+      + '<rect x="-9999" y="-9999" width="99999" height="99999" fill="transparent"/></g>';
+  }
+  return `${out}${content}</g>`;
+}
+
+/** Wrap an actor group in a viewBox-space group carrying its clip path and mask */
+function clippedMarkup(
+  actor: Actor,
+  group: string,
+  clipActor: Actor | undefined,
+  maskActor: Actor | undefined,
+  states: Record<string, ActorState>,
+): string {
+  const id = escapeAttr(actor.id);
+  let defs = '';
+  if (clipActor) {
+    const shapes = getClipShapes(clipActor, states[clipActor.id]);
+    defs += `<clipPath id="clip-${id}">${shapes.map((s) => `<path${attrs({ d: s.d, transform: s.transform })}/>`).join('')}</clipPath>`;
+  }
+  if (maskActor) {
+    const shapes = getClipShapes(maskActor, states[maskActor.id]);
+    defs += `<mask id="mask-${id}" maskUnits="userSpaceOnUse" x="-9999" y="-9999" width="99999" height="99999"`
+      + ` style="mask-type:${actor.maskType ?? 'luminance'}">`
+      + shapes.map((s) => `<path${attrs({
+        d: s.d,
+        transform: s.transform,
+        fill: s.fill ?? 'black',
+        stroke: s.stroke,
+        'stroke-width': s.strokeWidth,
+        opacity: s.opacity,
+      })}/>`).join('')
+      + '</mask>';
+  }
+  const wrapper = attrs({
+    'clip-path': clipActor ? `url(#clip-${actor.id})` : undefined,
+    mask: maskActor ? `url(#mask-${actor.id})` : undefined,
+  });
+  return `<g${wrapper}><defs>${defs}</defs>${group}</g>`;
+}
@@ -0,0 +1,3 @@
+export { textRuns, revealRuns, estimateTextBounds, estimateTextWidth } from './textLayout';
+export { splitText } from './splitText';
+export type { SplitTextBy, SplitTextOptions, SplitTextResult } from './splitText';
@@ -0,0 +1,191 @@
+import type { Actor, ActorOrigin, Scene, SvgText, SvgTextSpan } from '../types';
+import { createActor } from '../actor/createActor';
+import { textRuns, estimateTextWidth } from './textLayout';
+
+// ── Split Configuration ──
+
+export type SplitTextBy = 'char' | 'word' | 'line';
+
+export interface SplitTextOptions {
+  /** Fragment size */
+  by: SplitTextBy;
+  /** Id of the group actor (defaults to the text id) */
+  id?: string;
+  /** Origin of each fragment actor (default: `'center'`) */
+  origin?: ActorOrigin;
+  /** Z-order of the group and its fragments */
+  z?: number;
+}
+
+export interface SplitTextResult {
+  /** The scene with the text replaced by its fragments */
+  scene: Scene;
+  /** Group actor holding no content — its `childIds` are the fragments */
+  group: Actor;
+  /** One actor per fragment, in reading order */
+  actors: Actor[];
+}
+
+/** A character with its style and estimated position */
+interface Glyph {
+  char: string;
+  style: Omit<SvgTextSpan, 'text' | 'x' | 'y' | 'dx' | 'dy'>;
+  x: number;
+  y: number;
+  line: number;
+}
+
+// ── Split ──
+
+/**
+ * Split a text element into per-character, per-word or per-line actors.
+ *
+ * Fragments are positioned with the estimated metrics of `textLayout`, so
+ * together they draw where the text did. A `<tspan>` with its own `x` or `y`
+ * starts a new line. Each fragment becomes a text in the returned scene and
+ * an actor whose `parentId` is the group; combine them with `stagger()`:
+ *
+ * ```ts
+ * const { scene: split, actors } = splitText(scene, 'title', { by: 'char' });
+ * const timelines = stagger({
+ *   actors,
+ *   keyframes: [
+ *     { at: 0, opacity: 0, position: { x: 0, y: 20 } },
+ *     { at: 400, opacity: 1, position: { x: 0, y: 0 }, curve: 'easeOutBack' },
+ *   ],
+ *   stagger: 40,
+ *   from: 'center',
+ *   relative: true,
+ * });
+ * ```
+ */
+export function splitText(scene: Scene, textId: string, options: SplitTextOptions): SplitTextResult {
+  const text = scene.texts?.find((t) => t.id === textId);
+  if (!text) {
+    throw new Error(`motion-svg: Unknown text "${textId}".`);
+  }
+  if (options.by !== 'char' && options.by !== 'word' && options.by !== 'line') {
+    throw new Error(`motion-svg: Unknown text split "${String(options.by)}".`);
+  }
+
+  const fragments = groupGlyphs(layoutGlyphs(text), options.by).map((glyphs, i) => fragmentText(text, glyphs, i));
+  if (fragments.length === 0) {
+    throw new Error(`motion-svg: Text "${textId}" has no characters to split.`);
+  }
+
+  const groupId = options.id ?? textId;
+  const actors = fragments.map((t) => {
+    const actor = createActor({ id: t.id, paths: [], texts: [t], origin: options.origin ?? 'center', z: options.z });
+    actor.parentId = groupId;
+    return actor;
+  });
+
+  // The group only scopes its fragments — resolve its origin from all of them
+  const group = createActor({ id: groupId, paths: [], texts: fragments, origin: 'center', z: options.z });
+  delete group.textIds;
+  delete group.texts;
+  group.childIds = actors.map((a) => a.id);
+
+  const texts = (scene.texts ?? []).flatMap((t) => (t.id === textId ? fragments : [t]));
+  return { scene: { ...scene, texts }, group, actors };
+}
+
+// ── Layout ──
+
+/** Place every character, honouring run positions and the text anchor of each line */
+function layoutGlyphs(text: SvgText): Glyph[] {
+  const glyphs: Glyph[] = [];
+  const spacing = text.letterSpacing ?? 0;
+  let x = text.x;
+  let y = text.y;
+  let line = 0;
+  let lineStart = 0;
+
+  const endLine = () => {
+    const anchor = text.textAnchor ?? 'start';
+    const lineGlyphs = glyphs.slice(lineStart);
+    if (anchor !== 'start' && lineGlyphs.length > 0) {
+      const last = lineGlyphs[lineGlyphs.length - 1];
+      const width = last.x + estimateTextWidth(last.char, last.style.fontSize ?? text.fontSize) - lineGlyphs[0].x;
+      const shift = anchor === 'middle' ? width / 2 : width;
+      for (const g of lineGlyphs) g.x -= shift;
+    }
+    lineStart = glyphs.length;
+  };
+
+  for (const run of textRuns(text)) {
+    if (run.x !== undefined || run.y !== undefined) {
+      endLine();
+      if (glyphs.length > 0) line++;
+      x = run.x ?? x;
+      y = run.y ?? y;
+    }
+    x += run.dx ?? 0;
+    y += run.dy ?? 0;
+
+    const { text: content, x: _x, y: _y, dx: _dx, dy: _dy, ...style } = run;
+    const size = style.fontSize ?? text.fontSize;
+    for (const char of Array.from(content)) {
+      glyphs.push({ char, style, x, y, line });
+      x += estimateTextWidth(char, size) + spacing;
+    }
+  }
+  endLine();
+  return glyphs;
+}
+
+/** Group characters into fragments; whitespace only separates them */
+function groupGlyphs(glyphs: Glyph[], by: SplitTextBy): Glyph[][] {
+  const groups: Glyph[][] = [];
+  let current: Glyph[] = [];
+  const flush = () => {
+    if (current.length > 0) groups.push(current);
+    current = [];
+  };
+
+  for (const g of glyphs) {
+    const space = /\s/.test(g.char);
+    if (current.length > 0 && g.line !== current[0].line) flush();
+    if (by === 'char') {
+      if (!space) groups.push([g]);
+    } else if (space && by === 'word') {
+      flush();
+    } else if (!space || current.length > 0) {
+      current.push(g);
+    }
+  }
+  flush();
+
+  // Lines keep inner spaces but not trailing ones
+  return groups.map((group) => {
+    let end = group.length;
+    while (end > 0 && /\s/.test(group[end - 1].char)) end--;
+    return group.slice(0, end);
+  });
+}
+
+/** A standalone start-anchored text for one fragment, keeping run styles as spans */
+function fragmentText(text: SvgText, glyphs: Glyph[], index: number): SvgText {
+  const spans: SvgTextSpan[] = [];
+  for (const g of glyphs) {
+    const last = spans[spans.length - 1];
+    if (last && sameStyle(last, g.style)) last.text += g.char;
+    else spans.push({ text: g.char, ...g.style });
+  }
+  const plain = spans.length === 1 && Object.keys(spans[0]).length === 1;
+
+  return {
+    ...text,
+    id: `${text.id}/${index}`,
+    content: glyphs.map((g) => g.char).join(''),
+    x: glyphs[0].x,
+    y: glyphs[0].y,
+    textAnchor: undefined,
+    spans: plain ? undefined : spans,
+  };
+}
+
+function sameStyle(span: SvgTextSpan, style: Glyph['style']): boolean {
+  return span.fill === style.fill && span.fontFamily === style.fontFamily
+    && span.fontSize === style.fontSize && span.fontWeight === style.fontWeight;
+}
@@ -0,0 +1,62 @@
+import type { SvgText, SvgTextSpan, Bounds } from '../types';
+
+// ─── Text runs and metrics ──────────────────────────────────────────────────
+//
+// Font files are not available to the engine, so metrics are estimates from
+// the font size: good enough for origins and hit boxes, not for layout.
+//
+
+/** Average advance of a character, as a fraction of the font size */
+const AVERAGE_ADVANCE = 0.55;
+/** Ascent above and descent below the baseline, as fractions of the font size */
+const ASCENT = 0.8;
+const DESCENT = 0.2;
+const DEFAULT_FONT_SIZE = 16;
+
+/** The runs of a text element — its spans, or one run holding the whole content. */
+export function textRuns(text: SvgText): SvgTextSpan[] {
+  return text.spans?.length ? text.spans : [{ text: text.content }];
+}
+
+/**
+ * Runs truncated to the first `reveal` fraction of the characters
+ * (typewriter style). Runs are kept even when empty, so a renderer can update
+ * their content in place. `reveal` undefined shows everything.
+ */
+export function revealRuns(text: SvgText, reveal?: number): SvgTextSpan[] {
+  const runs = textRuns(text);
+  if (reveal === undefined || reveal >= 1) return runs;
+
+  const total = runs.reduce((n, r) => n + Array.from(r.text).length, 0);
+  let remaining = Math.floor(Math.max(0, reveal) * total + 1e-9);
+  return runs.map((r) => {
+    const chars = Array.from(r.text);
+    const shown = chars.slice(0, remaining).join('');
+    remaining = Math.max(0, remaining - chars.length);
+    return { ...r, text: shown };
+  });
+}
+
+/** Estimated advance width of a string, spacing included between characters */
+export function estimateTextWidth(content: string, fontSize = DEFAULT_FONT_SIZE, letterSpacing = 0): number {
+  const chars = Array.from(content).length;
+  return Math.max(0, chars * fontSize * AVERAGE_ADVANCE + Math.max(0, chars - 1) * letterSpacing);
+}
+
+/**
+ * Estimated bounding box of a text element, from its font size, letter
+ * spacing and anchor. `fontSize` and `letterSpacing` override the element's
+ * own values (e.g. with interpolated channels). Run positions are ignored.
+ */
+export function estimateTextBounds(
+  text: SvgText,
+  overrides?: { fontSize?: number; letterSpacing?: number },
+): Bounds {
+  const size = overrides?.fontSize ?? text.fontSize ?? DEFAULT_FONT_SIZE;
+  const spacing = overrides?.letterSpacing ?? text.letterSpacing ?? 0;
+  const w = estimateTextWidth(text.content, size, spacing);
+
+  const anchor = text.textAnchor ?? 'start';
+  const x = anchor === 'middle' ? text.x - w / 2 : anchor === 'end' ? text.x - w : text.x;
+  return { x, y: text.y - size * ASCENT, w, h: size * (ASCENT + DESCENT) };
+}
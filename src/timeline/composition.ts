@@ -0,0 +1,159 @@
+import type {
+  Composition,
+  CompositionConfig,
+  CompositionPosition,
+  Timeline,
+  TimelineMarker,
+} from '../types';
+
+// ─── Composition ────────────────────────────────────────────────────────────
+//
+// `sequence` chains keyframes of one actor. A composition places whole
+// timelines of any actors — and other compositions — on a shared clock,
+// GSAP-style: after the previous item, overlapping it, or relative to a
+// label. Nothing is merged; a scene clock plays the timelines at their
+// offsets (see `createScenePlayback`).
+//
+
+let compositionCounter = 0;
+
+/** A parsed position: an anchor plus a shift in ms */
+export interface ParsedPosition {
+  anchor: 'absolute' | 'previousStart' | 'previousEnd' | 'label';
+  label?: string;
+  shift: number;
+}
+
+const RELATIVE = /^([+-])=(\d*\.?\d+)$/;
+const PREVIOUS = /^([<>])(?:([+-])=(\d*\.?\d+))?$/;
+const LABEL = /^(.+?)(?:([+-])=(\d*\.?\d+))?$/;
+
+/**
+ * Parse a composition position (see `CompositionPosition`).
+ * Returns `null` when it isn't one.
+ */
+export function parsePosition(at: CompositionPosition | undefined): ParsedPosition | null {
+  if (at === undefined) return { anchor: 'previousEnd', shift: 0 };
+  if (typeof at === 'number') return Number.isFinite(at) ? { anchor: 'absolute', shift: at } : null;
+  if (typeof at !== 'string') return null;
+  const signed = (sign: string | undefined, n: string | undefined) => (n ? (sign === '-' ? -1 : 1) * Number(n) : 0);
+
+  let m = RELATIVE.exec(at);
+  if (m) return { anchor: 'previousEnd', shift: signed(m[1], m[2]) };
+  m = PREVIOUS.exec(at);
+  if (m) return { anchor: m[1] === '<' ? 'previousStart' : 'previousEnd', shift: signed(m[2], m[3]) };
+  m = LABEL.exec(at.trim());
+  if (m && !/^[<>]/.test(m[1])) return { anchor: 'label', label: m[1], shift: signed(m[2], m[3]) };
+  return null;
+}
+
+/**
+ * Place timelines of different actors, and nested compositions, on one
+ * clock.
+ *
+ * Each item starts at the end of the previous one unless `at` says
+ * otherwise — an absolute time, a gap or overlap (`'+=100'`, `'-=200'`),
+ * the previous item's start (`'<'`) or a label placed earlier
+ * (`'intro+=100'`). Starts before 0 are clamped to 0.
+ *
+ * Labels name the start of an item, or a point of their own when the item
+ * has no timeline. Labels of nested compositions move with them and can be
+ * used by later items; the composition's own labels take precedence over
+ * nested ones, and among nested ones the first wins. A timeline may appear
+ * only once in a composition.
+ *
+ * ```ts
+ * const intro = composition({
+ *   items: [
+ *     { timeline: logoDraw, label: 'logo' },
+ *     { timeline: titleFade, at: '-=200' },  // overlaps the logo by 200ms
+ *     { timeline: buttonPop, at: 'logo+=600' },
+ *   ],
+ * });
+ * // intro.timelines, intro.offsets, intro.markers, intro.duration
+ * ```
+ */
+export function composition(config: CompositionConfig): Composition {
+  compositionCounter++;
+
+  const timelines: Timeline[] = [];
+  const offsets: Record<string, number> = {};
+  const labels = new Map<string, number>();
+  const ownLabels = new Set<string>();
+  let previous = { start: 0, end: 0 };
+  let duration = 0;
+
+  const place = (tl: Timeline, start: number) => {
+    if (tl.id in offsets) {
+      throw new Error(`motion-svg: timeline "${tl.id}" appears twice in the composition.`);
+    }
+    timelines.push(tl);
+    offsets[tl.id] = start;
+  };
+
+  config.items.forEach((item, i) => {
+    if (item.timeline && item.composition) {
+      throw new Error(`motion-svg: composition item ${i} has both a timeline and a composition.`);
+    }
+    if (!item.timeline && !item.composition && !item.label) {
+      throw new Error(`motion-svg: composition item ${i} needs a timeline, a composition or a label.`);
+    }
+
+    const pos = parsePosition(item.at);
+    if (!pos) {
+      throw new Error(`motion-svg: composition item ${i} has an invalid position "${String(item.at)}".`);
+    }
+    let anchor = 0;
+    if (pos.anchor === 'previousStart') anchor = previous.start;
+    else if (pos.anchor === 'previousEnd') anchor = previous.end;
+    else if (pos.anchor === 'label') {
+      const at = labels.get(pos.label!);
+      if (at === undefined) {
+        throw new Error(`motion-svg: composition item ${i} is placed relative to unknown label "${pos.label}".`);
+      }
+      anchor = at;
+    }
+    const start = Math.max(0, anchor + pos.shift);
+
+    if (item.label) {
+      if (ownLabels.has(item.label)) {
+        throw new Error(`motion-svg: composition has two labels "${item.label}".`);
+      }
+      labels.set(item.label, start);
+      ownLabels.add(item.label);
+    }
+
+    let length = 0;
+    if (item.timeline) {
+      place(item.timeline, start);
+      length = item.timeline.duration;
+    } else if (item.composition) {
+      const nested = item.composition;
+      for (const tl of nested.timelines) place(tl, start + (nested.offsets[tl.id] ?? 0));
+      for (const m of nested.markers) {
+        if (!labels.has(m.label)) labels.set(m.label, start + m.at);
+      }
+      length = nested.duration;
+    } else {
+      // A bare label is a point, not an item to follow
+      duration = Math.max(duration, start);
+      return;
+    }
+
+    previous = { start, end: start + length };
+    duration = Math.max(duration, previous.end);
+  });
+
+  const markers: TimelineMarker[] = [...labels]
+    .map(([label, at]) => ({ label, at }))
+    .sort((a, b) => a.at - b.at);
+
+  return {
+    id: `comp-${compositionCounter}`,
+    items: config.items.map((item) => ({ ...item })),
+    timelines,
+    offsets,
+    markers,
+    duration,
+  };
+}
@@ -1,4 +1,7 @@
 export { timeline } from './timeline';
-export { interpolateKeyframes, getActorStateAtTime, lerpGradientDef } from './interpolate';
+export { interpolateKeyframes, getActorStateAtTime, lerpGradientDef, lerpFilters } from './interpolate';
 export { sequence, stagger, parallelDuration } from './sequence';
-export { lerpPath, parsePathD, normalizeToCubic, balanceCommands } from './pathMorph';
+export { composition } from './composition';
+export { lerpPath, parsePathD, normalizeToCubic, balanceCommands, balancePaths } from './pathMorph';
+export { createPathSampler, getPathLength } from './motionPath';
+export { trimToDash } from './trimPath';
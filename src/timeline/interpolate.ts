@@ -1,7 +1,9 @@
-import type { Keyframe, Point, Timeline, GradientDef, GradientStop, LinearGradientDef, RadialGradientDef, StrokeAlign } from '../types';
+import type { Keyframe, Point, Timeline, GradientDef, GradientStop, LinearGradientDef, RadialGradientDef, StrokeAlign, ActorFilter, ColorSpace, GradientKeyframe } from '../types';
+import { lerpColor } from '../color/color';
 import { getEasingFunction } from '../easing/curves';
 import { plugins } from '../core/PluginSystem';
 import { lerpPath } from './pathMorph';
+import { cachedPathSampler } from './motionPath';
 
 // ─── Actor State ─────────────────────────────────────────────────────────────
 
@@ -18,16 +20,28 @@ export interface ActorState {
   blurRadius?: number;
   /** Backdrop/background blur radius (px) — 0 = no blur */
   backdropBlur?: number;
+  /** Interpolated filter stack */
+  filters?: ActorFilter[];
   /** Shape width in SVG units (shape actors only) */
   width?: number;
   /** Shape height in SVG units (shape actors only) */
   height?: number;
-  /** Resolved gradient for fill (when interpolating between gradients) */
+  /** Resolved gradient for fill (when interpolating between gradients or animating one) */
   fillGradient?: GradientDef;
-  /** Resolved gradient for stroke (when interpolating between gradients) */
+  /** Resolved gradient for stroke (when interpolating between gradients or animating one) */
   strokeGradient?: GradientDef;
   /** Interpolated SVG path `d` attribute (for path morphing) */
   pathD?: string;
+  /** Visible stroke range and shift, as fractions of the path length */
+  trimStart?: number;
+  trimEnd?: number;
+  trimOffset?: number;
+  /** Tangent angle (degrees) from an auto-rotating motion path — renderers add it to `rotation` */
+  motionRotation?: number;
+  /** Text channels (actors with text only) */
+  fontSize?: number;
+  letterSpacing?: number;
+  textReveal?: number;
 }
 
 // ─── Options ─────────────────────────────────────────────────────────────────
@@ -64,11 +78,18 @@ export function interpolateKeyframes(keyframes: Keyframe[], timeMs: number, opts
   // for position, stroke, scale, etc. — each animation channel runs
   // concurrently without interfering with other channels.
 
-  const fillResult  = _interpColor(kfs, timeMs, (kf) => kf.fill, gradients);
-  const strokeResult = _interpColor(kfs, timeMs, (kf) => kf.stroke, gradients);
+  const fillResult = _interpGradient(
+    kfs, timeMs, (kf) => kf.fillGradient, _interpColor(kfs, timeMs, (kf) => kf.fill, gradients), gradients,
+    `${opts?.actorId ?? 'actor'}-fill`,
+  );
+  const strokeResult = _interpGradient(
+    kfs, timeMs, (kf) => kf.strokeGradient, _interpColor(kfs, timeMs, (kf) => kf.stroke, gradients), gradients,
+    `${opts?.actorId ?? 'actor'}-stroke`,
+  );
+  const motion = _interpPosition(kfs, timeMs);
 
   let state: ActorState = {
-    position:       _interpPoint(kfs, timeMs, (kf) => kf.position, { x: 0, y: 0 }),
+    position:       motion.position,
     scale:          _interpScale(kfs, timeMs),
     rotation:       _interpNum(kfs, timeMs, (kf) => kf.rotation, 0),
     opacity:        _interpNum(kfs, timeMs, (kf) => kf.opacity, 1),
@@ -78,12 +99,20 @@ export function interpolateKeyframes(keyframes: Keyframe[], timeMs: number, opts
     strokeAlign:    _interpSnap(kfs, timeMs, (kf) => kf.strokeAlign) as StrokeAlign | undefined,
     blurRadius:     _interpOptNum(kfs, timeMs, (kf) => kf.blurRadius),
     backdropBlur:   _interpOptNum(kfs, timeMs, (kf) => kf.backdropBlur),
+    filters:        _interpFilters(kfs, timeMs),
     width:          _interpOptNum(kfs, timeMs, (kf) => kf.width),
     height:         _interpOptNum(kfs, timeMs, (kf) => kf.height),
     fillGradient:   fillResult.gradient,
     strokeGradient: strokeResult.gradient,
     pathD:          _interpPath(kfs, timeMs),
+    trimStart:      _interpOptNum(kfs, timeMs, (kf) => kf.trimStart),
+    trimEnd:        _interpOptNum(kfs, timeMs, (kf) => kf.trimEnd),
+    trimOffset:     _interpOptNum(kfs, timeMs, (kf) => kf.trimOffset),
+    fontSize:       _interpOptNum(kfs, timeMs, (kf) => kf.fontSize),
+    letterSpacing:  _interpOptNum(kfs, timeMs, (kf) => kf.letterSpacing),
+    textReveal:     _interpOptNum(kfs, timeMs, (kf) => kf.textReveal),
   };
+  if (motion.rotation !== undefined) state.motionRotation = motion.rotation;
 
   // Plugin hook: afterInterpolate
   if (plugins.has('afterInterpolate')) {
@@ -153,16 +182,31 @@ function _interpOptNum(
   return lerp(pv, get(n!)!, _easedT(p, n, t));
 }
 
-/** Interpolate a Point property (position). */
-function _interpPoint(
-  kfs: Keyframe[], t: number, get: (kf: Keyframe) => Point | undefined, def: Point,
-): Point {
-  const [p, n] = _findBracket(kfs, t, (kf) => get(kf) !== undefined);
-  if (!p && !n) return def;
-  if (!p) return get(n!) ?? def;
-  const pv = get(p)!;
-  if (!n) return pv;
-  return lerpPoint(pv, get(n!)!, _easedT(p, n, t));
+/**
+ * Interpolate position. A keyframe with a `motionPath` is reached along its
+ * path rather than in a straight line from the previous position.
+ */
+function _interpPosition(kfs: Keyframe[], t: number): { position: Point; rotation?: number } {
+  const [p, n] = _findBracket(kfs, t, (kf) => kf.position !== undefined || kf.motionPath !== undefined);
+  if (!p && !n) return { position: { x: 0, y: 0 } };
+
+  // Settled on a keyframe (or before the first one): its end point
+  if (!p || !n) return _motionAt((p ?? n)!, 1);
+
+  const eased = _easedT(p, n, t);
+  if (n.motionPath) return _motionAt(n, eased);
+  return { position: lerpPoint(_motionAt(p, 1).position, n.position!, eased) };
+}
+
+/** Position of a keyframe, `progress` of the way along its motion path if it has one. */
+function _motionAt(kf: Keyframe, progress: number): { position: Point; rotation?: number } {
+  const mp = kf.motionPath;
+  if (!mp) return { position: kf.position! };
+  const sample = cachedPathSampler(mp.d).at(lerp(mp.start ?? 0, mp.end ?? 1, progress));
+  return {
+    position: { x: sample.x, y: sample.y },
+    rotation: mp.autoRotate ? sample.angle + (mp.rotateOffset ?? 0) : undefined,
+  };
 }
 
 /** Interpolate scale (number | Point). */
@@ -184,7 +228,80 @@ function _interpColor(
   if (!p) return resolveResult(get(n!)!, gradients);
   const pv = get(p)!;
   if (!n) return resolveResult(pv, gradients);
-  return lerpColorOrGradient(pv, get(n!)!, _easedT(p, n, t), gradients);
+  return lerpColorOrGradient(pv, get(n!)!, _easedT(p, n, t), gradients, n!.colorSpace);
+}
+
+/** Interpolate an optional color, blending in the target keyframe's color space. */
+function _interpOptColor(
+  kfs: Keyframe[], t: number, get: (kf: Keyframe) => string | undefined,
+): string | undefined {
+  const [p, n] = _findBracket(kfs, t, (kf) => get(kf) !== undefined);
+  if (!p && !n) return undefined;
+  if (!p) return get(n!);
+  const pv = get(p)!;
+  if (!n) return pv;
+  return lerpColor(pv, get(n!)!, _easedT(p, n, t), n.colorSpace);
+}
+
+/**
+ * Apply gradient channels (`fillGradient` / `strokeGradient`) on top of the
+ * paint result. The animated gradient is the blended one, the `ref`, or the
+ * gradient the paint references; it gets a stable id per actor and paint.
+ */
+function _interpGradient(
+  kfs: Keyframe[], t: number, get: (kf: Keyframe) => GradientKeyframe | undefined,
+  paint: ColorResult, gradients: GradientDef[], key: string,
+): ColorResult {
+  if (!kfs.some((kf) => get(kf) !== undefined)) return paint;
+  const ref = _interpSnap(kfs, t, (kf) => get(kf)?.ref) ?? paint.color?.match(/^url\(#(.+)\)$/)?.[1];
+  const base = paint.gradient ?? gradients.find((g) => g.id === ref);
+  if (!base) return paint;
+
+  const num = (field: Exclude<keyof GradientKeyframe, 'ref' | 'stops' | 'gradientTransform'>) =>
+    _interpOptNum(kfs, t, (kf) => get(kf)?.[field]);
+  const stopCount = Math.max(base.stops.length, ...kfs.map((kf) => get(kf)?.stops?.length ?? 0));
+  const stops: GradientStop[] = [];
+  for (let i = 0; i < stopCount; i++) {
+    const from = base.stops[Math.min(i, base.stops.length - 1)] ?? { offset: 1, color: '#000000' };
+    const opacity = _interpOptNum(kfs, t, (kf) => get(kf)?.stops?.[i]?.opacity) ?? from.opacity;
+    stops.push({
+      offset: _interpOptNum(kfs, t, (kf) => get(kf)?.stops?.[i]?.offset) ?? from.offset,
+      color: _interpOptColor(kfs, t, (kf) => get(kf)?.stops?.[i]?.color) ?? from.color,
+      ...(opacity !== undefined ? { opacity } : {}),
+    });
+  }
+
+  const id = `${base.id}--${key}`;
+  const gradientTransform = _interpSnap(kfs, t, (kf) => get(kf)?.gradientTransform) ?? base.gradientTransform;
+  let gradient: GradientDef;
+  if (base.type === 'linear') {
+    let x1 = num('x1') ?? base.x1;
+    let y1 = num('y1') ?? base.y1;
+    let x2 = num('x2') ?? base.x2;
+    let y2 = num('y2') ?? base.y2;
+    const angle = num('angle');
+    if (angle !== undefined) {
+      // Turn the gradient vector around its midpoint, keeping its length
+      const cx = (x1 + x2) / 2, cy = (y1 + y2) / 2;
+      const half = Math.hypot(x2 - x1, y2 - y1) / 2;
+      const rad = (angle * Math.PI) / 180;
+      x1 = cx - half * Math.cos(rad);
+      y1 = cy - half * Math.sin(rad);
+      x2 = cx + half * Math.cos(rad);
+      y2 = cy + half * Math.sin(rad);
+    }
+    gradient = { ...base, id, x1, y1, x2, y2, stops };
+  } else {
+    const fx = num('fx') ?? base.fx;
+    const fy = num('fy') ?? base.fy;
+    gradient = {
+      ...base, id, cx: num('cx') ?? base.cx, cy: num('cy') ?? base.cy, r: num('r') ?? base.r, stops,
+      ...(fx !== undefined ? { fx } : {}),
+      ...(fy !== undefined ? { fy } : {}),
+    };
+  }
+  if (gradientTransform !== undefined) gradient.gradientTransform = gradientTransform;
+  return { color: `url(#${id})`, gradient };
 }
 
 /** Snap property — no interpolation, takes prev value (strokeAlign). */
@@ -206,6 +323,15 @@ function _interpPath(kfs: Keyframe[], t: number): string | undefined {
   return lerpPath(p.pathD!, n.pathD!, _easedT(p, n, t));
 }
 
+/** Interpolate the filter stack. */
+function _interpFilters(kfs: Keyframe[], t: number): ActorFilter[] | undefined {
+  const [p, n] = _findBracket(kfs, t, (kf) => kf.filters !== undefined);
+  if (!p && !n) return undefined;
+  if (!p) return n!.filters;
+  if (!n) return p.filters;
+  return lerpFilters(p.filters!, n.filters!, _easedT(p, n, t), n.colorSpace);
+}
+
 // ─── Gradient ID counter (prevents collisions when fill + stroke interpolate in same frame) ──
 let _gradIdCounter = 0;
 
@@ -214,30 +340,19 @@ let _gradIdCounter = 0;
 /**
  * Interpolate between two gradient definitions.
  * Handles linear↔linear, radial↔radial, and cross-type interpolation.
- * Returns a new GradientDef with interpolated stops and geometry.
+ * Returns a new GradientDef with interpolated stops and geometry; stop
+ * colors blend in `space` (default `'srgb'`).
  */
-export function lerpGradientDef(a: GradientDef, b: GradientDef, t: number): GradientDef {
+export function lerpGradientDef(a: GradientDef, b: GradientDef, t: number, space?: ColorSpace): GradientDef {
   // Interpolate stops — match by count, adding intermediate stops if needed
   const stopsA = normalizeStops(a.stops, Math.max(a.stops.length, b.stops.length));
   const stopsB = normalizeStops(b.stops, Math.max(a.stops.length, b.stops.length));
 
   const stops: GradientStop[] = stopsA.map((sa, i) => {
     const sb = stopsB[i] ?? sa;
-    const rgbA = parseHexToRgb(sa.color);
-    const rgbB = parseHexToRgb(sb.color);
-    let color: string;
-    if (rgbA && rgbB) {
-      color = rgbToHex(
-        rgbA[0] + (rgbB[0] - rgbA[0]) * t,
-        rgbA[1] + (rgbB[1] - rgbA[1]) * t,
-        rgbA[2] + (rgbB[2] - rgbA[2]) * t,
-      );
-    } else {
-      color = t < 0.5 ? sa.color : sb.color;
-    }
     return {
       offset: lerp(sa.offset, sb.offset, t),
-      color,
+      color: lerpColor(sa.color, sb.color, t, space),
       opacity: sa.opacity !== undefined || sb.opacity !== undefined
         ? lerp(sa.opacity ?? 1, sb.opacity ?? 1, t)
         : undefined,
@@ -280,6 +395,7 @@ export function lerpGradientDef(a: GradientDef, b: GradientDef, t: number): Grad
       y2: cy + len * sin,
       stops,
       gradientUnits: b.gradientUnits ?? a.gradientUnits,
+      ...snapTransform(a, b, t),
     };
   }
 
@@ -296,6 +412,7 @@ export function lerpGradientDef(a: GradientDef, b: GradientDef, t: number): Grad
         ? lerp(a.fy ?? a.cy, b.fy ?? b.cy, t) : undefined,
       stops,
       gradientUnits: b.gradientUnits ?? a.gradientUnits,
+      ...snapTransform(a, b, t),
     };
   }
 
@@ -313,6 +430,83 @@ export function lerpGradientDef(a: GradientDef, b: GradientDef, t: number): Grad
   return { ...b, id, stops };
 }
 
+/** `gradientTransform` can't be blended as a string — take the nearer side's */
+function snapTransform(a: GradientDef, b: GradientDef, t: number): { gradientTransform?: string } {
+  const transform = t < 0.5 ? a.gradientTransform : b.gradientTransform;
+  return transform !== undefined ? { gradientTransform: transform } : {};
+}
+
+// ─── Filter interpolation (exported utility) ─────────────────────────────────
+
+/**
+ * Interpolate between two filter stacks. Effects at the same index and of
+ * the same type blend parameter by parameter; any other effect blends with
+ * its neutral form (no shadow, brightness 1, …), so it fades in or out.
+ * Shadow and glow colors blend in `space` (default `'srgb'`).
+ */
+export function lerpFilters(a: ActorFilter[], b: ActorFilter[], t: number, space?: ColorSpace): ActorFilter[] {
+  const out: ActorFilter[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const fa = a[i];
+    const fb = b[i];
+    if (fa && fb && fa.type === fb.type) {
+      out.push(lerpFilter(fa, fb, t, space));
+      continue;
+    }
+    if (fa) out.push(lerpFilter(fa, neutralFilter(fa), t, space));
+    if (fb) out.push(lerpFilter(neutralFilter(fb), fb, t, space));
+  }
+  return out;
+}
+
+/** The form of an effect that leaves the image unchanged */
+function neutralFilter(f: ActorFilter): ActorFilter {
+  switch (f.type) {
+    case 'dropShadow':
+    case 'glow':
+      return { ...f, opacity: 0 };
+    case 'brightness':
+    case 'saturate':
+      return { ...f, amount: 1 };
+    case 'hueRotate':
+      return { ...f, angle: 0 };
+    case 'colorMatrix':
+      return { ...f, values: [1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0] };
+  }
+}
+
+/** Blend two effects of the same type */
+function lerpFilter(a: ActorFilter, b: ActorFilter, t: number, space?: ColorSpace): ActorFilter {
+  if (a.type === 'dropShadow' && b.type === 'dropShadow') {
+    return {
+      type: 'dropShadow',
+      dx: lerp(a.dx, b.dx, t),
+      dy: lerp(a.dy, b.dy, t),
+      blur: lerp(a.blur, b.blur, t),
+      color: lerpColor(a.color, b.color, t, space),
+      opacity: lerp(a.opacity ?? 1, b.opacity ?? 1, t),
+    };
+  }
+  if (a.type === 'glow' && b.type === 'glow') {
+    return {
+      type: 'glow',
+      blur: lerp(a.blur, b.blur, t),
+      color: lerpColor(a.color, b.color, t, space),
+      opacity: lerp(a.opacity ?? 1, b.opacity ?? 1, t),
+    };
+  }
+  if ((a.type === 'brightness' || a.type === 'saturate') && a.type === b.type) {
+    return { type: a.type, amount: lerp(a.amount, (b as typeof a).amount, t) };
+  }
+  if (a.type === 'hueRotate' && b.type === 'hueRotate') {
+    return { type: 'hueRotate', angle: lerp(a.angle, b.angle, t) };
+  }
+  if (a.type === 'colorMatrix' && b.type === 'colorMatrix') {
+    return { type: 'colorMatrix', values: a.values.map((v, i) => lerp(v, b.values[i] ?? v, t)) };
+  }
+  return t < 0.5 ? a : b;
+}
+
 // ─── Internal: Color/Gradient interpolation ──────────────────────────────────
 
 interface ColorResult {
@@ -321,7 +515,7 @@ interface ColorResult {
 }
 
 /**
- * Interpolate between two color values that may be hex colors or gradient references (url(#id)).
+ * Interpolate between two paint values that may be CSS colors or gradient references (url(#id)).
  * When both are gradients, returns an interpolated GradientDef.
  * When one is a color and one is a gradient, creates a uniform gradient from the color and lerps.
  */
@@ -330,6 +524,7 @@ function lerpColorOrGradient(
   b: string | undefined,
   t: number,
   gradients: GradientDef[],
+  space?: ColorSpace,
 ): ColorResult {
   if (!a && !b) return {};
   if (!a) return resolveResult(b!, gradients);
@@ -339,9 +534,9 @@ function lerpColorOrGradient(
   const aIsGrad = a.startsWith('url(');
   const bIsGrad = b.startsWith('url(');
 
-  // Both are plain colors — simple hex lerp
+  // Both are plain colors
   if (!aIsGrad && !bIsGrad) {
-    return { color: lerpColor(a, b, t) };
+    return { color: lerpColor(a, b, t, space) };
   }
 
   // Both are gradient references
@@ -349,7 +544,7 @@ function lerpColorOrGradient(
     const gradA = resolveGradient(a, gradients);
     const gradB = resolveGradient(b, gradients);
     if (gradA && gradB) {
-      const blended = lerpGradientDef(gradA, gradB, t);
+      const blended = lerpGradientDef(gradA, gradB, t, space);
       return { color: `url(#${blended.id})`, gradient: blended };
     }
     // Fallback: snap
@@ -367,8 +562,8 @@ function lerpColorOrGradient(
     // If 'a' is the gradient, we blend from gradient(a) → uniform(b), so t stays
     // If 'b' is the gradient, we blend from uniform(a) → gradient(b), so t stays
     const blended = aIsGrad
-      ? lerpGradientDef(gradDef, uniformGrad, t)
-      : lerpGradientDef(uniformGrad, gradDef, t);
+      ? lerpGradientDef(gradDef, uniformGrad, t, space)
+      : lerpGradientDef(uniformGrad, gradDef, t, space);
     return { color: `url(#${blended.id})`, gradient: blended };
   }
 
@@ -459,22 +654,9 @@ function normalizeStops(stops: GradientStop[], count: number): GradientStop[] {
     const range = hi.offset - lo.offset;
     const localT = range > 0 ? (targetOffset - lo.offset) / range : 0;
 
-    const rgbLo = parseHexToRgb(lo.color);
-    const rgbHi = parseHexToRgb(hi.color);
-    let color: string;
-    if (rgbLo && rgbHi) {
-      color = rgbToHex(
-        rgbLo[0] + (rgbHi[0] - rgbLo[0]) * localT,
-        rgbLo[1] + (rgbHi[1] - rgbLo[1]) * localT,
-        rgbLo[2] + (rgbHi[2] - rgbLo[2]) * localT,
-      );
-    } else {
-      color = localT < 0.5 ? lo.color : hi.color;
-    }
-
     result.push({
       offset: targetOffset,
-      color,
+      color: lerpColor(lo.color, hi.color, localT),
       opacity: lo.opacity !== undefined || hi.opacity !== undefined
         ? lerp(lo.opacity ?? 1, hi.opacity ?? 1, localT)
         : undefined,
@@ -509,50 +691,3 @@ function lerpScale(
   if (Math.abs(rx - ry) < 0.0001) return rx;
   return { x: rx, y: ry };
 }
-
-// ─── Color lerp (hex only) ──────────────────────────────────────────────────
-
-function parseHexToRgb(hex: string): [number, number, number] | null {
-  const h = hex.replace(/^#/, '');
-  if (h.length === 3) {
-    return [
-      parseInt(h[0] + h[0], 16),
-      parseInt(h[1] + h[1], 16),
-      parseInt(h[2] + h[2], 16),
-    ];
-  }
-  if (h.length === 6) {
-    return [
-      parseInt(h.substring(0, 2), 16),
-      parseInt(h.substring(2, 4), 16),
-      parseInt(h.substring(4, 6), 16),
-    ];
-  }
-  return null;
-}
-
-function rgbToHex(r: number, g: number, b: number): string {
-  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
-  const hex = (v: number) => clamp(v).toString(16).padStart(2, '0');
-  return `#${hex(r)}${hex(g)}${hex(b)}`;
-}
-
-function lerpColor(a: string | undefined, b: string | undefined, t: number): string | undefined {
-  if (!a && !b) return undefined;
-  if (!a) return b;
-  if (!b) return a;
-  if (a === b) return a;
-
-  const rgbA = parseHexToRgb(a);
-  const rgbB = parseHexToRgb(b);
-
-  if (!rgbA || !rgbB) {
-    return t < 0.5 ? a : b;
-  }
-
-  return rgbToHex(
-    rgbA[0] + (rgbB[0] - rgbA[0]) * t,
-    rgbA[1] + (rgbB[1] - rgbA[1]) * t,
-    rgbA[2] + (rgbB[2] - rgbA[2]) * t,
-  );
-}
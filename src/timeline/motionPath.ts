@@ -0,0 +1,134 @@
+import type { PathCommand } from './pathMorph';
+import { parsePathD, normalizeToCubic } from './pathMorph';
+
+// ─── Motion path sampling ────────────────────────────────────────────────────
+//
+// Paths are flattened once into a polyline with cumulative arc lengths, so
+// that progress along the path is proportional to distance travelled rather
+// than to the bezier parameter of each segment.
+//
+
+/** A point on a path with the direction of travel there */
+export interface PathSample {
+  x: number;
+  y: number;
+  /** Tangent angle in degrees (0 = pointing along +x) */
+  angle: number;
+}
+
+export interface PathSampler {
+  /** Total arc length in path units */
+  length: number;
+  /** Sample the path at `progress` (0..1) of its arc length */
+  at(progress: number): PathSample;
+}
+
+/** Polyline steps per cubic segment */
+const STEPS = 24;
+
+interface Edge {
+  x0: number; y0: number;
+  x1: number; y1: number;
+  /** Arc length at the start of this edge */
+  from: number;
+  length: number;
+}
+
+/**
+ * Create an arc-length sampler for an SVG path `d` string.
+ *
+ * Subpaths are walked in order; the jump between them adds no length.
+ *
+ * @example
+ * ```ts
+ * const orbit = createPathSampler('M0,50 A50,50 0 1 1 100,50 A50,50 0 1 1 0,50');
+ * orbit.at(0.25); // → { x: 50, y: 0, angle: 0 }
+ * ```
+ */
+export function createPathSampler(d: string): PathSampler {
+  const edges: Edge[] = [];
+  let total = 0;
+  let fallback: PathSample = { x: 0, y: 0, angle: 0 };
+
+  for (const commands of splitSubpaths(parsePathD(d))) {
+    const path = normalizeToCubic(commands);
+    if (edges.length === 0) fallback = { x: path.startX, y: path.startY, angle: 0 };
+    let x = path.startX;
+    let y = path.startY;
+    for (const s of path.segments) {
+      let px = x;
+      let py = y;
+      for (let i = 1; i <= STEPS; i++) {
+        const t = i / STEPS;
+        const mt = 1 - t;
+        const nx = mt * mt * mt * x + 3 * mt * mt * t * s.cx1 + 3 * mt * t * t * s.cx2 + t * t * t * s.x;
+        const ny = mt * mt * mt * y + 3 * mt * mt * t * s.cy1 + 3 * mt * t * t * s.cy2 + t * t * t * s.y;
+        const length = Math.hypot(nx - px, ny - py);
+        if (length > 0) {
+          edges.push({ x0: px, y0: py, x1: nx, y1: ny, from: total, length });
+          total += length;
+        }
+        px = nx;
+        py = ny;
+      }
+      x = s.x;
+      y = s.y;
+    }
+  }
+
+  return {
+    length: total,
+    at(progress: number): PathSample {
+      if (edges.length === 0) return { ...fallback };
+      const target = Math.max(0, Math.min(1, progress)) * total;
+
+      // Binary search for the edge containing `target`
+      let lo = 0;
+      let hi = edges.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (edges[mid].from + edges[mid].length < target) lo = mid + 1;
+        else hi = mid;
+      }
+
+      const e = edges[lo];
+      const t = (target - e.from) / e.length;
+      return {
+        x: e.x0 + (e.x1 - e.x0) * t,
+        y: e.y0 + (e.y1 - e.y0) * t,
+        angle: (Math.atan2(e.y1 - e.y0, e.x1 - e.x0) * 180) / Math.PI,
+      };
+    },
+  };
+}
+
+/**
+ * Total length of an SVG path `d` string, measured without a DOM so results
+ * match between browsers, Node and SSR. Measurements are cached by `d`.
+ */
+export function getPathLength(d: string): number {
+  return cachedPathSampler(d).length;
+}
+
+// Flattening a path is far more expensive than sampling it — keep recent ones
+const samplers = new Map<string, PathSampler>();
+
+/** `createPathSampler` with a small cache, for per-frame callers */
+export function cachedPathSampler(d: string): PathSampler {
+  let sampler = samplers.get(d);
+  if (!sampler) {
+    if (samplers.size >= 64) samplers.clear();
+    sampler = createPathSampler(d);
+    samplers.set(d, sampler);
+  }
+  return sampler;
+}
+
+function splitSubpaths(commands: PathCommand[]): PathCommand[][] {
+  const groups: PathCommand[][] = [];
+  for (const cmd of commands) {
+    if (cmd.type === 'M' || groups.length === 0) groups.push([]);
+    groups[groups.length - 1].push(cmd);
+  }
+  return groups;
+}
@@ -62,9 +62,11 @@ export function parsePathD(d: string): PathCommand[] {
 
     const isRelative = letter === letter.toLowerCase();
     const type = letter.toUpperCase() as CommandType;
-    const paramStr = tokens[i + 1] ?? '';
-    const nums = parseNumbers(paramStr);
-    i += 2;
+    // Z (or a malformed command) has no parameter token — don't swallow the next letter
+    const next = tokens[i + 1] ?? '';
+    const hasParams = !CMD_RE.test(next.trim());
+    const nums = hasParams ? parseNumbers(next) : [];
+    i += hasParams ? 2 : 1;
 
     // Commands can have implicit repeats (e.g. M 0,0 10,10 → M 0,0 L 10,10)
     const paramCounts: Record<CommandType, number> = {
@@ -310,16 +312,31 @@ function quadToCubic(
 
 // ── Arc to Cubic approximation ───────────────────────────────────────────────
 
-function arcToCubics(
+/** Center parameterization of an SVG arc (SVG 1.1 implementation notes, F.6.5) */
+export interface ArcCenter {
+  cx: number;
+  cy: number;
+  /** Radii, scaled up when too small to reach the end point */
+  rx: number;
+  ry: number;
+  /** X-axis rotation in radians */
+  phi: number;
+  /** Start angle and signed sweep, in radians */
+  theta1: number;
+  dtheta: number;
+}
+
+/** Convert an endpoint-parameterized arc to its center form. Returns null for zero radii. */
+export function arcToCenter(
   x1: number, y1: number,
   rx: number, ry: number,
   xAxisRotation: number,
   largeArc: number, sweep: number,
   x2: number, y2: number,
-): CubicSegment[] {
-  if (rx === 0 || ry === 0) {
-    return [lineToCubic(x1, y1, x2, y2)];
-  }
+): ArcCenter | null {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return null;
 
   const phi = (xAxisRotation * Math.PI) / 180;
   const cosPhi = Math.cos(phi);
@@ -347,9 +364,9 @@ function arcToCubics(
   }
 
   let num = rxSq * rySq - rxSq * y1pSq - rySq * x1pSq;
-  let den = rxSq * y1pSq + rySq * x1pSq;
+  const den = rxSq * y1pSq + rySq * x1pSq;
   if (num < 0) num = 0;
-  const sq = Math.sqrt(num / den);
+  const sq = den === 0 ? 0 : Math.sqrt(num / den);
   const sign = largeArc === sweep ? -1 : 1;
 
   const cxp = sign * sq * (rx * y1p / ry);
@@ -368,7 +385,24 @@ function arcToCubics(
   if (sweep === 0 && dtheta > 0) dtheta -= 2 * Math.PI;
   if (sweep === 1 && dtheta < 0) dtheta += 2 * Math.PI;
 
+  return { cx, cy, rx, ry, phi, theta1, dtheta };
+}
+
+function arcToCubics(
+  x1: number, y1: number,
+  rx: number, ry: number,
+  xAxisRotation: number,
+  largeArc: number, sweep: number,
+  x2: number, y2: number,
+): CubicSegment[] {
+  const arc = arcToCenter(x1, y1, rx, ry, xAxisRotation, largeArc, sweep, x2, y2);
+  if (!arc) {
+    return [lineToCubic(x1, y1, x2, y2)];
+  }
+  if (x1 === x2 && y1 === y2) return [];
+
   // Step 3: Split into segments of max π/2
+  const { theta1, dtheta } = arc;
   const segCount = Math.ceil(Math.abs(dtheta) / (Math.PI / 2));
   const segAngle = dtheta / segCount;
   const results: CubicSegment[] = [];
@@ -376,7 +410,7 @@ function arcToCubics(
   for (let i = 0; i < segCount; i++) {
     const a1 = theta1 + i * segAngle;
     const a2 = theta1 + (i + 1) * segAngle;
-    results.push(arcSegmentToCubic(cx, cy, rx, ry, phi, a1, a2));
+    results.push(arcSegmentToCubic(arc.cx, arc.cy, arc.rx, arc.ry, arc.phi, a1, a2));
   }
 
   return results;
@@ -447,6 +481,16 @@ export function balanceCommands(
   ];
 }
 
+/**
+ * Balance any number of normalized paths to the segment count of the longest,
+ * so every pair can be interpolated point-for-point.
+ */
+export function balancePaths(paths: NormalizedPath[]): NormalizedPath[] {
+  if (paths.length === 0) return [];
+  const longest = paths.reduce((a, b) => (b.segments.length > a.segments.length ? b : a));
+  return paths.map((p) => balanceCommands(p, longest)[0]);
+}
+
 function subdivideAtLongest(segments: CubicSegment[], startX: number, startY: number): CubicSegment[] {
   if (segments.length === 0) return segments;
 
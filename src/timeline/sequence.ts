@@ -1,4 +1,4 @@
-import type { Timeline, Actor, Keyframe } from '../types';
+import type { Timeline, Actor, Keyframe, TimelineMarker } from '../types';
 import { timeline as createTimeline } from './timeline';
 
 // ── Sequence Configuration ──
@@ -26,6 +26,8 @@ export interface StaggerConfig {
   stagger: number;
   /** Stagger direction */
   from?: StaggerFrom;
+  /** Treat keyframe positions as offsets from each actor's own position (e.g. fragments from `splitText`) */
+  relative?: boolean;
 }
 
 // ── Sequence ──
@@ -36,11 +38,13 @@ export interface StaggerConfig {
  * Each item is offset in time to create a chain:
  * tl1 (0–500ms) → tl2 (500–1200ms) → tl3 (1200–1800ms)
  *
- * Offsets and delays are cumulative by default.
+ * Offsets and delays are cumulative by default. Markers of the items
+ * move with them; when items share a label, the earliest item keeps it.
  */
 export function sequence(actor: Actor, config: SequenceConfig): Timeline {
   let cursor = 0;
   const allKeyframes: Keyframe[] = [];
+  const markers: TimelineMarker[] = [];
 
   for (const item of config.items) {
     const delay = item.delay ?? 0;
@@ -53,10 +57,14 @@ export function sequence(actor: Actor, config: SequenceConfig): Timeline {
       });
     }
 
+    for (const m of item.timeline.markers ?? []) {
+      if (!markers.some((other) => other.label === m.label)) markers.push({ label: m.label, at: m.at + start });
+    }
+
     cursor = start + item.timeline.duration;
   }
 
-  return createTimeline(actor, { keyframes: allKeyframes });
+  return createTimeline(actor, { keyframes: allKeyframes, markers });
 }
 
 // ── Stagger ──
@@ -78,9 +86,13 @@ export function sequence(actor: Actor, config: SequenceConfig): Timeline {
  * });
  * // card1: 0–400ms, card2: 100–500ms, card3: 200–600ms, card4: 300–700ms
  * ```
+ *
+ * With `relative: true` the template's positions are offsets from each
+ * actor's resting position, so actors spread across the scene share one
+ * template.
  */
 export function stagger(config: StaggerConfig): Timeline[] {
-  const { actors, keyframes, stagger: staggerDelay, from = 'start' } = config;
+  const { actors, keyframes, stagger: staggerDelay, from = 'start', relative = false } = config;
   const n = actors.length;
 
   const order = computeStaggerOrder(n, from);
@@ -90,6 +102,9 @@ export function stagger(config: StaggerConfig): Timeline[] {
     const offsetKeyframes = keyframes.map((kf) => ({
       ...kf,
       at: kf.at + delay,
+      ...(relative && kf.position
+        ? { position: { x: actor.position.x + kf.position.x, y: actor.position.y + kf.position.y } }
+        : {}),
     }));
     return createTimeline(actor, { keyframes: offsetKeyframes });
   });
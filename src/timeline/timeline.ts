@@ -1,4 +1,4 @@
-import type { Actor, Timeline, TimelineConfig, Keyframe } from '../types';
+import type { Actor, Timeline, TimelineConfig, TimelineMarker, Keyframe } from '../types';
 
 let timelineCounter = 0;
 
@@ -6,7 +6,8 @@ let timelineCounter = 0;
  * Create a Timeline — a sequence of keyframes bound to an Actor.
  *
  * Keyframes are automatically sorted by `at` (time in ms).
- * The total duration is derived from the last keyframe.
+ * The total duration is derived from the last keyframe. Markers are sorted
+ * too; each needs a unique label and a time within the duration.
  */
 export function timeline(actor: Actor, config: TimelineConfig): Timeline {
   if (!config.keyframes || config.keyframes.length === 0) {
@@ -20,6 +21,8 @@ export function timeline(actor: Actor, config: TimelineConfig): Timeline {
 
   // Ensure the first keyframe has a full state (defaults from actor)
   const first = sorted[0];
+  // A timeline that animates filters starts from the actor's own stack
+  const animatesFilters = sorted.some((kf) => kf.filters !== undefined);
   const filledFirst: Keyframe = {
     at: first.at,
     position: first.position ?? { ...actor.origin },
@@ -32,16 +35,49 @@ export function timeline(actor: Actor, config: TimelineConfig): Timeline {
     strokeAlign: first.strokeAlign,
     blurRadius: first.blurRadius,
     backdropBlur: first.backdropBlur,
+    filters: first.filters ?? (animatesFilters ? actor.filters : undefined),
+    width: first.width,
+    height: first.height,
+    pathD: first.pathD,
+    trimStart: first.trimStart,
+    trimEnd: first.trimEnd,
+    trimOffset: first.trimOffset,
+    motionPath: first.motionPath,
+    fontSize: first.fontSize,
+    letterSpacing: first.letterSpacing,
+    textReveal: first.textReveal,
+    fillGradient: first.fillGradient,
+    strokeGradient: first.strokeGradient,
+    colorSpace: first.colorSpace,
     curve: first.curve,
   };
   sorted[0] = filledFirst;
 
   const duration = sorted[sorted.length - 1].at;
+  const markers = config.markers?.length ? sortMarkers(actor, config.markers, duration) : undefined;
 
   return {
     id: `tl-${actor.id}-${timelineCounter}`,
     actorId: actor.id,
     keyframes: sorted,
     duration,
+    ...(markers ? { markers } : {}),
   };
 }
+
+function sortMarkers(actor: Actor, markers: TimelineMarker[], duration: number): TimelineMarker[] {
+  const labels = new Set<string>();
+  for (const m of markers) {
+    if (!m.label) {
+      throw new Error(`motion-svg: timeline for actor "${actor.id}" has a marker without a label.`);
+    }
+    if (labels.has(m.label)) {
+      throw new Error(`motion-svg: timeline for actor "${actor.id}" has two markers labelled "${m.label}".`);
+    }
+    labels.add(m.label);
+    if (!(m.at >= 0 && m.at <= duration)) {
+      throw new Error(`motion-svg: marker "${m.label}" at ${m.at}ms is outside the timeline for actor "${actor.id}" (0–${duration}ms).`);
+    }
+  }
+  return markers.map((m) => ({ label: m.label, at: m.at })).sort((a, b) => a.at - b.at);
+}
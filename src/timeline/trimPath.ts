@@ -0,0 +1,59 @@
+import { getPathLength } from './motionPath';
+
+// ─── Trim paths ──────────────────────────────────────────────────────────────
+//
+// Trim channels show only part of a stroke — the classic "line drawing"
+// effect. Renderers express them as a dash pattern whose period is exactly
+// the path length, so an offset that runs past the end wraps to the start.
+//
+
+/** Trim channels as found on a Keyframe or ActorState */
+export interface TrimValues {
+  trimStart?: number;
+  trimEnd?: number;
+  trimOffset?: number;
+}
+
+export interface TrimDash {
+  /** `stroke-dasharray` value */
+  dasharray: string;
+  /** `stroke-dashoffset` value */
+  dashoffset: number;
+}
+
+/**
+ * Convert trim channels into `stroke-dasharray` / `stroke-dashoffset` for a
+ * path. Returns null when no trim channel is set or the path has no length.
+ *
+ * The visible part runs from `trimStart` to `trimEnd` (fractions of the path
+ * length, swapped if reversed), shifted along the path by `trimOffset`.
+ *
+ * @example
+ * ```ts
+ * trimToDash('M0,0 L100,0', { trimEnd: 0.25 });
+ * // → { dasharray: '25 75', dashoffset: 0 }
+ * ```
+ */
+export function trimToDash(d: string, trim: TrimValues): TrimDash | null {
+  if (trim.trimStart === undefined && trim.trimEnd === undefined && trim.trimOffset === undefined) {
+    return null;
+  }
+  const length = getPathLength(d);
+  if (length <= 0) return null;
+
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  let start = clamp(trim.trimStart ?? 0);
+  let end = clamp(trim.trimEnd ?? 1);
+  if (start > end) [start, end] = [end, start];
+
+  const visible = (end - start) * length;
+  const shift = (((start + (trim.trimOffset ?? 0)) % 1) + 1) % 1;
+  return {
+    dasharray: `${round(visible)} ${round(length - visible)}`,
+    dashoffset: round(-shift * length) || 0,
+  };
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
@@ -0,0 +1,170 @@
+import type { Scene, SvgPath, SvgGroup } from '../types';
+import { parsePathD } from '../timeline/pathMorph';
+import { getPathBounds } from '../geometry/pathGeometry';
+import { type Matrix2D, IDENTITY_MATRIX, multiplyMatrix, applyMatrix, parseTransform, isIdentityMatrix } from './matrix';
+
+// ─── Baking transforms into geometry ────────────────────────────────────────
+
+/**
+ * Full transform of a path in viewBox space: the transforms of its enclosing
+ * groups, outermost first, followed by the path's own `transform`.
+ */
+export function getPathMatrix(scene: Scene, pathId: string): Matrix2D {
+  const path = scene.paths.find((p) => p.id === pathId);
+  if (!path) {
+    throw new Error(`motion-svg: Unknown path "${pathId}".`);
+  }
+  const parent = groupMatrices(scene.groups).get(pathId) ?? IDENTITY_MATRIX;
+  return multiplyMatrix(parent, parseTransform(path.transform));
+}
+
+/**
+ * Rewrite path data through a matrix. The result is absolute; `H`/`V` become
+ * `L`, and arcs get new radii, rotation and sweep so they stay exact under
+ * rotation, non-uniform scale and skew.
+ */
+export function transformPathD(d: string, m: Matrix2D): string {
+  const out: string[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  const pt = (px: number, py: number) => {
+    const p = applyMatrix(m, { x: px, y: py });
+    return `${round(p.x)},${round(p.y)}`;
+  };
+
+  for (const cmd of parsePathD(d)) {
+    const p = cmd.params;
+    switch (cmd.type) {
+      case 'M':
+        out.push(`M${pt(p[0], p[1])}`);
+        x = startX = p[0];
+        y = startY = p[1];
+        break;
+      case 'L':
+      case 'T':
+        out.push(`${cmd.type}${pt(p[0], p[1])}`);
+        x = p[0];
+        y = p[1];
+        break;
+      case 'H':
+        out.push(`L${pt(p[0], y)}`);
+        x = p[0];
+        break;
+      case 'V':
+        out.push(`L${pt(x, p[0])}`);
+        y = p[0];
+        break;
+      case 'C':
+        out.push(`C${pt(p[0], p[1])} ${pt(p[2], p[3])} ${pt(p[4], p[5])}`);
+        x = p[4];
+        y = p[5];
+        break;
+      case 'S':
+      case 'Q':
+        out.push(`${cmd.type}${pt(p[0], p[1])} ${pt(p[2], p[3])}`);
+        x = p[2];
+        y = p[3];
+        break;
+      case 'A': {
+        const arc = transformArc(p[0], p[1], p[2], m);
+        const sweep = m.a * m.d - m.b * m.c < 0 ? 1 - p[4] : p[4];
+        out.push(`A${round(arc.rx)},${round(arc.ry)} ${round(arc.angle)} ${p[3] ? 1 : 0},${sweep ? 1 : 0} ${pt(p[5], p[6])}`);
+        x = p[5];
+        y = p[6];
+        break;
+      }
+      case 'Z':
+        out.push('Z');
+        x = startX;
+        y = startY;
+        break;
+    }
+  }
+  return out.join(' ');
+}
+
+/**
+ * Return a copy of the scene with every transform applied to the geometry:
+ * each path's `d` is rewritten into viewBox space and the `transform`
+ * attributes of paths and groups are removed. Stroke widths are scaled by
+ * the transform's average scale factor, and `bounds` are recomputed.
+ *
+ * Gradients in `userSpaceOnUse` units are left as they are.
+ */
+export function bakeTransforms(scene: Scene): Scene {
+  const parents = groupMatrices(scene.groups);
+
+  const paths = scene.paths.map((p): SvgPath => {
+    const m = multiplyMatrix(parents.get(p.id) ?? IDENTITY_MATRIX, parseTransform(p.transform));
+    if (isIdentityMatrix(m)) return { ...p, transform: undefined };
+
+    const scale = Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+    const d = transformPathD(p.d, m);
+    return {
+      ...p,
+      d,
+      strokeWidth: p.strokeWidth !== undefined ? p.strokeWidth * scale : undefined,
+      transform: undefined,
+      bounds: p.bounds ? getPathBounds(d) ?? undefined : undefined,
+    };
+  });
+
+  const byId = new Map(paths.map((p) => [p.id, p]));
+  const rebuild = (children: (SvgPath | SvgGroup)[]): (SvgPath | SvgGroup)[] =>
+    children.map((c) => ('children' in c
+      ? { ...c, transform: undefined, children: rebuild(c.children) }
+      : byId.get(c.id) ?? c));
+
+  return { ...scene, paths, groups: rebuild(scene.groups) as SvgGroup[] };
+}
+
+// ─── Internals ──────────────────────────────────────────────────────────────
+
+/** Composed group transform for every path inside a group, keyed by path id */
+function groupMatrices(groups: SvgGroup[]): Map<string, Matrix2D> {
+  const out = new Map<string, Matrix2D>();
+  const visit = (group: SvgGroup, parent: Matrix2D) => {
+    const m = multiplyMatrix(parent, parseTransform(group.transform));
+    for (const child of group.children) {
+      if ('children' in child) visit(child, m);
+      else out.set(child.id, m);
+    }
+  };
+  for (const g of groups) visit(g, IDENTITY_MATRIX);
+  return out;
+}
+
+/**
+ * Image of the ellipse (rx, ry, rotation) under the linear part of `m`:
+ * its radii are the singular values of M·R·S, its angle the direction of the
+ * major axis.
+ */
+function transformArc(rx: number, ry: number, angleDeg: number, m: Matrix2D): { rx: number; ry: number; angle: number } {
+  const phi = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  const n00 = (m.a * cos + m.c * sin) * rx;
+  const n10 = (m.b * cos + m.d * sin) * rx;
+  const n01 = (m.c * cos - m.a * sin) * ry;
+  const n11 = (m.d * cos - m.b * sin) * ry;
+
+  // Eigen-decomposition of N·Nᵀ
+  const A = n00 * n00 + n01 * n01;
+  const B = n00 * n10 + n01 * n11;
+  const C = n10 * n10 + n11 * n11;
+  const mean = (A + C) / 2;
+  const spread = Math.hypot((A - C) / 2, B);
+
+  return {
+    rx: Math.sqrt(mean + spread),
+    ry: Math.sqrt(Math.max(mean - spread, 0)),
+    angle: (Math.atan2(2 * B, A - C) / 2) * (180 / Math.PI),
+  };
+}
+
+function round(n: number): string {
+  return (Math.round(n * 1000) / 1000).toString();
+}
@@ -0,0 +1,3 @@
+export { IDENTITY_MATRIX, multiplyMatrix, invertMatrix, applyMatrix, isIdentityMatrix, parseTransform, matrixToString, fitViewBox } from './matrix';
+export { getPathMatrix, transformPathD, bakeTransforms } from './bakeTransforms';
+export type { Matrix2D } from './matrix';
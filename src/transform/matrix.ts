@@ -0,0 +1,141 @@
+// ─── 2D affine matrices ─────────────────────────────────────────────────────
+//
+// Same layout as SVG's `matrix(a b c d e f)` and DOMMatrix:
+//
+//   | a c e |
+//   | b d f |
+//   | 0 0 1 |
+//
+// so a renderer can hand the fields straight to `ctx.setTransform(a, b, c, d, e, f)`.
+//
+
+export interface Matrix2D {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export const IDENTITY_MATRIX: Readonly<Matrix2D> = Object.freeze({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 });
+
+/** `m1 × m2` — the result applies `m2` first, then `m1` (like an SVG transform list "m1 m2"). */
+export function multiplyMatrix(m1: Matrix2D, m2: Matrix2D): Matrix2D {
+  return {
+    a: m1.a * m2.a + m1.c * m2.b,
+    b: m1.b * m2.a + m1.d * m2.b,
+    c: m1.a * m2.c + m1.c * m2.d,
+    d: m1.b * m2.c + m1.d * m2.d,
+    e: m1.a * m2.e + m1.c * m2.f + m1.e,
+    f: m1.b * m2.e + m1.d * m2.f + m1.f,
+  };
+}
+
+/** Inverse of `m`, or null when it is singular (e.g. `scale(0)`). */
+export function invertMatrix(m: Matrix2D): Matrix2D | null {
+  const det = m.a * m.d - m.b * m.c;
+  if (det === 0 || !Number.isFinite(det)) return null;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det,
+  };
+}
+
+/** Map a point through `m`. */
+export function applyMatrix(m: Matrix2D, p: { x: number; y: number }): { x: number; y: number } {
+  return { x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f };
+}
+
+export function isIdentityMatrix(m: Matrix2D): boolean {
+  return m.a === 1 && m.b === 0 && m.c === 0 && m.d === 1 && m.e === 0 && m.f === 0;
+}
+
+/**
+ * Parse an SVG transform list (`matrix`, `translate`, `scale`, `rotate`,
+ * `skewX`, `skewY`) into a single matrix. An empty list is the identity; a
+ * malformed list is also the identity, matching how browsers drop an invalid
+ * `transform` attribute.
+ */
+export function parseTransform(transform: string | undefined): Matrix2D {
+  if (!transform || !transform.trim()) return { ...IDENTITY_MATRIX };
+
+  let m: Matrix2D = { ...IDENTITY_MATRIX };
+  let rest = transform.trim();
+  while (rest) {
+    const match = rest.match(TRANSFORM_FN_RE);
+    if (!match) return { ...IDENTITY_MATRIX };
+    const args = (match[2].match(NUMBER_RE) ?? []).map(Number);
+    const fn = transformFunction(match[1], args);
+    if (!fn) return { ...IDENTITY_MATRIX };
+    m = multiplyMatrix(m, fn);
+    rest = rest.slice(match[0].length).replace(/^[\s,]+/, '');
+  }
+  return m;
+}
+
+/**
+ * Map a viewBox onto a `width` × `height` viewport, scaled to fit and
+ * centered — the default `preserveAspectRatio="xMidYMid meet"`.
+ */
+export function fitViewBox(viewBox: { x: number; y: number; w: number; h: number }, width: number, height: number): Matrix2D {
+  const s = Math.min(width / viewBox.w, height / viewBox.h);
+  return {
+    a: s, b: 0, c: 0, d: s,
+    e: (width - viewBox.w * s) / 2 - viewBox.x * s,
+    f: (height - viewBox.h * s) / 2 - viewBox.y * s,
+  };
+}
+
+/** Serialize as an SVG `matrix(…)` transform. */
+export function matrixToString(m: Matrix2D): string {
+  return `matrix(${[m.a, m.b, m.c, m.d, m.e, m.f].map(round).join(',')})`;
+}
+
+// ─── Internals ──────────────────────────────────────────────────────────────
+
+const TRANSFORM_FN_RE = /^(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/;
+const NUMBER_RE = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g;
+
+function transformFunction(name: string, args: number[]): Matrix2D | null {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  switch (name) {
+    case 'matrix':
+      if (args.length !== 6) return null;
+      return { a: args[0], b: args[1], c: args[2], d: args[3], e: args[4], f: args[5] };
+    case 'translate':
+      if (args.length !== 1 && args.length !== 2) return null;
+      return { a: 1, b: 0, c: 0, d: 1, e: args[0], f: args[1] ?? 0 };
+    case 'scale':
+      if (args.length !== 1 && args.length !== 2) return null;
+      return { a: args[0], b: 0, c: 0, d: args[1] ?? args[0], e: 0, f: 0 };
+    case 'rotate': {
+      if (args.length !== 1 && args.length !== 3) return null;
+      const cos = Math.cos(rad(args[0]));
+      const sin = Math.sin(rad(args[0]));
+      const rotation = { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 };
+      if (args.length === 1) return rotation;
+      // rotate(a, cx, cy) = translate(cx, cy) rotate(a) translate(-cx, -cy)
+      const [, cx, cy] = args;
+      return multiplyMatrix(
+        multiplyMatrix({ a: 1, b: 0, c: 0, d: 1, e: cx, f: cy }, rotation),
+        { a: 1, b: 0, c: 0, d: 1, e: -cx, f: -cy },
+      );
+    }
+    case 'skewX':
+      if (args.length !== 1) return null;
+      return { a: 1, b: 0, c: Math.tan(rad(args[0])), d: 1, e: 0, f: 0 };
+    case 'skewY':
+      if (args.length !== 1) return null;
+      return { a: 1, b: Math.tan(rad(args[0])), c: 0, d: 1, e: 0, f: 0 };
+  }
+  return null;
+}
+
+function round(n: number): string {
+  return (Math.round(n * 1e6) / 1e6).toString();
+}
@@ -0,0 +1,432 @@
+import type {
+  Actor,
+  Timeline,
+  TriggerType,
+  TriggerConfig,
+  TriggerBinding,
+  HoverTrigger,
+  ClickTrigger,
+  ScrollTrigger,
+  AppearTrigger,
+  PlaybackController,
+  TriggeredPlayback,
+} from '../types';
+import type { ActorState } from '../timeline/interpolate';
+import { createPlayback } from './playback';
+import type { ScenePlaybackSource } from './scenePlayback';
+
+// ─── Trigger drivers ────────────────────────────────────────────────────────
+//
+// Renderer-agnostic runtime wiring for triggers that react to the user or the
+// page rather than to the scene clock. Each driver attaches to DOM elements,
+// controls one PlaybackController and returns a cleanup function. Used by both
+// the React player and the <motion-svg> Web Component.
+//
+
+/** Trigger types that get their own controller instead of joining the scene clock. */
+export const DRIVEN_TRIGGER_TYPES: readonly TriggerType[] = ['hover', 'click', 'scroll', 'appear'];
+
+/** Whether a binding is driven by the user or the page (see DRIVEN_TRIGGER_TYPES). */
+export function isDrivenTrigger(binding: TriggerBinding): boolean {
+  return DRIVEN_TRIGGER_TYPES.includes(binding.config.type);
+}
+
+/**
+ * Create one playback controller per driven trigger binding.
+ *
+ * The timelines these bindings target should be left out of the scene clock —
+ * pass the returned list to `sceneTimelines` to get the remaining ones.
+ */
+export function createTriggeredPlaybacks(
+  source: ScenePlaybackSource,
+  onUpdate: (actorId: string, state: ActorState) => void,
+): TriggeredPlayback[] {
+  const result: TriggeredPlayback[] = [];
+  for (const binding of source.triggers) {
+    if (!isDrivenTrigger(binding)) continue;
+    const timeline = source.timelines.find((tl) => tl.id === binding.timelineId);
+    if (!timeline) continue;
+    const controller = createPlayback({
+      timeline,
+      trigger: binding,
+      gradients: source.scene.gradients,
+      onUpdate: (state) => onUpdate(timeline.actorId, state),
+    });
+    result.push({ binding, timeline, controller });
+  }
+  return result;
+}
+
+/** Timelines not claimed by any triggered playback — these join the scene clock. */
+export function sceneTimelines(timelines: Timeline[], triggered: TriggeredPlayback[]): Timeline[] {
+  const claimed = new Set(triggered.map((tp) => tp.timeline.id));
+  return timelines.filter((tl) => !claimed.has(tl.id));
+}
+
+// ─── Binding to a rendered scene ────────────────────────────────────────────
+
+/** A rendered player that triggered playbacks can be bound to. */
+export interface TriggerRoot {
+  /** Element observed by page-driven triggers (scroll / appear) */
+  host: Element;
+  /** Rendered <svg> containing one `[data-actor-id]` group per actor */
+  svg: Element;
+  actors: Actor[];
+}
+
+/**
+ * Attach the driver for a triggered playback to a rendered player.
+ *
+ * Hover and click triggers listen on the bound actor's group (`target: 'self'`,
+ * the default) or on its parent group actor (`target: 'parent'`) — falling back
+ * to the whole SVG when the actor has no parent. Group actors include the
+ * groups of all their descendants. Scroll and appear triggers observe `host`.
+ */
+export function bindTriggeredPlayback(root: TriggerRoot, tp: TriggeredPlayback): () => void {
+  const { config } = tp.binding;
+  if (config.type === 'hover' || config.type === 'click') {
+    const targets = resolveTriggerTargets(root, tp.timeline.actorId, config.target);
+    return config.type === 'hover'
+      ? hoverDriver(targets, tp.controller, config)
+      : clickDriver(targets, tp.controller, config);
+  }
+  return attachTriggerDriver(root.host, tp.controller, config);
+}
+
+/** Elements a pointer trigger on `actorId` listens to, honouring `target`. */
+export function resolveTriggerTargets(
+  root: TriggerRoot,
+  actorId: string,
+  target: 'self' | 'parent' = 'self',
+): Element[] {
+  const scope = triggerScopeIds(root.actors, actorId, target);
+  if (!scope) return [root.svg];
+  const elements = scope
+    .map((id) => root.svg.querySelector(`[data-actor-id="${id}"]`))
+    .filter((el): el is Element => el !== null);
+  return elements.length > 0 ? elements : [root.svg];
+}
+
+/**
+ * Ids of the actors a pointer trigger on `actorId` reacts to: the scope actor
+ * (itself, or its parent for `target: 'parent'`) and all its descendants.
+ * Null when the scope is the whole scene.
+ */
+function triggerScopeIds(actors: Actor[], actorId: string, target: 'self' | 'parent' = 'self'): string[] | null {
+  let scopeId: string | undefined = actorId;
+  if (target === 'parent') {
+    scopeId = actors.find((a) => a.id === actorId)?.parentId;
+  }
+  if (!scopeId) return null;
+
+  const ids: string[] = [];
+  const visit = (id: string) => {
+    if (ids.includes(id)) return;
+    ids.push(id);
+    actors.find((a) => a.id === id)?.childIds?.forEach(visit);
+  };
+  visit(scopeId);
+  return ids;
+}
+
+/**
+ * Attach the runtime driver for a trigger config to `target`.
+ * Returns a cleanup function (a no-op for trigger types without a driver).
+ */
+export function attachTriggerDriver(
+  target: Element,
+  controller: PlaybackController,
+  config: TriggerConfig,
+): () => void {
+  switch (config.type) {
+    case 'hover':
+      return hoverDriver([target], controller, config);
+    case 'click':
+      return clickDriver([target], controller, config);
+    case 'appear':
+      return appearDriver(target, controller, config);
+    case 'scroll':
+      return scrollDriver(target, controller, config);
+    default:
+      return () => {};
+  }
+}
+
+// ─── Hover ──────────────────────────────────────────────────────────────────
+
+/**
+ * Play `controller` forward while the pointer is over any of `targets`.
+ *
+ * On leave the timeline plays back to its start when `reverse` is set,
+ * otherwise it is stopped and reset. Moving between elements of the same
+ * scope does not count as leaving.
+ */
+export function hoverDriver(
+  targets: Element[],
+  controller: PlaybackController,
+  config: HoverTrigger,
+): () => void {
+  const onEnter = (e: Event) => {
+    if (withinTargets(targets, (e as PointerEvent).relatedTarget)) return;
+    controller.play();
+  };
+  const onLeave = (e: Event) => {
+    if (withinTargets(targets, (e as PointerEvent).relatedTarget)) return;
+    leaveHover(controller, config);
+  };
+
+  for (const el of targets) {
+    el.addEventListener('pointerenter', onEnter);
+    el.addEventListener('pointerleave', onLeave);
+  }
+  return () => {
+    for (const el of targets) {
+      el.removeEventListener('pointerenter', onEnter);
+      el.removeEventListener('pointerleave', onLeave);
+    }
+  };
+}
+
+function leaveHover(controller: PlaybackController, config: HoverTrigger): void {
+  if (config.reverse) {
+    if (controller.state !== 'idle') controller.reverse();
+  } else {
+    controller.stop();
+  }
+}
+
+// ─── Click ──────────────────────────────────────────────────────────────────
+
+/**
+ * Play `controller` when any of `targets` is clicked.
+ *
+ * With `toggle`, clicks alternate between playing forward and playing back
+ * to the start. Without it, every click restarts the timeline.
+ */
+export function clickDriver(
+  targets: Element[],
+  controller: PlaybackController,
+  config: ClickTrigger,
+): () => void {
+  const onClick = clickAction(controller, config);
+
+  const cursors = targets.map((el) => (el as HTMLElement).style?.cursor);
+  for (const el of targets) {
+    el.addEventListener('click', onClick);
+    const style = (el as HTMLElement).style;
+    if (style) style.cursor = 'pointer';
+  }
+  return () => {
+    targets.forEach((el, i) => {
+      el.removeEventListener('click', onClick);
+      const style = (el as HTMLElement).style;
+      if (style) style.cursor = cursors[i] ?? '';
+    });
+  };
+}
+
+/** What one click does to `controller` — a closure, since toggling remembers the direction */
+function clickAction(controller: PlaybackController, config: ClickTrigger): () => void {
+  let forward = false;
+  return () => {
+    if (config.toggle) {
+      if (forward) controller.reverse();
+      else controller.play();
+      forward = !forward;
+    } else {
+      controller.stop();
+      controller.play();
+    }
+  };
+}
+
+function withinTargets(targets: Element[], node: EventTarget | null): boolean {
+  if (!node) return false;
+  return targets.some((el) => el === node || el.contains(node as Node));
+}
+
+// ─── Canvas ─────────────────────────────────────────────────────────────────
+//
+// A canvas has no element per actor, so pointer triggers listen on the canvas
+// and ask the renderer which actor is under the pointer.
+//
+
+/** A canvas-rendered player that triggered playbacks can be bound to. */
+export interface CanvasTriggerRoot {
+  /** Element observed by page-driven triggers (scroll / appear) */
+  host: Element;
+  /** Canvas the scene is drawn on — `width` and `height` are its size in canvas pixels */
+  canvas: Element & { width: number; height: number };
+  actors: Actor[];
+  /** Id of the topmost actor at a point in canvas pixels, or null (see `CanvasRenderer.hitTest`) */
+  hitTest(x: number, y: number): string | null;
+}
+
+/** Click bindings currently over their scope, per canvas — the cursor is a pointer while any is */
+const canvasPointerHits = new WeakMap<Element, { cursor: string; over: Set<object> }>();
+
+/**
+ * Attach the driver for a triggered playback to a canvas-rendered player.
+ *
+ * Hover and click triggers react to the same actors as with
+ * `bindTriggeredPlayback` — the bound actor or its parent and their
+ * descendants, or the whole canvas when there is no parent — found by
+ * hit-testing pointer positions. Scroll and appear triggers observe `host`.
+ */
+export function bindCanvasTriggeredPlayback(root: CanvasTriggerRoot, tp: TriggeredPlayback): () => void {
+  const { config } = tp.binding;
+  if (config.type !== 'hover' && config.type !== 'click') {
+    return attachTriggerDriver(root.host, tp.controller, config);
+  }
+  const { canvas } = root;
+  const scope = triggerScopeIds(root.actors, tp.timeline.actorId, config.target);
+  const overScope = (e: Event): boolean => {
+    if (!scope) return true;
+    const { clientX, clientY } = e as PointerEvent;
+    const rect = canvas.getBoundingClientRect();
+    if (!rect.width || !rect.height) return false;
+    const id = root.hitTest(
+      ((clientX - rect.left) * canvas.width) / rect.width,
+      ((clientY - rect.top) * canvas.height) / rect.height,
+    );
+    return id !== null && scope.includes(id);
+  };
+
+  if (config.type === 'hover') {
+    let inside = false;
+    const update = (over: boolean) => {
+      if (over === inside) return;
+      inside = over;
+      if (over) tp.controller.play();
+      else leaveHover(tp.controller, config);
+    };
+    const onMove = (e: Event) => update(overScope(e));
+    const onLeave = () => update(false);
+    canvas.addEventListener('pointermove', onMove);
+    canvas.addEventListener('pointerleave', onLeave);
+    return () => {
+      canvas.removeEventListener('pointermove', onMove);
+      canvas.removeEventListener('pointerleave', onLeave);
+    };
+  }
+
+  const onClick = clickAction(tp.controller, config);
+  const style = (canvas as Element as HTMLElement).style;
+  const key = {};
+  const setOver = (over: boolean) => {
+    if (!style) return;
+    let hits = canvasPointerHits.get(canvas);
+    if (!hits) {
+      hits = { cursor: style.cursor, over: new Set() };
+      canvasPointerHits.set(canvas, hits);
+    }
+    if (over) hits.over.add(key);
+    else hits.over.delete(key);
+    style.cursor = hits.over.size > 0 ? 'pointer' : hits.cursor;
+  };
+  const onCanvasClick = (e: Event) => {
+    if (overScope(e)) onClick();
+  };
+  const onMove = (e: Event) => setOver(overScope(e));
+  const onLeave = () => setOver(false);
+  canvas.addEventListener('click', onCanvasClick);
+  canvas.addEventListener('pointermove', onMove);
+  canvas.addEventListener('pointerleave', onLeave);
+  return () => {
+    canvas.removeEventListener('click', onCanvasClick);
+    canvas.removeEventListener('pointermove', onMove);
+    canvas.removeEventListener('pointerleave', onLeave);
+    setOver(false);
+  };
+}
+
+// ─── Appear ─────────────────────────────────────────────────────────────────
+
+/**
+ * Play `controller` when `target` enters the viewport.
+ *
+ * Backed by IntersectionObserver — the timeline plays once at least
+ * `threshold` (0..1) of the element is visible. Unless `once` is set, leaving
+ * the viewport resets it so it replays on the next appearance. Without
+ * IntersectionObserver (SSR, old browsers) the timeline plays immediately.
+ */
+export function appearDriver(
+  target: Element,
+  controller: PlaybackController,
+  config: AppearTrigger,
+): () => void {
+  const threshold = config.threshold ?? 0;
+
+  if (typeof IntersectionObserver === 'undefined') {
+    controller.play();
+    return () => {};
+  }
+
+  const observer = new IntersectionObserver(
+    (entries) => {
+      for (const entry of entries) {
+        const visible = entry.isIntersecting && entry.intersectionRatio >= threshold;
+        if (visible) {
+          if (controller.state !== 'playing') controller.play();
+          if (config.once) observer.disconnect();
+        } else if (!config.once && controller.state !== 'idle') {
+          controller.stop();
+        }
+      }
+    },
+    { threshold },
+  );
+  observer.observe(target);
+
+  return () => observer.disconnect();
+}
+
+// ─── Scroll ─────────────────────────────────────────────────────────────────
+
+/**
+ * Scrub `controller` with the scroll position of `target`.
+ *
+ * Scroll progress is the element's travel through the viewport: 0 when its
+ * top edge enters at the bottom, 1 when its bottom edge leaves at the top.
+ * Progress between `start` and `end` (default 0..1) is mapped onto the
+ * timeline via `seek`; outside that range the timeline holds its first or
+ * last frame.
+ */
+export function scrollDriver(
+  target: Element,
+  controller: PlaybackController,
+  config: ScrollTrigger,
+): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const start = config.start ?? 0;
+  const end = config.end ?? 1;
+
+  const update = () => {
+    const progress = scrollProgress(target, window.innerHeight);
+    const range = end - start;
+    const t = range > 0 ? clamp01((progress - start) / range) : (progress >= end ? 1 : 0);
+    controller.seek(t * controller.duration);
+  };
+
+  window.addEventListener('scroll', update, { passive: true });
+  window.addEventListener('resize', update);
+  update();
+
+  return () => {
+    window.removeEventListener('scroll', update);
+    window.removeEventListener('resize', update);
+  };
+}
+
+/** Element travel through a viewport of height `viewportHeight`, clamped to 0..1. */
+export function scrollProgress(target: Element, viewportHeight: number): number {
+  const rect = target.getBoundingClientRect();
+  const travel = viewportHeight + rect.height;
+  if (travel <= 0) return 0;
+  return clamp01((viewportHeight - rect.top) / travel);
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
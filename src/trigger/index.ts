@@ -1,2 +1,17 @@
 export { trigger } from './trigger';
 export { createPlayback } from './playback';
+export { createScenePlayback } from './scenePlayback';
+export {
+  bindTriggeredPlayback,
+  bindCanvasTriggeredPlayback,
+  resolveTriggerTargets,
+  attachTriggerDriver,
+  hoverDriver,
+  clickDriver,
+  appearDriver,
+  scrollDriver,
+  scrollProgress,
+  createTriggeredPlaybacks,
+  sceneTimelines,
+  isDrivenTrigger,
+} from './drivers';
@@ -7,6 +7,8 @@ import type {
   PlaybackEventHandler,
   TriggerBinding,
   GradientDef,
+  LoopDirection,
+  TimelineMarker,
 } from '../types';
 import { getActorStateAtTime, type ActorState } from '../timeline/interpolate';
 
@@ -30,15 +32,95 @@ interface PlaybackOptions {
 export function createPlayback(options: PlaybackOptions): PlaybackController {
   const { timeline: tl, trigger: triggerBinding, gradients, onUpdate, onComplete, initialRate } = options;
 
+  return createPlaybackClock({
+    duration: () => tl.duration,
+    loop: resolveLoop(triggerBinding),
+    initialRate,
+    markers: () => tl.markers ?? [],
+    render: (timeMs) => {
+      const actorState = getActorStateAtTime(tl, timeMs, { gradients });
+      onUpdate?.(actorState, timeMs);
+    },
+    onComplete,
+  });
+}
+
+// ─── Shared clock ────────────────────────────────────────────────────────────
+
+/** Loop behaviour resolved from a `loop` trigger (or a single pass otherwise). */
+export interface LoopSettings {
+  iterations: number;
+  direction: LoopDirection;
+  delay: number;
+}
+
+export interface PlaybackClockOptions {
+  /** Natural (unstretched) duration in ms — read on every frame so it may change; `Infinity` never ends */
+  duration: () => number;
+  loop: LoopSettings;
+  /** Initial playback rate (default: 1) */
+  initialRate?: number;
+  /** Render the frame at `timeMs` in natural-duration space */
+  render: (timeMs: number) => void;
+  /** Markers on the natural-duration clock, sorted by `at` — read whenever needed so they may change */
+  markers?: () => ClockMarker[];
+  onComplete?: () => void;
+}
+
+/** A marker placed on a playback clock (natural-duration ms) */
+export interface ClockMarker extends TimelineMarker {
+  /** Timeline the marker came from, when the clock drives several */
+  timelineId?: string;
+}
+
+/** Resolve loop settings from a trigger binding. Non-loop triggers play once. */
+export function resolveLoop(triggerBinding?: TriggerBinding): LoopSettings {
+  const cfg = triggerBinding?.config;
+  if (cfg?.type !== 'loop') {
+    return { iterations: 1, direction: 'normal', delay: 0 };
+  }
+  return {
+    iterations: cfg.iterations ?? Infinity,
+    direction: cfg.direction ?? 'normal',
+    delay: cfg.delay ?? 0,
+  };
+}
+
+/**
+ * The rAF clock behind every PlaybackController.
+ *
+ * Owns play state, direction, rate, looping and time stretching, and hands
+ * the mapped time to `render` — it knows nothing about timelines itself.
+ *
+ * Every step of the playhead emits a `'marker'` event for each marker it
+ * passes, in the order passed: a marker fires when the step ends on it,
+ * and when a step starts on it right after a jump (`seek`, a fresh start or
+ * a loop wrap). However large the frame delta, each marker in the step
+ * fires once.
+ */
+export function createPlaybackClock(options: PlaybackClockOptions): PlaybackController {
+  const { duration: naturalDuration, render, onComplete, initialRate } = options;
+  const markers = options.markers ?? (() => []);
+  const { iterations: loopIterations, direction: loopDirection, delay: loopDelay } = options.loop;
+
   let state: PlaybackState = 'idle';
   let currentTime = 0;
   let direction: 1 | -1 = 1;
   let _playbackRate = initialRate ?? 1;
-  let _totalDuration = tl.duration;
+  /** Stretched duration — `null` follows the natural duration */
+  let _stretchedDuration: number | null = null;
   let rafId: number | null = null;
   let lastFrameTime: number | null = null;
   let iterationCount = 0;
   let hasStarted = false;
+  /** Where `playTo` pauses the playhead (stretched ms), or null */
+  let stopAt: number | null = null;
+  /** Whether markers exactly at the playhead fire on the next step — true right after a jump */
+  let fromInclusive = false;
+
+  function totalDuration(): number {
+    return _stretchedDuration ?? naturalDuration();
+  }
 
   // Event system
   const eventHandlers = new Map<PlaybackEventType, Set<PlaybackEventHandler>>();
@@ -46,30 +128,88 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
   function emit(type: PlaybackEventType, extra?: Partial<PlaybackEvent>): void {
     const handlers = eventHandlers.get(type);
     if (!handlers || handlers.size === 0) return;
+    const total = totalDuration();
     const event: PlaybackEvent = {
       type,
       currentTime,
-      progress: _totalDuration > 0 ? currentTime / _totalDuration : 0,
+      progress: total > 0 ? currentTime / total : 0,
       playbackRate: _playbackRate,
       ...extra,
     };
     handlers.forEach((h) => h(event));
   }
 
-  // Trigger config
-  const triggerType = triggerBinding?.config.type ?? 'manual';
-  const loopIterations =
-    triggerType === 'loop' && triggerBinding?.config.type === 'loop'
-      ? triggerBinding.config.iterations ?? Infinity
-      : 1;
-  const loopDirection =
-    triggerType === 'loop' && triggerBinding?.config.type === 'loop'
-      ? triggerBinding.config.direction ?? 'normal'
-      : 'normal';
-  const loopDelay =
-    triggerType === 'loop' && triggerBinding?.config.type === 'loop'
-      ? triggerBinding.config.delay ?? 0
-      : 0;
+  /** Map the (possibly stretched) current time onto the natural duration */
+  function mappedTime(): number {
+    return toNatural(currentTime);
+  }
+
+  function toNatural(timeMs: number): number {
+    const natural = naturalDuration();
+    return Math.min(timeMs * timeScale(natural), natural);
+  }
+
+  /** Natural ms per stretched ms — 1 when not stretched, so endless clocks map too */
+  function timeScale(natural: number): number {
+    const total = totalDuration();
+    if (total === natural) return 1;
+    return total > 0 ? natural / total : 0;
+  }
+
+  /** A time in ms or a marker label as a playhead position (stretched ms) */
+  function resolveTime(time: number | string): number {
+    const total = totalDuration();
+    let timeMs = time;
+    if (typeof time === 'string') {
+      const marker = markers().find((m) => m.label === time);
+      if (!marker) throw new Error(`motion-svg: Unknown marker "${time}".`);
+      const scale = timeScale(naturalDuration());
+      timeMs = scale > 0 ? marker.at / scale : 0;
+    }
+    return Math.max(0, Math.min(timeMs as number, total));
+  }
+
+  /** Emit 'marker' for each marker the playhead passed stepping from `from` to `to` (stretched ms) */
+  function crossMarkers(from: number, to: number): void {
+    const inclusive = fromInclusive;
+    fromInclusive = false;
+    if (from === to && !inclusive) return;
+    const list = markers();
+    if (list.length === 0) return;
+
+    const a = toNatural(from);
+    const b = toNatural(to);
+    const forward = b > a || (b === a && direction === 1);
+    const passed = list.filter((m) => (forward
+      ? (m.at > a || (inclusive && m.at === a)) && m.at <= b
+      : (m.at < a || (inclusive && m.at === a)) && m.at >= b));
+    if (!forward) passed.reverse();
+    for (const { label, at, timelineId } of passed) {
+      emit('marker', { marker: { label, at }, ...(timelineId ? { timelineId } : {}) });
+    }
+  }
+
+  /** Start the rAF loop in the current direction, emitting 'start' when coming from idle */
+  function startTicking(): void {
+    const wasIdle = state === 'idle' || state === 'finished';
+    if (state === 'finished') iterationCount = 0;
+    // A fresh start fires the markers at its first position
+    if (state === 'idle') fromInclusive = true;
+    if (rafId !== null) {
+      cancelAnimationFrame(rafId);
+      rafId = null;
+    }
+    state = 'playing';
+    lastFrameTime = null;
+
+    if (!hasStarted || wasIdle) {
+      hasStarted = true;
+      emit('start');
+    }
+    emit('play');
+
+    rafId = requestAnimationFrame(tick);
+  }
 
   function tick(now: number) {
     if (state !== 'playing') return;
@@ -82,15 +222,30 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
     const rawDelta = now - lastFrameTime;
     const delta = rawDelta * direction * Math.abs(_playbackRate);
     lastFrameTime = now;
+    const previousTime = currentTime;
     currentTime += delta;
 
-    // Time stretching: map currentTime onto the real timeline duration
-    const timeScale = tl.duration / _totalDuration;
+    const total = totalDuration();
+
+    // Reached the `playTo` target
+    if (stopAt !== null && (direction === 1 ? currentTime >= stopAt : currentTime <= stopAt)) {
+      currentTime = stopAt;
+      stopAt = null;
+      render(mappedTime());
+      crossMarkers(previousTime, currentTime);
+      emit('frame');
+      state = 'paused';
+      rafId = null;
+      lastFrameTime = null;
+      emit('pause');
+      return;
+    }
 
     // Check upper bound
-    if (currentTime >= _totalDuration) {
-      currentTime = _totalDuration;
-      emitUpdate(tl.duration);
+    if (currentTime >= total) {
+      currentTime = total;
+      render(naturalDuration());
+      crossMarkers(previousTime, total);
       emit('frame');
       iterationCount++;
 
@@ -106,12 +261,13 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
       // Handle loop direction
       if (loopDirection === 'alternate') {
         direction = -1;
-        currentTime = _totalDuration;
+        currentTime = total;
       } else if (loopDirection === 'reverse') {
-        currentTime = _totalDuration;
+        currentTime = total;
         direction = -1;
       } else {
         currentTime = 0;
+        fromInclusive = true;
       }
 
       if (loopDelay > 0) {
@@ -127,7 +283,8 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
       }
     } else if (currentTime <= 0) {
       currentTime = 0;
-      emitUpdate(0);
+      render(0);
+      crossMarkers(previousTime, 0);
       emit('frame');
       iterationCount++;
 
@@ -143,39 +300,30 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
       if (loopDirection === 'alternate') {
         direction = 1;
         currentTime = 0;
+      } else if (loopDirection === 'reverse') {
+        // Every pass after the first plays backward from the end
+        currentTime = total;
+        fromInclusive = true;
       }
     } else {
-      const mappedTime = Math.min(currentTime * timeScale, tl.duration);
-      emitUpdate(mappedTime);
+      render(mappedTime());
+      crossMarkers(previousTime, currentTime);
       emit('frame');
     }
 
     rafId = requestAnimationFrame(tick);
   }
 
-  function emitUpdate(timeMs: number) {
-    const actorState = getActorStateAtTime(tl, timeMs, { gradients });
-    onUpdate?.(actorState, timeMs);
-  }
-
   const controller: PlaybackController = {
     play() {
-      const wasIdle = state === 'idle' || state === 'finished';
+      // play() always runs forward — restart from 0 whichever end we stopped at
       if (state === 'finished') {
-        currentTime = direction === 1 ? 0 : _totalDuration;
-        iterationCount = 0;
+        currentTime = 0;
+        fromInclusive = true;
       }
-      state = 'playing';
       direction = 1;
-      lastFrameTime = null;
-
-      if (!hasStarted || wasIdle) {
-        hasStarted = true;
-        emit('start');
-      }
-      emit('play');
-
-      rafId = requestAnimationFrame(tick);
+      stopAt = null;
+      startTicking();
     },
 
     pause() {
@@ -194,24 +342,40 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
       direction = 1;
       iterationCount = 0;
       hasStarted = false;
+      stopAt = null;
+      fromInclusive = false;
       if (rafId !== null) {
         cancelAnimationFrame(rafId);
         rafId = null;
       }
       lastFrameTime = null;
-      emitUpdate(0);
+      render(0);
       emit('stop');
     },
 
-    seek(timeMs: number) {
-      currentTime = Math.max(0, Math.min(timeMs, _totalDuration));
-      const timeScale = tl.duration / _totalDuration;
-      emitUpdate(Math.min(currentTime * timeScale, tl.duration));
+    seek(time: number | string) {
+      currentTime = resolveTime(time);
+      fromInclusive = true;
+      render(mappedTime());
       emit('seek');
     },
 
+    playTo(time: number | string) {
+      const target = resolveTime(time);
+      direction = target >= currentTime ? 1 : -1;
+      stopAt = target;
+      startTicking();
+    },
+
+    playRange(from: number | string, to: number | string) {
+      const target = resolveTime(to);
+      controller.seek(from);
+      controller.playTo(target);
+    },
+
     reverse() {
       direction = direction === 1 ? -1 : 1;
+      stopAt = null;
       if (state !== 'playing') {
         state = 'playing';
         lastFrameTime = null;
@@ -229,11 +393,12 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
     },
 
     get duration() {
-      return _totalDuration;
+      return totalDuration();
     },
 
     get progress() {
-      return _totalDuration > 0 ? currentTime / _totalDuration : 0;
+      const total = totalDuration();
+      return total > 0 ? currentTime / total : 0;
     },
 
     get playbackRate() {
@@ -245,13 +410,14 @@ export function createPlayback(options: PlaybackOptions): PlaybackController {
     },
 
     get totalDuration() {
-      return _totalDuration;
+      return totalDuration();
     },
 
     set totalDuration(d: number) {
-      const progress = _totalDuration > 0 ? currentTime / _totalDuration : 0;
-      _totalDuration = Math.max(0, d);
-      currentTime = progress * _totalDuration;
+      const total = totalDuration();
+      const progress = total > 0 ? currentTime / total : 0;
+      _stretchedDuration = Math.max(0, d);
+      currentTime = progress * _stretchedDuration;
     },
 
     on(type: PlaybackEventType, handler: PlaybackEventHandler) {
@@ -0,0 +1,228 @@
+import type {
+  Composition,
+  GradientDef,
+  Scene,
+  Timeline,
+  TriggerBinding,
+  ScenePlaybackController,
+} from '../types';
+import { getActorStateAtTime, type ActorState } from '../timeline/interpolate';
+import { createPlaybackClock, resolveLoop, type ClockMarker, type LoopSettings } from './playback';
+
+/** The parts of an imported bundle (or a resolved variant) a scene clock needs. */
+export interface ScenePlaybackSource {
+  scene: Pick<Scene, 'gradients'>;
+  timelines: Timeline[];
+  triggers: TriggerBinding[];
+  /** Places the timelines on the scene clock (see `composition`) */
+  composition?: Composition;
+}
+
+export interface ScenePlaybackOptions {
+  /** Start offset per timeline ID on the scene clock (ms, default: from the composition, or 0) */
+  offsets?: Record<string, number>;
+  /** Receives every actor's state for the frame, keyed by actor ID */
+  onUpdate?: (states: Record<string, ActorState>, timeMs: number) => void;
+  onComplete?: () => void;
+  /** Initial playback rate (default: 1) */
+  initialRate?: number;
+}
+
+/**
+ * Create a single playback controller that drives every timeline of a scene.
+ *
+ * One rAF clock runs in scene time; on each tick every timeline is evaluated
+ * at `sceneTime - offset` (held at its first/last frame outside its range),
+ * so timelines can never drift apart and `seek`/`totalDuration` act on the
+ * whole scene at once.
+ *
+ * A `loop` trigger loops its own timeline inside the scene: the timeline
+ * repeats from its offset, with its own iterations, direction and delay,
+ * while the others play once. Only when every timeline loops alike — same
+ * settings, duration and offset — does the shared clock itself loop.
+ *
+ * The scene duration is the latest end of its timelines — `offset +
+ * duration`, or the end of the last pass for looping ones. A timeline that
+ * loops forever in a scene that doesn't makes the scene endless.
+ *
+ * Markers of every timeline sit on the scene clock at `offset + at`, and
+ * their 'marker' events carry the `timelineId`. When timelines share a
+ * label, `seek`/`playTo` use the earliest on the clock.
+ *
+ * A `composition` on the source supplies the offsets, and its labels are
+ * markers of the scene clock without a `timelineId`.
+ */
+export function createScenePlayback(
+  source: ScenePlaybackSource,
+  options?: ScenePlaybackOptions,
+): ScenePlaybackController {
+  const { onUpdate, onComplete, initialRate } = options ?? {};
+  const timelines = [...source.timelines];
+  const gradients = source.scene.gradients;
+
+  const offsets = new Map<string, number>();
+  for (const tl of timelines) {
+    offsets.set(tl.id, Math.max(0, options?.offsets?.[tl.id] ?? source.composition?.offsets[tl.id] ?? 0));
+  }
+
+  const { timelines: loops, clock: clockLoop } = resolveSceneLoops(
+    timelines,
+    source.triggers,
+    (id) => offsets.get(id) ?? 0,
+  );
+  // Timelines loop on their own unless the whole clock loops
+  const loopOf = (id: string) => (clockLoop ? undefined : loops.get(id));
+
+  const labels = source.composition?.markers ?? [];
+
+  function sceneDuration(): number {
+    return Math.max(
+      0,
+      ...timelines.map((tl) => (offsets.get(tl.id) ?? 0) + loopSpan(tl.duration, loopOf(tl.id))),
+      ...labels.map((m) => m.at),
+    );
+  }
+
+  function sceneMarkers(): ClockMarker[] {
+    return [
+      ...labels.map((m) => ({ label: m.label, at: m.at })),
+      ...timelines.flatMap((tl) => (tl.markers ?? []).map((m) => ({
+        label: m.label,
+        at: (offsets.get(tl.id) ?? 0) + m.at,
+        timelineId: tl.id,
+      }))),
+    ].sort((a, b) => a.at - b.at);
+  }
+
+  function render(timeMs: number) {
+    onUpdate?.(getSceneStates(timelines, timeMs, (id) => offsets.get(id) ?? 0, gradients, loopOf), timeMs);
+  }
+
+  const controller = createPlaybackClock({
+    duration: sceneDuration,
+    loop: clockLoop ?? resolveLoop(),
+    initialRate,
+    render,
+    markers: sceneMarkers,
+    onComplete,
+  });
+
+  return Object.assign(controller, {
+    timelines,
+
+    getOffset(timelineId: string): number {
+      return offsets.get(timelineId) ?? 0;
+    },
+
+    setOffset(timelineId: string, offsetMs: number): void {
+      if (!offsets.has(timelineId)) {
+        throw new Error(`motion-svg: scene playback has no timeline "${timelineId}".`);
+      }
+      offsets.set(timelineId, Math.max(0, offsetMs));
+    },
+  });
+}
+
+/**
+ * Every actor's state at `timeMs` on a scene clock, keyed by actor ID.
+ *
+ * Timelines are held at their first/last frame outside their range, and
+ * those with loop settings from `loopOf` repeat inside it. When an actor
+ * has several timelines, the one that started last drives it (the later
+ * in the list on a tie); before any has started, the one that starts first.
+ */
+export function getSceneStates(
+  timelines: Timeline[],
+  timeMs: number,
+  offsetOf: (timelineId: string) => number,
+  gradients?: GradientDef[],
+  loopOf?: (timelineId: string) => LoopSettings | undefined,
+): Record<string, ActorState> {
+  const current = new Map<string, Timeline>();
+  for (const tl of timelines) {
+    const other = current.get(tl.actorId);
+    if (!other) {
+      current.set(tl.actorId, tl);
+      continue;
+    }
+    const start = offsetOf(tl.id);
+    const otherStart = offsetOf(other.id);
+    const wins = start <= timeMs
+      ? otherStart > timeMs || otherStart <= start
+      : otherStart > timeMs && start < otherStart;
+    if (wins) current.set(tl.actorId, tl);
+  }
+  const states: Record<string, ActorState> = {};
+  for (const [actorId, tl] of current) {
+    const local = loopedTime(tl.duration, loopOf?.(tl.id), timeMs - offsetOf(tl.id));
+    states[actorId] = getActorStateAtTime(tl, local, { gradients });
+  }
+  return states;
+}
+
+/** How the `loop` triggers of a scene loop its timelines */
+export interface SceneLoops {
+  /** Loop settings per timeline ID, from the first `loop` trigger of each timeline */
+  timelines: Map<string, LoopSettings>;
+  /** Set when every timeline loops alike, so the shared clock loops instead */
+  clock?: LoopSettings;
+}
+
+/**
+ * Resolve the `loop` triggers of a scene's timelines. The clock loops only
+ * when that looks the same as looping each timeline: every timeline has a
+ * loop with the same settings, duration and offset.
+ */
+export function resolveSceneLoops(
+  timelines: Timeline[],
+  triggers: TriggerBinding[],
+  offsetOf: (timelineId: string) => number,
+): SceneLoops {
+  const ids = new Set(timelines.map((tl) => tl.id));
+  const loops = new Map<string, LoopSettings>();
+  for (const binding of triggers) {
+    if (binding.config.type === 'loop' && ids.has(binding.timelineId) && !loops.has(binding.timelineId)) {
+      loops.set(binding.timelineId, resolveLoop(binding));
+    }
+  }
+
+  const [first] = timelines;
+  const alike = (tl: Timeline) => {
+    const loop = loops.get(tl.id);
+    const lead = loops.get(first.id)!;
+    return !!loop
+      && loop.iterations === lead.iterations
+      && loop.direction === lead.direction
+      && loop.delay === lead.delay
+      && tl.duration === first.duration
+      && offsetOf(tl.id) === offsetOf(first.id);
+  };
+  const clock = first && loops.has(first.id) && timelines.every(alike) ? loops.get(first.id) : undefined;
+  return { timelines: loops, ...(clock ? { clock } : {}) };
+}
+
+/** Time from the start of the first pass to the end of the last one */
+export function loopSpan(duration: number, loop: LoopSettings | undefined): number {
+  if (!loop || loop.iterations <= 1 || duration <= 0) return duration;
+  if (loop.iterations === Infinity) return Infinity;
+  return loop.iterations * duration + (loop.iterations - 1) * loop.delay;
+}
+
+/**
+ * Where a timeline is `elapsed` ms after its start. Passes are separated by
+ * the loop delay, during which the timeline holds the end of its pass; as
+ * on a looping controller, the first pass runs forward, later passes of a
+ * `'reverse'` loop backward and odd passes of an `'alternate'` loop too.
+ */
+export function loopedTime(duration: number, loop: LoopSettings | undefined, elapsed: number): number {
+  if (elapsed <= 0) return 0;
+  if (!loop || loop.iterations <= 1 || duration <= 0) return Math.min(elapsed, duration);
+
+  const backward = (pass: number) =>
+    pass > 0 && (loop.direction === 'reverse' || (loop.direction === 'alternate' && pass % 2 === 1));
+  const span = loopSpan(duration, loop);
+  const period = duration + loop.delay;
+  const pass = elapsed >= span ? loop.iterations - 1 : Math.floor(elapsed / period);
+  const t = Math.min(elapsed - pass * period, duration);
+  return backward(pass) ? duration - t : t;
+}
@@ -16,6 +16,23 @@ export interface ViewBox {
 
 export type StrokeAlign = 'center' | 'inside' | 'outside';
 
+/** SVG `stroke-linejoin` */
+export type StrokeLinejoin = 'miter' | 'round' | 'bevel';
+
+/** SVG `stroke-linecap` */
+export type StrokeLinecap = 'butt' | 'round' | 'square';
+
+/** SVG `fill-rule` */
+export type FillRule = 'nonzero' | 'evenodd';
+
+/** Axis-aligned box, in the same x/y/w/h form as ViewBox */
+export interface Bounds {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
 export interface SvgPath {
   id: string;
   d: string;
@@ -24,10 +41,18 @@ export interface SvgPath {
   strokeWidth?: number;
   /** Stroke alignment: center (default SVG), inside, or outside the path */
   strokeAlign?: StrokeAlign;
+  strokeLinejoin?: StrokeLinejoin;
+  strokeLinecap?: StrokeLinecap;
+  strokeMiterlimit?: number;
+  fillRule?: FillRule;
   opacity?: number;
   transform?: string;
-  /** Bounding box computed from the path */
-  bounds?: { x: number; y: number; w: number; h: number };
+  /** Bounding box of the geometry in the path's own coordinates (before `transform`) */
+  bounds?: Bounds;
+  /** Id of the `<clipPath>` applied to the path or its nearest clipped ancestor (see `Scene.clips`) */
+  clipPath?: string;
+  /** Id of the `<mask>` applied to the path or its nearest masked ancestor (see `Scene.clips`) */
+  mask?: string;
 }
 
 export interface SvgGroup {
@@ -36,6 +61,78 @@ export interface SvgGroup {
   transform?: string;
 }
 
+/** How a mask is read: by the luminance of its content, or by its alpha only */
+export type MaskType = 'luminance' | 'alpha';
+
+/** A `<clipPath>` or `<mask>` definition */
+export interface SvgClip {
+  id: string;
+  type: 'clipPath' | 'mask';
+  /**
+   * Shapes of the clip or mask, in user space. Transforms of the definition
+   * and of groups inside it are folded into each path's `transform`.
+   */
+  paths: SvgPath[];
+  /** Masks only — defaults to `'luminance'` */
+  maskType?: MaskType;
+  /** Set when the content is relative to the clipped element's bounding box */
+  units?: 'objectBoundingBox';
+}
+
+export type TextAnchor = 'start' | 'middle' | 'end';
+
+/** A run of text inside an SvgText — a `<tspan>` or a bare text node */
+export interface SvgTextSpan {
+  text: string;
+  /** Absolute position of the run's first character */
+  x?: number;
+  y?: number;
+  /** Shift relative to where the previous run ended */
+  dx?: number;
+  dy?: number;
+  /** Style overrides — only set where the run differs from its text */
+  fill?: string;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: string;
+}
+
+/** A `<text>` element with its resolved font and paint */
+export interface SvgText {
+  id: string;
+  /** Whitespace-collapsed text content of all runs */
+  content: string;
+  /** Baseline anchor position */
+  x: number;
+  y: number;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: string;
+  textAnchor?: TextAnchor;
+  letterSpacing?: number;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+  transform?: string;
+  /** Runs with their own position or style — absent when the text is a single plain run */
+  spans?: SvgTextSpan[];
+}
+
+/**
+ * A `<use>` element expanded into concrete paths. The paths are regular
+ * entries of `Scene.paths`; this records which of them came from the instance.
+ */
+export interface SvgInstance {
+  id: string;
+  /** Id of the referenced element, without the leading `#` */
+  href: string;
+  /** Ids of the expanded paths, in paint order */
+  pathIds: string[];
+  /** Placement of the referenced content: the `<use>` transform followed by its x/y offset */
+  transform?: string;
+}
+
 export interface SvgMetadata {
   xmlns: string;
   width?: number;
@@ -51,6 +148,9 @@ export interface ColorEntry {
 
 export type ColorMap = Record<string, string>;
 
+/** Space colors are blended in: gamma-encoded sRGB, linear-light RGB, HSL, or the perceptual OKLab / OKLCH */
+export type ColorSpace = 'srgb' | 'linear-rgb' | 'hsl' | 'oklab' | 'oklch';
+
 // ─── Gradients ─────────────────────────────────────────────────────────────
 
 export interface GradientStop {
@@ -86,6 +186,40 @@ export interface RadialGradientDef {
 
 export type GradientDef = LinearGradientDef | RadialGradientDef;
 
+/** Overrides for one stop of an animated gradient, matched by index */
+export interface GradientStopKeyframe {
+  offset?: number;
+  color?: string;
+  opacity?: number;
+}
+
+/**
+ * Keyframe channel that animates a gradient's geometry and stops. Each
+ * field interpolates on its own; fields never set keep the value of the
+ * gradient being animated.
+ */
+export interface GradientKeyframe {
+  /** Id of the scene gradient to animate (default: the `url(#id)` of the fill or stroke) */
+  ref?: string;
+  /** Direction of a linear gradient in degrees (0 = left to right), turning around its midpoint */
+  angle?: number;
+  /** Linear gradient endpoints */
+  x1?: number;
+  y1?: number;
+  x2?: number;
+  y2?: number;
+  /** Radial gradient center, radius and focal point */
+  cx?: number;
+  cy?: number;
+  r?: number;
+  fx?: number;
+  fy?: number;
+  /** Per-stop offset, color and opacity; entries beyond the gradient's stops add stops */
+  stops?: GradientStopKeyframe[];
+  /** Replaces the gradient's `gradientTransform` (snaps) */
+  gradientTransform?: string;
+}
+
 // ─── Scene (parsed SVG) ────────────────────────────────────────────────────
 
 export interface Scene {
@@ -95,16 +229,102 @@ export interface Scene {
   colors: ColorMap;
   gradients: GradientDef[];
   metadata: SvgMetadata;
+  /** Expanded `<use>` instances, in document order */
+  instances?: SvgInstance[];
+  /** `<text>` elements in document order */
+  texts?: SvgText[];
+  /** `<clipPath>` and `<mask>` definitions — their paths are not part of `paths` */
+  clips?: SvgClip[];
+}
+
+// ─── Filters ────────────────────────────────────────────────────────────────
+
+/** Shadow offset by (dx, dy), blurred by `blur` (standard deviation) */
+export interface DropShadowFilter {
+  type: 'dropShadow';
+  dx: number;
+  dy: number;
+  blur: number;
+  color: string;
+  /** Shadow opacity 0..1 (default 1) */
+  opacity?: number;
+}
+
+/** Blurred, colored halo drawn behind the content */
+export interface GlowFilter {
+  type: 'glow';
+  blur: number;
+  color: string;
+  /** Glow opacity 0..1 (default 1) */
+  opacity?: number;
 }
 
+/** Multiplies color channels — 1 leaves colors unchanged, 0 is black */
+export interface BrightnessFilter {
+  type: 'brightness';
+  amount: number;
+}
+
+/** Color saturation — 1 leaves colors unchanged, 0 is grayscale */
+export interface SaturateFilter {
+  type: 'saturate';
+  amount: number;
+}
+
+/** Rotates hues by `angle` degrees */
+export interface HueRotateFilter {
+  type: 'hueRotate';
+  angle: number;
+}
+
+/** A 4×5 `feColorMatrix` in row-major order (20 values) */
+export interface ColorMatrixFilter {
+  type: 'colorMatrix';
+  values: number[];
+}
+
+/** One effect of an actor's filter stack — effects apply in list order */
+export type ActorFilter =
+  | DropShadowFilter
+  | GlowFilter
+  | BrightnessFilter
+  | SaturateFilter
+  | HueRotateFilter
+  | ColorMatrixFilter;
+
 // ─── Actor ──────────────────────────────────────────────────────────────────
 
+/** Named points on an actor's bounding box, plus the area centroid of its paths */
+export type OriginAnchor =
+  | 'center'
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right'
+  | 'centroid';
+
+/**
+ * Actor origin: an explicit point, a named anchor, or a fraction of the
+ * bounding box (`{ fx: 0.5, fy: 1 }` = bottom center).
+ */
+export type ActorOrigin = Point | OriginAnchor | { fx: number; fy: number };
+
 export interface ActorConfig {
   id: string;
   paths: SvgPath[];
-  origin: Point;
+  /** Text elements animated with the paths — an actor may hold only text */
+  texts?: SvgText[];
+  /** Transform origin — anchors are resolved from the paths' bounds when the actor is created */
+  origin: ActorOrigin;
   /** Z-order (higher = rendered on top). Defaults to 0. */
   z?: number;
+  /** Id of the actor that clips this one */
+  clipPath?: string;
+  /** Id of the actor that masks this one */
+  mask?: string;
+  /** How `mask` is read (default `'luminance'`) */
+  maskType?: MaskType;
+  /** Filter effects applied to the actor, in order */
+  filters?: ActorFilter[];
 }
 
 /** Shape type for actors created via the shape tool (undefined for imported SVG actors) */
@@ -114,6 +334,9 @@ export interface Actor {
   id: string;
   pathIds: string[];
   paths: SvgPath[];
+  /** Ids of the text elements in `texts` */
+  textIds?: string[];
+  texts?: SvgText[];
   origin: Point;
   position: Point;
   scale: number | Point;
@@ -123,6 +346,8 @@ export interface Actor {
   blurRadius: number;
   /** Backdrop/background blur radius (px) behind the actor — 0 = no blur */
   backdropBlur: number;
+  /** Filter effects applied to the actor, in order — keyframe `filters` override them */
+  filters?: ActorFilter[];
   /** Z-order — controls rendering/stacking order. Higher values draw on top. */
   z: number;
   /** Shape type — set for geometric shape actors created via shape tool */
@@ -135,6 +360,12 @@ export interface Actor {
   childIds?: string[];
   /** If this actor belongs to a group, the parent group actor ID */
   parentId?: string;
+  /** Id of an actor whose animated geometry clips this actor — that actor is not drawn itself */
+  clipPath?: string;
+  /** Id of an actor whose animated content masks this actor — that actor is not drawn itself */
+  mask?: string;
+  /** How `mask` is read (default `'luminance'`) */
+  maskType?: MaskType;
 }
 
 // ─── Keyframe & Timeline ────────────────────────────────────────────────────
@@ -173,6 +404,24 @@ export interface CubicBezierCurve {
 
 export type EasingCurve = EasingName | CubicBezierCurve;
 
+/**
+ * Move along an SVG path instead of in a straight line. Set on the keyframe
+ * that ends the movement; the actor's origin follows the path from `start`
+ * to `end` (fractions of its arc length) as the keyframe's `curve` progresses.
+ */
+export interface MotionPath {
+  /** SVG path `d` attribute, in scene coordinates */
+  d: string;
+  /** Progress along the path where the movement starts, 0..1 (default: 0) */
+  start?: number;
+  /** Progress along the path where the movement ends, 0..1 (default: 1) */
+  end?: number;
+  /** Rotate the actor to follow the path tangent (default: false) */
+  autoRotate?: boolean;
+  /** Degrees added to the tangent angle when auto-rotating (default: 0) */
+  rotateOffset?: number;
+}
+
 export interface Keyframe {
   /** Time in milliseconds */
   at: number;
@@ -188,18 +437,57 @@ export interface Keyframe {
   blurRadius?: number;
   /** Backdrop/background blur radius (px) behind the actor */
   backdropBlur?: number;
+  /**
+   * Filter stack — numeric parameters and colors interpolate between
+   * keyframes; an effect present on one side only fades in or out
+   */
+  filters?: ActorFilter[];
   /** Shape width in SVG units (shape actors only) */
   width?: number;
   /** Shape height in SVG units (shape actors only) */
   height?: number;
   /** SVG path `d` attribute — for morphing between different shapes */
   pathD?: string;
+  /** Start of the visible stroke, as a fraction of the path length (0..1) */
+  trimStart?: number;
+  /** End of the visible stroke, as a fraction of the path length (0..1) */
+  trimEnd?: number;
+  /** Shift of the visible stroke along the path (0..1 = one full turn) */
+  trimOffset?: number;
+  /** Reach this keyframe's position along a path — takes precedence over `position` */
+  motionPath?: MotionPath;
+  /** Font size of the actor's text, in SVG units */
+  fontSize?: number;
+  /** Extra space between characters of the actor's text, in SVG units */
+  letterSpacing?: number;
+  /** Fraction of the text's characters shown, typewriter-style (0..1) */
+  textReveal?: number;
+  /** Animate the fill gradient's geometry and stops */
+  fillGradient?: GradientKeyframe;
+  /** Animate the stroke gradient's geometry and stops */
+  strokeGradient?: GradientKeyframe;
+  /** Space colors blend in on the way to THIS keyframe (default: `'srgb'`) */
+  colorSpace?: ColorSpace;
   /** Easing curve to reach THIS keyframe from the previous one */
   curve?: EasingCurve;
 }
 
+/**
+ * A named point in time on a timeline. Playback emits a `'marker'` event
+ * whenever the playhead crosses it, and controllers accept its label
+ * wherever they take a time (`seek`, `playTo`, `playRange`).
+ */
+export interface TimelineMarker {
+  /** Name of the point — unique within its timeline */
+  label: string;
+  /** Time in ms from the start of the timeline, within its duration */
+  at: number;
+}
+
 export interface TimelineConfig {
   keyframes: Keyframe[];
+  /** Named points in time (see `TimelineMarker`) */
+  markers?: TimelineMarker[];
 }
 
 export interface Timeline {
@@ -207,6 +495,51 @@ export interface Timeline {
   actorId: string;
   keyframes: Keyframe[];
   duration: number;
+  /** Named points in time, sorted by `at` */
+  markers?: TimelineMarker[];
+}
+
+// ─── Composition ────────────────────────────────────────────────────────────
+
+/**
+ * Where an item starts on its composition's clock:
+ * - `800` — absolute time in ms
+ * - `'+=100'` / `'-=200'` — after the end of the previous item (a gap or an overlap)
+ * - `'<'`, `'<+=100'` — relative to the start of the previous item
+ * - `'>'`, `'>-=50'` — relative to the end of the previous item
+ * - `'intro'`, `'intro+=100'` — relative to a label placed earlier
+ */
+export type CompositionPosition = number | string;
+
+/** One entry of a composition: a timeline, a nested composition, or a bare label. */
+export interface CompositionItem {
+  timeline?: Timeline;
+  composition?: Composition;
+  /** Start of the item (default: the end of the previous item) */
+  at?: CompositionPosition;
+  /** Name the item's start so later items can be placed relative to it */
+  label?: string;
+}
+
+export interface CompositionConfig {
+  items: CompositionItem[];
+}
+
+/**
+ * Timelines of any actors placed on one clock (see `composition`). Nested
+ * compositions are flattened into `timelines` and `offsets`; `items` keeps
+ * the structure as authored.
+ */
+export interface Composition {
+  id: string;
+  items: CompositionItem[];
+  /** Every timeline of the composition, nested ones included, in item order */
+  timelines: Timeline[];
+  /** Start of each timeline on the composition clock in ms, keyed by timeline ID */
+  offsets: Record<string, number>;
+  /** Labels on the composition clock, nested ones included, sorted by `at` */
+  markers: TimelineMarker[];
+  duration: number;
 }
 
 // ─── Trigger ────────────────────────────────────────────────────────────────
@@ -273,11 +606,14 @@ export interface BundleScene {
   paths: SvgPath[];
   colors: ColorMap;
   gradients?: GradientDef[];
+  texts?: SvgText[];
+  clips?: SvgClip[];
 }
 
 export interface BundleActor {
   id: string;
   pathIds: string[];
+  textIds?: string[];
   origin: Point;
   /** Z-order for stacking */
   z?: number;
@@ -291,11 +627,18 @@ export interface BundleActor {
   childIds?: string[];
   /** Parent group ID */
   parentId?: string;
+  /** Id of the actor clipping this one */
+  clipPath?: string;
+  /** Id of the actor masking this one */
+  mask?: string;
+  maskType?: MaskType;
+  filters?: ActorFilter[];
 }
 
 export interface BundleTimeline {
   actorId: string;
   keyframes: Keyframe[];
+  markers?: TimelineMarker[];
 }
 
 export interface BundleTrigger {
@@ -324,6 +667,20 @@ export interface BundleVariant {
   triggerIndices: number[];
 }
 
+/** A composition item — exactly one of `timelineIdx`, `composition` or a bare `label` */
+export interface BundleCompositionItem {
+  /** Index into Bundle.timelines[] */
+  timelineIdx?: number;
+  composition?: BundleComposition;
+  at?: CompositionPosition;
+  label?: string;
+}
+
+/** A composition as authored; offsets are resolved again on import */
+export interface BundleComposition {
+  items: BundleCompositionItem[];
+}
+
 export interface Bundle {
   version: string;
   scene: BundleScene;
@@ -332,6 +689,8 @@ export interface Bundle {
   triggers: BundleTrigger[];
   /** Named variants — each defines a subset of actors/timelines/triggers */
   variants?: BundleVariant[];
+  /** Places the timelines on the scene clock */
+  composition?: BundleComposition;
 }
 
 // ─── Export config ──────────────────────────────────────────────────────────
@@ -343,6 +702,8 @@ export interface ExportConfig {
   triggers?: TriggerBinding[];
   /** Named variants to include in the bundle */
   variants?: BundleVariant[];
+  /** Start offsets of the timelines — every timeline it holds must be in `timelines` */
+  composition?: Composition;
 }
 
 // ─── Playback state ─────────────────────────────────────────────────────────
@@ -358,7 +719,8 @@ export type PlaybackEventType =
   | 'reverse'
   | 'frame'
   | 'complete'
-  | 'repeat';
+  | 'repeat'
+  | 'marker';
 
 export interface PlaybackEvent {
   type: PlaybackEventType;
@@ -368,6 +730,10 @@ export interface PlaybackEvent {
   playbackRate: number;
   /** Current loop iteration (present on 'repeat' events) */
   iteration?: number;
+  /** The marker crossed, with `at` on this controller's clock (present on 'marker' events) */
+  marker?: TimelineMarker;
+  /** Timeline the marker belongs to (present on 'marker' events of a scene clock) */
+  timelineId?: string;
 }
 
 export type PlaybackEventHandler = (event: PlaybackEvent) => void;
@@ -376,7 +742,12 @@ export interface PlaybackController {
   play(): void;
   pause(): void;
   stop(): void;
-  seek(timeMs: number): void;
+  /** Jump to a time in ms, or to a marker by label — markers in between do not fire */
+  seek(time: number | string): void;
+  /** Play forward or backward from the current time to a time or marker, then pause there */
+  playTo(time: number | string): void;
+  /** Jump to `from` and play to `to` (backward when `to` is earlier), then pause there */
+  playRange(from: number | string, to: number | string): void;
   reverse(): void;
   readonly state: PlaybackState;
   readonly currentTime: number;
@@ -392,3 +763,20 @@ export interface PlaybackController {
   /** Unsubscribe from a playback event. */
   off(type: PlaybackEventType, handler: PlaybackEventHandler): void;
 }
+
+/** One clock driving every timeline of a scene (see `createScenePlayback`). */
+export interface ScenePlaybackController extends PlaybackController {
+  /** Timelines driven by this clock, in evaluation order */
+  readonly timelines: Timeline[];
+  /** Start offset of a timeline on the scene clock in ms (0 if unknown) */
+  getOffset(timelineId: string): number;
+  /** Move a timeline along the scene clock — the scene duration follows */
+  setOffset(timelineId: string, offsetMs: number): void;
+}
+
+/** A timeline played by its own trigger rather than by the scene clock. */
+export interface TriggeredPlayback {
+  binding: TriggerBinding;
+  timeline: Timeline;
+  controller: PlaybackController;
+}
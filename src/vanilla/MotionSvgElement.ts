@@ -1,7 +1,26 @@
 import { importBundle, getVariant, type ImportedBundle } from '../bundle/importBundle';
-import { createPlayback } from '../trigger/playback';
-import type { PlaybackController, TriggerBinding, Timeline, Actor } from '../types';
+import { createScenePlayback } from '../trigger/scenePlayback';
+import {
+  bindTriggeredPlayback, bindCanvasTriggeredPlayback, createTriggeredPlaybacks, sceneTimelines,
+} from '../trigger/drivers';
+import type {
+  PlaybackController,
+  ScenePlaybackController,
+  TriggeredPlayback,
+  TriggerBinding,
+  Timeline,
+  Actor,
+  ActorFilter,
+  GradientDef,
+  SvgPath,
+  SvgText,
+} from '../types';
 import type { ActorState } from '../timeline/interpolate';
+import { revealRuns } from '../text/textLayout';
+import { getClipSourceIds, getClipShapes } from '../actor/clip';
+import { filterPrimitives, FILTER_REGION, type FilterPrimitive } from '../filter/filterStack';
+import { actorFrame, pathFrame, textFrame, type PathFrame } from '../render/actorFrame';
+import { CanvasRenderer, fitCanvas } from '../canvas/CanvasRenderer';
 
 /**
  * `<motion-svg>` Web Component — framework-free SVG animation player.
@@ -10,6 +29,8 @@ import type { ActorState } from '../timeline/interpolate';
  *   src      — URL to a .motionsvg.json file (fetched automatically)
  *   data     — Inline JSON string of the bundle
  *   variant  — Name of the variant to activate
+ *   renderer — 'svg' (default) or 'canvas' to draw on a <canvas> instead of
+ *              building SVG elements, for scenes with many actors
  *   autoplay — If present, starts animation on load
  *   width    — CSS width
  *   height   — CSS height
@@ -17,10 +38,18 @@ import type { ActorState } from '../timeline/interpolate';
  * JS Properties:
  *   .bundle     — Set a Bundle object or JSON string directly
  *   .variant    — Get/set current variant name
+ *   .renderer   — Get/set the renderer ('svg' | 'canvas')
+ *   .playback   — The ScenePlaybackController driving the scene clock
  *   .controllers — Exposed PlaybackController[] for advanced control
  *
+ * Timelines bound to `hover` / `click` triggers play on pointer events over
+ * their actor (or parent group, see `TriggerConfig.target`), and `scroll` /
+ * `appear` timelines follow the element's position in the page — all of them
+ * independently of the scene clock. On a canvas, pointer triggers hit-test
+ * the drawn actors instead.
+ *
  * Methods:
- *   .play()  .pause()  .stop()  .seek(ms)
+ *   .play()  .pause()  .stop()  .seek(ms | 'marker')
  *
  * Events:
  *   motionsvg:ready    — Bundle loaded and rendered
@@ -28,13 +57,19 @@ import type { ActorState } from '../timeline/interpolate';
  *   motionsvg:complete — All animations finished
  */
 export class MotionSvgElement extends HTMLElement {
-  static observedAttributes = ['src', 'data', 'variant', 'autoplay', 'width', 'height'];
+  static observedAttributes = ['src', 'data', 'variant', 'renderer', 'autoplay', 'width', 'height'];
 
   private _imported: ImportedBundle | null = null;
-  private _controllers: PlaybackController[] = [];
+  private _playback: ScenePlaybackController | null = null;
+  private _triggered: TriggeredPlayback[] = [];
+  private _driverCleanups: (() => void)[] = [];
   private _actorStates: Record<string, ActorState> = {};
   private _svgEl: SVGSVGElement | null = null;
   private _variant: string | undefined;
+  private _canvasEl: HTMLCanvasElement | null = null;
+  private _canvasRenderer: CanvasRenderer | null = null;
+  private _resizeObserver: ResizeObserver | null = null;
+  private _drawQueued = false;
 
   // ── Lifecycle ──
 
@@ -44,8 +79,7 @@ export class MotionSvgElement extends HTMLElement {
   }
 
   disconnectedCallback() {
-    this._controllers.forEach((c) => c.stop());
-    this._controllers = [];
+    this._teardown();
   }
 
   attributeChangedCallback(name: string, _old: string | null, _new: string | null) {
@@ -54,6 +88,7 @@ export class MotionSvgElement extends HTMLElement {
       this._variant = _new ?? undefined;
       this._rebuild();
     }
+    if (name === 'renderer') this._rebuild();
     if (name === 'width' || name === 'height') this._updateSize();
   }
 
@@ -75,25 +110,38 @@ export class MotionSvgElement extends HTMLElement {
     this._rebuild();
   }
 
+  get renderer(): 'svg' | 'canvas' {
+    return this.getAttribute('renderer') === 'canvas' ? 'canvas' : 'svg';
+  }
+
+  set renderer(v: 'svg' | 'canvas') {
+    this.setAttribute('renderer', v);
+  }
+
+  get playback(): ScenePlaybackController | null {
+    return this._playback;
+  }
+
   get controllers(): PlaybackController[] {
-    return this._controllers;
+    const triggered = this._triggered.map((tp) => tp.controller);
+    return this._playback ? [this._playback, ...triggered] : triggered;
   }
 
   play() {
-    this._controllers.forEach((c) => c.play());
+    this._playback?.play();
     this.dispatchEvent(new CustomEvent('motionsvg:play'));
   }
 
   pause() {
-    this._controllers.forEach((c) => c.pause());
+    this._playback?.pause();
   }
 
   stop() {
-    this._controllers.forEach((c) => c.stop());
+    this._playback?.stop();
   }
 
-  seek(ms: number) {
-    this._controllers.forEach((c) => c.seek(ms));
+  seek(time: number | string) {
+    this._playback?.seek(time);
   }
 
   // ── Internal ──
@@ -127,9 +175,19 @@ export class MotionSvgElement extends HTMLElement {
     }
   }
 
+  private _teardown() {
+    this._driverCleanups.forEach((cleanup) => cleanup());
+    this._driverCleanups = [];
+    this._triggered.forEach((tp) => tp.controller.stop());
+    this._triggered = [];
+    this._playback?.stop();
+    this._playback = null;
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+  }
+
   private _rebuild() {
-    this._controllers.forEach((c) => c.stop());
-    this._controllers = [];
+    this._teardown();
     if (!this._imported || !this.shadowRoot) return;
 
     // Resolve variant
@@ -154,30 +212,47 @@ export class MotionSvgElement extends HTMLElement {
       triggers = this._imported.triggers;
     }
 
-    // Render SVG into shadow DOM
-    this._renderSvg(actors);
-
-    // Build controllers
-    this._controllers = timelines.map((tl) => {
-      const tb = triggers.find((t) => t.timelineId === tl.id);
-      return createPlayback({
-        timeline: tl,
-        trigger: tb,
-        gradients: this._imported!.scene.gradients,
-        onUpdate: (state) => {
-          this._actorStates[tl.actorId] = state;
-          this._applyState(tl.actorId, state);
+    // Render SVG or a canvas into shadow DOM
+    if (this.renderer === 'canvas') this._renderCanvas(actors);
+    else this._renderSvg(actors);
+
+    const { scene } = this._imported;
+
+    // Pointer- and page-driven triggers get their own controllers
+    this._triggered = createTriggeredPlaybacks({ scene, timelines, triggers }, (actorId, state) => {
+      this._setState(actorId, state);
+    });
+    const canvas = this._canvasEl;
+    if (canvas) {
+      const root = {
+        host: this,
+        canvas,
+        actors,
+        hitTest: (x: number, y: number) => this._canvasRenderer?.hitTest(x, y) ?? null,
+      };
+      this._driverCleanups = this._triggered.map((tp) => bindCanvasTriggeredPlayback(root, tp));
+    } else {
+      const root = { host: this, svg: this._svgEl!, actors };
+      this._driverCleanups = this._triggered.map((tp) => bindTriggeredPlayback(root, tp));
+    }
+
+    // One clock drives every remaining timeline so they stay in sync
+    this._playback = createScenePlayback(
+      {
+        scene,
+        timelines: sceneTimelines(timelines, this._triggered),
+        triggers,
+        composition: this._imported.composition,
+      },
+      {
+        onUpdate: (states) => {
+          for (const [actorId, state] of Object.entries(states)) this._setState(actorId, state);
         },
         onComplete: () => {
-          const allDone = this._controllers.every(
-            (c) => c.state === 'finished' || c.state === 'idle',
-          );
-          if (allDone) {
-            this.dispatchEvent(new CustomEvent('motionsvg:complete'));
-          }
+          this.dispatchEvent(new CustomEvent('motionsvg:complete'));
         },
-      });
-    });
+      },
+    );
   }
 
   private _renderSvg(actors: Actor[]) {
@@ -209,32 +284,222 @@ export class MotionSvgElement extends HTMLElement {
       svg.appendChild(this._createPathElement(p));
     }
 
-    // Actor groups
+    // Static text
+    const actorTextIds = new Set(actors.flatMap((a) => a.textIds ?? []));
+    for (const t of scene.texts ?? []) {
+      if (actorTextIds.has(t.id)) continue;
+      svg.appendChild(this._createTextElement(t));
+    }
+
+    // Actor groups — clip and mask sources are drawn only inside the defs of the actors they clip
+    const clipSources = getClipSourceIds(actors);
     for (const actor of actors) {
+      if (clipSources.has(actor.id)) continue;
       const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
       g.setAttribute('data-actor-id', actor.id);
       for (const p of actor.paths) {
         g.appendChild(this._createPathElement(p));
       }
-      svg.appendChild(g);
+      for (const t of actor.texts ?? []) {
+        g.appendChild(this._createTextElement(t));
+      }
+      svg.appendChild(this._wrapClipped(actor, actors, g));
     }
 
     this.shadowRoot.innerHTML = '';
     this.shadowRoot.appendChild(svg);
     this._svgEl = svg;
+    this._canvasEl = null;
+    this._canvasRenderer = null;
+
+    for (const actor of actors) {
+      if (actor.filters?.length) this._applyFilters(actor, actor.filters, 0);
+    }
   }
 
-  private _createPathElement(p: { id: string; d: string; fill?: string; stroke?: string; strokeWidth?: number; opacity?: number }) {
+  private _renderCanvas(actors: Actor[]) {
+    if (!this.shadowRoot || !this._imported) return;
+    const { scene } = this._imported;
+
+    const canvas = document.createElement('canvas');
+    canvas.style.width = this.getAttribute('width') || '100%';
+    canvas.style.height = this.getAttribute('height') || '100%';
+    canvas.style.display = 'block';
+
+    this.shadowRoot.innerHTML = '';
+    this.shadowRoot.appendChild(canvas);
+    this._svgEl = null;
+    this._canvasEl = canvas;
+    this._canvasRenderer = null;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      console.error('motion-svg: Canvas 2D context is not available');
+      return;
+    }
+    const { width, height } = fitCanvas(canvas, scene.viewBox);
+    const currentColor = typeof getComputedStyle !== 'undefined' ? getComputedStyle(this).color : undefined;
+    this._canvasRenderer = new CanvasRenderer(ctx, { scene, actors }, { width, height, currentColor });
+    this._canvasRenderer.render(this._actorStates);
+
+    // Keep the backing store at the laid-out size
+    if (typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(() => this._fitCanvas());
+      this._resizeObserver.observe(canvas);
+    }
+  }
+
+  private _fitCanvas() {
+    if (!this._canvasEl || !this._canvasRenderer || !this._imported) return;
+    const { width, height } = fitCanvas(this._canvasEl, this._imported.scene.viewBox);
+    if (width !== this._canvasRenderer.width || height !== this._canvasRenderer.height) {
+      this._canvasRenderer.resize(width, height);
+    }
+  }
+
+  /** Record an actor's state and show it — on a canvas, redraws are batched to one per frame */
+  private _setState(actorId: string, state: ActorState) {
+    this._actorStates[actorId] = state;
+    if (!this._canvasRenderer) {
+      this._applyState(actorId, state);
+      return;
+    }
+    if (this._drawQueued) return;
+    if (typeof requestAnimationFrame === 'undefined') {
+      this._canvasRenderer.render(this._actorStates);
+      return;
+    }
+    this._drawQueued = true;
+    requestAnimationFrame(() => {
+      this._drawQueued = false;
+      this._canvasRenderer?.render(this._actorStates);
+    });
+  }
+
+  private _createPathElement(p: SvgPath) {
     const el = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-    el.setAttribute('d', p.d);
-    if (p.fill) el.setAttribute('fill', p.fill);
-    if (p.stroke) el.setAttribute('stroke', p.stroke);
-    if (p.strokeWidth) el.setAttribute('stroke-width', String(p.strokeWidth));
-    if (p.opacity !== undefined) el.setAttribute('opacity', String(p.opacity));
+    this._applyPathFrame(el, pathFrame(p));
     return el;
   }
 
-  private _createGradientElement(grad: import('../types').GradientDef): SVGElement | null {
+  private _applyPathFrame(el: SVGElement, f: PathFrame) {
+    el.setAttribute('d', f.d);
+    el.setAttribute('fill', f.fill);
+    if (f.stroke) el.setAttribute('stroke', f.stroke);
+    if (f.strokeWidth !== undefined) el.setAttribute('stroke-width', String(f.strokeWidth));
+    if (f.strokeLinejoin) el.setAttribute('stroke-linejoin', f.strokeLinejoin);
+    if (f.strokeLinecap) el.setAttribute('stroke-linecap', f.strokeLinecap);
+    if (f.strokeMiterlimit !== undefined) el.setAttribute('stroke-miterlimit', String(f.strokeMiterlimit));
+    if (f.fillRule) el.setAttribute('fill-rule', f.fillRule);
+    if (f.dasharray) {
+      el.setAttribute('stroke-dasharray', f.dasharray);
+      el.setAttribute('stroke-dashoffset', String(f.dashoffset));
+    }
+    if (f.opacity !== undefined) el.setAttribute('opacity', String(f.opacity));
+    if (f.transform) el.setAttribute('transform', f.transform);
+  }
+
+  /** Wrap an actor group in a viewBox-space group carrying its clip path and mask */
+  private _wrapClipped(actor: Actor, actors: Actor[], g: SVGGElement): SVGElement {
+    const clipActor = actors.find((a) => a.id === actor.clipPath);
+    const maskActor = actors.find((a) => a.id === actor.mask);
+    if (!clipActor && !maskActor) return g;
+
+    const ns = 'http://www.w3.org/2000/svg';
+    const wrapper = document.createElementNS(ns, 'g');
+    const defs = document.createElementNS(ns, 'defs');
+    if (clipActor) {
+      const clip = document.createElementNS(ns, 'clipPath');
+      clip.setAttribute('id', `clip-${actor.id}`);
+      this._appendClipShapes(clip, clipActor);
+      defs.appendChild(clip);
+      wrapper.setAttribute('clip-path', `url(#clip-${actor.id})`);
+    }
+    if (maskActor) {
+      const mask = document.createElementNS(ns, 'mask');
+      mask.setAttribute('id', `mask-${actor.id}`);
+      mask.setAttribute('maskUnits', 'userSpaceOnUse');
+      mask.setAttribute('x', '-9999');
+      mask.setAttribute('y', '-9999');
+      mask.setAttribute('width', '99999');
+      mask.setAttribute('height', '99999');
+      mask.style.maskType = actor.maskType ?? 'luminance';
+      this._appendClipShapes(mask, maskActor);
+      defs.appendChild(mask);
+      wrapper.setAttribute('mask', `url(#mask-${actor.id})`);
+    }
+    wrapper.appendChild(defs);
+    wrapper.appendChild(g);
+    return wrapper;
+  }
+
+  private _appendClipShapes(parent: SVGElement, source: Actor) {
+    getClipShapes(source).forEach((s, i) => {
+      const el = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+      el.setAttribute('data-clip-source', source.id);
+      el.setAttribute('data-path-index', String(i));
+      el.setAttribute('d', s.d);
+      el.setAttribute('transform', s.transform);
+      el.setAttribute('opacity', String(s.opacity));
+      el.setAttribute('fill', s.fill ?? 'black');
+      if (s.stroke) el.setAttribute('stroke', s.stroke);
+      if (s.strokeWidth) el.setAttribute('stroke-width', String(s.strokeWidth));
+      parent.appendChild(el);
+    });
+  }
+
+  /** Move every copy of a clip or mask source to its current state */
+  private _updateClipShapes(source: Actor, state?: ActorState) {
+    const shapes = getClipShapes(source, state);
+    this._svgEl?.querySelectorAll(`[data-clip-source="${source.id}"]`).forEach((el) => {
+      const shape = shapes[Number(el.getAttribute('data-path-index'))];
+      if (!shape) return;
+      el.setAttribute('d', shape.d);
+      el.setAttribute('transform', shape.transform);
+      el.setAttribute('opacity', String(shape.opacity));
+      if (state?.fill) el.setAttribute('fill', state.fill);
+    });
+  }
+
+  private _createTextElement(t: SvgText) {
+    const el = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+    const frame = textFrame(t);
+    el.setAttribute('data-text-id', t.id);
+    el.setAttribute('x', String(t.x));
+    el.setAttribute('y', String(t.y));
+    el.setAttribute('fill', frame.fill);
+    if (frame.stroke) el.setAttribute('stroke', frame.stroke);
+    if (frame.strokeWidth) el.setAttribute('stroke-width', String(frame.strokeWidth));
+    if (t.fontFamily) el.setAttribute('font-family', t.fontFamily);
+    if (frame.fontSize !== undefined) el.setAttribute('font-size', String(frame.fontSize));
+    if (t.fontWeight) el.setAttribute('font-weight', t.fontWeight);
+    if (t.textAnchor) el.setAttribute('text-anchor', t.textAnchor);
+    if (frame.letterSpacing !== undefined) el.setAttribute('letter-spacing', String(frame.letterSpacing));
+    if (t.opacity !== undefined) el.setAttribute('opacity', String(t.opacity));
+    if (t.transform) el.setAttribute('transform', t.transform);
+    el.style.whiteSpace = 'pre';
+    this._fillTextRuns(el, t);
+    return el;
+  }
+
+  /** Replace a `<text>` element's content with its (possibly truncated) runs */
+  private _fillTextRuns(el: SVGElement, t: SvgText, reveal?: number) {
+    el.textContent = '';
+    for (const run of revealRuns(t, reveal)) {
+      const span = document.createElementNS('http://www.w3.org/2000/svg', 'tspan');
+      for (const key of ['x', 'y', 'dx', 'dy'] as const) {
+        if (run[key] !== undefined) span.setAttribute(key, String(run[key]));
+      }
+      if (run.fill) span.setAttribute('fill', run.fill);
+      if (run.fontFamily) span.setAttribute('font-family', run.fontFamily);
+      if (run.fontSize !== undefined) span.setAttribute('font-size', String(run.fontSize));
+      if (run.fontWeight) span.setAttribute('font-weight', run.fontWeight);
+      span.textContent = run.text;
+      el.appendChild(span);
+    }
+  }
+
+  private _createGradientElement(grad: GradientDef): SVGElement | null {
     if (grad.type === 'linear') {
       const el = document.createElementNS('http://www.w3.org/2000/svg', 'linearGradient');
       el.setAttribute('id', grad.id);
@@ -243,6 +508,7 @@ export class MotionSvgElement extends HTMLElement {
       el.setAttribute('x2', String(grad.x2));
       el.setAttribute('y2', String(grad.y2));
       if (grad.gradientUnits) el.setAttribute('gradientUnits', grad.gradientUnits);
+      if (grad.gradientTransform) el.setAttribute('gradientTransform', grad.gradientTransform);
       for (const stop of grad.stops) {
         const s = document.createElementNS('http://www.w3.org/2000/svg', 'stop');
         s.setAttribute('offset', String(stop.offset));
@@ -262,6 +528,7 @@ export class MotionSvgElement extends HTMLElement {
       if (grad.fx !== undefined) el.setAttribute('fx', String(grad.fx));
       if (grad.fy !== undefined) el.setAttribute('fy', String(grad.fy));
       if (grad.gradientUnits) el.setAttribute('gradientUnits', grad.gradientUnits);
+      if (grad.gradientTransform) el.setAttribute('gradientTransform', grad.gradientTransform);
       for (const stop of grad.stops) {
         const s = document.createElementNS('http://www.w3.org/2000/svg', 'stop');
         s.setAttribute('offset', String(stop.offset));
@@ -277,54 +544,101 @@ export class MotionSvgElement extends HTMLElement {
 
   private _applyState(actorId: string, state: ActorState) {
     if (!this._svgEl) return;
+    const actor = this._imported!.actors.find((a) => a.id === actorId);
+    if (!actor) return;
+
+    // Clip and mask sources have no group of their own
+    this._updateClipShapes(actor, state);
+
     const g = this._svgEl.querySelector(`[data-actor-id="${actorId}"]`) as SVGGElement | null;
     if (!g) return;
 
-    const actor = this._imported!.actors.find((a) => a.id === actorId);
-    if (!actor) return;
+    const frame = actorFrame(actor, state);
+    g.setAttribute('transform', frame.transform);
+    g.setAttribute('opacity', String(frame.opacity));
 
-    const pos = state.position;
-    const ox = actor.origin.x;
-    const oy = actor.origin.y;
-    const dx = pos.x - ox;
-    const dy = pos.y - oy;
-    const sx = typeof state.scale === 'number' ? state.scale : state.scale.x;
-    const sy = typeof state.scale === 'number' ? state.scale : state.scale.y;
-
-    g.setAttribute(
-      'transform',
-      `translate(${dx},${dy}) translate(${ox},${oy}) rotate(${state.rotation}) scale(${sx},${sy}) translate(${-ox},${-oy})`,
-    );
-    g.setAttribute('opacity', String(state.opacity));
-
-    // Update fill/stroke on child paths
-    if (state.fill || state.stroke) {
-      const paths = g.querySelectorAll('path');
-      paths.forEach((p) => {
-        if (state.fill) p.setAttribute('fill', state.fill);
-        if (state.stroke) p.setAttribute('stroke', state.stroke);
-        if (state.strokeWidth !== undefined) p.setAttribute('stroke-width', String(state.strokeWidth));
-      });
+    // Blended and animated gradients are defined per actor
+    if (state.fillGradient) this._upsertGradient(`${actorId}-fill`, state.fillGradient);
+    if (state.strokeGradient) this._upsertGradient(`${actorId}-stroke`, state.strokeGradient);
+
+    // Paint, morph and trim of each path — the group holds the actor's paths in order
+    const paths = g.querySelectorAll('path');
+    actor.paths.forEach((p, i) => {
+      if (paths[i]) this._applyPathFrame(paths[i], pathFrame(p, state));
+    });
+
+    // Update text: paint, font channels and typewriter reveal
+    for (const t of actor.texts ?? []) {
+      const el = g.querySelector(`[data-text-id="${t.id}"]`) as SVGElement | null;
+      if (!el) continue;
+      const text = textFrame(t, state);
+      el.setAttribute('fill', text.fill);
+      if (text.stroke) el.setAttribute('stroke', text.stroke);
+      if (text.strokeWidth !== undefined) el.setAttribute('stroke-width', String(text.strokeWidth));
+      if (text.fontSize !== undefined) el.setAttribute('font-size', String(text.fontSize));
+      if (text.letterSpacing !== undefined) el.setAttribute('letter-spacing', String(text.letterSpacing));
+      if (state.textReveal !== undefined) this._fillTextRuns(el, t, state.textReveal);
     }
 
-    // Apply path morphing
-    if (state.pathD) {
-      const paths = g.querySelectorAll('path');
-      paths.forEach((p) => p.setAttribute('d', state.pathD!));
+    // Apply the filter stack and blur
+    this._applyFilters(actor, frame.filters, frame.blurRadius);
+  }
+
+  /** Replace the gradient kept for `key` (an actor's fill or stroke) with `grad` */
+  private _upsertGradient(key: string, grad: GradientDef) {
+    const el = this._createGradientElement(grad);
+    if (!el) return;
+    el.setAttribute('data-gradient-for', key);
+    const old = this._svgEl!.querySelector(`[data-gradient-for="${key}"]`);
+    if (old) {
+      old.replaceWith(el);
+      return;
     }
+    const defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs');
+    defs.appendChild(el);
+    this._svgEl!.insertBefore(defs, this._svgEl!.firstChild);
+  }
 
-    // Apply blur filter
-    if (state.blurRadius && state.blurRadius > 0) {
-      g.style.filter = `blur(${state.blurRadius}px)`;
-    } else {
-      g.style.filter = '';
+  /** Rebuild an actor's `<filter>` from its stack and set it, with any blur, on its group */
+  private _applyFilters(actor: Actor, filters: ActorFilter[], blurRadius: number) {
+    const g = this._svgEl!.querySelector(`[data-actor-id="${actor.id}"]`) as SVGGElement | null;
+    if (!g) return;
+
+    const ns = 'http://www.w3.org/2000/svg';
+    const primitives = filterPrimitives(filters);
+    let filter = this._svgEl!.querySelector(`[data-filter-for="${actor.id}"]`);
+    if (primitives.length > 0 && !filter) {
+      const defs = document.createElementNS(ns, 'defs');
+      filter = document.createElementNS(ns, 'filter');
+      filter.setAttribute('id', `fx-${actor.id}`);
+      filter.setAttribute('data-filter-for', actor.id);
+      for (const [name, value] of Object.entries(FILTER_REGION)) filter.setAttribute(name, value);
+      defs.appendChild(filter);
+      this._svgEl!.appendChild(defs);
+    }
+    if (filter) {
+      filter.replaceChildren(...primitives.map((p) => this._createFilterPrimitive(p)));
     }
+
+    const parts: string[] = [];
+    if (primitives.length > 0) parts.push(`url(#fx-${actor.id})`);
+    if (blurRadius > 0) parts.push(`blur(${blurRadius}px)`);
+    g.style.filter = parts.join(' ');
+  }
+
+  private _createFilterPrimitive(p: FilterPrimitive): SVGElement {
+    const el = document.createElementNS('http://www.w3.org/2000/svg', p.tag);
+    for (const [name, value] of Object.entries(p.attrs)) el.setAttribute(name, String(value));
+    for (const child of p.children ?? []) el.appendChild(this._createFilterPrimitive(child));
+    return el;
   }
 
   private _updateSize() {
-    if (!this._svgEl) return;
-    this._svgEl.style.width = this.getAttribute('width') || '100%';
-    this._svgEl.style.height = this.getAttribute('height') || '100%';
+    const el = this._svgEl ?? this._canvasEl;
+    if (!el) return;
+    el.style.width = this.getAttribute('width') || '100%';
+    el.style.height = this.getAttribute('height') || '100%';
+    this._fitCanvas();
   }
 }
 
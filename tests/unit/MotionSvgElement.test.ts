@@ -12,7 +12,7 @@ describe('MotionSvgElement', () => {
 
   it('has correct observed attributes', () => {
     expect(MotionSvgElement.observedAttributes).toEqual([
-      'src', 'data', 'variant', 'autoplay', 'width', 'height',
+      'src', 'data', 'variant', 'renderer', 'autoplay', 'width', 'height',
     ]);
   });
 
@@ -38,6 +38,14 @@ describe('MotionSvgElement', () => {
     expect(el.variant).toBeUndefined();
   });
 
+  it('renderer defaults to svg and reflects its attribute', () => {
+    const el = new MotionSvgElement();
+    expect(el.renderer).toBe('svg');
+    el.renderer = 'canvas';
+    expect(el.getAttribute('renderer')).toBe('canvas');
+    expect(el.renderer).toBe('canvas');
+  });
+
   it('play/pause/stop/seek do not throw when no controllers', () => {
     const el = new MotionSvgElement();
     expect(() => el.play()).not.toThrow();
@@ -89,14 +97,15 @@ describe('MotionSvgElement', () => {
     }).not.toThrow();
   });
 
-  it('disconnectedCallback stops controllers', () => {
+  it('disconnectedCallback stops the scene playback', () => {
     const el = new MotionSvgElement();
     const mockStop = vi.fn();
-    (el as any)._controllers = [{ stop: mockStop }, { stop: mockStop }];
+    (el as any)._playback = { stop: mockStop };
 
     el.disconnectedCallback();
 
-    expect(mockStop).toHaveBeenCalledTimes(2);
+    expect(mockStop).toHaveBeenCalledTimes(1);
+    expect(el.playback).toBeNull();
     expect(el.controllers).toEqual([]);
   });
 
@@ -129,16 +138,14 @@ describe('MotionSvgElement', () => {
     expect(events).toContain('motionsvg:ready');
   });
 
-  it('play/pause/stop/seek forward to controllers', () => {
+  it('play/pause/stop/seek forward to the scene playback', () => {
     const el = new MotionSvgElement();
     const mockPlay = vi.fn();
     const mockPause = vi.fn();
     const mockStop = vi.fn();
     const mockSeek = vi.fn();
 
-    (el as any)._controllers = [
-      { play: mockPlay, pause: mockPause, stop: mockStop, seek: mockSeek },
-    ];
+    (el as any)._playback = { play: mockPlay, pause: mockPause, stop: mockStop, seek: mockSeek };
 
     el.play();
     el.pause();
@@ -150,6 +157,67 @@ describe('MotionSvgElement', () => {
     expect(mockStop).toHaveBeenCalledTimes(1);
     expect(mockSeek).toHaveBeenCalledWith(500);
   });
+
+  it('builds one scene playback for all timelines of a bundle', () => {
+    const el = new MotionSvgElement();
+    el.connectedCallback();
+
+    el.bundle = {
+      version: '1.0',
+      scene: {
+        viewBox: { x: 0, y: 0, w: 100, h: 100 },
+        svg: '',
+        paths: [
+          { id: 'p1', d: 'M0,0 L10,0 L10,10 Z' },
+          { id: 'p2', d: 'M20,0 L30,0 L30,10 Z' },
+        ],
+        colors: {},
+      },
+      actors: [
+        { id: 'a1', pathIds: ['p1'], origin: { x: 5, y: 5 } },
+        { id: 'a2', pathIds: ['p2'], origin: { x: 25, y: 5 } },
+      ],
+      timelines: [
+        { actorId: 'a1', keyframes: [{ at: 0, opacity: 0 }, { at: 500, opacity: 1 }] },
+        { actorId: 'a2', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }] },
+      ],
+      triggers: [],
+    };
+
+    expect(el.controllers).toHaveLength(1);
+    expect(el.playback!.timelines).toHaveLength(2);
+    expect(el.playback!.duration).toBe(1000);
+
+    el.seek(500);
+    const states = (el as any)._actorStates;
+    expect(states.a1.opacity).toBeCloseTo(1);
+    expect(states.a2.opacity).toBeCloseTo(0.5);
+  });
+
+  it('applies animated stroke width to text', () => {
+    const el = new MotionSvgElement();
+    el.connectedCallback();
+
+    el.bundle = {
+      version: '1.4',
+      scene: {
+        viewBox: { x: 0, y: 0, w: 100, h: 100 },
+        svg: '',
+        paths: [{ id: 'p1', d: 'M0,0 L10,0 L10,10 Z' }],
+        colors: {},
+        texts: [{ id: 't1', x: 10, y: 50, content: 'Hi', stroke: '#000000', strokeWidth: 1 }],
+      },
+      actors: [{ id: 'a1', pathIds: [], textIds: ['t1'], origin: { x: 10, y: 50 } }],
+      timelines: [
+        { actorId: 'a1', keyframes: [{ at: 0, strokeWidth: 1 }, { at: 1000, strokeWidth: 3, curve: 'linear' }] },
+      ],
+      triggers: [],
+    };
+
+    el.seek(500);
+    const text = (el as any)._svgEl.querySelector('[data-text-id="t1"]');
+    expect(text.getAttribute('stroke-width')).toBe('2');
+  });
 });
 
 describe('registerMotionSvg', () => {
@@ -0,0 +1,151 @@
+import { FakeContext2D, FakePath2D } from './dom-stubs';
+
+import { describe, it, expect } from 'vitest';
+import { CanvasRenderer, type CanvasTarget } from '../../src/canvas/CanvasRenderer';
+import { createActor } from '../../src/actor/createActor';
+import type { ActorState } from '../../src/timeline/interpolate';
+import type { Scene } from '../../src/types';
+
+const scene: Scene = {
+  viewBox: { x: 0, y: 0, w: 100, h: 100 },
+  paths: [
+    { id: 'bg', d: 'M0,0 H100 V100 H0 Z', fill: '#eeeeee' },
+    { id: 'box', d: 'M10,10 H50 V50 H10 Z', fill: '#ff0000', stroke: '#000000', strokeWidth: 2, strokeAlign: 'outside' },
+    { id: 'top', d: 'M30,30 H70 V70 H30 Z', fill: 'url(#fade)' },
+    { id: 'wipe', d: 'M60,60 H90 V90 H60 Z' },
+    { id: 'photo', d: 'M50,50 H100 V100 H50 Z', fill: '#0000ff' },
+  ],
+  groups: [],
+  colors: {},
+  gradients: [
+    {
+      type: 'linear', id: 'fade', x1: 0, y1: 0, x2: 1, y2: 0,
+      stops: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#ffffff', opacity: 0.5 }],
+    },
+  ],
+};
+
+const box = createActor({ id: 'box', paths: [scene.paths[1]], origin: 'center' });
+const top = createActor({ id: 'top', paths: [scene.paths[2]], origin: 'center' });
+const wipe = createActor({ id: 'wipe', paths: [scene.paths[3]], origin: 'center' });
+const photo = createActor({ id: 'photo', paths: [scene.paths[4]], origin: 'center', clipPath: 'wipe' });
+
+function setup(options?: { background?: string }) {
+  const ctx = new FakeContext2D({ width: 200, height: 200 });
+  const renderer = new CanvasRenderer(ctx as unknown as CanvasTarget, { scene, actors: [box, top, wipe, photo] }, {
+    ...options,
+    createPath: (d) => new FakePath2D(d) as unknown as Path2D,
+  });
+  return { ctx, renderer };
+}
+
+const pathOf = (call: { args: unknown[] }) => (call.args[0] as FakePath2D).d;
+
+describe('CanvasRenderer', () => {
+  it('takes its size from the canvas and fits the viewBox', () => {
+    const { ctx, renderer } = setup({ background: '#123456' });
+    renderer.render();
+    expect([renderer.width, renderer.height]).toEqual([200, 200]);
+    expect(ctx.named('clearRect')[0].args).toEqual([0, 0, 200, 200]);
+    const bg = ctx.named('fillRect')[0];
+    expect(bg.args).toEqual([0, 0, 100, 100]);
+    expect(bg.fillStyle).toBe('#123456');
+    expect(bg.transform).toMatchObject({ a: 2, d: 2, e: 0, f: 0 });
+  });
+
+  it('throws without a size', () => {
+    expect(() => new CanvasRenderer({} as CanvasTarget, { scene, actors: [] }))
+      .toThrow('motion-svg: CanvasRenderer needs a width and height');
+  });
+
+  it('draws static paths, then actors in order, without clip sources', () => {
+    const { ctx, renderer } = setup();
+    renderer.render();
+    const painted = ctx.calls
+      .filter((c) => c.name === 'fill' || c.name === 'stroke')
+      .map((c) => `${c.name} ${pathOf(c)}`);
+    expect(painted).toEqual([
+      'fill M0,0 H100 V100 H0 Z',
+      // Outside strokes are twice as wide, under the fill
+      'stroke M10,10 H50 V50 H10 Z',
+      'fill M10,10 H50 V50 H10 Z',
+      'fill M30,30 H70 V70 H30 Z',
+      'fill M50,50 H100 V100 H50 Z',
+    ]);
+    expect(ctx.named('stroke')[0].lineWidth).toBe(4);
+    expect(ctx.named('fill')[1].fillStyle).toBe('#ff0000');
+  });
+
+  it('moves actors with their state and applies opacity, blur and filters', () => {
+    const { ctx, renderer } = setup();
+    const state: ActorState = {
+      position: { x: 40, y: 30 },
+      scale: 1,
+      rotation: 0,
+      opacity: 0.5,
+      blurRadius: 2,
+      filters: [{ type: 'glow', blur: 1, color: '#ffffff' }],
+    };
+    renderer.render({ box: state });
+    const fill = ctx.named('fill').find((c) => pathOf(c) === 'M10,10 H50 V50 H10 Z')!;
+    expect(fill.transform).toMatchObject({ a: 2, d: 2, e: 20, f: 0 });
+    expect(fill.globalAlpha).toBe(0.5);
+    expect(fill.filter).toBe('drop-shadow(0px 0px 4px #ffffff) blur(4px)');
+    // Other actors draw at rest
+    const other = ctx.named('fill').find((c) => pathOf(c) === 'M30,30 H70 V70 H30 Z')!;
+    expect(other.globalAlpha).toBe(1);
+    expect(other.filter).toBe('none');
+  });
+
+  it('maps bounding box gradients onto the path', () => {
+    const { ctx, renderer } = setup();
+    renderer.render();
+    const fill = ctx.named('fill').find((c) => pathOf(c) === 'M30,30 H70 V70 H30 Z')!;
+    const gradient = fill.fillStyle as { type: string; args: number[]; stops: [number, string][] };
+    expect(gradient.type).toBe('linear');
+    expect(gradient.args).toEqual([30, 30, 70, 30]);
+    expect(gradient.stops[0][0]).toBe(0);
+    expect(gradient.stops[1][0]).toBe(1);
+    expect(gradient.stops[1][1]).toMatch(/0\.5\)$/);
+  });
+
+  it('clips actors to the shapes of their clip source', () => {
+    const { ctx, renderer } = setup();
+    renderer.render();
+    const clip = ctx.named('clip')[0];
+    const region = clip.args[0] as FakePath2D;
+    expect(region.parts.map((p) => p.path.d)).toEqual(['M60,60 H90 V90 H60 Z']);
+    expect(clip.transform).toMatchObject({ a: 2, e: 0 });
+  });
+
+  it('hit-tests the topmost actor in canvas pixels', () => {
+    const { renderer } = setup();
+    renderer.render();
+    expect(renderer.hitTest(40, 40)).toBe('box');
+    // The box and top overlap — top is drawn later
+    expect(renderer.hitTest(90, 90)).toBe('top');
+    // Only inside the clip, and clip sources are never hit
+    expect(renderer.hitTest(150, 150)).toBe('photo');
+    expect(renderer.hitTest(190, 110)).toBeNull();
+    expect(renderer.hitTest(2, 2)).toBeNull();
+  });
+
+  it('hit-tests the rendered states and outside strokes', () => {
+    const { renderer } = setup();
+    renderer.render({ box: { position: { x: 40, y: 30 }, scale: 1, rotation: 0, opacity: 1 } });
+    expect(renderer.hitTest(30, 40)).toBeNull();
+    expect(renderer.hitTest(50, 40)).toBe('box');
+    // The 2-unit outside stroke reaches past the edge at x = 40 canvas pixels
+    expect(renderer.hitTest(37, 40)).toBe('box');
+  });
+
+  it('redraws at a new size', () => {
+    const { ctx, renderer } = setup();
+    renderer.render();
+    ctx.calls = [];
+    renderer.resize(400, 200);
+    expect(ctx.named('clearRect')[0].args).toEqual([0, 0, 400, 200]);
+    // Centered: 100 units scaled by 2 in a 400px wide canvas
+    expect(ctx.named('fill')[0].transform).toMatchObject({ a: 2, e: 100 });
+  });
+});
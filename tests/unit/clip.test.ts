@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { parseSvg } from '../../src/parser/parseSvg';
+import { createActor } from '../../src/actor/createActor';
+import { createClipActor, getClipSourceIds, getClipShapes } from '../../src/actor/clip';
+import { interpolateKeyframes } from '../../src/timeline/interpolate';
+import { timeline } from '../../src/timeline/timeline';
+import { exportBundle } from '../../src/bundle/exportBundle';
+import { importBundle } from '../../src/bundle/importBundle';
+import { validateBundle } from '../../src/bundle/validate';
+import { exportAnimatedSvg } from '../../src/bundle/exportAnimatedSvg';
+import type { Bundle } from '../../src/types';
+
+const svg = `<svg viewBox="0 0 100 100">
+  <defs>
+    <clipPath id="wipe" transform="translate(5,0)"><g transform="scale(2)"><rect width="10" height="50"/></g></clipPath>
+    <mask id="spot" style="mask-type: alpha"><circle cx="50" cy="50" r="20" fill="white"/></mask>
+  </defs>
+  <g clip-path="url('#wipe')">
+    <rect id="photo" width="100" height="100" fill="#f80"/>
+    <rect id="inner" mask="url(#spot)" width="10" height="10"/>
+  </g>
+  <rect id="bg" width="1" height="1" clip-path="none"/>
+</svg>`;
+
+describe('parseSvg clips', () => {
+  const scene = parseSvg(svg);
+
+  it('collects clipPath and mask definitions with folded transforms', () => {
+    expect(scene.clips?.map((c) => [c.id, c.type, c.maskType])).toEqual([
+      ['wipe', 'clipPath', undefined],
+      ['spot', 'mask', 'alpha'],
+    ]);
+    expect(scene.clips![0].paths).toEqual([
+      expect.objectContaining({ id: 'wipe/rect-1', transform: 'translate(5,0) scale(2)' }),
+    ]);
+    expect(scene.clips![1].paths[0]).toMatchObject({ id: 'spot/circle-1', fill: 'white' });
+  });
+
+  it('keeps definition content out of the drawn paths', () => {
+    expect(scene.paths.map((p) => p.id)).toEqual(['photo', 'inner', 'bg']);
+  });
+
+  it('records the nearest clip and mask on each path', () => {
+    expect(scene.paths[0]).toMatchObject({ clipPath: 'wipe' });
+    expect(scene.paths[1]).toMatchObject({ clipPath: 'wipe', mask: 'spot' });
+    expect(scene.paths[2].clipPath).toBeUndefined();
+  });
+
+  it('marks objectBoundingBox content', () => {
+    const bbox = parseSvg('<svg viewBox="0 0 10 10"><clipPath id="c" clipPathUnits="objectBoundingBox"><rect width="1" height="1"/></clipPath></svg>');
+    expect(bbox.clips![0].units).toBe('objectBoundingBox');
+    expect(() => createClipActor(bbox, 'c')).toThrow(/objectBoundingBox/);
+  });
+});
+
+describe('clip actors', () => {
+  const scene = parseSvg(svg);
+  const wipe = createClipActor(scene, 'wipe', { origin: 'top-left' });
+  const photo = createActor({ id: 'photo', paths: [scene.paths[0]], origin: 'center', clipPath: 'wipe' });
+
+  it('builds an actor from a definition', () => {
+    expect(wipe.id).toBe('wipe');
+    expect(wipe.pathIds).toEqual(['wipe/rect-1']);
+    // The folded transform places the rect at x 5..25
+    expect(wipe.origin).toEqual({ x: 5, y: 0 });
+    expect(() => createClipActor(scene, 'nope')).toThrow('Unknown clip "nope"');
+  });
+
+  it('passes clip and mask references through createActor', () => {
+    expect(photo.clipPath).toBe('wipe');
+    const masked = createActor({ id: 'm', paths: [scene.paths[1]], origin: 'center', mask: 'spot', maskType: 'alpha' });
+    expect(masked).toMatchObject({ mask: 'spot', maskType: 'alpha' });
+    expect(getClipSourceIds([photo, masked, wipe])).toEqual(new Set(['wipe', 'spot']));
+  });
+
+  it('places clip shapes with the animated actor transform', () => {
+    expect(getClipShapes(wipe)).toEqual([
+      { d: 'M0,0 L10,0 L10,50 L0,50 Z', transform: 'matrix(2,0,0,2,5,0)', fill: undefined, stroke: undefined, strokeWidth: undefined, opacity: 1 },
+    ]);
+    const state = interpolateKeyframes([{ at: 0, position: { x: 55, y: 0 }, scale: { x: 4, y: 1 } }], 0);
+    expect(getClipShapes(wipe, state)[0].transform).toBe('matrix(8,0,0,2,55,0)');
+  });
+});
+
+describe('clip bundles', () => {
+  const scene = parseSvg(svg);
+  const wipe = createClipActor(scene, 'wipe', { origin: 'top-left' });
+  const photo = createActor({ id: 'photo', paths: [scene.paths[0]], origin: 'center', clipPath: 'wipe' });
+  const tl = timeline(wipe, { keyframes: [{ at: 0, scale: { x: 0, y: 1 } }, { at: 800, scale: { x: 5, y: 1 } }] });
+
+  it('round-trips clip definitions and references as version 1.5', () => {
+    const json = exportBundle({ scene, actors: [photo, wipe], timelines: [tl] });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.version).toBe('1.5');
+    expect(bundle.actors[0].clipPath).toBe('wipe');
+    expect(bundle.scene.clips?.map((c) => c.id)).toEqual(['wipe', 'spot']);
+    expect(validateBundle(bundle).valid).toBe(true);
+
+    const imported = importBundle(json);
+    expect(imported.actors[0].clipPath).toBe('wipe');
+    expect(imported.actors[1].paths.map((p) => p.id)).toEqual(['wipe/rect-1']);
+    expect(imported.actors[1].origin).toEqual(wipe.origin);
+  });
+
+  it('rejects references to missing actors or to the actor itself', () => {
+    const bundle: Bundle = JSON.parse(exportBundle({ scene, actors: [photo, wipe], timelines: [tl] }));
+    bundle.actors[0].clipPath = 'ghost';
+    bundle.actors[1].mask = 'wipe';
+    bundle.actors[1].maskType = 'rgb' as never;
+    expect(validateBundle(bundle).errors).toEqual([
+      'Actor[0] "clipPath" must reference another actor.',
+      'Actor[1] "mask" must reference another actor.',
+      'Actor[1] "maskType" must be "luminance" or "alpha".',
+    ]);
+  });
+
+  it('leaves clip sources out of animated SVG exports with a warning', () => {
+    const { svg: out, warnings } = exportAnimatedSvg(
+      { scene, actors: [photo, wipe], timelines: [tl], triggers: [] },
+      { mode: 'smil' },
+    );
+    expect(out).not.toContain('data-actor-id="wipe"');
+    expect(warnings).toContain('Actor "photo" is clipped or masked by another actor, which is not exported.');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { parseColor, formatColor, lerpColor } from '../../src/color/color';
+import { interpolateKeyframes, lerpGradientDef } from '../../src/timeline/interpolate';
+import { createActor } from '../../src/actor/createActor';
+import { timeline } from '../../src/timeline/timeline';
+import { exportBundle } from '../../src/bundle/exportBundle';
+import { validateBundle } from '../../src/bundle/validate';
+import { exportAnimatedSvg } from '../../src/bundle/exportAnimatedSvg';
+import type { Bundle, ColorSpace, LinearGradientDef, Scene } from '../../src/types';
+
+const hex = (value: string) => formatColor(parseColor(value)!);
+
+describe('parseColor', () => {
+  it('reads hex with and without alpha', () => {
+    expect(parseColor('#F00')).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(parseColor('#00ff0080')!.a).toBeCloseTo(0.502);
+    expect(parseColor('#f008')!.a).toBeCloseTo(0.533);
+    expect(parseColor('#12345')).toBeNull();
+  });
+
+  it('reads legacy and modern rgb() and hsl()', () => {
+    expect(parseColor('rgba(255, 0, 0, 0.5)')).toEqual({ r: 1, g: 0, b: 0, a: 0.5 });
+    expect(parseColor('rgb(100% 0% 0% / 50%)')).toEqual({ r: 1, g: 0, b: 0, a: 0.5 });
+    expect(parseColor('hsl(240, 100%, 50%)')).toEqual({ r: 0, g: 0, b: 1, a: 1 });
+    expect(parseColor('hsl(0.5turn 100 50 / .25)')).toEqual({ r: 0, g: 1, b: 1, a: 0.25 });
+    expect(hex('hwb(120 0% 0%)')).toBe('#00ff00');
+  });
+
+  it('reads named colors and transparent', () => {
+    expect(hex('RebeccaPurple')).toBe('#663399');
+    expect(parseColor('transparent')).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    expect(parseColor('constructor')).toBeNull();
+  });
+
+  it('reads lab, lch, oklab, oklch and color()', () => {
+    expect(hex('lab(54.29 80.8 69.89)')).toBe('#ff0000');
+    expect(hex('lch(54.29 106.84 40.85)')).toBe('#ff0000');
+    expect(hex('oklab(0.628 0.2249 0.1258)')).toBe('#ff0000');
+    expect(hex('oklch(62.8% 0.2577 29.23deg)')).toBe('#ff0000');
+    expect(hex('color(srgb 0 0.5 1)')).toBe('#0080ff');
+    expect(hex('color(srgb-linear 0.2158 0.2158 0.2158)')).toBe('#808080');
+  });
+
+  it('returns null for values that are not colors', () => {
+    for (const v of ['currentColor', 'none', 'url(#g)', 'rgb(1 2)', 'hsl(x 1% 1%)', 'color(rec2020 1 0 0)']) {
+      expect(parseColor(v)).toBeNull();
+    }
+  });
+});
+
+describe('formatColor', () => {
+  it('writes hex when opaque and rgba() otherwise, clamped to the gamut', () => {
+    expect(formatColor({ r: 1.2, g: 0.5, b: -0.1, a: 1 })).toBe('#ff8000');
+    expect(formatColor({ r: 0, g: 0, b: 1, a: 0.25 })).toBe('rgba(0, 0, 255, 0.25)');
+  });
+});
+
+describe('lerpColor', () => {
+  it('blends any syntax in sRGB by default', () => {
+    expect(lerpColor('red', 'rgb(0 0 255)', 0.5)).toBe('#800080');
+    expect(lerpColor('hsl(0 100% 50%)', '#0000ff', 0)).toBe('#ff0000');
+  });
+
+  it('premultiplies alpha so transparent keeps the other color', () => {
+    expect(lerpColor('white', 'transparent', 0.5)).toBe('rgba(255, 255, 255, 0.5)');
+    expect(lerpColor('rgba(255, 0, 0, 0.5)', 'blue', 0.5)).toBe('rgba(85, 0, 170, 0.75)');
+  });
+
+  it('blends in the chosen space', () => {
+    const mid = (space: ColorSpace) => lerpColor('#ff0000', '#0000ff', 0.5, space);
+    expect(mid('srgb')).toBe('#800080');
+    expect(mid('linear-rgb')).toBe('#bc00bc');
+    expect(mid('hsl')).toBe('#ff00ff');
+    expect(mid('oklab')).toBe('#8c53a2');
+    expect(mid('oklch')).toBe('#ba00c2');
+  });
+
+  it('takes the shorter hue arc and the other hue for grays', () => {
+    expect(lerpColor('hsl(350 100% 50%)', 'hsl(10 100% 50%)', 0.5, 'hsl')).toBe('#ff0000');
+    expect(lerpColor('gray', 'blue', 0.5, 'oklch')).toBe(lerpColor('gray', 'blue', 0.5, 'oklab'));
+  });
+
+  it('snaps colors it cannot parse', () => {
+    expect(lerpColor('currentColor', 'red', 0.4)).toBe('currentColor');
+    expect(lerpColor('currentColor', 'red', 0.6)).toBe('red');
+  });
+});
+
+describe('color spaces in keyframes', () => {
+  it('blends fill and stroke in the space of the target keyframe', () => {
+    const state = interpolateKeyframes([
+      { at: 0, fill: 'red', stroke: 'red' },
+      { at: 1000, fill: 'blue', stroke: 'blue', colorSpace: 'oklch', curve: 'linear' },
+      { at: 2000, fill: 'red', curve: 'linear' },
+    ], 500);
+    expect(state.fill).toBe('#ba00c2');
+    expect(state.stroke).toBe('#ba00c2');
+    expect(interpolateKeyframes([{ at: 0, fill: 'blue' }, { at: 1000, fill: 'red', curve: 'linear' }], 500).fill)
+      .toBe('#800080');
+  });
+
+  it('blends gradient stops in the given space', () => {
+    const grad = (id: string, color: string): LinearGradientDef => ({
+      type: 'linear', id, x1: 0, y1: 0, x2: 1, y2: 0, stops: [{ offset: 0, color }, { offset: 1, color }],
+    });
+    const blended = lerpGradientDef(grad('a', '#ff0000'), grad('b', '#0000ff'), 0.5, 'hsl');
+    expect(blended.stops.map((s) => s.color)).toEqual(['#ff00ff', '#ff00ff']);
+  });
+});
+
+describe('color space bundles', () => {
+  const scene: Scene = {
+    viewBox: { x: 0, y: 0, w: 10, h: 10 },
+    paths: [{ id: 'dot', d: 'M0,0 H10 V10 H0 Z', fill: 'red' }],
+    groups: [],
+    colors: {},
+    gradients: [],
+    metadata: {},
+  };
+  const actor = createActor({ id: 'dot', paths: scene.paths, origin: 'center' });
+  const tl = timeline(actor, { keyframes: [{ at: 0, fill: 'red' }, { at: 500, fill: 'blue', colorSpace: 'oklab' }] });
+
+  it('exports colorSpace as version 1.7 and validates it', () => {
+    const bundle: Bundle = JSON.parse(exportBundle({ scene, actors: [actor], timelines: [tl] }));
+    expect(bundle.version).toBe('1.7');
+    expect(bundle.timelines[0].keyframes[1].colorSpace).toBe('oklab');
+    expect(validateBundle(bundle).valid).toBe(true);
+
+    bundle.timelines[0].keyframes[1].colorSpace = 'cmyk' as ColorSpace;
+    expect(validateBundle(bundle).errors).toEqual([
+      'Timeline[0].keyframes[1].colorSpace must be one of "srgb", "linear-rgb", "hsl", "oklab", "oklch".',
+    ]);
+  });
+
+  it('bakes non-sRGB blends in animated SVG export', () => {
+    const { baked } = exportAnimatedSvg({ scene, actors: [actor], timelines: [tl], triggers: [] }, { mode: 'smil' });
+    expect(baked).toContainEqual({ actorId: 'dot', property: 'fill', feature: 'colorSpace', detail: 'oklab' });
+  });
+});
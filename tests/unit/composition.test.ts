@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { composition, parsePosition } from '../../src/timeline/composition';
+import { timeline } from '../../src/timeline/timeline';
+import type { Actor, Timeline } from '../../src/types';
+
+function makeActor(id: string): Actor {
+  return {
+    id,
+    pathIds: ['p1'],
+    paths: [{ id: 'p1', d: 'M0,0 L10,10' }],
+    origin: { x: 0, y: 0 },
+    position: { x: 0, y: 0 },
+    scale: 1,
+    rotation: 0,
+    opacity: 1,
+    blurRadius: 0,
+    backdropBlur: 0,
+    z: 0,
+  };
+}
+
+function makeTl(actorId: string, duration: number): Timeline {
+  return timeline(makeActor(actorId), {
+    keyframes: [
+      { at: 0, opacity: 0 },
+      { at: duration, opacity: 1, curve: 'linear' },
+    ],
+  });
+}
+
+describe('parsePosition', () => {
+  it('parses absolute, relative, previous and label positions', () => {
+    expect(parsePosition(undefined)).toEqual({ anchor: 'previousEnd', shift: 0 });
+    expect(parsePosition(800)).toEqual({ anchor: 'absolute', shift: 800 });
+    expect(parsePosition('+=100')).toEqual({ anchor: 'previousEnd', shift: 100 });
+    expect(parsePosition('-=200')).toEqual({ anchor: 'previousEnd', shift: -200 });
+    expect(parsePosition('<')).toEqual({ anchor: 'previousStart', shift: 0 });
+    expect(parsePosition('<+=50')).toEqual({ anchor: 'previousStart', shift: 50 });
+    expect(parsePosition('>-=50')).toEqual({ anchor: 'previousEnd', shift: -50 });
+    expect(parsePosition('logo-in')).toEqual({ anchor: 'label', label: 'logo-in', shift: 0 });
+    expect(parsePosition('logo-in-=100')).toEqual({ anchor: 'label', label: 'logo-in', shift: -100 });
+  });
+
+  it('rejects anything else', () => {
+    expect(parsePosition('')).toBeNull();
+    expect(parsePosition('<<')).toBeNull();
+    expect(parsePosition(NaN)).toBeNull();
+  });
+});
+
+describe('composition', () => {
+  it('chains timelines of different actors by default', () => {
+    const logo = makeTl('logo', 500);
+    const text = makeTl('text', 300);
+    const c = composition({ items: [{ timeline: logo }, { timeline: text }] });
+    expect(c.timelines).toEqual([logo, text]);
+    expect(c.offsets).toEqual({ [logo.id]: 0, [text.id]: 500 });
+    expect(c.duration).toBe(800);
+    expect(c.markers).toEqual([]);
+  });
+
+  it('places items with gaps, overlaps, absolute times and the previous start', () => {
+    const a = makeTl('a', 500);
+    const b = makeTl('b', 300);
+    const c2 = makeTl('c', 200);
+    const d = makeTl('d', 100);
+    const c = composition({
+      items: [
+        { timeline: a, at: 100 },
+        { timeline: b, at: '-=200' },
+        { timeline: c2, at: '<' },
+        { timeline: d, at: '+=50' },
+      ],
+    });
+    // a: 100–600, b: 400–700, c: 400–600, d: 650–750
+    expect(c.offsets).toEqual({ [a.id]: 100, [b.id]: 400, [c2.id]: 400, [d.id]: 650 });
+    expect(c.duration).toBe(750);
+  });
+
+  it('places items relative to labels and exposes them as markers', () => {
+    const logo = makeTl('logo', 500);
+    const text = makeTl('text', 300);
+    const button = makeTl('button', 200);
+    const c = composition({
+      items: [
+        { timeline: logo, label: 'logo' },
+        { timeline: text },
+        { label: 'cta', at: 'logo+=900' },
+        { timeline: button, at: 'cta' },
+      ],
+    });
+    expect(c.offsets[button.id]).toBe(900);
+    expect(c.markers).toEqual([{ label: 'logo', at: 0 }, { label: 'cta', at: 900 }]);
+    expect(c.duration).toBe(1100);
+  });
+
+  it('does not follow bare labels', () => {
+    const a = makeTl('a', 500);
+    const b = makeTl('b', 300);
+    const c = composition({
+      items: [{ timeline: a }, { label: 'later', at: 2000 }, { timeline: b }],
+    });
+    expect(c.offsets[b.id]).toBe(500);
+    expect(c.duration).toBe(2000);
+  });
+
+  it('clamps starts before 0', () => {
+    const a = makeTl('a', 100);
+    const b = makeTl('b', 100);
+    const c = composition({ items: [{ timeline: a }, { timeline: b, at: '-=300' }] });
+    expect(c.offsets[b.id]).toBe(0);
+  });
+
+  it('flattens nested compositions with their labels', () => {
+    const logo = makeTl('logo', 400);
+    const text = makeTl('text', 300);
+    const intro = composition({
+      items: [{ timeline: logo }, { timeline: text, at: '-=100', label: 'title' }],
+    });
+    const button = makeTl('button', 200);
+    const outro = makeTl('outro', 100);
+    const c = composition({
+      items: [
+        { composition: intro, at: 200, label: 'intro' },
+        { timeline: button, at: 'title+=50' },
+        { timeline: outro },
+      ],
+    });
+    expect(c.timelines).toEqual([logo, text, button, outro]);
+    expect(c.offsets).toEqual({ [logo.id]: 200, [text.id]: 500, [button.id]: 550, [outro.id]: 750 });
+    expect(c.markers).toEqual([{ label: 'intro', at: 200 }, { label: 'title', at: 500 }]);
+    expect(c.duration).toBe(850);
+  });
+
+  it('lets its own labels win over nested ones', () => {
+    const inner = composition({ items: [{ timeline: makeTl('a', 100), label: 'go' }] });
+    const c = composition({ items: [{ composition: inner }, { label: 'go', at: 300 }] });
+    expect(c.markers).toEqual([{ label: 'go', at: 300 }]);
+  });
+
+  it('throws on invalid items', () => {
+    const a = makeTl('a', 100);
+    expect(() => composition({ items: [{ at: 100 }] })).toThrow('needs a timeline, a composition or a label');
+    expect(() => composition({ items: [{ timeline: a, at: 'nope' }] })).toThrow('unknown label "nope"');
+    expect(() => composition({ items: [{ timeline: a, at: '<<' }] })).toThrow('invalid position "<<"');
+    expect(() => composition({ items: [{ timeline: a }, { timeline: a }] })).toThrow('appears twice');
+    expect(() => composition({ items: [{ label: 'x' }, { label: 'x' }] })).toThrow('two labels "x"');
+    const inner = composition({ items: [{ timeline: a }] });
+    expect(() => composition({ items: [{ timeline: a, composition: inner }] })).toThrow('both a timeline and a composition');
+  });
+});
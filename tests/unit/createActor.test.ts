@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { createActor } from '../../src/actor/createActor';
+import { resolveOrigin } from '../../src/actor/origin';
+import { exportBundle } from '../../src/bundle/exportBundle';
 import type { SvgPath } from '../../src/types';
 
 const mockPath: SvgPath = { id: 'path-a', d: 'M0,0 L10,10' };
@@ -50,3 +52,60 @@ describe('createActor', () => {
     expect(actor.position.x).toBe(10);
   });
 });
+
+describe('origin anchors', () => {
+  const box: SvgPath = { id: 'box', d: 'M10,20 H50 V100 H10 Z' };
+
+  it('resolves named anchors from the path bounds', () => {
+    const at = (origin: Parameters<typeof createActor>[0]['origin']) =>
+      createActor({ id: 'a', paths: [box], origin }).origin;
+    expect(at('center')).toEqual({ x: 30, y: 60 });
+    expect(at('top-left')).toEqual({ x: 10, y: 20 });
+    expect(at('top')).toEqual({ x: 30, y: 20 });
+    expect(at('top-right')).toEqual({ x: 50, y: 20 });
+    expect(at('left')).toEqual({ x: 10, y: 60 });
+    expect(at('right')).toEqual({ x: 50, y: 60 });
+    expect(at('bottom-left')).toEqual({ x: 10, y: 100 });
+    expect(at('bottom')).toEqual({ x: 30, y: 100 });
+    expect(at('bottom-right')).toEqual({ x: 50, y: 100 });
+  });
+
+  it('resolves fractions of the bounds and starts the actor there', () => {
+    const actor = createActor({ id: 'a', paths: [box], origin: { fx: 0.25, fy: 1 } });
+    expect(actor.origin).toEqual({ x: 20, y: 100 });
+    expect(actor.position).toEqual({ x: 20, y: 100 });
+  });
+
+  it('uses the union of all paths with their transforms', () => {
+    const moved: SvgPath = { id: 'm', d: 'M0,0 H10 V10 H0 Z', transform: 'translate(90,190)' };
+    expect(resolveOrigin('bottom-right', [box, moved])).toEqual({ x: 100, y: 200 });
+  });
+
+  it('resolves the area-weighted centroid', () => {
+    const triangle: SvgPath = { id: 't', d: 'M0,0 L30,0 L0,30 Z' };
+    const c = resolveOrigin('centroid', [triangle]);
+    expect(c.x).toBeCloseTo(10, 6);
+    expect(c.y).toBeCloseTo(10, 6);
+
+    const small: SvgPath = { id: 's', d: 'M100,0 H110 V10 H100 Z' };
+    const big: SvgPath = { id: 'b', d: 'M0,0 H30 V30 H0 Z' };
+    expect(resolveOrigin('centroid', [small, big]).x).toBeCloseTo((105 * 100 + 15 * 900) / 1000, 6);
+    // Stroke-only geometry falls back to the bounds center
+    expect(resolveOrigin('centroid', [mockPath])).toEqual({ x: 5, y: 5 });
+  });
+
+  it('throws for an unknown anchor', () => {
+    expect(() => createActor({ id: 'a', paths: [box], origin: 'middle' as never })).toThrow('Unknown origin anchor "middle"');
+  });
+
+  it('exports the resolved point to bundles', () => {
+    const actor = createActor({ id: 'a', paths: [box], origin: 'center' });
+    const bundle = JSON.parse(exportBundle({
+      scene: { viewBox: { x: 0, y: 0, w: 100, h: 100 }, paths: [box], groups: [], colors: {}, gradients: [], metadata: { xmlns: '', originalSvg: '' } },
+      actors: [actor],
+      timelines: [],
+    }));
+    expect(bundle.actors[0].origin).toEqual({ x: 30, y: 60 });
+  });
+});
+
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseStylesheet, parseDeclarations, matchesSelector, cascadedValue } from '../../src/parser/css';
+import { parseXml, childElements, type XmlElement } from '../../src/parser/xml';
+
+describe('parseStylesheet', () => {
+  it('creates one rule per selector, in order', () => {
+    const rules = parseStylesheet('.a, #b { fill: red } path { stroke: blue }');
+    expect(rules.map((r) => r.order)).toEqual([0, 1, 2]);
+    expect(rules[1].declarations.fill).toEqual({ value: 'red', important: false });
+    expect(rules[2].selector.specificity).toEqual([0, 0, 1]);
+  });
+
+  it('skips comments, at-rules and unsupported selectors', () => {
+    const rules = parseStylesheet(`
+      /* .x { fill: red } */
+      @media print { .a { fill: red } }
+      a:hover { fill: red }
+      [data-x] { fill: red }
+      .ok { fill: green }
+    `, 5);
+    expect(rules).toHaveLength(1);
+    expect(rules[0].order).toBe(5);
+  });
+
+  it('computes specificity of compound selectors', () => {
+    const [rule] = parseStylesheet('svg > g#main .icon.active path { fill: red }');
+    expect(rule.selector.specificity).toEqual([1, 2, 3]);
+  });
+});
+
+describe('parseDeclarations', () => {
+  it('reads declarations and !important', () => {
+    expect(parseDeclarations('fill: red; Stroke-Width : 2 !important;;')).toEqual({
+      fill: { value: 'red', important: false },
+      'stroke-width': { value: '2', important: true },
+    });
+  });
+
+  it('keeps colons inside values', () => {
+    expect(parseDeclarations('fill: url(data:x)').fill.value).toBe('url(data:x)');
+  });
+});
+
+describe('matchesSelector', () => {
+  const root = parseXml('<svg><g class="outer"><g id="inner"><path class="p"/></g></g></svg>');
+  const outer = childElements(root)[0];
+  const inner = childElements(outer)[0];
+  const path = childElements(inner)[0];
+  const ancestors: XmlElement[] = [root, outer, inner];
+  const match = (css: string) => matchesSelector(parseStylesheet(`${css} {}`)[0].selector, path, ancestors);
+
+  it('matches type, class, id and universal compounds', () => {
+    expect(match('path')).toBe(true);
+    expect(match('path.p')).toBe(true);
+    expect(match('*')).toBe(true);
+    expect(match('rect')).toBe(false);
+    expect(match('.p.q')).toBe(false);
+  });
+
+  it('matches descendant and child combinators', () => {
+    expect(match('.outer path')).toBe(true);
+    expect(match('svg .outer #inner .p')).toBe(true);
+    expect(match('#inner > path')).toBe(true);
+    expect(match('.outer > path')).toBe(false);
+    expect(match('#inner .outer path')).toBe(false);
+  });
+});
+
+describe('cascadedValue', () => {
+  const el = parseXml('<path class="a" id="b" fill="black"/>');
+  const rules = parseStylesheet('#b { fill: green } .a { fill: red } path { stroke: blue !important } .a { stroke: red }');
+
+  it('ranks rules by specificity, then order', () => {
+    expect(cascadedValue('fill', el, rules, {})).toBe('green');
+    expect(cascadedValue('fill', el, rules.slice(1), {})).toBe('red');
+  });
+
+  it('puts inline style above rules and !important above both', () => {
+    expect(cascadedValue('fill', el, rules, parseDeclarations('fill: pink'))).toBe('pink');
+    expect(cascadedValue('stroke', el, rules, parseDeclarations('stroke: pink'))).toBe('blue');
+    expect(cascadedValue('stroke', el, rules, parseDeclarations('stroke: pink !important'))).toBe('pink');
+  });
+
+  it('falls back to the presentation attribute', () => {
+    expect(cascadedValue('fill', el, [], {})).toBe('black');
+    expect(cascadedValue('opacity', el, [], {})).toBeUndefined();
+  });
+});
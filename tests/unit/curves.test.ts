@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { easingFunctions, getEasingFunction, cubicBezier } from '../../src/easing/curves';
+import { easingFunctions, getEasingFunction, cubicBezier, toCubicBezier } from '../../src/easing/curves';
 import type { EasingName } from '../../src/types';
 
 describe('easingFunctions', () => {
@@ -103,3 +103,15 @@ describe('getEasingFunction', () => {
     expect(fn(0.5)).toBeCloseTo(0.5, 5);
   });
 });
+
+describe('toCubicBezier', () => {
+  it('returns bezier handles for named easings', () => {
+    expect(toCubicBezier('easeInOutCubic')).toEqual({ type: 'cubicBezier', x1: 0.65, y1: 0, x2: 0.35, y2: 1 });
+    expect(toCubicBezier(undefined)).toEqual({ type: 'cubicBezier', x1: 0, y1: 0, x2: 1, y2: 1 });
+  });
+
+  it('has no bezier form for elastic and bounce', () => {
+    expect(toCubicBezier('easeOutBounce')).toBeNull();
+    expect(toCubicBezier('easeInOutElastic')).toBeNull();
+  });
+});
@@ -3,8 +3,13 @@
  * Must be imported (via setupFiles) BEFORE any module that references HTMLElement.
  */
 
+import { getPathBounds } from '../../src/geometry/pathGeometry';
+import { applyMatrix, invertMatrix, multiplyMatrix, type Matrix2D } from '../../src/transform/matrix';
+
 const SVG_NS = 'http://www.w3.org/2000/svg';
 
+type Rect = { top: number; left: number; width: number; height: number };
+
 class FakeElement {
   tagName: string;
   attributes: Record<string, string> = {};
@@ -12,6 +17,7 @@ class FakeElement {
   style: Record<string, string> = {};
   innerHTML = '';
   namespaceURI: string;
+  rect: Rect = { top: 0, left: 0, width: 0, height: 0 };
 
   constructor(ns: string, tag: string) {
     this.namespaceURI = ns;
@@ -30,16 +36,49 @@ class FakeElement {
     this.children.push(child);
   }
 
+  getBoundingClientRect() {
+    return { ...this.rect, bottom: this.rect.top + this.rect.height, right: this.rect.left + this.rect.width };
+  }
+
+  listeners: Record<string, Set<(e: any) => void>> = {};
+
+  addEventListener(type: string, fn: (e: any) => void) {
+    (this.listeners[type] ??= new Set()).add(fn);
+  }
+
+  removeEventListener(type: string, fn: (e: any) => void) {
+    this.listeners[type]?.delete(fn);
+  }
+
+  /** Test helper — fire an event with optional extra fields (e.g. relatedTarget) */
+  dispatch(type: string, init: Record<string, unknown> = {}) {
+    this.listeners[type]?.forEach((fn) => fn({ type, target: this, relatedTarget: null, ...init }));
+  }
+
+  contains(node: unknown): boolean {
+    return node === this || this.children.some((c) => c.contains(node));
+  }
+
   querySelector(sel: string): FakeElement | null {
     for (const c of this.children) {
-      const attr = sel.match(/\[data-actor-id="(.+?)"\]/);
-      if (attr && c.attributes['data-actor-id'] === attr[1]) return c;
+      const attr = sel.match(/^\[([\w-]+)="(.+?)"\]$/);
+      if (attr && c.attributes[attr[1]] === attr[2]) return c;
       const found = c.querySelector(sel);
       if (found) return found;
     }
     return null;
   }
 
+  /** Canvas elements only — a recording 2D context sized like the element */
+  width = 300;
+  height = 150;
+  private _context: FakeContext2D | null = null;
+
+  getContext(type: string): FakeContext2D | null {
+    if (this.tagName !== 'canvas' || type !== '2d') return null;
+    return (this._context ??= new FakeContext2D(this));
+  }
+
   querySelectorAll(sel: string): FakeElement[] {
     const result: FakeElement[] = [];
     for (const c of this.children) {
@@ -55,6 +94,9 @@ if (typeof globalThis.document === 'undefined') {
     createElementNS(ns: string, tag: string) {
       return new FakeElement(ns, tag);
     },
+    createElement(tag: string) {
+      return new FakeElement('http://www.w3.org/1999/xhtml', tag);
+    },
   };
 }
 
@@ -62,6 +104,11 @@ if (typeof globalThis.HTMLElement === 'undefined') {
   (globalThis as any).HTMLElement = class {
     private _attrs: Record<string, string> = {};
     shadowRoot: any = null;
+    rect: Rect = { top: 0, left: 0, width: 0, height: 0 };
+
+    getBoundingClientRect() {
+      return { ...this.rect, bottom: this.rect.top + this.rect.height, right: this.rect.left + this.rect.width };
+    }
 
     attachShadow() {
       this.shadowRoot = {
@@ -135,6 +182,192 @@ if (typeof globalThis.CustomEvent === 'undefined') {
   };
 }
 
+/**
+ * Path2D stub — keeps its path data and the paths added to it. Hit tests
+ * treat every path as its bounding box.
+ */
+export class FakePath2D {
+  parts: { path: FakePath2D; matrix?: Matrix2D }[] = [];
+
+  constructor(public d?: string) {}
+
+  addPath(path: FakePath2D, matrix?: Matrix2D) {
+    this.parts.push({ path, matrix });
+  }
+}
+
+if (typeof globalThis.Path2D === 'undefined') {
+  (globalThis as any).Path2D = FakePath2D;
+}
+
+/** A recorded context call, with the transform and paint state it was made with */
+export interface ContextCall {
+  name: string;
+  args: unknown[];
+  transform: Matrix2D;
+  globalAlpha: number;
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  filter: string;
+}
+
+/** Recording CanvasRenderingContext2D stand-in */
+export class FakeContext2D {
+  calls: ContextCall[] = [];
+  globalAlpha = 1;
+  fillStyle: unknown = '#000';
+  strokeStyle: unknown = '#000';
+  lineWidth = 1;
+  lineJoin = 'miter';
+  lineCap = 'butt';
+  miterLimit = 10;
+  lineDashOffset = 0;
+  filter = 'none';
+  font = '10px sans-serif';
+  textAlign = 'start';
+  textBaseline = 'alphabetic';
+  private _transform: Matrix2D = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+  private _stack: Omit<ContextCall, 'name' | 'args'>[] = [];
+
+  constructor(public canvas: { width: number; height: number } = { width: 300, height: 150 }) {}
+
+  private _record(name: string, args: unknown[]) {
+    this.calls.push({ name, args, ...this._paintState() });
+  }
+
+  private _paintState() {
+    const { globalAlpha, fillStyle, strokeStyle, lineWidth, filter } = this;
+    return { transform: { ...this._transform }, globalAlpha, fillStyle, strokeStyle, lineWidth, filter };
+  }
+
+  /** Recorded calls named `name` */
+  named(name: string): ContextCall[] {
+    return this.calls.filter((c) => c.name === name);
+  }
+
+  save() {
+    this._stack.push(this._paintState());
+    this._record('save', []);
+  }
+
+  restore() {
+    const state = this._stack.pop();
+    if (state) {
+      const { transform, ...paint } = state;
+      this._transform = transform;
+      Object.assign(this, paint);
+    }
+    this._record('restore', []);
+  }
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this._transform = { a, b, c, d, e, f };
+  }
+
+  clearRect(...args: number[]) { this._record('clearRect', args); }
+  fillRect(...args: number[]) { this._record('fillRect', args); }
+  fill(...args: unknown[]) { this._record('fill', args); }
+  stroke(...args: unknown[]) { this._record('stroke', args); }
+  clip(...args: unknown[]) { this._record('clip', args); }
+  setLineDash(segments: number[]) { this._record('setLineDash', [segments]); }
+  fillText(...args: unknown[]) { this._record('fillText', args); }
+  strokeText(...args: unknown[]) { this._record('strokeText', args); }
+
+  measureText(text: string) {
+    return { width: text.length * 8 };
+  }
+
+  createLinearGradient(...args: number[]) {
+    return this._gradient('linear', args);
+  }
+
+  createRadialGradient(...args: number[]) {
+    return this._gradient('radial', args);
+  }
+
+  private _gradient(type: string, args: number[]) {
+    const stops: [number, string][] = [];
+    return { type, args, stops, addColorStop: (offset: number, color: string) => stops.push([offset, color]) };
+  }
+
+  isPointInPath(path: FakePath2D, x: number, y: number) {
+    return this._inside(path, this._transform, x, y, 0);
+  }
+
+  isPointInStroke(path: FakePath2D, x: number, y: number) {
+    const half = this.lineWidth / 2;
+    return this._inside(path, this._transform, x, y, half) && !this._inside(path, this._transform, x, y, -half);
+  }
+
+  private _inside(path: FakePath2D, m: Matrix2D, x: number, y: number, grow: number): boolean {
+    const parts = path.parts.some((p) => this._inside(p.path, p.matrix ? multiplyMatrix(m, p.matrix) : m, x, y, grow));
+    if (parts || !path.d) return parts;
+    const inv = invertMatrix(m);
+    const b = getPathBounds(path.d);
+    if (!inv || !b) return false;
+    const p = applyMatrix(inv, { x, y });
+    return p.x >= b.x - grow && p.x <= b.x + b.w + grow && p.y >= b.y - grow && p.y <= b.y + b.h + grow;
+  }
+}
+
 if (typeof globalThis.fetch === 'undefined') {
   (globalThis as any).fetch = async () => ({ text: async () => '{}' });
 }
+
+/**
+ * IntersectionObserver stub — tests drive it with `fire()`.
+ * Not installed globally; stub it per test with `vi.stubGlobal`.
+ */
+export class FakeIntersectionObserver {
+  static instances: FakeIntersectionObserver[] = [];
+  targets: unknown[] = [];
+  disconnected = false;
+
+  constructor(
+    private callback: (entries: { isIntersecting: boolean; intersectionRatio: number; target: unknown }[]) => void,
+    public options?: { threshold?: number },
+  ) {
+    FakeIntersectionObserver.instances.push(this);
+  }
+
+  observe(target: unknown) {
+    this.targets.push(target);
+  }
+
+  disconnect() {
+    this.disconnected = true;
+  }
+
+  fire(intersectionRatio: number) {
+    if (this.disconnected) return;
+    this.callback(this.targets.map((target) => ({
+      isIntersecting: intersectionRatio > 0,
+      intersectionRatio,
+      target,
+    })));
+  }
+}
+
+/** Minimal `window` stub with scroll/resize listeners and a settable viewport height. */
+export class FakeWindow {
+  innerHeight = 1000;
+  listeners = new Map<string, Set<() => void>>();
+
+  addEventListener(type: string, fn: () => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(fn);
+  }
+
+  removeEventListener(type: string, fn: () => void) {
+    this.listeners.get(type)?.delete(fn);
+  }
+
+  dispatch(type: string) {
+    this.listeners.get(type)?.forEach((fn) => fn());
+  }
+}
+
+export function createFakeElement(tag = 'div') {
+  return new FakeElement(SVG_NS, tag);
+}
@@ -0,0 +1,505 @@
+// DOM stubs MUST be imported before the component
+import { FakeIntersectionObserver, FakeWindow, createFakeElement } from './dom-stubs';
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  hoverDriver,
+  clickDriver,
+  resolveTriggerTargets,
+  bindCanvasTriggeredPlayback,
+  appearDriver,
+  scrollDriver,
+  scrollProgress,
+  attachTriggerDriver,
+  createTriggeredPlaybacks,
+  sceneTimelines,
+} from '../../src/trigger/drivers';
+import { MotionSvgElement } from '../../src/vanilla/MotionSvgElement';
+import type { PlaybackController, Timeline, TriggerBinding } from '../../src/types';
+
+function mockController(duration = 1000) {
+  let state: PlaybackController['state'] = 'idle';
+  return {
+    play: vi.fn(() => { state = 'playing'; }),
+    stop: vi.fn(() => { state = 'idle'; }),
+    reverse: vi.fn(() => { state = 'playing'; }),
+    seek: vi.fn(),
+    get state() { return state; },
+    duration,
+  } as unknown as PlaybackController & {
+    play: ReturnType<typeof vi.fn>;
+    stop: ReturnType<typeof vi.fn>;
+    reverse: ReturnType<typeof vi.fn>;
+    seek: ReturnType<typeof vi.fn>;
+  };
+}
+
+let win: FakeWindow;
+
+beforeEach(() => {
+  FakeIntersectionObserver.instances = [];
+  win = new FakeWindow();
+  vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+  vi.stubGlobal('window', win);
+  vi.stubGlobal('requestAnimationFrame', () => 0);
+  vi.stubGlobal('cancelAnimationFrame', () => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('hoverDriver', () => {
+  it('plays on enter and stops on leave', () => {
+    const el = createFakeElement('g');
+    const ctrl = mockController();
+    hoverDriver([el as any], ctrl, { type: 'hover' });
+
+    el.dispatch('pointerenter');
+    expect(ctrl.play).toHaveBeenCalledTimes(1);
+    el.dispatch('pointerleave');
+    expect(ctrl.stop).toHaveBeenCalledTimes(1);
+    expect(ctrl.reverse).not.toHaveBeenCalled();
+  });
+
+  it('reverse: plays back on leave instead of stopping', () => {
+    const el = createFakeElement('g');
+    const ctrl = mockController();
+    hoverDriver([el as any], ctrl, { type: 'hover', reverse: true });
+
+    el.dispatch('pointerleave'); // never entered — nothing to reverse
+    expect(ctrl.reverse).not.toHaveBeenCalled();
+
+    el.dispatch('pointerenter');
+    el.dispatch('pointerleave');
+    expect(ctrl.reverse).toHaveBeenCalledTimes(1);
+    expect(ctrl.stop).not.toHaveBeenCalled();
+  });
+
+  it('moving between elements of the same scope is not a leave', () => {
+    const a = createFakeElement('g');
+    const b = createFakeElement('g');
+    const ctrl = mockController();
+    hoverDriver([a as any, b as any], ctrl, { type: 'hover' });
+
+    a.dispatch('pointerenter');
+    a.dispatch('pointerleave', { relatedTarget: b });
+    b.dispatch('pointerenter', { relatedTarget: a });
+    expect(ctrl.play).toHaveBeenCalledTimes(1);
+    expect(ctrl.stop).not.toHaveBeenCalled();
+  });
+
+  it('cleanup removes listeners', () => {
+    const el = createFakeElement('g');
+    const ctrl = mockController();
+    hoverDriver([el as any], ctrl, { type: 'hover' })();
+    el.dispatch('pointerenter');
+    expect(ctrl.play).not.toHaveBeenCalled();
+  });
+});
+
+describe('clickDriver', () => {
+  it('restarts the timeline on every click', () => {
+    const el = createFakeElement('g');
+    const ctrl = mockController();
+    clickDriver([el as any], ctrl, { type: 'click' });
+
+    el.dispatch('click');
+    el.dispatch('click');
+    expect(ctrl.stop).toHaveBeenCalledTimes(2);
+    expect(ctrl.play).toHaveBeenCalledTimes(2);
+    expect(el.style.cursor).toBe('pointer');
+  });
+
+  it('toggle: alternates forward and back', () => {
+    const el = createFakeElement('g');
+    const ctrl = mockController();
+    const cleanup = clickDriver([el as any], ctrl, { type: 'click', toggle: true });
+
+    el.dispatch('click');
+    el.dispatch('click');
+    el.dispatch('click');
+    expect(ctrl.play).toHaveBeenCalledTimes(2);
+    expect(ctrl.reverse).toHaveBeenCalledTimes(1);
+    expect(ctrl.stop).not.toHaveBeenCalled();
+
+    cleanup();
+    expect(el.style.cursor).toBe('');
+  });
+});
+
+describe('resolveTriggerTargets', () => {
+  function buildRoot() {
+    const svg = createFakeElement('svg');
+    for (const id of ['group', 'child1', 'child2', 'loose']) {
+      const g = createFakeElement('g');
+      g.setAttribute('data-actor-id', id);
+      svg.appendChild(g);
+    }
+    const actor = (id: string, extra: object = {}) => ({ id, ...extra }) as any;
+    const actors = [
+      actor('group', { childIds: ['child1', 'child2'] }),
+      actor('child1', { parentId: 'group' }),
+      actor('child2', { parentId: 'group' }),
+      actor('loose'),
+    ];
+    return { host: svg as any, svg: svg as any, actors };
+  }
+
+  const ids = (els: any[]) => els.map((e) => e.attributes?.['data-actor-id'] ?? e.tagName);
+
+  it('self: the actor group', () => {
+    expect(ids(resolveTriggerTargets(buildRoot(), 'child1'))).toEqual(['child1']);
+  });
+
+  it('self on a group actor includes its children', () => {
+    expect(ids(resolveTriggerTargets(buildRoot(), 'group', 'self'))).toEqual(['group', 'child1', 'child2']);
+  });
+
+  it('parent: the parent group actor and its children', () => {
+    expect(ids(resolveTriggerTargets(buildRoot(), 'child2', 'parent'))).toEqual(['group', 'child1', 'child2']);
+  });
+
+  it('parent without a parent group falls back to the whole svg', () => {
+    expect(ids(resolveTriggerTargets(buildRoot(), 'loose', 'parent'))).toEqual(['svg']);
+  });
+});
+
+describe('appearDriver', () => {
+  it('plays when the element crosses the threshold', () => {
+    const ctrl = mockController();
+    appearDriver(createFakeElement() as any, ctrl, { type: 'appear', threshold: 0.5 });
+    const io = FakeIntersectionObserver.instances[0];
+    expect(io.options?.threshold).toBe(0.5);
+
+    io.fire(0.2);
+    expect(ctrl.play).not.toHaveBeenCalled();
+    io.fire(0.6);
+    expect(ctrl.play).toHaveBeenCalledTimes(1);
+  });
+
+  it('resets on leave so it replays on the next appearance', () => {
+    const ctrl = mockController();
+    appearDriver(createFakeElement() as any, ctrl, { type: 'appear' });
+    const io = FakeIntersectionObserver.instances[0];
+
+    io.fire(1);
+    io.fire(0);
+    expect(ctrl.stop).toHaveBeenCalledTimes(1);
+    io.fire(1);
+    expect(ctrl.play).toHaveBeenCalledTimes(2);
+  });
+
+  it('once: disconnects after the first appearance', () => {
+    const ctrl = mockController();
+    appearDriver(createFakeElement() as any, ctrl, { type: 'appear', once: true });
+    const io = FakeIntersectionObserver.instances[0];
+
+    io.fire(1);
+    expect(io.disconnected).toBe(true);
+    io.fire(0);
+    expect(ctrl.stop).not.toHaveBeenCalled();
+  });
+
+  it('cleanup disconnects the observer', () => {
+    const cleanup = appearDriver(createFakeElement() as any, mockController(), { type: 'appear' });
+    cleanup();
+    expect(FakeIntersectionObserver.instances[0].disconnected).toBe(true);
+  });
+
+  it('plays immediately without IntersectionObserver', () => {
+    vi.stubGlobal('IntersectionObserver', undefined);
+    const ctrl = mockController();
+    appearDriver(createFakeElement() as any, ctrl, { type: 'appear' });
+    expect(ctrl.play).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('scrollProgress', () => {
+  it('is 0 when the element is below the viewport and 1 above it', () => {
+    const el = createFakeElement();
+    el.rect = { top: 1000, left: 0, width: 100, height: 200 };
+    expect(scrollProgress(el as any, 1000)).toBe(0);
+    el.rect.top = -200;
+    expect(scrollProgress(el as any, 1000)).toBe(1);
+  });
+
+  it('is 0.5 when the element is centred in the viewport', () => {
+    const el = createFakeElement();
+    el.rect = { top: 400, left: 0, width: 100, height: 200 };
+    expect(scrollProgress(el as any, 1000)).toBeCloseTo(0.5);
+  });
+});
+
+describe('scrollDriver', () => {
+  it('seeks to the mapped position immediately and on scroll', () => {
+    const el = createFakeElement();
+    el.rect = { top: 1000, left: 0, width: 100, height: 200 };
+    const ctrl = mockController(1000);
+    scrollDriver(el as any, ctrl, { type: 'scroll' });
+    expect(ctrl.seek).toHaveBeenLastCalledWith(0);
+
+    el.rect.top = 400;
+    win.dispatch('scroll');
+    expect(ctrl.seek.mock.calls.at(-1)![0]).toBeCloseTo(500);
+  });
+
+  it('maps progress between start and end onto the full timeline', () => {
+    const el = createFakeElement();
+    el.rect = { top: 400, left: 0, width: 100, height: 200 }; // progress 0.5
+    const ctrl = mockController(1000);
+    scrollDriver(el as any, ctrl, { type: 'scroll', start: 0.25, end: 0.75 });
+    expect(ctrl.seek.mock.calls.at(-1)![0]).toBeCloseTo(500);
+
+    el.rect.top = 1000; // progress 0 — before start
+    win.dispatch('resize');
+    expect(ctrl.seek).toHaveBeenLastCalledWith(0);
+
+    el.rect.top = -200; // progress 1 — after end
+    win.dispatch('scroll');
+    expect(ctrl.seek).toHaveBeenLastCalledWith(1000);
+  });
+
+  it('cleanup removes listeners', () => {
+    const cleanup = scrollDriver(createFakeElement() as any, mockController(), { type: 'scroll' });
+    cleanup();
+    expect(win.listeners.get('scroll')!.size).toBe(0);
+    expect(win.listeners.get('resize')!.size).toBe(0);
+  });
+});
+
+describe('bindCanvasTriggeredPlayback', () => {
+  // A 200×200 canvas laid out at 100×100 CSS pixels: group on the left, loose actor on the right
+  function buildRoot() {
+    const canvas = Object.assign(createFakeElement('canvas'), { width: 200, height: 200 });
+    canvas.rect = { top: 0, left: 0, width: 100, height: 100 };
+    const actors = [
+      { id: 'group', childIds: ['child'] },
+      { id: 'child', parentId: 'group' },
+      { id: 'loose' },
+    ] as any[];
+    const hitTest = vi.fn((x: number, y: number) => (y >= 100 ? null : x < 100 ? 'child' : 'loose'));
+    return { host: canvas as any, canvas: canvas as any, actors, hitTest };
+  }
+
+  const bound = (actorId: string, config: TriggerBinding['config']) => ({
+    binding: { timelineId: 'tl', config },
+    timeline: { id: 'tl', actorId, keyframes: [] },
+    controller: mockController(),
+  }) as any;
+
+  it('hover: plays while the pointer is over the scope, in canvas pixels', () => {
+    const root = buildRoot();
+    const tp = bound('group', { type: 'hover', reverse: true });
+    const cleanup = bindCanvasTriggeredPlayback(root, tp);
+
+    root.canvas.dispatch('pointermove', { clientX: 20, clientY: 20 });
+    expect(root.hitTest).toHaveBeenCalledWith(40, 40);
+    expect(tp.controller.play).toHaveBeenCalledTimes(1);
+    // Moving within the scope does not replay
+    root.canvas.dispatch('pointermove', { clientX: 30, clientY: 20 });
+    expect(tp.controller.play).toHaveBeenCalledTimes(1);
+
+    root.canvas.dispatch('pointermove', { clientX: 80, clientY: 20 });
+    expect(tp.controller.reverse).toHaveBeenCalledTimes(1);
+
+    cleanup();
+    expect(root.canvas.listeners.pointermove.size).toBe(0);
+  });
+
+  it('hover without a parent scope covers the whole canvas', () => {
+    const root = buildRoot();
+    const tp = bound('loose', { type: 'hover', target: 'parent' });
+    bindCanvasTriggeredPlayback(root, tp);
+    root.canvas.dispatch('pointermove', { clientX: 10, clientY: 90 });
+    expect(tp.controller.play).toHaveBeenCalledTimes(1);
+    root.canvas.dispatch('pointerleave');
+    expect(tp.controller.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('click: plays only on hits and shows a pointer over the scope', () => {
+    const root = buildRoot();
+    root.canvas.style.cursor = 'crosshair';
+    const tp = bound('loose', { type: 'click' });
+    const cleanup = bindCanvasTriggeredPlayback(root, tp);
+
+    root.canvas.dispatch('click', { clientX: 20, clientY: 20 });
+    expect(tp.controller.play).not.toHaveBeenCalled();
+    root.canvas.dispatch('click', { clientX: 80, clientY: 20 });
+    expect(tp.controller.play).toHaveBeenCalledTimes(1);
+
+    root.canvas.dispatch('pointermove', { clientX: 80, clientY: 20 });
+    expect(root.canvas.style.cursor).toBe('pointer');
+    root.canvas.dispatch('pointermove', { clientX: 20, clientY: 20 });
+    expect(root.canvas.style.cursor).toBe('crosshair');
+
+    root.canvas.dispatch('pointermove', { clientX: 80, clientY: 20 });
+    cleanup();
+    expect(root.canvas.style.cursor).toBe('crosshair');
+  });
+});
+
+describe('attachTriggerDriver', () => {
+  it('is a no-op for scene-clock triggers', () => {
+    const ctrl = mockController();
+    const cleanup = attachTriggerDriver(createFakeElement() as any, ctrl, { type: 'loop' });
+    expect(typeof cleanup).toBe('function');
+    expect(FakeIntersectionObserver.instances).toHaveLength(0);
+    expect(ctrl.seek).not.toHaveBeenCalled();
+    expect(ctrl.play).not.toHaveBeenCalled();
+  });
+
+  it('binds hover to the given element', () => {
+    const el = createFakeElement('g');
+    const ctrl = mockController();
+    attachTriggerDriver(el as any, ctrl, { type: 'hover' });
+    el.dispatch('pointerenter');
+    expect(ctrl.play).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createTriggeredPlaybacks', () => {
+  const tlA: Timeline = { id: 'tl-a', actorId: 'a', keyframes: [{ at: 0, opacity: 0 }, { at: 100, opacity: 1 }], duration: 100 };
+  const tlB: Timeline = { id: 'tl-b', actorId: 'b', keyframes: [{ at: 0, opacity: 0 }, { at: 100, opacity: 1 }], duration: 100 };
+  const triggers: TriggerBinding[] = [
+    { timelineId: 'tl-a', config: { type: 'scroll' } },
+    { timelineId: 'tl-b', config: { type: 'loop' } },
+  ];
+
+  it('creates controllers only for pointer/page-driven bindings', () => {
+    const onUpdate = vi.fn();
+    const triggered = createTriggeredPlaybacks({ scene: { gradients: [] }, timelines: [tlA, tlB], triggers }, onUpdate);
+    expect(triggered).toHaveLength(1);
+    expect(triggered[0].timeline.id).toBe('tl-a');
+
+    triggered[0].controller.seek(50);
+    expect(onUpdate).toHaveBeenCalledWith('a', expect.objectContaining({ opacity: 0.5 }));
+
+    expect(sceneTimelines([tlA, tlB], triggered).map((t) => t.id)).toEqual(['tl-b']);
+  });
+});
+
+describe('MotionSvgElement with page-driven triggers', () => {
+  it('keeps scroll timelines off the scene clock and scrubs them on scroll', () => {
+    const el = new MotionSvgElement();
+    el.connectedCallback();
+    (el as any).rect = { top: 1000, left: 0, width: 100, height: 200 };
+
+    el.bundle = {
+      version: '1.0',
+      scene: {
+        viewBox: { x: 0, y: 0, w: 100, h: 100 },
+        svg: '',
+        paths: [{ id: 'p1', d: 'M0,0 L10,0 L10,10 Z' }, { id: 'p2', d: 'M20,0 L30,0 L30,10 Z' }],
+        colors: {},
+      },
+      actors: [
+        { id: 'a1', pathIds: ['p1'], origin: { x: 5, y: 5 } },
+        { id: 'a2', pathIds: ['p2'], origin: { x: 25, y: 5 } },
+      ],
+      timelines: [
+        { actorId: 'a1', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }] },
+        { actorId: 'a2', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }] },
+      ],
+      triggers: [{ timelineIdx: 0, type: 'scroll' }, { timelineIdx: 1, type: 'appear', once: true }],
+    };
+
+    expect(el.playback!.timelines).toHaveLength(0);
+    expect(el.controllers).toHaveLength(3);
+
+    (el as any).rect.top = 400;
+    win.dispatch('scroll');
+    expect((el as any)._actorStates.a1.opacity).toBeCloseTo(0.5);
+
+    FakeIntersectionObserver.instances[0].fire(1);
+    expect(el.controllers[2].state).toBe('playing');
+
+    el.disconnectedCallback();
+    expect(win.listeners.get('scroll')!.size).toBe(0);
+    expect(FakeIntersectionObserver.instances[0].disconnected).toBe(true);
+  });
+});
+
+describe('MotionSvgElement with pointer triggers', () => {
+  it('plays only the bound timeline when its actor is hovered', () => {
+    const el = new MotionSvgElement();
+    el.connectedCallback();
+    el.bundle = {
+      version: '1.0',
+      scene: {
+        viewBox: { x: 0, y: 0, w: 100, h: 100 },
+        svg: '',
+        paths: [{ id: 'p1', d: 'M0,0 L10,0 L10,10 Z' }, { id: 'p2', d: 'M20,0 L30,0 L30,10 Z' }],
+        colors: {},
+      },
+      actors: [
+        { id: 'a1', pathIds: ['p1'], origin: { x: 5, y: 5 } },
+        { id: 'a2', pathIds: ['p2'], origin: { x: 25, y: 5 } },
+      ],
+      timelines: [
+        { actorId: 'a1', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }] },
+        { actorId: 'a2', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }] },
+      ],
+      triggers: [
+        { timelineIdx: 0, type: 'hover', target: 'self', reverse: true },
+        { timelineIdx: 1, type: 'click', toggle: true },
+      ],
+    };
+
+    const svg = (el as any)._svgEl;
+    const [hoverCtrl, clickCtrl] = el.controllers.slice(1);
+
+    svg.querySelector('[data-actor-id="a1"]').dispatch('pointerenter');
+    expect(hoverCtrl.state).toBe('playing');
+    expect(clickCtrl.state).toBe('idle');
+    expect(el.playback!.state).toBe('idle');
+
+    svg.querySelector('[data-actor-id="a2"]').dispatch('click');
+    expect(clickCtrl.state).toBe('playing');
+  });
+});
+
+describe('MotionSvgElement on a canvas', () => {
+  it('draws on a canvas and hit-tests pointer triggers', () => {
+    const el = new MotionSvgElement();
+    el.connectedCallback();
+    el.setAttribute('renderer', 'canvas');
+    el.bundle = {
+      version: '1.0',
+      scene: {
+        viewBox: { x: 0, y: 0, w: 100, h: 100 },
+        svg: '',
+        paths: [{ id: 'p1', d: 'M0,0 L10,0 L10,10 Z', fill: '#ff0000' }, { id: 'p2', d: 'M20,0 L30,0 L30,10 Z' }],
+        colors: {},
+      },
+      actors: [
+        { id: 'a1', pathIds: ['p1'], origin: { x: 5, y: 5 } },
+        { id: 'a2', pathIds: ['p2'], origin: { x: 25, y: 5 } },
+      ],
+      timelines: [
+        { actorId: 'a1', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }] },
+        { actorId: 'a2', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }] },
+      ],
+      triggers: [{ timelineIdx: 0, type: 'hover' }, { timelineIdx: 1, type: 'loop' }],
+    };
+
+    const canvas = (el as any)._canvasEl;
+    expect((el as any)._svgEl).toBeNull();
+    expect(canvas.tagName).toBe('canvas');
+    // Sized from the viewBox until laid out
+    expect([canvas.width, canvas.height]).toEqual([100, 100]);
+    const ctx = canvas.getContext('2d');
+    expect(ctx.named('fill').map((c: any) => c.fillStyle)).toEqual(['#ff0000', '#000']);
+
+    canvas.rect = { top: 0, left: 0, width: 100, height: 100 };
+    const hoverCtrl = el.controllers[1];
+    canvas.dispatch('pointermove', { clientX: 25, clientY: 5 });
+    expect(hoverCtrl.state).toBe('idle');
+    canvas.dispatch('pointermove', { clientX: 8, clientY: 2 });
+    expect(hoverCtrl.state).toBe('playing');
+
+    el.renderer = 'svg';
+    expect((el as any)._canvasEl).toBeNull();
+    expect((el as any)._svgEl).not.toBeNull();
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import { exportAnimatedSvg, type AnimatedSvgSource } from '../../src/bundle/exportAnimatedSvg';
+import type { Actor, Scene, Timeline, TriggerBinding, GradientDef } from '../../src/types';
+
+const gradients: GradientDef[] = [
+  { type: 'linear', id: 'g1', x1: 0, y1: 0, x2: 1, y2: 0, stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff' }] },
+];
+
+const scene: Scene = {
+  viewBox: { x: 0, y: 0, w: 100, h: 100 },
+  paths: [
+    { id: 'p1', d: 'M0,0 L10,0 L10,10 Z', fill: '#ff0000' },
+    { id: 'bg', d: 'M0,0 L100,0 L100,100 Z', fill: '#eeeeee' },
+  ],
+  groups: [],
+  colors: {},
+  gradients,
+  metadata: { xmlns: 'http://www.w3.org/2000/svg', originalSvg: '' },
+};
+
+const actor: Actor = {
+  id: 'a1', pathIds: ['p1'], paths: [scene.paths[0]],
+  origin: { x: 5, y: 5 }, position: { x: 5, y: 5 },
+  scale: 1, rotation: 0, opacity: 1, blurRadius: 0, backdropBlur: 0, z: 0,
+};
+
+function source(keyframes: Timeline['keyframes'], triggers: TriggerBinding[] = []): AnimatedSvgSource {
+  const duration = keyframes[keyframes.length - 1].at;
+  return {
+    scene,
+    actors: [actor],
+    timelines: [{ id: 'tl-1', actorId: 'a1', keyframes, duration }],
+    triggers,
+  };
+}
+
+describe('exportAnimatedSvg — smil', () => {
+  it('animates position relative to the actor origin', () => {
+    const { svg, baked } = exportAnimatedSvg(
+      source([{ at: 0, position: { x: 5, y: 5 } }, { at: 1000, position: { x: 25, y: 5 }, curve: 'linear' }]),
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('<animateTransform attributeName="transform" type="translate" values="0 0;20 0"');
+    expect(svg).toContain('dur="1000ms"');
+    expect(baked).toEqual([]);
+  });
+
+  it('rotates around the origin and scales via an additive transform', () => {
+    const { svg } = exportAnimatedSvg(
+      source([{ at: 0, rotation: 0, scale: 1 }, { at: 500, rotation: 90, scale: 2 }]),
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('type="rotate" values="0 5 5;90 5 5"');
+    expect(svg).toContain('type="scale" additive="sum" values="1 1;2 2"');
+    expect(svg).toContain('<g transform="translate(-5,-5)">');
+  });
+
+  it('writes bezier easings as keySplines', () => {
+    const { svg, baked } = exportAnimatedSvg(
+      source([{ at: 0, opacity: 0 }, { at: 400, opacity: 1, curve: 'easeOutCubic' }]),
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('calcMode="spline" keySplines="0.33 1 0.68 1"');
+    expect(baked).toEqual([]);
+  });
+
+  it('bakes bounce and overshooting easings into sampled keyframes', () => {
+    const { svg, baked } = exportAnimatedSvg(
+      source([
+        { at: 0, opacity: 0, scale: 1 },
+        { at: 1000, opacity: 1, scale: 2, curve: 'easeOutBounce' },
+        { at: 2000, opacity: 0, curve: 'easeOutBack' },
+      ]),
+      { mode: 'smil', fps: 10 },
+    );
+    const opacity = svg.match(/attributeName="opacity" values="([^"]+)"/)![1].split(';');
+    expect(opacity.length).toBeGreaterThan(20);
+    expect(baked).toEqual([
+      { actorId: 'a1', property: 'scale', feature: 'easing', detail: 'easeOutBounce' },
+      { actorId: 'a1', property: 'opacity', feature: 'easing', detail: 'easeOutBounce' },
+      { actorId: 'a1', property: 'opacity', feature: 'easing', detail: 'easeOutBack' },
+    ]);
+  });
+
+  it('samples motion paths and their auto-rotation', () => {
+    const d = 'M5,5 L55,5 L55,55';
+    const { svg, baked } = exportAnimatedSvg(
+      source([{ at: 0, position: { x: 5, y: 5 }, rotation: 0 }, { at: 1000, motionPath: { d, autoRotate: true }, curve: 'linear' }]),
+      { mode: 'smil', fps: 10 },
+    );
+    const translate = svg.match(/type="translate" values="([^"]+)"/)![1].split(';');
+    expect(translate.length).toBeGreaterThanOrEqual(11);
+    expect(translate[translate.length - 1]).toBe('50 50');
+    expect(svg).toMatch(/type="rotate" values="0 5 5;[^"]*90 5 5"/);
+    expect(baked.map((b) => [b.property, b.feature])).toEqual([['position', 'motionPath'], ['rotation', 'motionPath']]);
+  });
+
+  it('holds shorter timelines and loop delays until the end of the cycle', () => {
+    const loop: TriggerBinding = { timelineId: 'tl-1', config: { type: 'loop', iterations: Infinity, delay: 1000 } };
+    const { svg } = exportAnimatedSvg(
+      source([{ at: 500, opacity: 0 }, { at: 1000, opacity: 1 }], [loop]),
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('values="0;0;1;1"');
+    expect(svg).toContain('keyTimes="0;0.25;0.5;1"');
+    expect(svg).toContain('repeatCount="indefinite"');
+  });
+
+  it('starts composed timelines at their offsets', () => {
+    const base = source([{ at: 0, opacity: 0 }, { at: 1000, opacity: 1, curve: 'linear' }]);
+    const { svg } = exportAnimatedSvg(
+      {
+        ...base,
+        composition: { id: 'comp-1', items: [], timelines: base.timelines, offsets: { 'tl-1': 1000 }, markers: [], duration: 2000 },
+      },
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('values="0;0;1"');
+    expect(svg).toContain('keyTimes="0;0.5;1"');
+    expect(svg).toContain('dur="2000ms"');
+  });
+
+  it('bakes alternate loops into a doubled cycle', () => {
+    const loop: TriggerBinding = { timelineId: 'tl-1', config: { type: 'loop', iterations: 4, direction: 'alternate' } };
+    const { svg } = exportAnimatedSvg(
+      source([{ at: 0, opacity: 0 }, { at: 1000, opacity: 1, curve: 'easeInQuad' }], [loop]),
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('values="0;1;0"');
+    expect(svg).toContain('dur="2000ms"');
+    expect(svg).toContain('repeatCount="2"');
+    expect(svg).toContain('keySplines="0.11 0 0.5 0;0.5 1 0.89 1"');
+  });
+
+  it('loops each timeline on its own, with the first reverse pass forward', () => {
+    const other: Actor = { ...actor, id: 'a2', pathIds: ['bg'], paths: [scene.paths[1]] };
+    const loop: TriggerBinding = { timelineId: 'tl-1', config: { type: 'loop', iterations: 3, direction: 'reverse' } };
+    const { svg } = exportAnimatedSvg(
+      {
+        scene,
+        actors: [actor, other],
+        timelines: [
+          { id: 'tl-1', actorId: 'a1', keyframes: [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }], duration: 1000 },
+          { id: 'tl-2', actorId: 'a2', keyframes: [{ at: 0, opacity: 1 }, { at: 2000, opacity: 0 }], duration: 2000 },
+        ],
+        triggers: [loop],
+      },
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('values="0;1" dur="1000ms" begin="0s" fill="freeze" repeatCount="1"');
+    expect(svg).toContain('values="1;0" dur="1000ms" begin="1000ms" fill="freeze" repeatCount="2"');
+    expect(svg).toContain('values="1;0" dur="2000ms" begin="0s" fill="freeze" repeatCount="1"');
+  });
+
+  it('writes path transforms and stroke alignment', () => {
+    const framed = { ...scene, paths: [scene.paths[0], { ...scene.paths[1], transform: 'translate(10,0)' }] };
+    const outlined: Actor = { ...actor, paths: [{ ...scene.paths[0], stroke: '#000000', strokeWidth: 2, strokeAlign: 'outside' }] };
+    const { svg, warnings } = exportAnimatedSvg(
+      { ...source([{ at: 0, opacity: 0 }, { at: 100, opacity: 1 }]), scene: framed, actors: [outlined] },
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('<path d="M0,0 L100,0 L100,100 Z" fill="#eeeeee" transform="translate(10,0)"/>');
+    expect(svg).toContain('stroke-width="4" style="paint-order:stroke fill markers"');
+    expect(warnings).toEqual([]);
+
+    const { warnings: morphing } = exportAnimatedSvg(
+      { ...source([{ at: 0, strokeWidth: 1 }, { at: 100, strokeWidth: 3 }]), actors: [outlined] },
+      { mode: 'smil' },
+    );
+    expect(morphing).toEqual(['Actor "a1" animates paths with an outside stroke, which is exported centered.']);
+  });
+
+  it('animates fill, stroke width and path morphs on the actor paths', () => {
+    const { svg } = exportAnimatedSvg(
+      source([
+        { at: 0, fill: '#ff0000', strokeWidth: 1, pathD: 'M0,0 L10,0 L10,10 Z' },
+        { at: 1000, fill: '#00ff00', strokeWidth: 3, pathD: 'M0,0 L10,0 L10,10 L0,10 Z' },
+      ]),
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('attributeName="fill" values="#ff0000;#00ff00"');
+    expect(svg).toContain('attributeName="stroke-width" values="1;3"');
+    const d = svg.match(/attributeName="d" values="([^"]+)"/)![1].split(';');
+    expect(d).toHaveLength(2);
+    expect(d[0].match(/C/g)!.length).toBe(d[1].match(/C/g)!.length);
+  });
+
+  it('bakes gradient blends into stepped gradient defs', () => {
+    const { svg, baked } = exportAnimatedSvg(
+      source([{ at: 0, fill: '#00ff00' }, { at: 1000, fill: 'url(#g1)' }]),
+      { mode: 'smil', fps: 4 },
+    );
+    expect(svg).toContain('<linearGradient id="ms-a1-fill-0"');
+    expect(svg).toContain('calcMode="discrete"');
+    expect(baked).toEqual([{ actorId: 'a1', property: 'fill', feature: 'gradient', detail: 'url(#g1)' }]);
+  });
+
+  it('keeps static paths and warns about interactive triggers', () => {
+    const hover: TriggerBinding = { timelineId: 'tl-1', config: { type: 'hover' } };
+    const { svg, warnings } = exportAnimatedSvg(
+      source([{ at: 0, opacity: 0 }, { at: 100, opacity: 1 }], [hover]),
+      { mode: 'smil' },
+    );
+    expect(svg).toContain('<path d="M0,0 L100,0 L100,100 Z" fill="#eeeeee"/>');
+    expect(warnings[0]).toMatch(/hover trigger/);
+  });
+});
+
+describe('exportAnimatedSvg — css', () => {
+  it('writes one @keyframes rule per channel with cubic-bezier timing', () => {
+    const { svg } = exportAnimatedSvg(
+      source([
+        { at: 0, position: { x: 5, y: 5 }, rotation: 0 },
+        { at: 1000, position: { x: 15, y: 5 }, rotation: 45, curve: 'easeInOutBack' },
+      ]),
+      { mode: 'css' },
+    );
+    expect(svg).toContain('@keyframes ms-0-position{0%{translate:0px 0px;animation-timing-function:cubic-bezier(0.68,-0.6,0.32,1.6)}100%{translate:10px 0px}}');
+    expect(svg).toContain('rotate:45deg');
+    expect(svg).toContain('transform-origin:5px 5px');
+    expect(svg).toContain('animation:ms-0-position 1000ms linear 0ms 1 normal both,ms-1-rotation');
+  });
+
+  it('uses native loop direction and iteration count', () => {
+    const loop: TriggerBinding = { timelineId: 'tl-1', config: { type: 'loop', direction: 'alternate' } };
+    const { svg } = exportAnimatedSvg(
+      source([{ at: 0, fill: '#ff0000' }, { at: 1000, fill: '#0000ff' }], [loop]),
+      { mode: 'css' },
+    );
+    expect(svg).toContain('[data-actor-id="a1"] path{animation:ms-0-fill 1000ms linear 0ms infinite alternate both}');
+    expect(svg).toContain('0%{fill:#ff0000;animation-timing-function:linear}');
+  });
+
+  it('starts a looping timeline at its offset after holding its first frame', () => {
+    const base = source(
+      [{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }],
+      [{ timelineId: 'tl-1', config: { type: 'loop', iterations: Infinity, delay: 500 } }],
+    );
+    const other: Actor = { ...actor, id: 'a2', pathIds: ['bg'], paths: [scene.paths[1]] };
+    const timelines = [...base.timelines, { id: 'tl-2', actorId: 'a2', keyframes: [{ at: 0 }, { at: 100, opacity: 0 }], duration: 100 }];
+    const { svg } = exportAnimatedSvg(
+      {
+        ...base,
+        actors: [actor, other],
+        timelines,
+        composition: { id: 'comp-1', items: [], timelines, offsets: { 'tl-1': 500, 'tl-2': 0 }, markers: [], duration: 1500 },
+      },
+      { mode: 'css' },
+    );
+    expect(svg).toContain('@keyframes ms-0-opacity{0%{opacity:0;animation-timing-function:linear}25%{opacity:0;animation-timing-function:linear}75%{opacity:1;animation-timing-function:step-end}100%{opacity:1}}');
+    expect(svg).toContain('animation:ms-0-opacity 2000ms linear 0ms 1 normal both,ms-1-opacity 1500ms linear 2000ms infinite normal forwards');
+  });
+
+  it('keeps overshooting curves native but bakes elastic ones', () => {
+    const { baked } = exportAnimatedSvg(
+      source([
+        { at: 0, opacity: 0 },
+        { at: 500, opacity: 1, curve: 'easeOutBack' },
+        { at: 1000, opacity: 0, curve: 'easeOutElastic' },
+      ]),
+      { mode: 'css' },
+    );
+    expect(baked).toEqual([{ actorId: 'a1', property: 'opacity', feature: 'easing', detail: 'easeOutElastic' }]);
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => exportAnimatedSvg(source([{ at: 0 }]), { mode: 'gif' as 'css' })).toThrow(/Unknown animated SVG mode/);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { exportBundle } from '../../src/bundle/exportBundle';
+import { composition } from '../../src/timeline/composition';
 import type { Scene, Actor, Timeline, TriggerBinding, BundleVariant, Bundle } from '../../src/types';
 
 const mockScene: Scene = {
@@ -119,6 +120,38 @@ describe('exportBundle', () => {
     expect(kf0).not.toHaveProperty('blurRadius');
   });
 
+  it('exports path morph keyframes', () => {
+    const morph: Timeline = {
+      ...mockTimeline,
+      keyframes: [{ at: 0, pathD: 'M0,0 L10,10' }, { at: 500, pathD: 'M0,0 L20,0' }],
+    };
+    const json = exportBundle({ scene: mockScene, actors: [mockActor], timelines: [morph] });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.timelines[0].keyframes.map((kf) => kf.pathD)).toEqual(['M0,0 L10,10', 'M0,0 L20,0']);
+  });
+
+  it('exports motion path keyframes as version 1.2', () => {
+    const orbit: Timeline = {
+      ...mockTimeline,
+      keyframes: [{ at: 0 }, { at: 500, motionPath: { d: 'M0,0 L20,0', end: 0.5, autoRotate: true } }],
+    };
+    const json = exportBundle({ scene: mockScene, actors: [mockActor], timelines: [orbit] });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.version).toBe('1.2');
+    expect(bundle.timelines[0].keyframes[1].motionPath).toEqual({ d: 'M0,0 L20,0', end: 0.5, autoRotate: true });
+  });
+
+  it('exports trim keyframes as version 1.3', () => {
+    const draw: Timeline = {
+      ...mockTimeline,
+      keyframes: [{ at: 0, trimEnd: 0 }, { at: 500, trimEnd: 1, trimOffset: 0.25 }],
+    };
+    const json = exportBundle({ scene: mockScene, actors: [mockActor], timelines: [draw] });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.version).toBe('1.3');
+    expect(bundle.timelines[0].keyframes[1]).toMatchObject({ trimEnd: 1, trimOffset: 0.25 });
+  });
+
   it('exports shape actor fields', () => {
     const shapeActor: Actor = {
       ...mockActor, id: 'shape-1', shapeType: 'rect', width: 100, height: 50,
@@ -129,4 +162,36 @@ describe('exportBundle', () => {
     expect(bundle.actors[0].width).toBe(100);
     expect(bundle.actors[0].height).toBe(50);
   });
+
+  it('exports timeline markers as version 1.9', () => {
+    const marked: Timeline = { ...mockTimeline, markers: [{ label: 'half', at: 500 }] };
+    const json = exportBundle({ scene: mockScene, actors: [mockActor], timelines: [marked] });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.version).toBe('1.9');
+    expect(bundle.timelines[0].markers).toEqual([{ label: 'half', at: 500 }]);
+  });
+
+  it('exports a composition as version 1.10', () => {
+    const second: Timeline = { ...mockTimeline, id: 'tl-2' };
+    const inner = composition({ items: [{ timeline: second, label: 'second' }] });
+    const comp = composition({
+      items: [{ timeline: mockTimeline }, { composition: inner, at: '-=200' }, { label: 'end', at: 'second+=100' }],
+    });
+    const json = exportBundle({ scene: mockScene, actors: [mockActor], timelines: [mockTimeline, second], composition: comp });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.version).toBe('1.10');
+    expect(bundle.composition).toEqual({
+      items: [
+        { timelineIdx: 0 },
+        { composition: { items: [{ timelineIdx: 1, label: 'second' }] }, at: '-=200' },
+        { label: 'end', at: 'second+=100' },
+      ],
+    });
+  });
+
+  it('throws when a composition timeline is not exported', () => {
+    const comp = composition({ items: [{ timeline: mockTimeline }] });
+    expect(() => exportBundle({ scene: mockScene, actors: [mockActor], timelines: [], composition: comp }))
+      .toThrow('composition timeline "tl-1" is not among the exported timelines');
+  });
 });
@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { exportLottie } from '../../src/lottie/exportLottie';
+import { importLottie } from '../../src/lottie/importLottie';
+import type { AnimatedSvgSource } from '../../src/bundle/exportAnimatedSvg';
+import type { LottieAnimation, LottieGroupShape, LottieKeyframe, LottieProperty } from '../../src/lottie/lottieTypes';
+import type { Actor, Scene, Timeline, GradientDef } from '../../src/types';
+import { getActorStateAtTime } from '../../src/timeline/interpolate';
+
+const gradients: GradientDef[] = [
+  { type: 'linear', id: 'g1', x1: 0, y1: 0, x2: 10, y2: 0, stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff' }] },
+];
+
+const scene: Scene = {
+  viewBox: { x: 0, y: 0, w: 100, h: 50 },
+  paths: [
+    { id: 'p1', d: 'M0,0 L10,0 L10,10 Z', fill: '#ff0000' },
+    { id: 'p2', d: 'M20,20 L30,20', fill: 'none', stroke: '#00ff00', strokeWidth: 2 },
+  ],
+  groups: [],
+  colors: {},
+  gradients,
+  metadata: { xmlns: 'http://www.w3.org/2000/svg', originalSvg: '' },
+};
+
+function actor(id: string, pathIndex: number, z = 0): Actor {
+  return {
+    id, pathIds: [scene.paths[pathIndex].id], paths: [scene.paths[pathIndex]],
+    origin: { x: 5, y: 5 }, position: { x: 5, y: 5 },
+    scale: 1, rotation: 0, opacity: 1, blurRadius: 0, backdropBlur: 0, z,
+  };
+}
+
+function source(keyframes: Timeline['keyframes'], actors = [actor('a1', 0)]): AnimatedSvgSource {
+  const duration = keyframes[keyframes.length - 1].at;
+  return {
+    scene,
+    actors,
+    timelines: [{ id: 'tl-1', actorId: 'a1', keyframes, duration }],
+    triggers: [],
+  };
+}
+
+function exported(src: AnimatedSvgSource, fr = 30): LottieAnimation {
+  return JSON.parse(exportLottie(src, { fr }));
+}
+
+function keys<T>(prop: unknown): LottieKeyframe<T>[] {
+  const p = prop as LottieProperty<T>;
+  expect(p.a).toBe(1);
+  return p.k as LottieKeyframe<T>[];
+}
+
+describe('exportLottie', () => {
+  it('writes the composition from the viewBox and timeline duration', () => {
+    const anim = exported(source([{ at: 0 }, { at: 2000, opacity: 0.5 }]));
+    expect(anim).toMatchObject({ fr: 30, ip: 0, op: 60, w: 100, h: 50 });
+    expect(anim.layers).toHaveLength(1);
+    expect(anim.layers[0]).toMatchObject({ ty: 4, nm: 'a1', ind: 1, ip: 0, op: 60 });
+  });
+
+  it('shifts composed timelines to their offsets', () => {
+    const base = source([{ at: 0, opacity: 0 }, { at: 1000, opacity: 1 }]);
+    const anim = exported({
+      ...base,
+      composition: { id: 'comp-1', items: [], timelines: base.timelines, offsets: { 'tl-1': 500 }, markers: [], duration: 1500 },
+    });
+    expect(anim.op).toBe(45);
+    expect(anim.layers[0].op).toBe(45);
+    expect(keys<number>(anim.layers[0].ks.o).map((k) => k.t)).toEqual([15, 45]);
+  });
+
+  it('anchors the layer at the actor origin', () => {
+    const anim = exported(source([{ at: 0 }, { at: 1000, rotation: 90 }]));
+    expect(anim.layers[0].ks.a).toEqual({ a: 0, k: [5, 5] });
+    expect(anim.layers[0].ks.p).toEqual({ a: 0, k: [5, 5] });
+  });
+
+  it('converts transform and opacity keyframes to frames and Lottie units', () => {
+    const anim = exported(source([
+      { at: 0, position: { x: 5, y: 5 }, scale: 1, opacity: 1 },
+      { at: 1000, position: { x: 25, y: 5 }, scale: { x: 2, y: 0.5 }, opacity: 0.25, curve: 'linear' },
+    ]));
+    const p = keys<number[]>(anim.layers[0].ks.p);
+    expect(p.map((k) => [k.t, k.s])).toEqual([[0, [5, 5]], [30, [25, 5]]]);
+    expect(keys<number[]>(anim.layers[0].ks.s)[1].s).toEqual([200, 50]);
+    expect(keys<number>(anim.layers[0].ks.o)[1].s).toBe(25);
+  });
+
+  it('writes named and custom easings as bezier handles on the previous key', () => {
+    const anim = exported(source([
+      { at: 0, rotation: 0 },
+      { at: 500, rotation: 45, curve: 'easeInOutCubic' },
+      { at: 1000, rotation: 90, curve: { type: 'cubicBezier', x1: 0.1, y1: 0.2, x2: 0.3, y2: 0.4 } },
+    ]));
+    const r = keys<number>(anim.layers[0].ks.r);
+    expect(r).toHaveLength(3);
+    expect(r[0].o).toEqual({ x: 0.65, y: 0 });
+    expect(r[0].i).toEqual({ x: 0.35, y: 1 });
+    expect(r[1].o).toEqual({ x: 0.1, y: 0.2 });
+    expect(r[1].i).toEqual({ x: 0.3, y: 0.4 });
+    expect(r[2].o).toBeUndefined();
+  });
+
+  it('samples elastic and bounce segments once per frame', () => {
+    const kfs: Timeline['keyframes'] = [{ at: 0, position: { x: 0, y: 0 } }, { at: 1000, position: { x: 100, y: 0 }, curve: 'easeOutBounce' }];
+    const anim = exported(source(kfs));
+    const p = keys<number[]>(anim.layers[0].ks.p);
+    expect(p).toHaveLength(31);
+    const tl = { id: 't', actorId: 'a1', keyframes: kfs, duration: 1000 };
+    expect(p[10].s![0]).toBeCloseTo(getActorStateAtTime(tl, 1000 / 3).position.x, 2);
+    expect(p[10].o).toEqual({ x: 0, y: 0 });
+  });
+
+  it('samples motion paths into position and rotation keys', () => {
+    const anim = exported(source([
+      { at: 0, position: { x: 0, y: 0 }, rotation: 0 },
+      { at: 1000, motionPath: { d: 'M0,0 L50,0 L50,50', autoRotate: true }, curve: 'linear' },
+    ]));
+    const p = keys<number[]>(anim.layers[0].ks.p);
+    expect(p).toHaveLength(31);
+    expect(p[30].s).toEqual([50, 50]);
+    expect(keys<number>(anim.layers[0].ks.r)[30].s).toBe(90);
+  });
+
+  it('converts paths to shape groups with fill, stroke and transform', () => {
+    const anim = exported(source([{ at: 0 }, { at: 1000 }], [actor('a1', 0), actor('a2', 1, 1)]));
+    // top-first
+    expect(anim.layers.map((l) => l.nm)).toEqual(['a2', 'a1']);
+
+    const box = anim.layers[1].shapes![0] as LottieGroupShape;
+    expect(box.it.map((s) => s.ty)).toEqual(['sh', 'fl', 'tr']);
+    const sh = box.it[0] as { ks: { k: { c: boolean; v: number[][] } } };
+    expect(sh.ks.k.c).toBe(true);
+    expect(sh.ks.k.v).toEqual([[0, 0], [10, 0], [10, 10]]);
+    expect(box.it[1]).toMatchObject({ c: { a: 0, k: [1, 0, 0, 1] }, o: { a: 0, k: 100 } });
+
+    const line = anim.layers[0].shapes![0] as LottieGroupShape;
+    expect(line.it.map((s) => s.ty)).toEqual(['sh', 'st', 'tr']);
+    expect(line.it[1]).toMatchObject({ c: { a: 0, k: [0, 1, 0, 1] }, w: { a: 0, k: 2 } });
+  });
+
+  it('writes path transforms to the group transform', () => {
+    const a = { ...actor('a1', 0), paths: [{ ...scene.paths[0], transform: 'translate(10,5) rotate(90) scale(2)' }] };
+    const anim = exported(source([{ at: 0 }, { at: 1000 }], [a]));
+    const group = anim.layers[0].shapes![0] as LottieGroupShape;
+    const tr = group.it[group.it.length - 1] as { p: { k: number[] }; r: { k: number }; s: { k: number[] } };
+    expect(tr.p.k).toEqual([10, 5]);
+    expect(tr.r.k).toBeCloseTo(90);
+    expect(tr.s.k[0]).toBeCloseTo(200);
+    expect(tr.s.k[1]).toBeCloseTo(200);
+  });
+
+  it('bakes skewed path transforms into the vertices', () => {
+    const a = { ...actor('a1', 0), paths: [{ ...scene.paths[0], transform: 'skewX(45)' }] };
+    const anim = exported(source([{ at: 0 }, { at: 1000 }], [a]));
+    const group = anim.layers[0].shapes![0] as LottieGroupShape;
+    const sh = group.it[0] as { ks: { k: { v: number[][] } } };
+    expect(sh.ks.k.v[2][0]).toBeCloseTo(20);
+    expect(sh.ks.k.v[2][1]).toBeCloseTo(10);
+    expect(group.it[group.it.length - 1]).toMatchObject({ p: { k: [0, 0] }, s: { k: [100, 100] } });
+  });
+
+  it('multiplies color alpha into the paint opacity', () => {
+    const a = { ...actor('a1', 0), paths: [{ ...scene.paths[0], fill: 'rgba(255,0,0,0.5)' }] };
+    const anim = exported(source([{ at: 0 }, { at: 1000 }], [a]));
+    const group = anim.layers[0].shapes![0] as LottieGroupShape;
+    expect(group.it[1]).toMatchObject({ c: { a: 0, k: [1, 0, 0, 1] }, o: { a: 0, k: 50 } });
+
+    const fading = exported(source([{ at: 0, fill: '#ff0000' }, { at: 1000, fill: 'transparent', curve: 'linear' }]));
+    const fill = (fading.layers[0].shapes![0] as LottieGroupShape).it.find((s) => s.ty === 'fl') as { o: unknown };
+    expect(keys<number>(fill.o).map((k) => k.s)).toEqual([100, 0]);
+  });
+
+  it('splits subpaths into separate path items', () => {
+    const twoBoxes = { ...scene.paths[0], d: 'M0,0 L10,0 L10,10 Z M20,0 L30,0 L30,10 Z' };
+    const a = { ...actor('a1', 0), paths: [twoBoxes] };
+    const anim = exported(source([{ at: 0 }, { at: 1000 }], [a]));
+    const group = anim.layers[0].shapes![0] as LottieGroupShape;
+    expect(group.it.filter((s) => s.ty === 'sh')).toHaveLength(2);
+  });
+
+  it('animates fill colors', () => {
+    const anim = exported(source([{ at: 0, fill: '#ff0000' }, { at: 1000, fill: '#0000ff', curve: 'linear' }]));
+    const group = anim.layers[0].shapes![0] as LottieGroupShape;
+    const fill = group.it.find((s) => s.ty === 'fl') as { c: unknown };
+    expect(keys<number[]>(fill.c).map((k) => k.s)).toEqual([[1, 0, 0, 1], [0, 0, 1, 1]]);
+  });
+
+  it('exports static gradient paints as gradient fills', () => {
+    const a = { ...actor('a1', 0), paths: [{ ...scene.paths[0], fill: 'url(#g1)' }] };
+    const anim = exported(source([{ at: 0 }, { at: 1000 }], [a]));
+    const group = anim.layers[0].shapes![0] as LottieGroupShape;
+    expect(group.it[1]).toMatchObject({
+      ty: 'gf', t: 1,
+      s: { k: [0, 0] }, e: { k: [10, 0] },
+      g: { p: 2, k: { k: [0, 1, 0, 0, 1, 0, 0, 1] } },
+    });
+  });
+
+  it('balances morphing paths to the same vertex count', () => {
+    const anim = exported(source([
+      { at: 0, pathD: 'M0,0 L10,0 L10,10 Z' },
+      { at: 1000, pathD: 'M0,0 L10,0 L10,10 L0,10 Z', curve: 'linear' },
+    ]));
+    const group = anim.layers[0].shapes![0] as LottieGroupShape;
+    const shape = keys<{ v: number[][]; i: number[][]; o: number[][] }[]>((group.it[0] as { ks: unknown }).ks);
+    expect(shape).toHaveLength(2);
+    const [from, to] = shape.map((k) => k.s![0]);
+    expect(from.v.length).toBe(to.v.length);
+    expect(from.i.length).toBe(from.v.length);
+    expect(from.o.length).toBe(from.v.length);
+  });
+
+  it('rejects a non-positive frame rate', () => {
+    expect(() => exportLottie(source([{ at: 0 }, { at: 1000 }]), { fr: 0 })).toThrow(/frame rate/);
+  });
+
+  it('round-trips through importLottie', () => {
+    const json = exportLottie(source([
+      { at: 0, position: { x: 5, y: 5 }, rotation: 0 },
+      { at: 1000, position: { x: 45, y: 25 }, rotation: 90, curve: 'easeInOutQuad' },
+    ]));
+    const imported = importLottie(json);
+    expect(imported.unsupported).toEqual([]);
+    expect(imported.actors).toHaveLength(1);
+    expect(imported.actors[0].origin).toEqual({ x: 5, y: 5 });
+    expect(imported.actors[0].paths[0].fill).toBe('#ff0000');
+
+    const tl = imported.timelines[0];
+    expect(tl.duration).toBe(1000);
+    const mid = getActorStateAtTime(tl, 500);
+    expect(mid.position.x).toBeCloseTo(25, 0);
+    expect(mid.rotation).toBeCloseTo(45, 0);
+    expect(getActorStateAtTime(tl, 1000).position).toEqual({ x: 45, y: 25 });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { filterPrimitives, cssFilter } from '../../src/filter/filterStack';
+import { createActor } from '../../src/actor/createActor';
+import { interpolateKeyframes, lerpFilters } from '../../src/timeline/interpolate';
+import { timeline } from '../../src/timeline/timeline';
+import { exportBundle } from '../../src/bundle/exportBundle';
+import { importBundle } from '../../src/bundle/importBundle';
+import { validateBundle } from '../../src/bundle/validate';
+import { exportAnimatedSvg } from '../../src/bundle/exportAnimatedSvg';
+import type { ActorFilter, Bundle, Scene } from '../../src/types';
+
+const scene: Scene = {
+  viewBox: { x: 0, y: 0, w: 100, h: 100 },
+  paths: [{ id: 'card', d: 'M10,10 H90 V90 H10 Z', fill: '#fff' }],
+  groups: [],
+  colors: {},
+  gradients: [],
+  metadata: {},
+};
+
+const shadow: ActorFilter = { type: 'dropShadow', dx: 0, dy: 4, blur: 8, color: '#000', opacity: 0.4 };
+
+describe('filterPrimitives', () => {
+  it('chains each effect from the previous result', () => {
+    const prims = filterPrimitives([{ type: 'brightness', amount: 1.2 }, { type: 'saturate', amount: 0.5 }, shadow]);
+    expect(prims.map((p) => [p.tag, p.attrs.in, p.attrs.result])).toEqual([
+      ['feComponentTransfer', 'SourceGraphic', 'fx0'],
+      ['feColorMatrix', 'fx0', 'fx1'],
+      ['feDropShadow', 'fx1', 'fx2'],
+    ]);
+    expect(prims[0].children?.map((c) => c.attrs.slope)).toEqual([1.2, 1.2, 1.2]);
+    expect(prims[2].attrs).toMatchObject({ dx: 0, dy: 4, stdDeviation: 8, 'flood-color': '#000', 'flood-opacity': 0.4 });
+  });
+
+  it('builds a glow as a colored blur merged under the content', () => {
+    const prims = filterPrimitives([{ type: 'glow', blur: 6, color: '#0ff' }]);
+    expect(prims.map((p) => p.tag)).toEqual(['feGaussianBlur', 'feFlood', 'feComposite', 'feMerge']);
+    expect(prims[3].children?.map((c) => c.attrs.in)).toEqual(['fx0-halo', 'SourceGraphic']);
+    expect(prims[3].attrs.result).toBe('fx0');
+  });
+
+  it('writes hue rotation and color matrices as feColorMatrix', () => {
+    const identity = [1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0];
+    const prims = filterPrimitives([{ type: 'hueRotate', angle: 90 }, { type: 'colorMatrix', values: identity }]);
+    expect(prims[0].attrs).toMatchObject({ type: 'hueRotate', values: 90 });
+    expect(prims[1].attrs).toMatchObject({ type: 'matrix', values: identity.join(' ') });
+  });
+
+  it('is empty for an empty stack', () => {
+    expect(filterPrimitives([])).toEqual([]);
+  });
+});
+
+describe('cssFilter', () => {
+  it('writes each effect as a CSS filter function, scaling lengths', () => {
+    const css = cssFilter([shadow, { type: 'hueRotate', angle: 90 }, { type: 'brightness', amount: 1.2 }], 2);
+    expect(css).toBe('drop-shadow(0px 8px 32px rgba(0, 0, 0, 0.4)) hue-rotate(90deg) brightness(1.2)');
+  });
+
+  it('skips color matrices, which have no CSS equivalent', () => {
+    expect(cssFilter([{ type: 'colorMatrix', values: new Array(20).fill(0) }])).toBe('');
+  });
+});
+
+describe('filter keyframes', () => {
+  it('interpolates parameters of matching effects', () => {
+    const mid = interpolateKeyframes([
+      { at: 0, filters: [{ ...shadow, dy: 0, blur: 0, color: '#000000' }] },
+      { at: 1000, filters: [{ ...shadow, dy: 10, blur: 20, color: '#ffffff' }], curve: 'linear' },
+    ], 500);
+    expect(mid.filters).toEqual([expect.objectContaining({ type: 'dropShadow', dy: 5, blur: 10, color: '#808080' })]);
+  });
+
+  it('fades effects in from their neutral value', () => {
+    const [shadowIn, bright] = lerpFilters([], [shadow, { type: 'brightness', amount: 2 }], 0.5);
+    expect(shadowIn).toMatchObject({ type: 'dropShadow', opacity: 0.2, blur: 8 });
+    expect(bright).toEqual({ type: 'brightness', amount: 1.5 });
+  });
+
+  it('passes actor filters through createActor', () => {
+    const actor = createActor({ id: 'card', paths: scene.paths, origin: 'center', filters: [shadow] });
+    expect(actor.filters).toEqual([shadow]);
+    expect(actor.filters![0]).not.toBe(shadow);
+  });
+
+  it('starts animated filters from the actor stack', () => {
+    const actor = createActor({ id: 'card', paths: scene.paths, origin: 'center', filters: [shadow] });
+    const lift = timeline(actor, { keyframes: [{ at: 0 }, { at: 100, filters: [{ ...shadow, dy: 12 }], curve: 'linear' }] });
+    expect(lift.keyframes[0].filters).toEqual([shadow]);
+    expect(interpolateKeyframes(lift.keyframes, 50).filters?.[0]).toMatchObject({ dy: 8 });
+    expect(timeline(actor, { keyframes: [{ at: 0, opacity: 0 }] }).keyframes[0].filters).toBeUndefined();
+  });
+});
+
+describe('filter bundles', () => {
+  const actor = createActor({ id: 'card', paths: scene.paths, origin: 'center', filters: [shadow] });
+  const tl = timeline(actor, {
+    keyframes: [
+      { at: 0, filters: [{ type: 'glow', blur: 0, color: '#0ff' }] },
+      { at: 500, filters: [{ type: 'glow', blur: 12, color: '#0ff', opacity: 0.8 }] },
+    ],
+  });
+
+  it('round-trips actor and keyframe filters as version 1.6', () => {
+    const json = exportBundle({ scene, actors: [actor], timelines: [tl] });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.version).toBe('1.6');
+    expect(bundle.actors[0].filters).toEqual([shadow]);
+    expect(bundle.timelines[0].keyframes[1].filters).toEqual([{ type: 'glow', blur: 12, color: '#0ff', opacity: 0.8 }]);
+    expect(validateBundle(bundle).valid).toBe(true);
+
+    const imported = importBundle(json);
+    expect(imported.actors[0].filters).toEqual([shadow]);
+    expect(imported.timelines[0].keyframes[1].filters?.[0]).toMatchObject({ type: 'glow', blur: 12 });
+  });
+
+  it('rejects parameters out of range', () => {
+    const bundle: Bundle = JSON.parse(exportBundle({ scene, actors: [actor], timelines: [tl] }));
+    bundle.actors[0].filters = [
+      { ...shadow, blur: -1, opacity: 2 },
+      { type: 'saturate', amount: -0.5 },
+      { type: 'colorMatrix', values: [1, 0, 0] },
+      { type: 'sepia' } as unknown as ActorFilter,
+    ];
+    bundle.timelines[0].keyframes[0].filters = [{ type: 'hueRotate', angle: 'x' as unknown as number }];
+    expect(validateBundle(bundle).errors).toEqual([
+      'Actor[0].filters[0].blur must be a number >= 0.',
+      'Actor[0].filters[0].opacity must be between 0 and 1.',
+      'Actor[0].filters[1].amount must be a number >= 0.',
+      'Actor[0].filters[2].values must be 20 numbers.',
+      'Actor[0].filters[3] has unknown filter type "sepia".',
+      'Timeline[0].keyframes[0].filters[0].angle must be a number.',
+    ]);
+  });
+
+  it('warns that animated SVG export drops filters', () => {
+    const { warnings } = exportAnimatedSvg({ scene, actors: [actor], timelines: [tl], triggers: [] }, { mode: 'smil' });
+    expect(warnings).toContain('Actor "card" has a filter stack, which is not exported.');
+    expect(warnings).toContain(`Timeline "${tl.id}" animates filters, which is not exported.`);
+  });
+});
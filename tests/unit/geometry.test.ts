@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPathBounds,
+  getPathArea,
+  getPathCentroid,
+  getPointAtLength,
+  getTangentAtLength,
+  unionBounds,
+} from '../../src/geometry/pathGeometry';
+import { getActorBounds, getActorMatrix } from '../../src/geometry/actorBounds';
+import { createActor } from '../../src/actor/createActor';
+import { parseSvg } from '../../src/parser/parseSvg';
+import { applyMatrix } from '../../src/transform/matrix';
+
+const expectBounds = (b: { x: number; y: number; w: number; h: number } | null, x: number, y: number, w: number, h: number) => {
+  expect(b).not.toBeNull();
+  expect(b!.x).toBeCloseTo(x, 3);
+  expect(b!.y).toBeCloseTo(y, 3);
+  expect(b!.w).toBeCloseTo(w, 3);
+  expect(b!.h).toBeCloseTo(h, 3);
+};
+
+describe('getPathBounds', () => {
+  it('measures lines and closed polygons', () => {
+    expectBounds(getPathBounds('M10,20 H30 V50 Z'), 10, 20, 20, 30);
+    expectBounds(getPathBounds('M5,5'), 5, 5, 0, 0);
+    expect(getPathBounds('')).toBeNull();
+  });
+
+  it('uses cubic extrema, not control points', () => {
+    // Symmetric bump: peaks at y = -75 for control points at -100
+    expectBounds(getPathBounds('M0,0 C0,-100 100,-100 100,0'), 0, -75, 100, 75);
+    // Smooth continuation reflects the previous control point
+    expectBounds(getPathBounds('M0,0 C0,-100 100,-100 100,0 S200,100 200,0'), 0, -75, 200, 150);
+  });
+
+  it('uses quadratic extrema', () => {
+    expectBounds(getPathBounds('M0,0 Q50,100 100,0'), 0, 0, 100, 50);
+    expectBounds(getPathBounds('M0,0 Q50,100 100,0 T200,0'), 0, -50, 200, 100);
+  });
+
+  it('uses exact arc extrema', () => {
+    expectBounds(getPathBounds('M0,50 A50,50 0 0 1 100,50'), 0, 0, 100, 50);
+    expectBounds(getPathBounds('M0,50 A50,50 0 0 0 100,50'), 0, 50, 100, 50);
+    // Rotated ellipse: half-extents sqrt(rx²cos²φ + ry²sin²φ) etc.
+    const half = Math.sqrt((100 * 100 + 50 * 50) / 2);
+    const k = 100 * Math.SQRT1_2;
+    expectBounds(getPathBounds(`M${-k},${-k} A100,50 45 1 1 ${k},${k} A100,50 45 1 1 ${-k},${-k}`), -half, -half, 2 * half, 2 * half);
+  });
+
+  it('is filled in by parseSvg', () => {
+    const scene = parseSvg('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><circle id="c" cx="50" cy="40" r="10" transform="scale(2)"/></svg>');
+    expectBounds(scene.paths[0].bounds!, 40, 30, 20, 20);
+  });
+});
+
+describe('area and centroid', () => {
+  it('computes polygon area and centroid', () => {
+    expect(getPathArea('M0,0 H10 V10 H0 Z')).toBeCloseTo(100, 6);
+    expect(getPathArea('M0,0 H10 V10 H0')).toBeCloseTo(100, 6);
+    expect(getPathCentroid('M0,0 L30,0 L0,30 Z')).toEqual({ x: expect.closeTo(10, 6), y: expect.closeTo(10, 6) });
+  });
+
+  it('computes curved areas', () => {
+    expect(getPathArea('M0,50 A50,50 0 1 1 100,50 A50,50 0 1 1 0,50 Z')).toBeCloseTo(Math.PI * 2500, 0);
+    const c = getPathCentroid('M20,50 A30,30 0 1 0 80,50 A30,30 0 1 0 20,50');
+    expect(c.x).toBeCloseTo(50, 3);
+    expect(c.y).toBeCloseTo(50, 3);
+  });
+
+  it('subtracts holes wound the other way', () => {
+    const ring = 'M0,0 H10 V10 H0 Z M2,2 V8 H8 V2 Z';
+    expect(getPathArea(ring)).toBeCloseTo(64, 6);
+  });
+
+  it('falls back to the bounds center for open lines', () => {
+    expect(getPathArea('M0,0 L10,0')).toBeCloseTo(0, 9);
+    expect(getPathCentroid('M0,0 L10,0')).toEqual({ x: 5, y: 0 });
+  });
+});
+
+describe('points along a path', () => {
+  it('finds points and tangents by length', () => {
+    const d = 'M0,0 L100,0 L100,100';
+    expect(getPointAtLength(d, 50)).toEqual({ x: expect.closeTo(50, 9), y: 0 });
+    expect(getPointAtLength(d, 150)).toEqual({ x: 100, y: expect.closeTo(50, 9) });
+    expect(getPointAtLength(d, 999)).toEqual({ x: 100, y: 100 });
+    expect(getTangentAtLength(d, 50)).toBe(0);
+    expect(getTangentAtLength(d, 150)).toBe(90);
+  });
+
+  it('handles paths without length', () => {
+    expect(getPointAtLength('M5,5', 10)).toEqual({ x: 5, y: 5 });
+  });
+});
+
+describe('unionBounds', () => {
+  it('joins boxes and skips missing ones', () => {
+    expect(unionBounds([{ x: 0, y: 0, w: 10, h: 10 }, null, { x: 20, y: -5, w: 5, h: 5 }])).toEqual({ x: 0, y: -5, w: 25, h: 15 });
+    expect(unionBounds([])).toBeNull();
+  });
+});
+
+describe('getActorBounds', () => {
+  const actor = createActor({
+    id: 'box',
+    paths: [{ id: 'p', d: 'M0,0 H20 V10 H0 Z' }],
+    origin: { x: 10, y: 5 },
+  });
+
+  it('measures the actor at rest', () => {
+    expectBounds(getActorBounds(actor), 0, 0, 20, 10);
+  });
+
+  it('applies the interpolated position, scale and rotation', () => {
+    const state = { position: { x: 110, y: 5 }, scale: 2, rotation: 90, opacity: 1 };
+    expectBounds(getActorBounds(actor, state), 100, -15, 20, 40);
+    expect(applyMatrix(getActorMatrix(actor, state), actor.origin)).toEqual({ x: 110, y: 5 });
+  });
+
+  it('includes morphed paths, motion rotation and path transforms', () => {
+    const state = { position: { x: 10, y: 5 }, scale: 1, rotation: 45, motionRotation: 45, opacity: 1, pathD: 'M0,0 H10 V10 H0 Z' };
+    expectBounds(getActorBounds(actor, state), 5, -5, 10, 10);
+
+    const moved = createActor({ id: 'm', paths: [{ id: 'p', d: 'M0,0 H10 V10 H0 Z', transform: 'translate(5,5)' }], origin: { x: 0, y: 0 } });
+    expectBounds(getActorBounds(moved), 5, 5, 10, 10);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { interpolateKeyframes, getActorStateAtTime, lerpGradientDef } from '../../src/timeline/interpolate';
+import { createActor } from '../../src/actor/createActor';
+import { timeline } from '../../src/timeline/timeline';
+import { exportBundle } from '../../src/bundle/exportBundle';
+import { validateBundle } from '../../src/bundle/validate';
+import { exportAnimatedSvg } from '../../src/bundle/exportAnimatedSvg';
+import type { Bundle, GradientDef, LinearGradientDef, RadialGradientDef, Scene } from '../../src/types';
+
+const sky: LinearGradientDef = {
+  type: 'linear', id: 'sky', x1: 0, y1: 50, x2: 100, y2: 50,
+  stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff' }],
+};
+const glow: RadialGradientDef = {
+  type: 'radial', id: 'glow', cx: 50, cy: 50, r: 10,
+  stops: [{ offset: 0, color: '#ffffff' }, { offset: 1, color: '#000000', opacity: 0 }],
+  gradientTransform: 'scale(1 0.5)',
+};
+const gradients: GradientDef[] = [sky, glow];
+
+describe('gradient keyframes', () => {
+  it('turns a linear gradient around its midpoint', () => {
+    const state = interpolateKeyframes([
+      { at: 0, fillGradient: { ref: 'sky', angle: 0 } },
+      { at: 1000, fillGradient: { angle: 90 }, curve: 'linear' },
+    ], 500, { gradients, actorId: 'bg' });
+    const g = state.fillGradient as LinearGradientDef;
+    expect(state.fill).toBe('url(#sky--bg-fill)');
+    expect(g.id).toBe('sky--bg-fill');
+    expect(g.x1).toBeCloseTo(50 - 50 * Math.SQRT1_2);
+    expect(g.y1).toBeCloseTo(50 - 50 * Math.SQRT1_2);
+    expect(g.x2).toBeCloseTo(50 + 50 * Math.SQRT1_2);
+    expect(g.stops).toEqual(sky.stops);
+  });
+
+  it('animates the gradient the fill references, each field on its own', () => {
+    const kfs = [
+      { at: 0, fill: 'url(#glow)', fillGradient: { r: 10 } },
+      { at: 1000, fillGradient: { r: 30, cx: 70 }, curve: 'linear' as const },
+    ];
+    const g = interpolateKeyframes(kfs, 500, { gradients }).fillGradient as RadialGradientDef;
+    expect(g).toMatchObject({ type: 'radial', cx: 70, cy: 50, r: 20, gradientTransform: 'scale(1 0.5)' });
+    expect(g.fx).toBeUndefined();
+  });
+
+  it('animates stop offsets, colors and opacities by index', () => {
+    const state = interpolateKeyframes([
+      { at: 0, stroke: 'url(#glow)', strokeGradient: { stops: [{ color: '#ff0000' }, { offset: 0.5 }] } },
+      {
+        at: 1000,
+        strokeGradient: { stops: [{ color: '#0000ff' }, { offset: 1, opacity: 1 }, { offset: 1, color: 'red' }] },
+        colorSpace: 'hsl',
+        curve: 'linear',
+      },
+    ], 500, { gradients, actorId: 'ring' });
+    expect(state.stroke).toBe('url(#glow--ring-stroke)');
+    expect(state.strokeGradient!.stops).toEqual([
+      { offset: 0, color: '#ff00ff' },
+      { offset: 0.75, color: '#000000', opacity: 1 },
+      { offset: 1, color: 'red', opacity: 0 },
+    ]);
+  });
+
+  it('snaps gradientTransform and builds on gradient blends', () => {
+    const kfs = [
+      { at: 0, fill: 'url(#sky)' },
+      { at: 1000, fill: 'url(#glow)', fillGradient: { gradientTransform: 'rotate(45)' }, curve: 'linear' as const },
+    ];
+    const early = interpolateKeyframes(kfs, 200, { gradients });
+    expect(early.fillGradient).toMatchObject({ type: 'linear', gradientTransform: 'rotate(45)' });
+    expect(early.fillGradient!.stops[1].color).toBe('#0000cc');
+  });
+
+  it('leaves paint alone without a gradient to animate', () => {
+    const state = interpolateKeyframes([{ at: 0, fill: '#fff', fillGradient: { angle: 90 } }], 0, { gradients });
+    expect(state.fill).toBe('#fff');
+    expect(state.fillGradient).toBeUndefined();
+  });
+
+  it('keeps gradientTransform through lerpGradientDef', () => {
+    expect(lerpGradientDef(glow, { ...glow, r: 20, gradientTransform: undefined }, 0.25).gradientTransform)
+      .toBe('scale(1 0.5)');
+    expect(lerpGradientDef(glow, { ...glow, gradientTransform: undefined }, 0.75).gradientTransform).toBeUndefined();
+  });
+});
+
+describe('gradient keyframe bundles', () => {
+  const scene: Scene = {
+    viewBox: { x: 0, y: 0, w: 100, h: 100 },
+    paths: [{ id: 'bg', d: 'M0,0 H100 V100 H0 Z', fill: 'url(#sky)' }],
+    groups: [],
+    colors: {},
+    gradients,
+    metadata: {},
+  };
+  const actor = createActor({ id: 'bg', paths: scene.paths, origin: 'center' });
+  const tl = timeline(actor, {
+    keyframes: [
+      { at: 0, fillGradient: { ref: 'sky', angle: 0, stops: [{}, { color: '#0000ff' }] } },
+      { at: 600, fillGradient: { angle: 180, stops: [{}, { color: '#00ff00' }] } },
+    ],
+  });
+
+  it('exports gradient channels as version 1.8', () => {
+    const bundle: Bundle = JSON.parse(exportBundle({ scene, actors: [actor], timelines: [tl] }));
+    expect(bundle.version).toBe('1.8');
+    expect(bundle.timelines[0].keyframes[1].fillGradient).toEqual({ angle: 180, stops: [{}, { color: '#00ff00' }] });
+    expect(validateBundle(bundle).valid).toBe(true);
+    expect(getActorStateAtTime(bundle.timelines[0] as never, 300, { gradients }).fillGradient?.stops[1].color)
+      .toBe('#008080');
+  });
+
+  it('rejects out-of-range gradient channels', () => {
+    const bundle: Bundle = JSON.parse(exportBundle({ scene, actors: [actor], timelines: [tl] }));
+    bundle.timelines[0].keyframes[1].fillGradient = {
+      r: -1, angle: Number.NaN, stops: [{ offset: 2 }, { color: 'sparkly', opacity: -0.1 }],
+    };
+    expect(validateBundle(bundle).errors).toEqual([
+      'Timeline[0].keyframes[1].fillGradient.angle must be a number.',
+      'Timeline[0].keyframes[1].fillGradient.r must be a number >= 0.',
+      'Timeline[0].keyframes[1].fillGradient.stops[0].offset must be between 0 and 1.',
+      'Timeline[0].keyframes[1].fillGradient.stops[1].opacity must be between 0 and 1.',
+      'Timeline[0].keyframes[1].fillGradient.stops[1].color must be a CSS color.',
+    ]);
+  });
+
+  it('bakes animated gradients in animated SVG export', () => {
+    const { svg, baked } = exportAnimatedSvg({ scene, actors: [actor], timelines: [tl], triggers: [] }, { mode: 'smil' });
+    expect(baked).toContainEqual({ actorId: 'bg', property: 'fill', feature: 'gradient', detail: 'url(#sky)' });
+    expect(svg).toContain('id="ms-bg-fill-0"');
+  });
+});
@@ -88,6 +88,11 @@ describe('importBundle', () => {
     expect(() => importBundle(JSON.stringify({ scene: {}, actors: [], timelines: [] }))).toThrow('missing "version"');
   });
 
+  it('throws on an unsupported major version', () => {
+    const future = JSON.stringify({ ...JSON.parse(minimalBundle), version: '2.0' });
+    expect(() => importBundle(future)).toThrow('Unsupported bundle version "2.0"');
+  });
+
   it('throws on invalid JSON', () => {
     expect(() => importBundle('not json')).toThrow();
   });
@@ -99,6 +104,26 @@ describe('importBundle', () => {
     expect(result.variants[1].name).toBe('active');
   });
 
+  it('imports timeline markers', () => {
+    const bundle = JSON.parse(minimalBundle);
+    bundle.version = '1.9';
+    bundle.timelines[0].markers = [{ label: 'end', at: 1000 }, { label: 'start', at: 0 }];
+    const result = importBundle(JSON.stringify(bundle));
+    expect(result.timelines[0].markers).toEqual([{ label: 'start', at: 0 }, { label: 'end', at: 1000 }]);
+  });
+
+  it('resolves the composition against the imported timelines', () => {
+    const bundle = JSON.parse(variantBundle);
+    bundle.version = '1.10';
+    bundle.composition = { items: [{ timelineIdx: 1, label: 'b' }, { timelineIdx: 0, at: 'b+=250' }] };
+    const result = importBundle(JSON.stringify(bundle));
+    const [tl0, tl1] = result.timelines;
+    expect(result.composition!.timelines).toEqual([tl1, tl0]);
+    expect(result.composition!.offsets).toEqual({ [tl1.id]: 0, [tl0.id]: 250 });
+    expect(result.composition!.markers).toEqual([{ label: 'b', at: 0 }]);
+    expect(importBundle(variantBundle).composition).toBeUndefined();
+  });
+
   it('preserves raw bundle', () => {
     const result = importBundle(minimalBundle);
     expect(result.bundle.version).toBe('1.0');
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { importLottie } from '../../src/lottie/importLottie';
+import type { LottieAnimation, LottieLayer } from '../../src/lottie/lottieTypes';
+import { getActorStateAtTime } from '../../src/timeline/interpolate';
+
+const ease = { o: { x: [0.33], y: [0] }, i: { x: [0.67], y: [1] } };
+
+function shapeLayer(overrides: Partial<LottieLayer> = {}): LottieLayer {
+  return {
+    ty: 4,
+    nm: 'Box',
+    ind: 1,
+    ip: 0,
+    op: 60,
+    ks: {
+      a: { a: 0, k: [10, 10] },
+      p: { a: 1, k: [{ t: 0, s: [50, 50], ...ease }, { t: 30, s: [150, 50] }] },
+      s: { a: 0, k: [100, 100] },
+      r: { a: 1, k: [{ t: 0, s: [0], o: { x: 0, y: 0 }, i: { x: 1, y: 1 } }, { t: 60, s: [90] }] },
+      o: { a: 0, k: 100 },
+    },
+    shapes: [
+      {
+        ty: 'gr',
+        it: [
+          { ty: 'rc', p: { a: 0, k: [10, 10] }, s: { a: 0, k: [20, 20] }, r: { a: 0, k: 0 } },
+          { ty: 'fl', c: { a: 0, k: [1, 0, 0, 1] }, o: { a: 0, k: 100 } },
+          { ty: 'tr', p: { a: 0, k: [0, 0] }, a: { a: 0, k: [0, 0] }, s: { a: 0, k: [100, 100] }, r: { a: 0, k: 0 }, o: { a: 0, k: 100 } },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function anim(layers: LottieLayer[]): LottieAnimation {
+  return { v: '5.7.0', fr: 30, ip: 0, op: 60, w: 200, h: 100, layers };
+}
+
+describe('importLottie', () => {
+  it('returns an ImportedBundle-shaped result', () => {
+    const result = importLottie(JSON.stringify(anim([shapeLayer()])));
+    expect(result.scene.viewBox).toEqual({ x: 0, y: 0, w: 200, h: 100 });
+    expect(result.actors).toHaveLength(1);
+    expect(result.timelines).toHaveLength(1);
+    expect(result.triggers).toEqual([]);
+    expect(result.variants).toEqual([]);
+    expect(result.bundle.version).toBe('1.0');
+    expect(result.unsupported).toEqual([]);
+  });
+
+  it('converts shape items into SvgPaths with fills', () => {
+    const { actors, scene } = importLottie(anim([shapeLayer()]));
+    expect(actors[0].id).toBe('box');
+    expect(scene.paths[0]).toMatchObject({ id: 'box-0', d: 'M20,0 L20,20 L0,20 L0,0 L20,0 Z', fill: '#ff0000' });
+    expect(scene.colors['box-0']).toBe('#ff0000');
+  });
+
+  it('maps the anchor to the origin and transforms to keyframes', () => {
+    const { actors, timelines } = importLottie(anim([shapeLayer()]));
+    expect(actors[0].origin).toEqual({ x: 10, y: 10 });
+
+    const tl = timelines[0];
+    expect(tl.duration).toBe(2000);
+    const start = getActorStateAtTime(tl, 0);
+    expect(start.position).toEqual({ x: 50, y: 50 });
+    expect(start.scale).toBe(1);
+    expect(start.opacity).toBe(1);
+    expect(getActorStateAtTime(tl, 1000).position).toEqual({ x: 150, y: 50 });
+    expect(getActorStateAtTime(tl, 1000).rotation).toBeCloseTo(45);
+  });
+
+  it('maps bezier i/o handles to a CubicBezierCurve on the next keyframe', () => {
+    const { timelines } = importLottie(anim([shapeLayer()]));
+    const kf = timelines[0].keyframes.find((k) => k.position && k.at === 1000)!;
+    expect(kf.curve).toEqual({ type: 'cubicBezier', x1: 0.33, y1: 0, x2: 0.67, y2: 1 });
+    const rot = timelines[0].keyframes.find((k) => k.rotation === 90)!;
+    expect(rot.curve).toBe('linear');
+  });
+
+  it('turns hold keyframes into a jump', () => {
+    const layer = shapeLayer();
+    layer.ks.o = { a: 1, k: [{ t: 0, s: [100], h: 1 }, { t: 30, s: [0] }] };
+    const { timelines } = importLottie(anim([layer]));
+    expect(getActorStateAtTime(timelines[0], 990).opacity).toBe(1);
+    expect(getActorStateAtTime(timelines[0], 1000).opacity).toBe(0);
+  });
+
+  it('imports animated shape paths as pathD morph keyframes', () => {
+    const square = { c: true, v: [[0, 0], [10, 0], [10, 10], [0, 10]], i: [[0, 0], [0, 0], [0, 0], [0, 0]], o: [[0, 0], [0, 0], [0, 0], [0, 0]] };
+    const wide = { ...square, v: [[0, 0], [20, 0], [20, 10], [0, 10]] };
+    const layer = shapeLayer({
+      shapes: [
+        { ty: 'sh', ks: { a: 1, k: [{ t: 0, s: [square], ...ease }, { t: 30, s: [wide] }] } },
+        { ty: 'st', c: { a: 0, k: [0, 0, 1, 1] }, o: { a: 0, k: 100 }, w: { a: 0, k: 2 } },
+      ],
+    });
+    const { timelines, scene } = importLottie(anim([layer]));
+    expect(scene.paths[0]).toMatchObject({ fill: 'none', stroke: '#0000ff', strokeWidth: 2 });
+
+    const morph = timelines[0].keyframes.filter((k) => k.pathD);
+    expect(morph.map((k) => k.at)).toEqual([0, 1000]);
+    expect(morph[0].pathD).toBe('M0,0 L10,0 L10,10 L0,10 L0,0 Z');
+    expect(morph[1].pathD).toBe('M0,0 L20,0 L20,10 L0,10 L0,0 Z');
+  });
+
+  it('bakes static group transforms into the path', () => {
+    const layer = shapeLayer({
+      shapes: [{
+        ty: 'gr',
+        it: [
+          { ty: 'el', p: { a: 0, k: [0, 0] }, s: { a: 0, k: [10, 10] } },
+          { ty: 'fl', c: { a: 0, k: [0, 1, 0, 1] }, o: { a: 0, k: 50 } },
+          { ty: 'tr', p: { a: 0, k: [100, 20] }, a: { a: 0, k: [0, 0] }, s: { a: 0, k: [200, 200] }, r: { a: 0, k: 0 }, o: { a: 0, k: 100 } },
+        ],
+      }],
+    });
+    const { scene } = importLottie(anim([layer]));
+    expect(scene.paths[0].d.startsWith('M100,10 C')).toBe(true);
+    expect(scene.paths[0].opacity).toBe(0.5);
+  });
+
+  it('imports gradient fills as scene gradients', () => {
+    const layer = shapeLayer({
+      shapes: [
+        { ty: 'rc', p: { a: 0, k: [0, 0] }, s: { a: 0, k: [10, 10] }, r: { a: 0, k: 0 } },
+        {
+          ty: 'gf', t: 1, s: { a: 0, k: [0, 0] }, e: { a: 0, k: [10, 0] }, o: { a: 0, k: 100 },
+          g: { p: 2, k: { a: 0, k: [0, 1, 0, 0, 1, 0, 0, 1, 0, 1, 1, 0.5] } },
+        },
+      ],
+    });
+    const { scene } = importLottie(anim([layer]));
+    expect(scene.paths[0].fill).toBe('url(#lottie-gradient-0)');
+    expect(scene.gradients[0]).toMatchObject({
+      type: 'linear', x1: 0, y1: 0, x2: 10, y2: 0,
+      stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff', opacity: 0.5 }],
+    });
+  });
+
+  it('stacks layers bottom-first', () => {
+    const top = shapeLayer({ nm: 'Top', ind: 1 });
+    const bottom = shapeLayer({ nm: 'Bottom', ind: 2 });
+    const { actors } = importLottie(anim([top, bottom]));
+    expect(actors.map((a) => [a.id, a.z])).toEqual([['bottom', 0], ['top', 1]]);
+  });
+
+  it('imports solid layers as rectangles', () => {
+    const solid: LottieLayer = { ty: 1, nm: 'BG', ip: 0, op: 60, ks: {}, sc: '#123456', sw: 200, sh: 100 };
+    const { scene } = importLottie(anim([solid]));
+    expect(scene.paths[0]).toMatchObject({ d: 'M0,0 L200,0 L200,100 L0,100 Z', fill: '#123456' });
+  });
+
+  it('reports unsupported features', () => {
+    const layer = shapeLayer({
+      parent: 5,
+      masksProperties: [{}],
+      shapes: [
+        { ty: 'sr' },
+        { ty: 'tm' },
+        { ty: 'rc', p: { a: 0, k: [0, 0] }, s: { a: 0, k: [10, 10] }, r: { a: 0, k: 0 } },
+      ],
+    });
+    const text: LottieLayer = { ty: 5, nm: 'Title', ip: 0, op: 60, ks: {} };
+    const { unsupported, actors } = importLottie(anim([layer, text]));
+    expect(actors.map((a) => a.id)).toEqual(['box']);
+    expect(unsupported).toEqual(expect.arrayContaining([
+      { feature: 'text layers', layer: 'Title' },
+      { feature: 'layer parenting', layer: 'Box' },
+      { feature: 'masks', layer: 'Box' },
+      { feature: 'star shapes', layer: 'Box' },
+      { feature: 'trim paths', layer: 'Box' },
+    ]));
+  });
+
+  it('rejects files without layers', () => {
+    expect(() => importLottie('{"fr":30}')).toThrow(/missing "layers"/);
+  });
+});
@@ -145,11 +145,19 @@ describe('color interpolation', () => {
 
   it('snaps non-parseable colors', () => {
     const kfs: Keyframe[] = [
-      { at: 0, fill: 'red' },
+      { at: 0, fill: 'currentColor' },
       { at: 1000, fill: 'blue', curve: 'linear' },
     ];
     const state = interpolateKeyframes(kfs, 250);
-    expect(state.fill).toBe('red'); // t < 0.5 → snap to first
+    expect(state.fill).toBe('currentColor'); // t < 0.5 → snap to first
+  });
+
+  it('blends named colors', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, fill: 'red' },
+      { at: 1000, fill: 'blue', curve: 'linear' },
+    ];
+    expect(interpolateKeyframes(kfs, 500).fill).toBe('#800080');
   });
 });
 
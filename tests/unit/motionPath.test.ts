@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { createPathSampler } from '../../src/timeline/motionPath';
+import { interpolateKeyframes } from '../../src/timeline/interpolate';
+import type { Keyframe } from '../../src/types';
+
+describe('createPathSampler', () => {
+  it('measures and samples a polyline by arc length', () => {
+    const sampler = createPathSampler('M0,0 L30,0 L30,10');
+    expect(sampler.length).toBeCloseTo(40, 5);
+
+    expect(sampler.at(0)).toMatchObject({ x: 0, y: 0, angle: 0 });
+    const mid = sampler.at(0.5);
+    expect(mid.x).toBeCloseTo(20, 5);
+    expect(mid.y).toBeCloseTo(0, 5);
+    const late = sampler.at(0.875);
+    expect(late.x).toBeCloseTo(30, 5);
+    expect(late.y).toBeCloseTo(5, 5);
+    expect(late.angle).toBeCloseTo(90, 5);
+  });
+
+  it('follows curves at constant speed', () => {
+    // Semicircle of radius 50 from (0,50) over the top to (100,50)
+    const sampler = createPathSampler('M0,50 A50,50 0 0 1 100,50');
+    expect(sampler.length).toBeCloseTo(Math.PI * 50, 0);
+    const top = sampler.at(0.5);
+    expect(top.x).toBeCloseTo(50, 0);
+    expect(top.y).toBeCloseTo(0, 0);
+    expect(Math.abs(top.angle)).toBeLessThan(5);
+  });
+
+  it('clamps progress and adds no length for jumps between subpaths', () => {
+    const sampler = createPathSampler('M0,0 L10,0 M100,0 L110,0');
+    expect(sampler.length).toBeCloseTo(20, 5);
+    expect(sampler.at(-1).x).toBeCloseTo(0, 5);
+    expect(sampler.at(2).x).toBeCloseTo(110, 5);
+    expect(sampler.at(0.75).x).toBeCloseTo(105, 5);
+  });
+
+  it('returns the start point of a path without length', () => {
+    expect(createPathSampler('M5,7').at(0.5)).toEqual({ x: 5, y: 7, angle: 0 });
+  });
+});
+
+describe('motionPath keyframes', () => {
+  const d = 'M0,0 L100,0 L100,100';
+
+  it('moves along the path instead of in a straight line', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, position: { x: 0, y: 0 } },
+      { at: 1000, motionPath: { d }, curve: 'linear' },
+    ];
+    const corner = interpolateKeyframes(kfs, 500).position;
+    expect(corner.x).toBeCloseTo(100, 5);
+    expect(corner.y).toBeCloseTo(0, 5);
+    const s = interpolateKeyframes(kfs, 750).position;
+    expect(s.x).toBeCloseTo(100, 5);
+    expect(s.y).toBeCloseTo(50, 5);
+    const end = interpolateKeyframes(kfs, 2000).position;
+    expect(end.x).toBeCloseTo(100, 5);
+    expect(end.y).toBeCloseTo(100, 5);
+  });
+
+  it('travels between start and end with the keyframe easing', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, position: { x: 0, y: 0 } },
+      { at: 1000, motionPath: { d, start: 0.25, end: 0.75 }, curve: 'easeInQuad' },
+    ];
+    // easeInQuad(0.5) = 0.25 → progress 0.375 → 75 units along
+    const s = interpolateKeyframes(kfs, 500).position;
+    expect(s.x).toBeCloseTo(75, 5);
+    expect(s.y).toBeCloseTo(0, 5);
+  });
+
+  it('reports the path tangent when auto-rotating', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, position: { x: 0, y: 0 }, rotation: 10 },
+      { at: 1000, motionPath: { d, autoRotate: true, rotateOffset: -90 }, curve: 'linear' },
+    ];
+    const early = interpolateKeyframes(kfs, 250);
+    expect(early.rotation).toBe(10);
+    expect(early.motionRotation).toBeCloseTo(-90, 5);
+    expect(interpolateKeyframes(kfs, 900).motionRotation).toBeCloseTo(0, 5);
+    // Holds the end tangent once the path is done
+    expect(interpolateKeyframes(kfs, 1500).motionRotation).toBeCloseTo(0, 5);
+  });
+
+  it('leaves motionRotation unset without autoRotate', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, position: { x: 0, y: 0 } },
+      { at: 1000, motionPath: { d } },
+    ];
+    expect(interpolateKeyframes(kfs, 500).motionRotation).toBeUndefined();
+  });
+
+  it('continues in a straight line from the end of the path', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, position: { x: 0, y: 0 } },
+      { at: 1000, motionPath: { d }, curve: 'linear' },
+      { at: 2000, position: { x: 0, y: 100 }, curve: 'linear' },
+    ];
+    const s = interpolateKeyframes(kfs, 1500).position;
+    expect(s.x).toBeCloseTo(50, 5);
+    expect(s.y).toBeCloseTo(100, 5);
+  });
+});
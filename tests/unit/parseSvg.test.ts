@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { parseSvg } from '../../src/parser/parseSvg';
+import { parseSvg, getInstancePaths } from '../../src/parser/parseSvg';
+import { createActor } from '../../src/actor/createActor';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -145,6 +146,19 @@ describe('parseSvg', () => {
     expect(gp2!.stroke).toBe('#333333');
   });
 
+  it('reads and inherits line joins, caps, miter limit and fill rule', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+      <g stroke-linejoin="round" style="fill-rule: evenodd">
+        <path id="a" d="M0,0 L5,5" stroke-linecap="square" stroke-miterlimit="8"/>
+        <path id="b" d="M0,0 L5,5" stroke-linejoin="sideways" stroke-miterlimit="0.5"/>
+      </g>
+    </svg>`;
+    const [a, b] = parseSvg(svg).paths;
+    expect(a).toMatchObject({ strokeLinejoin: 'round', strokeLinecap: 'square', strokeMiterlimit: 8, fillRule: 'evenodd' });
+    expect(b.strokeLinejoin).toBe('round');
+    expect(b.strokeMiterlimit).toBeUndefined();
+  });
+
   it('skips rects with zero dimensions', () => {
     const svg = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><rect x="0" y="0" width="0" height="10"/></svg>';
     const scene = parseSvg(svg);
@@ -158,4 +172,235 @@ describe('parseSvg', () => {
     const circles = scene.paths.filter((p) => p.id.startsWith('circle'));
     expect(circles.length).toBe(0);
   });
+
+  it('nests groups instead of closing at the first inner </g>', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+      <g id="outer"><g id="inner"><path id="a" d="M0,0 L1,1"/></g><path id="b" d="M2,2 L3,3"/></g>
+      <path id="c" d="M4,4 L5,5"/>
+    </svg>`;
+    const scene = parseSvg(svg);
+    expect(scene.groups.map((g) => g.id)).toEqual(['outer']);
+    const outer = scene.groups[0];
+    expect(outer.children.map((c) => c.id)).toEqual(['inner', 'b']);
+    expect((outer.children[0] as typeof outer).children.map((c) => c.id)).toEqual(['a']);
+    expect(scene.paths.map((p) => p.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps shapes in document order', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+      <rect id="back" width="10" height="10"/><path id="mid" d="M0,0 L1,1"/><circle id="front" r="2"/>
+    </svg>`;
+    expect(parseSvg(svg).paths.map((p) => p.id)).toEqual(['back', 'mid', 'front']);
+  });
+
+  it('handles paths with child elements', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+      <path id="a" d="M0,0 L1,1"><title>A</title></path><path id="b" d="M2,2 L3,3"></path>
+    </svg>`;
+    const scene = parseSvg(svg);
+    expect(scene.paths.map((p) => [p.id, p.d])).toEqual([['a', 'M0,0 L1,1'], ['b', 'M2,2 L3,3']]);
+  });
+
+  it('ignores markup inside comments and CDATA', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+      <!-- <path id="ghost" d="M0,0"/> -->
+      <style><![CDATA[ /* <path id="ghost2" d="M0,0"/> */ ]]></style>
+      <path id="real" d="M0,0 L1,1"/>
+    </svg>`;
+    expect(parseSvg(svg).paths.map((p) => p.id)).toEqual(['real']);
+  });
+
+  it('matches attribute names exactly', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+      <path data-id="x" data-stroke-width="9" data-d="M9,9" id="p" d="M0,0 L1,1" stroke-width="2"/>
+      <path data-fill="#f00" d="M0,0 L1,1"/>
+    </svg>`;
+    const [p, q] = parseSvg(svg).paths;
+    expect(p).toMatchObject({ id: 'p', d: 'M0,0 L1,1', strokeWidth: 2 });
+    expect(q.fill).toBeUndefined();
+  });
+
+  it('does not render shapes inside defs', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+      <defs><path id="template" d="M0,0 L1,1"/></defs>
+      <path id="shown" d="M0,0 L1,1"/>
+    </svg>`;
+    expect(parseSvg(svg).paths.map((p) => p.id)).toEqual(['shown']);
+  });
+
+  it('accepts an XML declaration and decodes attribute entities', () => {
+    const svg = `<?xml version="1.0" encoding="UTF-8"?>
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><path id="a&amp;b" d="M0,0 L1,1"/></svg>`;
+    expect(parseSvg(svg).paths[0].id).toBe('a&b');
+  });
+
+  describe('styles', () => {
+    const wrap = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">${body}</svg>`;
+
+    it('applies stylesheet rules by class, id and type', () => {
+      const scene = parseSvg(wrap(`
+        <style>.cls-1 { fill: #ff0000 } #b { stroke: #00ff00; stroke-width: 3 } rect { fill: #0000ff }</style>
+        <path id="a" class="cls-1" d="M0,0 L1,1"/>
+        <path id="b" d="M0,0 L1,1"/>
+        <rect id="c" width="1" height="1"/>
+      `));
+      const [a, b, c] = scene.paths;
+      expect(a.fill).toBe('#ff0000');
+      expect(b).toMatchObject({ stroke: '#00ff00', strokeWidth: 3 });
+      expect(c.fill).toBe('#0000ff');
+      expect(scene.colors).toEqual({ a: '#ff0000', b: '#00ff00', c: '#0000ff' });
+    });
+
+    it('orders inline style, rules and presentation attributes', () => {
+      const scene = parseSvg(wrap(`
+        <style>.x { fill: red } .y { stroke: blue !important }</style>
+        <path id="attr" class="x" fill="green" d="M0,0 L1,1"/>
+        <path id="inline" class="x" style="fill: yellow" d="M0,0 L1,1"/>
+        <path id="important" class="y" style="stroke: pink" d="M0,0 L1,1"/>
+      `));
+      expect(scene.paths.map((p) => p.fill ?? p.stroke)).toEqual(['red', 'yellow', 'blue']);
+    });
+
+    it('inherits paint from ancestor groups', () => {
+      const scene = parseSvg(wrap(`
+        <style>.theme path { stroke-width: 4 }</style>
+        <g class="theme" fill="#123456" stroke="#abcdef">
+          <g style="fill: #654321"><path id="inner" d="M0,0 L1,1"/></g>
+          <path id="direct" fill="inherit" stroke="none" d="M0,0 L1,1"/>
+        </g>
+      `));
+      const [inner, direct] = scene.paths;
+      expect(inner).toMatchObject({ fill: '#654321', stroke: '#abcdef', strokeWidth: 4 });
+      expect(direct).toMatchObject({ fill: '#123456', stroke: 'none' });
+    });
+
+    it('multiplies group opacity into path opacity', () => {
+      const scene = parseSvg(wrap(`
+        <g opacity="0.5"><g style="opacity: .5"><path id="a" opacity="0.8" d="M0,0 L1,1"/></g></g>
+        <path id="b" d="M0,0 L1,1"/>
+      `));
+      expect(scene.paths[0].opacity).toBeCloseTo(0.2, 10);
+      expect(scene.paths[1].opacity).toBeUndefined();
+    });
+
+    it('resolves currentColor and quoted url() references', () => {
+      const scene = parseSvg(wrap(`
+        <g color="#333333"><path id="a" fill="currentColor" style="stroke: url('#grad')" d="M0,0 L1,1"/></g>
+      `));
+      expect(scene.paths[0]).toMatchObject({ fill: '#333333', stroke: 'url(#grad)' });
+    });
+
+    it('skips elements with display: none', () => {
+      const scene = parseSvg(wrap(`
+        <style>.hidden { display: none }</style>
+        <g class="hidden"><path id="a" d="M0,0 L1,1"/></g>
+        <path id="b" d="M0,0 L1,1"/>
+      `));
+      expect(scene.paths.map((p) => p.id)).toEqual(['b']);
+    });
+
+    it('applies stylesheet rules to gradient stops', () => {
+      const scene = parseSvg(wrap(`
+        <style>.s1 { stop-color: #ff0000; stop-opacity: 0.5 }</style>
+        <defs><linearGradient id="g"><stop class="s1" offset="0"/><stop offset="1" style="stop-color:#00f"/></linearGradient></defs>
+      `));
+      expect(scene.gradients[0].stops).toEqual([
+        { offset: 0, color: '#ff0000', opacity: 0.5 },
+        { offset: 1, color: '#00f', opacity: undefined },
+      ]);
+    });
+  });
+
+  describe('use and symbol', () => {
+    const wrap = (body: string) =>
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 100 100">${body}</svg>`;
+
+    it('expands <use> of a defs element with derived ids and placement', () => {
+      const scene = parseSvg(wrap(`
+        <defs><path id="dot" d="M0,0 L1,1" transform="scale(2)"/></defs>
+        <use id="a" href="#dot" x="10" y="20"/>
+        <use xlink:href="#dot" transform="rotate(45)"/>
+      `));
+      expect(scene.paths.map((p) => p.id)).toEqual(['a/dot', 'use-1/dot']);
+      expect(scene.paths[0]).toMatchObject({ d: 'M0,0 L1,1', transform: 'scale(2)' });
+      expect(scene.groups.map((g) => g.transform)).toEqual(['translate(10,20)', 'rotate(45)']);
+      expect(scene.instances).toEqual([
+        { id: 'a', href: 'dot', pathIds: ['a/dot'], transform: 'translate(10,20)' },
+        { id: 'use-1', href: 'dot', pathIds: ['use-1/dot'], transform: 'rotate(45)' },
+      ]);
+    });
+
+    it('expands symbols and keeps their content out of the rendered list', () => {
+      const scene = parseSvg(wrap(`
+        <symbol id="icon" viewBox="0 0 10 10">
+          <g id="body" transform="translate(1,1)"><rect width="2" height="2"/><circle r="1"/></g>
+        </symbol>
+        <use id="big" href="#icon" width="20" height="20"/>
+      `));
+      expect(scene.paths.map((p) => p.id)).toEqual(['big/rect-1', 'big/circle-2']);
+      expect(scene.groups[0]).toMatchObject({
+        id: 'big',
+        transform: 'scale(2,2)',
+        children: [{ id: 'big/body', transform: 'translate(1,1)' }],
+      });
+    });
+
+    it('fits the symbol viewBox with preserveAspectRatio', () => {
+      const scene = parseSvg(wrap(`
+        <symbol id="s" viewBox="0 0 10 20"><path id="p" d="M0,0 L1,1"/></symbol>
+        <use id="u" href="#s" width="40" height="40"/>
+      `));
+      expect(scene.groups[0].transform).toBe('translate(10,0) scale(2,2)');
+    });
+
+    it('inherits paint from the <use> element', () => {
+      const scene = parseSvg(wrap(`
+        <style>.brand { fill: #ff0000 }</style>
+        <defs><path id="shape" d="M0,0 L1,1"/><path id="fixed" fill="#00ff00" d="M0,0 L1,1"/></defs>
+        <use id="a" class="brand" href="#shape" opacity="0.5"/>
+        <use id="b" class="brand" href="#fixed"/>
+      `));
+      expect(scene.paths[0]).toMatchObject({ fill: '#ff0000', opacity: 0.5 });
+      expect(scene.paths[1].fill).toBe('#00ff00');
+      expect(scene.colors['a/shape']).toBe('#ff0000');
+    });
+
+    it('expands nested <use> and ignores reference cycles', () => {
+      const scene = parseSvg(wrap(`
+        <defs>
+          <path id="leaf" d="M0,0 L1,1"/>
+          <g id="pair"><use id="l" href="#leaf"/><use id="r" href="#leaf" x="5"/></g>
+          <g id="loop"><use id="self" href="#loop"/><path id="x" d="M0,0 L1,1"/></g>
+        </defs>
+        <use id="tree" href="#pair" y="10"/>
+        <use id="cycle" href="#loop"/>
+        <use id="missing" href="#nope"/>
+      `));
+      expect(scene.paths.map((p) => p.id)).toEqual(['tree/l/leaf', 'tree/r/leaf', 'cycle/x']);
+      expect(scene.groups[0]).toMatchObject({
+        id: 'tree',
+        transform: 'translate(0,10)',
+        children: [{ id: 'tree/pair', children: [{ id: 'tree/l' }, { id: 'tree/r', transform: 'translate(5,0)' }] }],
+      });
+      expect(scene.instances!.map((i) => i.id)).toEqual(['tree/l', 'tree/r', 'tree', 'cycle']);
+      expect(scene.instances!.find((i) => i.id === 'tree')!.pathIds).toEqual(['tree/l/leaf', 'tree/r/leaf']);
+    });
+  });
+});
+
+describe('getInstancePaths', () => {
+  const scene = parseSvg(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+    <defs><g id="g"><path id="a" d="M0,0 L1,1"/><path id="b" d="M1,1 L2,2"/></g></defs>
+    <use id="u" href="#g"/>
+  </svg>`);
+
+  it('returns the paths of an instance, ready for createActor', () => {
+    const actor = createActor({ id: 'u', paths: getInstancePaths(scene, 'u'), origin: { x: 0, y: 0 } });
+    expect(actor.pathIds).toEqual(['u/a', 'u/b']);
+  });
+
+  it('throws for an unknown instance', () => {
+    expect(() => getInstancePaths(scene, 'nope')).toThrow('Unknown instance "nope"');
+  });
 });
+
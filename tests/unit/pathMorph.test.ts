@@ -56,6 +56,12 @@ describe('parsePathD', () => {
     expect(cmds[3].type).toBe('Z');
   });
 
+  it('keeps the command after Z', () => {
+    const cmds = parsePathD('M0,0 L10,0 Z M20,0 l5,5 Z');
+    expect(cmds.map((c) => c.type)).toEqual(['M', 'L', 'Z', 'M', 'L', 'Z']);
+    expect(cmds[4].params).toEqual([25, 5]);
+  });
+
   it('converts relative commands to absolute', () => {
     const cmds = parsePathD('M10,10 l5,5');
     expect(cmds[1].type).toBe('L');
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createPlayback } from '../../src/trigger/playback';
-import type { Timeline } from '../../src/types';
+import type { PlaybackController, PlaybackEvent, Timeline } from '../../src/types';
 
 // Mock rAF for deterministic tests
 beforeEach(() => {
@@ -94,6 +94,22 @@ describe('PlaybackController', () => {
     expect(ctrl.state).toBe('finished');
   });
 
+  it('play() after a reverse ran back to 0 plays forward from 0', () => {
+    const ctrl = createPlayback({ timeline: mockTimeline });
+    ctrl.play();
+    vi.advanceTimersByTime(1200);
+    ctrl.reverse();
+    vi.advanceTimersByTime(1200);
+    expect(ctrl.state).toBe('finished');
+    expect(ctrl.currentTime).toBe(0);
+
+    ctrl.play();
+    vi.advanceTimersByTime(500);
+    expect(ctrl.state).toBe('playing');
+    expect(ctrl.currentTime).toBeGreaterThan(0);
+    expect(ctrl.currentTime).toBeLessThan(1000);
+  });
+
   it('duration returns totalDuration', () => {
     const ctrl = createPlayback({ timeline: mockTimeline });
     expect(ctrl.duration).toBe(1000);
@@ -275,3 +291,135 @@ describe('event system', () => {
     expect(fn).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('markers', () => {
+  const marked: Timeline = {
+    ...mockTimeline,
+    markers: [
+      { label: 'intro', at: 0 },
+      { label: 'a', at: 200 },
+      { label: 'b', at: 210 },
+      { label: 'loaded', at: 800 },
+      { label: 'end', at: 1000 },
+    ],
+  };
+
+  function record(ctrl: PlaybackController) {
+    const labels: string[] = [];
+    ctrl.on('marker', (e) => labels.push(e.marker!.label));
+    return labels;
+  }
+
+  it('fires each marker once as the playhead crosses it, start and end included', () => {
+    const ctrl = createPlayback({ timeline: marked });
+    const labels = record(ctrl);
+    ctrl.play();
+    vi.advanceTimersByTime(300);
+    expect(labels).toEqual(['intro', 'a', 'b']);
+    vi.advanceTimersByTime(1000);
+    expect(labels).toEqual(['intro', 'a', 'b', 'loaded', 'end']);
+    expect(ctrl.state).toBe('finished');
+  });
+
+  it('fires every marker passed in one large frame, in order', () => {
+    let now = 0;
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => setTimeout(() => cb((now += 900)), 16));
+    const ctrl = createPlayback({ timeline: marked });
+    const events: PlaybackEvent[] = [];
+    ctrl.on('marker', (e) => events.push(e));
+    ctrl.play();
+    vi.advanceTimersByTime(32);
+    expect(events.map((e) => e.marker)).toEqual([
+      { label: 'intro', at: 0 }, { label: 'a', at: 200 }, { label: 'b', at: 210 }, { label: 'loaded', at: 800 },
+    ]);
+    expect(events[0].currentTime).toBe(900);
+  });
+
+  it('fires backward crossings in reverse order', () => {
+    const ctrl = createPlayback({ timeline: marked });
+    ctrl.seek(900);
+    const labels = record(ctrl);
+    ctrl.reverse();
+    vi.advanceTimersByTime(1000);
+    expect(labels).toEqual(['loaded', 'b', 'a', 'intro']);
+  });
+
+  it('fires again on every loop pass', () => {
+    const ctrl = createPlayback({
+      timeline: marked,
+      trigger: { timelineId: marked.id, config: { type: 'loop', iterations: 2 } },
+    });
+    const labels = record(ctrl);
+    ctrl.play();
+    vi.advanceTimersByTime(2500);
+    expect(labels).toEqual(['intro', 'a', 'b', 'loaded', 'end', 'intro', 'a', 'b', 'loaded', 'end']);
+  });
+
+  it('fires on reverse and alternate loop passes', () => {
+    for (const direction of ['reverse', 'alternate'] as const) {
+      const ctrl = createPlayback({
+        timeline: marked,
+        trigger: { timelineId: marked.id, config: { type: 'loop', iterations: 3, direction } },
+      });
+      const labels = record(ctrl);
+      ctrl.play();
+      vi.advanceTimersByTime(4000);
+      const forward = ['intro', 'a', 'b', 'loaded', 'end'];
+      const backward = [...forward].reverse();
+      expect(labels).toEqual(direction === 'reverse'
+        ? [...forward, ...backward.slice(1), ...backward]
+        : [...forward, ...backward.slice(1), ...forward.slice(1)]);
+      expect(ctrl.state).toBe('finished');
+    }
+  });
+
+  it('seek jumps to a label without firing markers in between', () => {
+    const ctrl = createPlayback({ timeline: marked });
+    const labels = record(ctrl);
+    ctrl.seek('loaded');
+    expect(ctrl.currentTime).toBe(800);
+    expect(labels).toEqual([]);
+    expect(() => ctrl.seek('missing')).toThrow('motion-svg: Unknown marker "missing".');
+  });
+
+  it('seek to a label follows time stretching', () => {
+    const ctrl = createPlayback({ timeline: marked });
+    ctrl.totalDuration = 2000;
+    ctrl.seek('loaded');
+    expect(ctrl.currentTime).toBe(1600);
+  });
+
+  it('playTo plays to a label and pauses there, in either direction', () => {
+    const ctrl = createPlayback({ timeline: marked });
+    const labels = record(ctrl);
+    const onPause = vi.fn();
+    ctrl.on('pause', onPause);
+
+    ctrl.playTo('loaded');
+    vi.advanceTimersByTime(2000);
+    expect(ctrl.state).toBe('paused');
+    expect(ctrl.currentTime).toBe(800);
+    expect(labels).toEqual(['intro', 'a', 'b', 'loaded']);
+    expect(onPause).toHaveBeenCalledTimes(1);
+
+    ctrl.playTo(205);
+    vi.advanceTimersByTime(2000);
+    expect(ctrl.currentTime).toBe(205);
+    expect(labels).toEqual(['intro', 'a', 'b', 'loaded', 'b']);
+  });
+
+  it('playRange plays between two points, firing the start marker', () => {
+    const ctrl = createPlayback({ timeline: marked });
+    const labels = record(ctrl);
+    ctrl.playRange('a', 'loaded');
+    expect(ctrl.currentTime).toBe(200);
+    vi.advanceTimersByTime(2000);
+    expect(ctrl.currentTime).toBe(800);
+    expect(labels).toEqual(['a', 'b', 'loaded']);
+
+    ctrl.playRange('end', 'b');
+    vi.advanceTimersByTime(2000);
+    expect(ctrl.currentTime).toBe(210);
+    expect(labels).toEqual(['a', 'b', 'loaded', 'end', 'loaded', 'b']);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'node:zlib';
+import { rasterizeFrame, getRasterSize, type RasterImage } from '../../src/raster/rasterizeFrame';
+import { exportApng, exportGif, exportPngSequence, rasterizeFrames } from '../../src/raster/exportRaster';
+import { encodePng } from '../../src/raster/png';
+import { encodeGif } from '../../src/raster/gif';
+import { dashPolylines, flattenPath } from '../../src/raster/polygons';
+import type { FrameSource } from '../../src/render/renderFrame';
+import { createActor } from '../../src/actor/createActor';
+import { timeline } from '../../src/timeline/timeline';
+import type { Scene, SvgPath } from '../../src/types';
+
+function source(paths: SvgPath[], extra: Partial<FrameSource> = {}, gradients: Scene['gradients'] = []): FrameSource {
+  return {
+    scene: { viewBox: { x: 0, y: 0, w: 20, h: 20 }, paths, groups: [], colors: {}, gradients, metadata: {} },
+    actors: [],
+    timelines: [],
+    triggers: [],
+    variants: [],
+    ...extra,
+  };
+}
+
+function pixel(image: RasterImage, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+/** Split a PNG into [type, data] chunks */
+function pngChunks(png: Uint8Array): [string, Uint8Array][] {
+  const view = new DataView(png.buffer, png.byteOffset);
+  const chunks: [string, Uint8Array][] = [];
+  for (let o = 8; o < png.length;) {
+    const len = view.getUint32(o);
+    chunks.push([String.fromCharCode(...png.subarray(o + 4, o + 8)), png.subarray(o + 8, o + 8 + len)]);
+    o += len + 12;
+  }
+  return chunks;
+}
+
+/** Inflate and unfilter RGBA scanlines */
+function decodePng(png: Uint8Array): RasterImage {
+  const chunks = pngChunks(png);
+  const ihdr = new DataView(chunks[0][1].buffer, chunks[0][1].byteOffset);
+  const width = ihdr.getUint32(0);
+  const height = ihdr.getUint32(4);
+  const raw = inflateSync(Buffer.concat(chunks.filter(([t]) => t === 'IDAT').map(([, d]) => d)));
+  const stride = width * 4;
+  const data = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    for (let i = 0; i < stride; i++) {
+      const a = i >= 4 ? data[y * stride + i - 4] : 0;
+      const b = y > 0 ? data[(y - 1) * stride + i] : 0;
+      const c = i >= 4 && y > 0 ? data[(y - 1) * stride + i - 4] : 0;
+      const p = a + b - c;
+      const paeth = Math.abs(p - a) <= Math.abs(p - b) && Math.abs(p - a) <= Math.abs(p - c)
+        ? a : Math.abs(p - b) <= Math.abs(p - c) ? b : c;
+      const pred = [0, a, b, (a + b) >> 1, paeth][filter];
+      data[y * stride + i] = (raw[y * (stride + 1) + 1 + i] + pred) & 0xff;
+    }
+  }
+  return { width, height, data };
+}
+
+/** Decode the color indices of the first GIF frame */
+function gifIndices(gif: Uint8Array): { palette: Uint8Array; indices: number[] } {
+  const palette = gif.subarray(13, 13 + 768);
+  let o = 13 + 768;
+  while (gif[o] === 0x21) {
+    o += 2;
+    while (gif[o] !== 0) o += gif[o] + 1;
+    o++;
+  }
+  o += 10; // image descriptor
+  const min = gif[o++];
+  const bytes: number[] = [];
+  while (gif[o] !== 0) {
+    bytes.push(...gif.subarray(o + 1, o + 1 + gif[o]));
+    o += gif[o] + 1;
+  }
+
+  const clear = 1 << min;
+  let size = min + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: clear + 2 }, (_, i) => [i]);
+    size = min + 1;
+  };
+  reset();
+  const indices: number[] = [];
+  let prev: number[] | null = null;
+  let bit = 0;
+  for (;;) {
+    let code = 0;
+    for (let k = 0; k < size; k++, bit++) code |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << k;
+    if (code === clear) { reset(); prev = null; continue; }
+    if (code === clear + 1) break;
+    const entry: number[] = code < table.length ? table[code] : [...prev!, prev![0]];
+    indices.push(...entry);
+    if (prev) table.push([...prev, entry[0]]);
+    if (table.length === 1 << size && size < 12) size++;
+    prev = entry;
+  }
+  return { palette, indices };
+}
+
+const red: SvgPath = { id: 'sq', d: 'M4,4 H16 V16 H4 Z', fill: '#ff0000' };
+
+describe('rasterizeFrame', () => {
+  it('fills paths with anti-aliased edges', () => {
+    const image = rasterizeFrame(source([{ ...red, d: 'M4.5,4 H16 V16 H4.5 Z' }]), 0);
+    expect(image.width).toBe(20);
+    expect(pixel(image, 10, 10)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 2, 10)).toEqual([0, 0, 0, 0]);
+    expect(pixel(image, 4, 10)).toEqual([255, 0, 0, 128]);
+  });
+
+  it('fits the viewBox to the output size and draws the background', () => {
+    expect(getRasterSize({ w: 20, h: 10 }, { width: 100 })).toEqual({ width: 100, height: 50 });
+    expect(() => getRasterSize({ w: 20, h: 10 }, { width: 0 })).toThrow('motion-svg: Raster size');
+    const image = rasterizeFrame(source([red]), 0, { width: 40, height: 60, background: 'white' });
+    // Scaled 2× and centered vertically: the square spans x 8..32, y 18..42
+    expect(pixel(image, 9, 19)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 9, 16)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('honors the fill rule', () => {
+    const rings = 'M2,2 H18 V18 H2 Z M6,6 H14 V14 H6 Z';
+    expect(pixel(rasterizeFrame(source([{ ...red, d: rings }]), 0), 10, 10)[3]).toBe(255);
+    expect(pixel(rasterizeFrame(source([{ ...red, d: rings, fillRule: 'evenodd' }]), 0), 10, 10)[3]).toBe(0);
+  });
+
+  it('strokes with width, caps and joins', () => {
+    const line: SvgPath = { id: 'l', d: 'M4,10 H16', fill: 'none', stroke: '#0000ff', strokeWidth: 4 };
+    const butt = rasterizeFrame(source([line]), 0);
+    expect(pixel(butt, 10, 8)).toEqual([0, 0, 255, 255]);
+    expect(pixel(butt, 10, 6)[3]).toBe(0);
+    expect(pixel(butt, 2, 9)[3]).toBe(0);
+    expect(pixel(rasterizeFrame(source([{ ...line, strokeLinecap: 'square' }]), 0), 2, 9)[3]).toBe(255);
+
+    const corner: SvgPath = { id: 'c', d: 'M4,16 V4 H16', fill: 'none', stroke: '#000', strokeWidth: 4 };
+    expect(pixel(rasterizeFrame(source([corner]), 0), 2, 2)[3]).toBe(255);
+    expect(pixel(rasterizeFrame(source([{ ...corner, strokeLinejoin: 'bevel' }]), 0), 2, 2)[3]).toBe(0);
+    expect(pixel(rasterizeFrame(source([{ ...corner, strokeLinejoin: 'round' }]), 0), 3, 3)[3]).toBe(255);
+  });
+
+  it('aligns strokes inside and outside the fill', () => {
+    const framed: SvgPath = { ...red, stroke: '#0000ff', strokeWidth: 2 };
+    const inside = rasterizeFrame(source([{ ...framed, strokeAlign: 'inside' }]), 0);
+    expect(pixel(inside, 4, 10)).toEqual([0, 0, 255, 255]);
+    expect(pixel(inside, 3, 10)[3]).toBe(0);
+    const outside = rasterizeFrame(source([{ ...framed, strokeAlign: 'outside' }]), 0);
+    expect(pixel(outside, 3, 10)).toEqual([0, 0, 255, 255]);
+    expect(pixel(outside, 4, 10)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('paints linear and radial gradients', () => {
+    const image = rasterizeFrame(source([{ ...red, d: 'M0,0 H20 V20 H0 Z', fill: 'url(#fade)' }], {}, [
+      { type: 'linear', id: 'fade', x1: 0, y1: 0, x2: 1, y2: 0, stops: [{ offset: 0, color: '#000' }, { offset: 1, color: '#fff' }] },
+    ]), 0);
+    expect(pixel(image, 0, 5)[0]).toBeLessThan(16);
+    expect(pixel(image, 10, 5)[0]).toBeCloseTo(134, -1);
+    expect(pixel(image, 19, 5)[0]).toBeGreaterThan(240);
+
+    const glow = rasterizeFrame(source([{ ...red, d: 'M0,0 H20 V20 H0 Z', fill: 'url(#glow)' }], {}, [
+      { type: 'radial', id: 'glow', cx: 10, cy: 10, r: 10, gradientUnits: 'userSpaceOnUse', stops: [{ offset: 0, color: '#fff' }, { offset: 1, color: '#fff', opacity: 0 }] },
+    ]), 0);
+    expect(pixel(glow, 10, 10)[3]).toBeCloseTo(237, -1);
+    expect(pixel(glow, 0, 0)[3]).toBe(0);
+  });
+
+  it('draws actors with their state, opacity and clip', () => {
+    const dot = createActor({ id: 'dot', paths: [red], origin: 'center' });
+    const wipe = createActor({ id: 'wipe', paths: [{ id: 'w', d: 'M0,0 H10 V20 H0 Z' }], origin: 'center' });
+    const fade = timeline(dot, { keyframes: [{ at: 0, opacity: 0 }, { at: 100, opacity: 1, curve: 'linear' }] });
+    const image = rasterizeFrame(source([], {
+      actors: [wipe, { ...dot, clipPath: 'wipe' }],
+      timelines: [fade],
+    }), 50);
+    expect(pixel(image, 6, 10)).toEqual([255, 0, 0, 128]);
+    expect(pixel(image, 14, 10)[3]).toBe(0);
+  });
+});
+
+describe('flattenPath and dashPolylines', () => {
+  it('keeps subpaths apart and cuts dashes along the length', () => {
+    const lines = flattenPath('M0,0 H10 Z M20,0 C20,10 30,10 30,0', 0.1);
+    expect(lines).toHaveLength(2);
+    expect(lines[0].closed).toBe(true);
+    expect(lines[1].points.length).toBeGreaterThan(4);
+
+    const dashes = dashPolylines(flattenPath('M0,0 H10', 0.1), [3, 2], 1);
+    expect(dashes.map((d) => d.points.map((p) => p.x))).toEqual([[0, 2], [4, 7], [9, 10]]);
+  });
+});
+
+describe('PNG, APNG and GIF', () => {
+  const dot = createActor({ id: 'dot', paths: [red], origin: 'center' });
+  const spin = timeline(dot, { keyframes: [{ at: 0, rotation: 0 }, { at: 100, rotation: 90, curve: 'linear' }] });
+  const animated = source([], { actors: [dot], timelines: [spin] });
+
+  it('encodes PNGs that decode back to the same pixels', () => {
+    const image = rasterizeFrame(source([{ ...red, d: 'M3,3 L17,5 L9,17 Z', fill: 'url(#g)' }], {}, [
+      { type: 'linear', id: 'g', x1: 0, y1: 0, x2: 1, y2: 1, stops: [{ offset: 0, color: 'teal' }, { offset: 1, color: 'gold' }] },
+    ]), 0);
+    const png = encodePng(image);
+    expect(Array.from(png.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+    expect(pngChunks(png).map(([t]) => t)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect(decodePng(png)).toEqual(image);
+  });
+
+  it('samples the scene clock at the frame rate', () => {
+    expect(rasterizeFrames(animated, { fps: 30 })).toHaveLength(4);
+    const { frames, warnings } = exportPngSequence(animated, { fps: 20 });
+    expect(frames).toHaveLength(3);
+    expect(warnings).toEqual([]);
+  });
+
+  it('covers every pass of a looping timeline and the first of an endless one', () => {
+    const loop = (iterations: number) => ({ timelineId: spin.id, config: { type: 'loop' as const, iterations, delay: 50 } });
+    expect(rasterizeFrames({ ...animated, triggers: [loop(3)] }, { fps: 20 })).toHaveLength(9);
+    expect(rasterizeFrames({ ...animated, triggers: [loop(Infinity)] }, { fps: 20 })).toHaveLength(4);
+  });
+
+  it('writes APNG frame chunks in sequence', () => {
+    const { data, frames } = exportApng(animated, { fps: 20, loop: 2 });
+    expect(frames).toBe(3);
+    const chunks = pngChunks(data);
+    expect(chunks.map(([t]) => t)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+    const actl = new DataView(chunks[1][1].buffer, chunks[1][1].byteOffset);
+    expect([actl.getUint32(0), actl.getUint32(4)]).toEqual([3, 2]);
+    const fctl = new DataView(chunks[4][1].buffer, chunks[4][1].byteOffset);
+    expect([fctl.getUint32(0), fctl.getUint16(20), fctl.getUint16(22)]).toEqual([1, 100, 2000]);
+  });
+
+  it('writes a looping GIF with a shared palette', () => {
+    const { data, frames } = exportGif(animated, { fps: 20, background: '#ffffff' });
+    expect(frames).toBe(3);
+    expect(String.fromCharCode(...data.subarray(0, 6))).toBe('GIF89a');
+    expect(data[data.length - 1]).toBe(0x3b);
+    expect(String.fromCharCode(...data.subarray(13 + 768 + 3, 13 + 768 + 14))).toBe('NETSCAPE2.0');
+  });
+
+  it('LZW-encodes palette indices losslessly', () => {
+    const image = rasterizeFrame(source([red, { id: 'o', d: 'M0,0 L20,20', stroke: '#00ff00', strokeWidth: 3 }]), 0, { width: 90 });
+    const { palette, indices } = gifIndices(encodeGif([image]));
+    expect(indices).toHaveLength(90 * 90);
+    const at = (x: number, y: number) => Array.from(palette.subarray(indices[y * 90 + x] * 3, indices[y * 90 + x] * 3 + 3));
+    expect(at(60, 30)).toEqual([255, 0, 0]);
+    expect(at(45, 45)).toEqual([0, 255, 0]);
+    expect(indices[2 * 90 + 85]).toBe(255);
+  });
+
+  it('lists what is not rasterized', () => {
+    const blurry = createActor({ id: 'dot', paths: [red], origin: 'center', filters: [{ type: 'glow', blur: 2, color: '#fff' }] });
+    const tl = timeline(blurry, { keyframes: [{ at: 0, blurRadius: 0 }, { at: 100, blurRadius: 4 }] });
+    const { warnings } = exportGif({
+      ...source([]),
+      scene: { ...source([]).scene, texts: [{ id: 'label', x: 0, y: 10, content: 'Hi' }] },
+      actors: [blurry],
+      timelines: [tl],
+    }, { fps: 10 });
+    expect(warnings).toEqual([
+      'Text "label" is not rasterized.',
+      'Actor "dot" has a filter stack, which is not rasterized.',
+      `Timeline "${tl.id}" animates blurRadius, which is not rasterized.`,
+    ]);
+  });
+});
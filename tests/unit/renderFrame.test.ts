@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { renderFrame, getFrameStates, type FrameSource } from '../../src/render/renderFrame';
+import { actorFrame, pathFrame } from '../../src/render/actorFrame';
+import { parseSvg } from '../../src/parser/parseSvg';
+import { createActor } from '../../src/actor/createActor';
+import { timeline } from '../../src/timeline/timeline';
+import { composition } from '../../src/timeline/composition';
+import type { Scene, SvgText } from '../../src/types';
+
+const title: SvgText = { id: 'title', x: 10, y: 90, content: 'Hello', fontSize: 12 };
+
+const scene: Scene = {
+  viewBox: { x: 0, y: 0, w: 100, h: 100 },
+  paths: [
+    { id: 'bg', d: 'M0,0 H100 V100 H0 Z', fill: 'url(#sky)', transform: 'scale(1)' },
+    { id: 'dot', d: 'M10,10 H30 V30 H10 Z', fill: '#ff0000', stroke: '#000000', strokeWidth: 2 },
+    { id: 'line', d: 'M0,50 L100,50', stroke: '#00ff00', strokeWidth: 4 },
+  ],
+  texts: [title],
+  groups: [],
+  colors: {},
+  gradients: [
+    { type: 'linear', id: 'sky', x1: 0, y1: 0, x2: 0, y2: 100, stops: [{ offset: 0, color: '#0000ff' }, { offset: 1, color: '#ffffff' }] },
+  ],
+  metadata: { width: '200' },
+};
+
+const dot = createActor({ id: 'dot', paths: [scene.paths[1]], origin: 'center' });
+const line = createActor({ id: 'line', paths: [scene.paths[2]], origin: 'center' });
+const slide = timeline(dot, {
+  keyframes: [
+    { at: 0, position: { x: 20, y: 20 }, opacity: 0 },
+    { at: 1000, position: { x: 60, y: 20 }, opacity: 1, curve: 'linear' },
+  ],
+});
+const draw = timeline(line, { keyframes: [{ at: 0, trimEnd: 0 }, { at: 500, trimEnd: 1, curve: 'linear' }] });
+
+const source: FrameSource = {
+  scene,
+  actors: [dot, line],
+  timelines: [slide, draw],
+  triggers: [],
+  variants: [{ name: 'dotOnly', actorIds: ['dot'], timelineIndices: [0], triggerIndices: [] }],
+};
+
+describe('getFrameStates', () => {
+  it('evaluates every timeline at the scene time, held inside its range', () => {
+    const states = getFrameStates(source, 250);
+    expect(states.dot.position.x).toBeCloseTo(30);
+    expect(states.line.trimEnd).toBeCloseTo(0.5);
+    expect(getFrameStates(source, 5000).dot.opacity).toBe(1);
+    expect(getFrameStates(source, -10).dot.opacity).toBe(0);
+  });
+
+  it('keeps timelines with pointer or page triggers at their start', () => {
+    const states = getFrameStates(
+      { ...source, triggers: [{ timelineId: slide.id, config: { type: 'hover' } }] },
+      500,
+    );
+    expect(states.dot.opacity).toBe(0);
+    expect(states.line.trimEnd).toBe(1);
+  });
+
+  it('repeats timelines with loop triggers like the scene clock', () => {
+    const loop = { timelineId: draw.id, config: { type: 'loop' as const, iterations: 3, direction: 'alternate' as const } };
+    const states = getFrameStates({ ...source, triggers: [loop] }, 750);
+    expect(states.line.trimEnd).toBeCloseTo(0.5);
+    expect(states.dot.position.x).toBeCloseTo(50);
+    expect(getFrameStates({ ...source, triggers: [loop] }, 1250).line.trimEnd).toBeCloseTo(0.5);
+    expect(getFrameStates({ ...source, triggers: [loop] }, 5000).line.trimEnd).toBe(1);
+
+    const only = { ...source, timelines: [draw], triggers: [{ timelineId: draw.id, config: { type: 'loop' as const } }] };
+    expect(getFrameStates(only, 1125).line.trimEnd).toBeCloseTo(0.25);
+  });
+
+  it('places timelines at the offsets of a composition', () => {
+    const comp = composition({ items: [{ timeline: draw }, { timeline: slide, at: '-=250' }] });
+    const states = getFrameStates({ ...source, composition: comp }, 500);
+    expect(states.line.trimEnd).toBe(1);
+    expect(states.dot.position.x).toBeCloseTo(30);
+  });
+});
+
+describe('renderFrame', () => {
+  it('writes a complete SVG the parser reads back', () => {
+    const svg = renderFrame(source, 500, { background: '#111' });
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" width="200">')).toBe(true);
+    expect(svg).toContain('<rect x="0" y="0" width="100" height="100" fill="#111"/>');
+    expect(svg).toContain('<defs><linearGradient id="sky"');
+    expect(svg).toContain('<path d="M0,0 H100 V100 H0 Z" fill="url(#sky)" transform="scale(1)"/>');
+    expect(svg).toContain('<text x="10" y="90" fill="currentColor" font-size="12"');
+
+    const parsed = parseSvg(svg);
+    expect(parsed.paths).toHaveLength(4);
+    expect(parsed.texts?.[0].content).toBe('Hello');
+  });
+
+  it('draws actors with the renderer transform and current channels', () => {
+    const svg = renderFrame(source, 500);
+    expect(svg).toContain(`<g data-actor-id="dot" transform="${actorFrame(dot, getFrameStates(source, 500).dot).transform}" opacity="0.5">`);
+    expect(svg).toContain('transform="translate(20, 0) translate(20, 20)');
+    expect(svg).toContain('stroke-dasharray="100 0" stroke-dashoffset="0"');
+  });
+
+  it('renders a variant and rejects unknown ones', () => {
+    const svg = renderFrame(source, 0, { variant: 'dotOnly' });
+    expect(svg).toContain('data-actor-id="dot"');
+    expect(svg).not.toContain('data-actor-id="line"');
+    expect(svg).toContain('<path d="M0,50 L100,50" fill="currentColor" stroke="#00ff00" stroke-width="4"/>');
+    expect(() => renderFrame(source, 0, { variant: 'nope' })).toThrow('motion-svg: Unknown variant "nope".');
+  });
+
+  it('defines blended gradients, blur and filters next to the actor', () => {
+    const glow = createActor({
+      id: 'dot', paths: [scene.paths[1]], origin: 'center', filters: [{ type: 'glow', blur: 4, color: '#fff' }],
+    });
+    const tl = timeline(glow, {
+      keyframes: [
+        { at: 0, fill: '#ff0000', blurRadius: 0 },
+        { at: 100, fill: 'url(#sky)', blurRadius: 6, curve: 'linear' },
+      ],
+    });
+    const svg = renderFrame({ ...source, actors: [glow], timelines: [tl], variants: [] }, 50);
+    expect(svg).toMatch(/<defs><linearGradient id="[^"]+"[^>]*>.*<\/linearGradient><filter id="blur-dot"/);
+    expect(svg).toContain('<feGaussianBlur stdDeviation="3"/>');
+    expect(svg).toContain('<filter id="fx-dot" x="-50%" y="-50%" width="200%" height="200%"><feGaussianBlur');
+    expect(svg).toContain('<g filter="url(#fx-dot)"><g filter="url(#blur-dot)"><path');
+  });
+
+  it('aligns strokes inside and outside the path', () => {
+    const inside = createActor({ id: 'in', paths: [{ ...scene.paths[1], id: 'p', strokeAlign: 'inside' }], origin: 'center' });
+    const outside = createActor({ id: 'out', paths: [{ ...scene.paths[1], id: 'q', strokeAlign: 'outside' }], origin: 'center' });
+    const svg = renderFrame({ ...source, actors: [inside, outside], timelines: [], variants: [] }, 0);
+    expect(svg).toContain('<clipPath id="clip-in-in-p"><path d="M10,10 H30 V30 H10 Z"/></clipPath>');
+    expect(svg).toContain('stroke-width="4" clip-path="url(#clip-in-in-p)"');
+    expect(svg).toContain('stroke-width="4" style="paint-order:stroke fill markers"');
+  });
+
+  it('reveals text and draws clipped actors inside their clip', () => {
+    const label = createActor({ id: 'label', paths: [], texts: [title], origin: 'center' });
+    const wipe = createActor({ id: 'wipe', paths: [{ id: 'w', d: 'M0,0 H50 V100 H0 Z' }], origin: 'center' });
+    const clipped = { ...label, clipPath: 'wipe' };
+    const typing = timeline(label, { keyframes: [{ at: 0, textReveal: 0 }, { at: 100, textReveal: 1, curve: 'linear' }] });
+    const svg = renderFrame({ ...source, actors: [wipe, clipped], timelines: [typing], variants: [] }, 40);
+    expect(svg).toContain('<tspan>He</tspan>');
+    expect(svg).toContain('<g clip-path="url(#clip-label)"><defs><clipPath id="clip-label"><path d="M0,0 H50 V100 H0 Z"');
+    expect(svg).not.toContain('data-actor-id="wipe"');
+  });
+});
+
+describe('pathFrame', () => {
+  it('resolves paint and trim from the state, falling back to the path', () => {
+    expect(pathFrame(scene.paths[2])).toEqual({
+      d: 'M0,50 L100,50', fill: 'currentColor', stroke: '#00ff00', strokeWidth: 4, strokeAlign: 'center',
+      opacity: undefined, transform: undefined,
+    });
+    const state = getFrameStates(source, 250).line;
+    expect(pathFrame(scene.paths[2], state)).toMatchObject({ dasharray: '50 50', dashoffset: 0 });
+  });
+});
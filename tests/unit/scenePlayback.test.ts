@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createScenePlayback } from '../../src/trigger/scenePlayback';
+import { composition } from '../../src/timeline/composition';
+import type { Timeline, TriggerBinding } from '../../src/types';
+
+// Mock rAF for deterministic tests
+beforeEach(() => {
+  vi.useFakeTimers();
+  let frameId = 0;
+  let now = 0;
+  vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+    frameId++;
+    const id = frameId;
+    setTimeout(() => {
+      now += 16;
+      cb(now);
+    }, 16);
+    return id;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => clearTimeout(id));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+const tlA: Timeline = {
+  id: 'tl-a',
+  actorId: 'a',
+  keyframes: [
+    { at: 0, position: { x: 0, y: 0 } },
+    { at: 1000, position: { x: 100, y: 0 }, curve: 'linear' },
+  ],
+  duration: 1000,
+};
+
+const tlB: Timeline = {
+  id: 'tl-b',
+  actorId: 'b',
+  keyframes: [
+    { at: 0, opacity: 0 },
+    { at: 500, opacity: 1, curve: 'linear' },
+  ],
+  duration: 500,
+};
+
+function source(triggers: TriggerBinding[] = []) {
+  return { scene: { gradients: [] }, timelines: [tlA, tlB], triggers };
+}
+
+describe('createScenePlayback', () => {
+  it('scene duration is the longest timeline', () => {
+    const ctrl = createScenePlayback(source());
+    expect(ctrl.duration).toBe(1000);
+    expect(ctrl.timelines.map((t) => t.id)).toEqual(['tl-a', 'tl-b']);
+  });
+
+  it('evaluates every timeline in one update per seek', () => {
+    const onUpdate = vi.fn();
+    const ctrl = createScenePlayback(source(), { onUpdate });
+    ctrl.seek(250);
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    const [states, time] = onUpdate.mock.calls[0];
+    expect(time).toBe(250);
+    expect(states.a.position.x).toBeCloseTo(25);
+    expect(states.b.opacity).toBeCloseTo(0.5);
+  });
+
+  it('holds finished timelines at their last frame', () => {
+    const onUpdate = vi.fn();
+    const ctrl = createScenePlayback(source(), { onUpdate });
+    ctrl.seek(800);
+    const [states] = onUpdate.mock.calls[0];
+    expect(states.a.position.x).toBeCloseTo(80);
+    expect(states.b.opacity).toBe(1);
+  });
+
+  it('applies per-timeline offsets and extends the scene duration', () => {
+    const onUpdate = vi.fn();
+    const ctrl = createScenePlayback(source(), { onUpdate, offsets: { 'tl-b': 800 } });
+    expect(ctrl.duration).toBe(1300);
+    expect(ctrl.getOffset('tl-b')).toBe(800);
+
+    ctrl.seek(1050);
+    const [states] = onUpdate.mock.calls[0];
+    expect(states.a.position.x).toBe(100);
+    expect(states.b.opacity).toBeCloseTo(0.5);
+  });
+
+  it('setOffset moves a timeline at runtime', () => {
+    const ctrl = createScenePlayback(source());
+    ctrl.setOffset('tl-a', 200);
+    expect(ctrl.getOffset('tl-a')).toBe(200);
+    expect(ctrl.duration).toBe(1200);
+    expect(() => ctrl.setOffset('missing', 10)).toThrow(/no timeline "missing"/);
+  });
+
+  it('seek on a stretched scene lands at the same place for every timeline', () => {
+    const onUpdate = vi.fn();
+    const ctrl = createScenePlayback(source(), { onUpdate });
+    ctrl.totalDuration = 2000;
+    ctrl.seek(500); // 25% of the stretched scene → 250ms scene time
+
+    const [states, time] = onUpdate.mock.calls[0];
+    expect(time).toBe(250);
+    expect(states.a.position.x).toBeCloseTo(25);
+    expect(states.b.opacity).toBeCloseTo(0.5);
+  });
+
+  it('completes once for the whole scene', () => {
+    const onComplete = vi.fn();
+    const completeFn = vi.fn();
+    const ctrl = createScenePlayback(source(), { onComplete });
+    ctrl.on('complete', completeFn);
+    ctrl.play();
+    vi.advanceTimersByTime(1200);
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(completeFn).toHaveBeenCalledTimes(1);
+    expect(ctrl.state).toBe('finished');
+  });
+
+  it('loops the shared clock when every timeline loops alike', () => {
+    const tlC: Timeline = { ...tlB, id: 'tl-c', actorId: 'c' };
+    const loops: TriggerBinding[] = [
+      { timelineId: 'tl-b', config: { type: 'loop', iterations: 2, direction: 'normal' } },
+      { timelineId: 'tl-c', config: { type: 'loop', iterations: 2 } },
+    ];
+    const repeatFn = vi.fn();
+    const ctrl = createScenePlayback({ scene: { gradients: [] }, timelines: [tlB, tlC], triggers: loops });
+    ctrl.on('repeat', repeatFn);
+    expect(ctrl.duration).toBe(500);
+    ctrl.play();
+    vi.advanceTimersByTime(1200);
+
+    expect(repeatFn).toHaveBeenCalledTimes(1);
+    expect(ctrl.state).toBe('finished');
+  });
+
+  it('loops timelines of different lengths on their own', () => {
+    const loops: TriggerBinding[] = [
+      { timelineId: 'tl-a', config: { type: 'loop', iterations: 2 } },
+      { timelineId: 'tl-b', config: { type: 'loop', iterations: 3, direction: 'reverse' } },
+    ];
+    const onUpdate = vi.fn();
+    const repeatFn = vi.fn();
+    const ctrl = createScenePlayback(source(loops), { onUpdate });
+    ctrl.on('repeat', repeatFn);
+    expect(ctrl.duration).toBe(2000);
+
+    // tl-b runs its second pass backward while tl-a is still on its first
+    ctrl.seek(750);
+    let [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.a.position.x).toBeCloseTo(75);
+    expect(states.b.opacity).toBeCloseTo(0.5);
+
+    // tl-a repeats, tl-b holds the end of its last pass
+    ctrl.seek(1750);
+    [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.a.position.x).toBeCloseTo(75);
+    expect(states.b.opacity).toBe(0);
+
+    ctrl.play();
+    vi.advanceTimersByTime(500);
+    expect(repeatFn).not.toHaveBeenCalled();
+    expect(ctrl.state).toBe('finished');
+  });
+
+  it('loops a timeline on its own next to a one-shot timeline', () => {
+    const loop: TriggerBinding = {
+      timelineId: 'tl-b',
+      config: { type: 'loop', iterations: 3, direction: 'alternate', delay: 100 },
+    };
+    const onUpdate = vi.fn();
+    const repeatFn = vi.fn();
+    const ctrl = createScenePlayback(source([loop]), { onUpdate });
+    ctrl.on('repeat', repeatFn);
+    // Three passes of 500ms with two 100ms delays outlast tl-a
+    expect(ctrl.duration).toBe(1700);
+
+    ctrl.seek(250);
+    let [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.a.position.x).toBeCloseTo(25);
+    expect(states.b.opacity).toBeCloseTo(0.5);
+
+    // Delay after the first pass holds its end, the second pass runs backward
+    ctrl.seek(550);
+    [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.b.opacity).toBe(1);
+    ctrl.seek(750);
+    [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.a.position.x).toBeCloseTo(75);
+    expect(states.b.opacity).toBeCloseTo(0.7);
+
+    // tl-a is not restarted while tl-b finishes its third pass
+    ctrl.seek(1400);
+    [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.a.position.x).toBe(100);
+    expect(states.b.opacity).toBeCloseTo(0.4);
+
+    ctrl.play();
+    vi.advanceTimersByTime(1000);
+    expect(repeatFn).not.toHaveBeenCalled();
+    expect(ctrl.state).toBe('finished');
+    [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.b.opacity).toBe(1);
+  });
+
+  it('keeps playing while a timeline loops forever', () => {
+    const loop: TriggerBinding = { timelineId: 'tl-b', config: { type: 'loop' } };
+    const onUpdate = vi.fn();
+    const ctrl = createScenePlayback(source([loop]), { onUpdate });
+    expect(ctrl.duration).toBe(Infinity);
+    ctrl.play();
+    vi.advanceTimersByTime(5000);
+    expect(ctrl.state).toBe('playing');
+    const [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.a.position.x).toBe(100);
+  });
+
+  it('ignores loop triggers bound to timelines outside the scene', () => {
+    const loop: TriggerBinding = {
+      timelineId: 'tl-other',
+      config: { type: 'loop', iterations: Infinity },
+    };
+    const ctrl = createScenePlayback(source([loop]));
+    ctrl.play();
+    vi.advanceTimersByTime(1200);
+    expect(ctrl.state).toBe('finished');
+  });
+
+  it('fires timeline markers on the scene clock', () => {
+    const b: Timeline = { ...tlB, markers: [{ label: 'faded', at: 500 }] };
+    const a: Timeline = { ...tlA, markers: [{ label: 'half', at: 500 }] };
+    const ctrl = createScenePlayback(
+      { scene: { gradients: [] }, timelines: [a, b], triggers: [] },
+      { offsets: { 'tl-b': 300 } },
+    );
+    const seen: string[] = [];
+    ctrl.on('marker', (e) => seen.push(`${e.marker!.label}@${e.marker!.at} ${e.timelineId}`));
+    ctrl.play();
+    vi.advanceTimersByTime(1100);
+    expect(seen).toEqual(['half@500 tl-a', 'faded@800 tl-b']);
+
+    ctrl.seek('faded');
+    expect(ctrl.currentTime).toBe(800);
+  });
+
+  it('takes offsets and labels from a composition', () => {
+    const comp = composition({
+      items: [{ timeline: tlA, label: 'logo' }, { timeline: tlB, at: '-=200' }, { label: 'done', at: 1500 }],
+    });
+    const onUpdate = vi.fn();
+    const ctrl = createScenePlayback({ ...source(), composition: comp }, { onUpdate });
+    expect(ctrl.getOffset('tl-b')).toBe(800);
+    expect(ctrl.duration).toBe(1500);
+
+    const seen: string[] = [];
+    ctrl.on('marker', (e) => seen.push(`${e.marker!.label} ${e.timelineId ?? 'scene'}`));
+    ctrl.play();
+    vi.advanceTimersByTime(1600);
+    expect(seen).toEqual(['logo scene', 'done scene']);
+
+    ctrl.seek(1050);
+    const [states] = onUpdate.mock.calls.at(-1)!;
+    expect(states.b.opacity).toBeCloseTo(0.5);
+  });
+
+  it('lets the latest started timeline drive an actor', () => {
+    const fadeOut: Timeline = {
+      id: 'tl-a-out',
+      actorId: 'a',
+      keyframes: [{ at: 0, opacity: 1 }, { at: 500, opacity: 0, curve: 'linear' }],
+      duration: 500,
+    };
+    const onUpdate = vi.fn();
+    const ctrl = createScenePlayback(
+      { scene: { gradients: [] }, timelines: [fadeOut, tlA], triggers: [] },
+      { onUpdate, offsets: { 'tl-a-out': 1000 } },
+    );
+    ctrl.seek(500);
+    expect(onUpdate.mock.calls[0][0].a.position.x).toBeCloseTo(50);
+    expect(onUpdate.mock.calls[0][0].a.opacity).toBe(1);
+    ctrl.seek(1250);
+    expect(onUpdate.mock.calls[1][0].a.opacity).toBeCloseTo(0.5);
+  });
+});
@@ -82,6 +82,23 @@ describe('sequence', () => {
     expect(result.duration).toBe(500);
   });
 
+  it('shifts item markers to their start', () => {
+    const tl1 = timeline(actor, {
+      keyframes: [{ at: 0, opacity: 0 }, { at: 400, opacity: 1 }],
+      markers: [{ label: 'shown', at: 400 }],
+    });
+    const tl2 = timeline(actor, {
+      keyframes: [{ at: 0, opacity: 1 }, { at: 200, opacity: 0 }],
+      markers: [{ label: 'shown', at: 0 }, { label: 'gone', at: 200 }],
+    });
+    const result = sequence(actor, { items: [{ timeline: tl1 }, { timeline: tl2, delay: 100 }] });
+    // The earlier item keeps a shared label
+    expect(result.markers).toEqual([
+      { label: 'shown', at: 400 },
+      { label: 'gone', at: 700 },
+    ]);
+  });
+
   it('handles single item', () => {
     const tl = makeTl(actor, 1000);
     const result = sequence(actor, { items: [{ timeline: tl }] });
@@ -195,6 +212,17 @@ describe('stagger', () => {
       expect(tl.duration).toBeGreaterThan(0);
     }
   });
+
+  it('relative offsets template positions from each actor position', () => {
+    const actors = [makeActor('a1'), { ...makeActor('a2'), position: { x: 40, y: 10 } }];
+    const keyframes = [{ at: 0, position: { x: 0, y: 20 } }, { at: 300, position: { x: 0, y: 0 } }];
+
+    const result = stagger({ actors, keyframes, stagger: 100, relative: true });
+
+    expect(result[0].keyframes.find((kf) => kf.at === 0)!.position).toEqual({ x: 0, y: 20 });
+    expect(result[1].keyframes.find((kf) => kf.at === 100)!.position).toEqual({ x: 40, y: 30 });
+    expect(result[1].keyframes.find((kf) => kf.at === 400)!.position).toEqual({ x: 40, y: 10 });
+  });
 });
 
 describe('parallelDuration', () => {
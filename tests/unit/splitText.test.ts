@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { splitText } from '../../src/text/splitText';
+import { parseSvg } from '../../src/parser/parseSvg';
+import { stagger } from '../../src/timeline/sequence';
+import { getActorStateAtTime } from '../../src/timeline/interpolate';
+import { exportBundle } from '../../src/bundle/exportBundle';
+import { importBundle } from '../../src/bundle/importBundle';
+
+// Estimated advance is 0.55 × font size — 5.5 per character at size 10
+const scene = parseSvg(
+  '<svg viewBox="0 0 200 100"><text id="t" x="10" y="50" font-size="10">Hi <tspan fill="red">there</tspan> you</text></svg>',
+);
+
+describe('splitText', () => {
+  it('splits by character with measured positions, skipping spaces', () => {
+    const { actors, scene: split } = splitText(scene, 't', { by: 'char' });
+    expect(actors.map((a) => a.texts![0].content).join('')).toBe('Hithereyou');
+    expect(actors[1].texts![0].x).toBeCloseTo(15.5);
+    expect(actors[2].texts![0]).toMatchObject({ content: 't', fill: undefined, spans: [{ text: 't', fill: 'red' }] });
+    expect(actors[2].texts![0].x).toBeCloseTo(26.5);
+    expect(split.texts!.map((t) => t.id)).toEqual(actors.map((a) => a.textIds![0]));
+  });
+
+  it('splits by word', () => {
+    const { actors } = splitText(scene, 't', { by: 'word' });
+    expect(actors.map((a) => a.texts![0].content)).toEqual(['Hi', 'there', 'you']);
+    expect(actors[2].texts![0].x).toBeCloseTo(10 + 9 * 5.5);
+  });
+
+  it('splits lines at runs with their own position and applies the anchor per line', () => {
+    const multi = parseSvg(
+      '<svg viewBox="0 0 200 100"><text id="m" x="100" y="20" font-size="10" text-anchor="middle">'
+      + '<tspan x="100" dy="0">one two</tspan><tspan x="100" dy="12">four</tspan></text></svg>',
+    );
+    const { actors } = splitText(multi, 'm', { by: 'line' });
+    expect(actors.map((a) => a.texts![0].content)).toEqual(['one two', 'four']);
+    expect(actors[0].texts![0]).toMatchObject({ x: 100 - 38.5 / 2, y: 20, textAnchor: undefined });
+    expect(actors[1].texts![0]).toMatchObject({ x: 100 - 11, y: 32 });
+  });
+
+  it('links fragments to a content-less group actor', () => {
+    const { group, actors } = splitText(scene, 't', { by: 'word', id: 'title' });
+    expect(group.id).toBe('title');
+    expect(group.paths).toEqual([]);
+    expect(group.texts).toBeUndefined();
+    expect(group.childIds).toEqual(actors.map((a) => a.id));
+    expect(actors.every((a) => a.parentId === 'title')).toBe(true);
+  });
+
+  it('composes with stagger and survives a bundle round trip', () => {
+    const { scene: split, group, actors } = splitText(scene, 't', { by: 'word' });
+    const timelines = stagger({
+      actors,
+      keyframes: [{ at: 0, opacity: 0, position: { x: 0, y: 10 } }, { at: 200, opacity: 1, position: { x: 0, y: 0 } }],
+      stagger: 50,
+      from: 'center',
+      relative: true,
+    });
+    expect(timelines.map((tl) => tl.duration)).toEqual([250, 200, 250]);
+    expect(getActorStateAtTime(timelines[1], 200).position).toEqual(actors[1].position);
+
+    const imported = importBundle(exportBundle({ scene: split, actors: [group, ...actors], timelines }));
+    expect(imported.actors[0].childIds).toEqual(actors.map((a) => a.id));
+    expect(imported.actors[0].paths).toEqual([]);
+    expect(imported.actors[2].texts![0].content).toBe('there');
+  });
+
+  it('throws for unknown texts and split modes', () => {
+    expect(() => splitText(scene, 'nope', { by: 'char' })).toThrow('Unknown text "nope"');
+    // @ts-expect-error invalid mode
+    expect(() => splitText(scene, 't', { by: 'glyph' })).toThrow('Unknown text split "glyph"');
+  });
+});
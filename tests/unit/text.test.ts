@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { textRuns, revealRuns, estimateTextBounds } from '../../src/text/textLayout';
+import { parseSvg } from '../../src/parser/parseSvg';
+import { createActor } from '../../src/actor/createActor';
+import { getActorBounds } from '../../src/geometry/actorBounds';
+import { interpolateKeyframes } from '../../src/timeline/interpolate';
+import { timeline } from '../../src/timeline/timeline';
+import { exportBundle } from '../../src/bundle/exportBundle';
+import { importBundle } from '../../src/bundle/importBundle';
+import { validateBundle } from '../../src/bundle/validate';
+import type { Bundle, Keyframe, SvgText } from '../../src/types';
+
+const hello: SvgText = { id: 't', content: 'Hello world', x: 10, y: 50, fontSize: 20 };
+
+describe('parseSvg text', () => {
+  it('reads content, position and inherited font properties', () => {
+    const scene = parseSvg(
+      '<svg viewBox="0 0 100 100" font-family="Inter"><g font-size="10" fill="red">'
+      + '<text id="title" x="5 6 7" y="40" font-size="2em" text-anchor="middle" letter-spacing="1.5">Hi</text>'
+      + '</g></svg>',
+    );
+    expect(scene.texts).toEqual([expect.objectContaining({
+      id: 'title', content: 'Hi', x: 5, y: 40,
+      fontFamily: 'Inter', fontSize: 20, textAnchor: 'middle', letterSpacing: 1.5, fill: 'red',
+    })]);
+    expect(scene.texts![0].spans).toBeUndefined();
+  });
+
+  it('collapses whitespace and keeps styled tspans as runs', () => {
+    const scene = parseSvg(
+      '<svg viewBox="0 0 100 100"><text y="20">  Hello\n   <tspan font-weight="bold" fill="blue">big</tspan> world  </text></svg>',
+    );
+    const [text] = scene.texts!;
+    expect(text.id).toBe('text-1');
+    expect(text.content).toBe('Hello big world');
+    expect(text.spans).toEqual([
+      { text: 'Hello ' },
+      { text: 'big', fill: 'blue', fontWeight: 'bold' },
+      { text: ' world' },
+    ]);
+  });
+
+  it('skips empty and hidden text', () => {
+    const scene = parseSvg('<svg viewBox="0 0 10 10"><text> </text><text display="none">x</text></svg>');
+    expect(scene.texts).toEqual([]);
+  });
+
+  it('applies CSS rules to text', () => {
+    const scene = parseSvg(
+      '<svg viewBox="0 0 10 10"><style>.label { font-size: 12px; fill: #333 }</style><text class="label">A</text></svg>',
+    );
+    expect(scene.texts![0]).toMatchObject({ fontSize: 12, fill: '#333' });
+  });
+});
+
+describe('text layout', () => {
+  it('falls back to a single run of the content', () => {
+    expect(textRuns(hello)).toEqual([{ text: 'Hello world' }]);
+  });
+
+  it('reveals characters across runs typewriter-style', () => {
+    const text: SvgText = { ...hello, content: 'abcdef', spans: [{ text: 'abc' }, { text: 'def', fill: 'red' }] };
+    expect(revealRuns(text, 0.5).map((r) => r.text)).toEqual(['abc', '']);
+    expect(revealRuns(text, 2 / 3)).toEqual([{ text: 'abc' }, { text: 'd', fill: 'red' }]);
+    expect(revealRuns(text, 0).map((r) => r.text)).toEqual(['', '']);
+    expect(revealRuns(text)).toBe(text.spans);
+  });
+
+  it('estimates bounds from the font size, spacing and anchor', () => {
+    expect(estimateTextBounds({ id: 'a', content: 'ab', x: 0, y: 20, fontSize: 10 }))
+      .toEqual({ x: 0, y: 12, w: 11, h: 10 });
+    const b = estimateTextBounds({ id: 'a', content: 'ab', x: 0, y: 20, fontSize: 10, textAnchor: 'end' }, { letterSpacing: 4 });
+    expect(b.x).toBeCloseTo(-15);
+    expect(b.w).toBeCloseTo(15);
+  });
+});
+
+describe('text actors', () => {
+  it('can hold only text, with the origin resolved from its box', () => {
+    const actor = createActor({ id: 'label', paths: [], texts: [hello], origin: 'top-left' });
+    expect(actor.pathIds).toEqual([]);
+    expect(actor.textIds).toEqual(['t']);
+    expect(actor.origin).toEqual({ x: 10, y: 34 });
+  });
+
+  it('requires a path or a text', () => {
+    expect(() => createActor({ id: 'x', paths: [], origin: 'center' })).toThrow(/at least one path or text/);
+  });
+
+  it('measures text at the animated font size', () => {
+    const actor = createActor({ id: 'label', paths: [], texts: [hello], origin: { x: 0, y: 0 } });
+    const state = interpolateKeyframes([{ at: 0, fontSize: 40 }], 0);
+    expect(getActorBounds(actor)!.h).toBeCloseTo(20);
+    expect(getActorBounds(actor, { ...state, position: { x: 0, y: 0 }, scale: 1, rotation: 0, opacity: 1 })!.h).toBeCloseTo(40);
+  });
+});
+
+describe('text keyframes', () => {
+  it('interpolates fontSize, letterSpacing and textReveal', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, fontSize: 10, textReveal: 0 },
+      { at: 1000, fontSize: 30, letterSpacing: 4, textReveal: 1, curve: 'linear' },
+    ];
+    const mid = interpolateKeyframes(kfs, 500);
+    expect(mid.fontSize).toBeCloseTo(20);
+    expect(mid.textReveal).toBeCloseTo(0.5);
+    expect(mid.letterSpacing).toBe(4);
+  });
+});
+
+describe('text bundles', () => {
+  const scene = parseSvg('<svg viewBox="0 0 100 100"><path id="bg" d="M0,0 H100 V100 H0 Z"/><text id="t" x="10" y="50">Hi</text></svg>');
+  const actor = createActor({ id: 'label', paths: [], texts: scene.texts, origin: 'center' });
+  const tl = timeline(actor, { keyframes: [{ at: 0, textReveal: 0 }, { at: 500, textReveal: 1, fontSize: 24 }] });
+
+  it('round-trips texts, text actors and text channels as version 1.4', () => {
+    const json = exportBundle({ scene, actors: [actor], timelines: [tl] });
+    const bundle: Bundle = JSON.parse(json);
+    expect(bundle.version).toBe('1.4');
+    expect(bundle.actors[0].textIds).toEqual(['t']);
+    expect(bundle.timelines[0].keyframes[1]).toMatchObject({ textReveal: 1, fontSize: 24 });
+    expect(validateBundle(bundle).valid).toBe(true);
+
+    const imported = importBundle(json);
+    expect(imported.scene.texts?.map((t) => t.content)).toEqual(['Hi']);
+    expect(imported.actors[0].paths).toEqual([]);
+    expect(imported.actors[0].texts?.map((t) => t.id)).toEqual(['t']);
+    expect(imported.actors[0].origin).toEqual(actor.origin);
+  });
+
+  it('rejects textReveal outside 0..1', () => {
+    const bundle: Bundle = JSON.parse(exportBundle({ scene, actors: [actor], timelines: [tl] }));
+    bundle.timelines[0].keyframes[1].textReveal = 1.5;
+    expect(validateBundle(bundle).errors).toContain('Timeline[0].keyframes[1].textReveal must be between 0 and 1.');
+  });
+});
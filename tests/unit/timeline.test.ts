@@ -67,12 +67,42 @@ describe('timeline', () => {
     expect(first.opacity).toBe(0.5);
   });
 
+  it('keeps path and size channels on the first keyframe', () => {
+    const tl = timeline(mockActor, {
+      keyframes: [
+        { at: 0, pathD: 'M0,0 L10,0', width: 20, height: 10 },
+        { at: 1000, pathD: 'M0,0 L20,0' },
+      ],
+    });
+    expect(tl.keyframes[0]).toMatchObject({ pathD: 'M0,0 L10,0', width: 20, height: 10 });
+  });
+
   it('assigns actorId and unique id', () => {
     const tl = timeline(mockActor, { keyframes: [{ at: 0 }, { at: 500 }] });
     expect(tl.actorId).toBe('actor-t');
     expect(tl.id).toContain('tl-actor-t');
   });
 
+  it('sorts markers and omits an empty list', () => {
+    const kfs: Keyframe[] = [{ at: 0 }, { at: 1000 }];
+    const tl = timeline(mockActor, {
+      keyframes: kfs,
+      markers: [{ label: 'end', at: 1000 }, { label: 'mid', at: 500 }],
+    });
+    expect(tl.markers).toEqual([{ label: 'mid', at: 500 }, { label: 'end', at: 1000 }]);
+    expect(timeline(mockActor, { keyframes: kfs, markers: [] })).not.toHaveProperty('markers');
+  });
+
+  it('throws on duplicate or out-of-range markers', () => {
+    const keyframes: Keyframe[] = [{ at: 0 }, { at: 1000 }];
+    expect(() => timeline(mockActor, {
+      keyframes,
+      markers: [{ label: 'a', at: 0 }, { label: 'a', at: 500 }],
+    })).toThrow('two markers labelled "a"');
+    expect(() => timeline(mockActor, { keyframes, markers: [{ label: 'late', at: 1200 }] }))
+      .toThrow('marker "late" at 1200ms is outside the timeline');
+  });
+
   it('throws with no keyframes', () => {
     expect(() => timeline(mockActor, { keyframes: [] })).toThrow('at least one keyframe');
   });
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTransform,
+  multiplyMatrix,
+  invertMatrix,
+  applyMatrix,
+  matrixToString,
+  fitViewBox,
+  IDENTITY_MATRIX,
+} from '../../src/transform/matrix';
+import { transformPathD, bakeTransforms, getPathMatrix } from '../../src/transform/bakeTransforms';
+import { parseSvg } from '../../src/parser/parseSvg';
+import { getPathLength } from '../../src/timeline/motionPath';
+
+const close = (p: { x: number; y: number }, x: number, y: number) => {
+  expect(p.x).toBeCloseTo(x, 6);
+  expect(p.y).toBeCloseTo(y, 6);
+};
+
+describe('parseTransform', () => {
+  it('parses each transform function', () => {
+    expect(parseTransform('translate(10, 20)')).toEqual({ a: 1, b: 0, c: 0, d: 1, e: 10, f: 20 });
+    expect(parseTransform('translate(5)')).toEqual({ a: 1, b: 0, c: 0, d: 1, e: 5, f: 0 });
+    expect(parseTransform('scale(2)')).toEqual({ a: 2, b: 0, c: 0, d: 2, e: 0, f: 0 });
+    expect(parseTransform('scale(2 3)')).toEqual({ a: 2, b: 0, c: 0, d: 3, e: 0, f: 0 });
+    expect(parseTransform('matrix(1,2,3,4,5,6)')).toEqual({ a: 1, b: 2, c: 3, d: 4, e: 5, f: 6 });
+    close(applyMatrix(parseTransform('rotate(90)'), { x: 1, y: 0 }), 0, 1);
+    close(applyMatrix(parseTransform('rotate(90 10 10)'), { x: 20, y: 10 }), 10, 20);
+    close(applyMatrix(parseTransform('skewX(45)'), { x: 0, y: 10 }), 10, 10);
+    close(applyMatrix(parseTransform('skewY(45)'), { x: 10, y: 0 }), 10, 10);
+  });
+
+  it('composes a list left to right, outermost first', () => {
+    const m = parseTransform('translate(100,0) scale(2)');
+    expect(applyMatrix(m, { x: 1, y: 1 })).toEqual({ x: 102, y: 2 });
+    expect(parseTransform('scale(2),translate(1e1 -.5)')).toEqual({ a: 2, b: 0, c: 0, d: 2, e: 20, f: -1 });
+  });
+
+  it('returns the identity for empty or malformed lists', () => {
+    expect(parseTransform(undefined)).toEqual(IDENTITY_MATRIX);
+    expect(parseTransform('  ')).toEqual(IDENTITY_MATRIX);
+    expect(parseTransform('translate(1,2) wobble(3)')).toEqual(IDENTITY_MATRIX);
+    expect(parseTransform('matrix(1,2,3)')).toEqual(IDENTITY_MATRIX);
+  });
+});
+
+describe('matrix helpers', () => {
+  it('inverts and multiplies', () => {
+    const m = parseTransform('translate(3,4) rotate(30) scale(2,5) skewX(10)');
+    const inv = invertMatrix(m)!;
+    const p = applyMatrix(multiplyMatrix(inv, m), { x: 7, y: -2 });
+    close(p, 7, -2);
+    expect(invertMatrix(parseTransform('scale(0)'))).toBeNull();
+  });
+
+  it('serializes as matrix()', () => {
+    expect(matrixToString(parseTransform('translate(1.5,2) scale(3)'))).toBe('matrix(3,0,0,3,1.5,2)');
+  });
+
+  it('fits a viewBox into a viewport, centered', () => {
+    const m = fitViewBox({ x: 10, y: 0, w: 100, h: 50 }, 400, 400);
+    close(applyMatrix(m, { x: 10, y: 0 }), 0, 100);
+    close(applyMatrix(m, { x: 110, y: 50 }), 400, 300);
+  });
+});
+
+describe('transformPathD', () => {
+  it('maps every command to absolute coordinates', () => {
+    const m = parseTransform('translate(10,0)');
+    expect(transformPathD('M0,0 h5 v5 l-5,0 z m1,1 c1,0 1,1 0,1 s-1,1 0,2 q1,1 2,0 t2,0', m)).toBe(
+      'M10,0 L15,0 L15,5 L10,5 Z M11,1 C12,1 12,2 11,2 S10,3 11,4 Q12,5 13,4 T15,4',
+    );
+  });
+
+  it('keeps arcs exact under rotation, scale and reflection', () => {
+    const arc = 'M0,0 A10,5 0 0 1 20,0';
+    const length = getPathLength(arc);
+
+    const rotated = transformPathD(arc, parseTransform('rotate(90)'));
+    expect(rotated).toBe('M0,0 A10,5 90 0,1 0,20');
+
+    const scaled = transformPathD(arc, parseTransform('scale(2)'));
+    expect(scaled).toBe('M0,0 A20,10 0 0,1 40,0');
+    expect(getPathLength(scaled)).toBeCloseTo(length * 2, 1);
+
+    const squashed = transformPathD('M0,0 A10,10 0 0 1 20,0', parseTransform('scale(1,0.5)'));
+    expect(squashed).toBe('M0,0 A10,5 0 0,1 20,0');
+
+    const mirrored = transformPathD(arc, parseTransform('scale(-1,1)'));
+    expect(mirrored).toBe('M0,0 A10,5 0 0,0 -20,0');
+  });
+});
+
+describe('bakeTransforms', () => {
+  const scene = parseSvg(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+    <g id="outer" transform="translate(10,10)">
+      <g id="inner" transform="scale(2)">
+        <path id="a" d="M0,0 L5,0" stroke="#000" stroke-width="1" transform="translate(1,0)"/>
+      </g>
+    </g>
+    <path id="b" d="M0,0 L1,0"/>
+  </svg>`);
+
+  it('composes nested group transforms for a path', () => {
+    expect(applyMatrix(getPathMatrix(scene, 'a'), { x: 0, y: 0 })).toEqual({ x: 12, y: 10 });
+    expect(getPathMatrix(scene, 'b')).toEqual(IDENTITY_MATRIX);
+    expect(() => getPathMatrix(scene, 'nope')).toThrow('Unknown path "nope"');
+  });
+
+  it('rewrites geometry into viewBox space and drops transforms', () => {
+    const baked = bakeTransforms(scene);
+    expect(baked.paths[0]).toMatchObject({ d: 'M12,10 L22,10', strokeWidth: 2, transform: undefined });
+    expect(baked.paths[0].bounds).toEqual({ x: 12, y: 10, w: 10, h: 0 });
+    expect(baked.paths[1].d).toBe('M0,0 L1,0');
+    expect(baked.groups[0]).toMatchObject({ transform: undefined, children: [{ transform: undefined }] });
+    expect((baked.groups[0].children[0] as { children: unknown[] }).children[0]).toBe(baked.paths[0]);
+    // The input scene is untouched
+    expect(scene.paths[0].transform).toBe('translate(1,0)');
+  });
+
+  it('places expanded <use> instances', () => {
+    const sprite = parseSvg(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+      <symbol id="s" viewBox="0 0 10 10"><path id="p" d="M0,0 L10,10"/></symbol>
+      <use id="u" href="#s" x="50" width="20" height="20"/>
+    </svg>`);
+    expect(bakeTransforms(sprite).paths[0].d).toBe('M50,0 L70,20');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { trimToDash } from '../../src/timeline/trimPath';
+import { getPathLength } from '../../src/timeline/motionPath';
+import { interpolateKeyframes } from '../../src/timeline/interpolate';
+import type { Keyframe } from '../../src/types';
+
+describe('getPathLength', () => {
+  it('measures lines, curves and closed paths', () => {
+    expect(getPathLength('M0,0 L30,40')).toBeCloseTo(50, 5);
+    expect(getPathLength('M0,0 H10 V10 H0 Z')).toBeCloseTo(40, 5);
+    expect(getPathLength('M0,50 A50,50 0 0 1 100,50')).toBeCloseTo(Math.PI * 50, 0);
+    expect(getPathLength('M0,0 l10,0 m10,0 l10,0')).toBeCloseTo(20, 5);
+  });
+
+  it('returns 0 for paths without length', () => {
+    expect(getPathLength('M5,5')).toBe(0);
+    expect(getPathLength('')).toBe(0);
+  });
+});
+
+describe('trimToDash', () => {
+  const line = 'M0,0 L100,0';
+
+  it('returns null without trim channels', () => {
+    expect(trimToDash(line, {})).toBeNull();
+    expect(trimToDash('M5,5', { trimEnd: 0.5 })).toBeNull();
+  });
+
+  it('shows the range from trimStart to trimEnd', () => {
+    expect(trimToDash(line, { trimEnd: 0.25 })).toEqual({ dasharray: '25 75', dashoffset: 0 });
+    expect(trimToDash(line, { trimStart: 0.5, trimEnd: 0.75 })).toEqual({ dasharray: '25 75', dashoffset: -50 });
+    expect(trimToDash(line, { trimStart: 0, trimEnd: 1 })).toEqual({ dasharray: '100 0', dashoffset: 0 });
+  });
+
+  it('swaps a reversed range and clamps to the path', () => {
+    expect(trimToDash(line, { trimStart: 0.75, trimEnd: 0.5 })).toEqual({ dasharray: '25 75', dashoffset: -50 });
+    expect(trimToDash(line, { trimStart: -1, trimEnd: 2 })).toEqual({ dasharray: '100 0', dashoffset: 0 });
+  });
+
+  it('wraps the offset around the path', () => {
+    expect(trimToDash(line, { trimEnd: 0.5, trimOffset: 0.75 })!.dashoffset).toBe(-75);
+    expect(trimToDash(line, { trimEnd: 0.5, trimOffset: 1.25 })!.dashoffset).toBe(-25);
+    expect(trimToDash(line, { trimEnd: 0.5, trimOffset: -0.25 })!.dashoffset).toBe(-75);
+  });
+});
+
+describe('trim keyframes', () => {
+  it('interpolates trim channels independently', () => {
+    const kfs: Keyframe[] = [
+      { at: 0, trimEnd: 0 },
+      { at: 1000, trimEnd: 1, curve: 'linear' },
+      { at: 2000, trimStart: 1, curve: 'linear' },
+    ];
+    const mid = interpolateKeyframes(kfs, 500);
+    expect(mid.trimEnd).toBeCloseTo(0.5, 5);
+    expect(mid.trimStart).toBe(1);
+    expect(mid.trimOffset).toBeUndefined();
+  });
+});
@@ -93,6 +93,13 @@ describe('validateBundle', () => {
     expect(result.errors.some((e) => e.includes('Actor[0]') && e.includes('origin'))).toBe(true);
   });
 
+  it('reports an origin that is not a point', () => {
+    const b = validBundle();
+    (b.actors[0] as any).origin = 'center';
+    const result = validateBundle(b);
+    expect(result.errors).toContain('Actor[0] "origin" must be a point { x, y }.');
+  });
+
   it('reports missing timelines', () => {
     const b = validBundle();
     (b as any).timelines = undefined;
@@ -178,4 +185,77 @@ describe('validateBundle', () => {
     const result = validateBundle(b);
     expect(result.errors.some((e) => e.includes('Variant[0]') && e.includes('name'))).toBe(true);
   });
+
+  it('accepts a keyframe motion path', () => {
+    const b = validBundle();
+    b.timelines[0].keyframes[1].motionPath = { d: 'M0,0 L10,10', start: 0, end: 1, autoRotate: true };
+    expect(validateBundle(b).valid).toBe(true);
+  });
+
+  it('reports invalid motion paths', () => {
+    const b = validBundle();
+    b.timelines[0].keyframes[1].motionPath = { d: 'L10,10', end: 2 };
+    const result = validateBundle(b);
+    expect(result.errors).toContain('Timeline[0].keyframes[1].motionPath needs a "d" starting with a moveto.');
+    expect(result.errors).toContain('Timeline[0].keyframes[1].motionPath.end must be between 0 and 1.');
+  });
+
+  it('reports unsupported versions', () => {
+    const b = validBundle();
+    b.version = '2.0';
+    expect(validateBundle(b).errors).toContain('Unsupported version "2.0" — expected 1.x.');
+  });
+
+  it('reports trim values out of range', () => {
+    const b = validBundle();
+    b.timelines[0].keyframes[1].trimEnd = 1.5;
+    expect(validateBundle(b).errors).toContain('Timeline[0].keyframes[1].trimEnd must be between 0 and 1.');
+  });
+
+  it('reports invalid markers', () => {
+    const b = validBundle();
+    b.timelines[0].markers = [
+      { label: 'a', at: 100 },
+      { label: 'a', at: 200 },
+      { label: '', at: 0 },
+      { label: 'late', at: 1500 },
+    ];
+    const { errors } = validateBundle(b);
+    expect(errors).toContain('Timeline[0].markers[1] duplicate label "a".');
+    expect(errors).toContain('Timeline[0].markers[2] missing or invalid "label".');
+    expect(errors).toContain('Timeline[0].markers[3].at must be between 0 and the timeline duration (1000ms).');
+  });
+
+  it('accepts a composition', () => {
+    const b = validBundle();
+    b.timelines.push({ actorId: 'a1', keyframes: [{ at: 0 }, { at: 500 }] });
+    b.composition = {
+      items: [
+        { timelineIdx: 0, label: 'in' },
+        { composition: { items: [{ timelineIdx: 1, label: 'inner' }] }, at: 'in+=100' },
+        { label: 'end', at: 'inner' },
+      ],
+    };
+    expect(validateBundle(b)).toEqual({ valid: true, errors: [] });
+  });
+
+  it('reports invalid composition items', () => {
+    const b = validBundle();
+    b.composition = {
+      items: [
+        { timelineIdx: 0, label: 'a' },
+        { timelineIdx: 0 },
+        { timelineIdx: 4, at: 'nope' },
+        { label: 'a', at: '<<' },
+        { at: 100 },
+      ],
+    };
+    const { errors } = validateBundle(b);
+    expect(errors).toContain('Composition.items[1].timelineIdx 0 is placed twice.');
+    expect(errors).toContain('Composition.items[2].timelineIdx 4 out of range (0..0).');
+    expect(errors).toContain('Composition.items[2].at refers to unknown label "nope".');
+    expect(errors).toContain('Composition.items[3].at is not a valid position.');
+    expect(errors).toContain('Composition.items[3] duplicate label "a".');
+    expect(errors).toContain('Composition.items[4] needs a "timelineIdx", a "composition" or a "label".');
+  });
 });
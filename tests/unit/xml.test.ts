@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeXml, parseXml, textContent, childElements } from '../../src/parser/xml';
+
+describe('tokenizeXml', () => {
+  it('produces open, close, text, comment and CDATA tokens', () => {
+    const tokens = [...tokenizeXml('<a x="1"><!-- c --><b/>t<![CDATA[<raw>]]></a>')];
+    expect(tokens).toEqual([
+      { type: 'open', name: 'a', attributes: { x: '1' }, selfClosing: false },
+      { type: 'comment', value: ' c ' },
+      { type: 'open', name: 'b', attributes: {}, selfClosing: true },
+      { type: 'text', value: 't' },
+      { type: 'cdata', value: '<raw>' },
+      { type: 'close', name: 'a' },
+    ]);
+  });
+
+  it('reads single, double and unquoted attribute values', () => {
+    const [open] = tokenizeXml(`<p a='1' b = "two words" c=3 d/>`);
+    expect(open).toMatchObject({ attributes: { a: '1', b: 'two words', c: '3', d: '' }, selfClosing: true });
+  });
+
+  it('keeps > and quotes of the other kind inside attribute values', () => {
+    const [open] = tokenizeXml(`<p title="a > b" alt='say "hi"'/>`);
+    expect(open).toMatchObject({ attributes: { title: 'a > b', alt: 'say "hi"' } });
+  });
+
+  it('decodes entities in text and attributes', () => {
+    const tokens = [...tokenizeXml('<t v="&lt;&#65;&#x42;&amp;">&quot;x&apos; &unknown;</t>')];
+    expect(tokens[0]).toMatchObject({ attributes: { v: '<AB&' } });
+    expect(tokens[1]).toEqual({ type: 'text', value: `"x' &unknown;` });
+  });
+
+  it('skips the XML declaration and DOCTYPE with an internal subset', () => {
+    const xml = '<?xml version="1.0"?><!DOCTYPE svg [ <!ENTITY e "x"> ]><svg/>';
+    expect([...tokenizeXml(xml)]).toEqual([{ type: 'open', name: 'svg', attributes: {}, selfClosing: true }]);
+  });
+
+  it('throws on unterminated constructs', () => {
+    expect(() => [...tokenizeXml('<svg')]).toThrow(/unterminated <svg>/);
+    expect(() => [...tokenizeXml('<!-- open')]).toThrow(/unterminated comment/);
+    expect(() => [...tokenizeXml('<p a="1/>')]).toThrow(/unterminated attribute "a"/);
+  });
+});
+
+describe('parseXml', () => {
+  it('builds a nested element tree', () => {
+    const root = parseXml('<svg><g id="a"><g id="b"><path/></g><rect/></g></svg>');
+    expect(root.name).toBe('svg');
+    const [outer] = childElements(root);
+    expect(childElements(outer).map((c) => c.name)).toEqual(['g', 'rect']);
+    expect(childElements(childElements(outer)[0]).map((c) => c.name)).toEqual(['path']);
+  });
+
+  it('keeps text and CDATA content', () => {
+    const root = parseXml('<style>a{}<![CDATA[ b > c {} ]]></style>');
+    expect(textContent(root)).toBe('a{} b > c {} ');
+  });
+
+  it('recovers from mismatched and stray closing tags', () => {
+    const root = parseXml('<svg><g><path></g><rect/></i></svg>');
+    expect(childElements(root).map((c) => c.name)).toEqual(['g', 'rect']);
+  });
+
+  it('throws when there is no root element', () => {
+    expect(() => parseXml('<!-- nothing -->')).toThrow('no root element');
+  });
+});